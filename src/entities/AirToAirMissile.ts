@@ -0,0 +1,234 @@
+import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Color4, TransformNode, DynamicTexture } from '@babylonjs/core';
+import { GameClock } from '../utils/GameClock';
+import { AirToAirGuidanceState, MissileGuidanceResult } from '../workers/worker-protocol';
+
+// Short-range heat seeker fired by interceptors
+export class AirToAirMissile {
+    private scene: Scene;
+    private gameClock: GameClock;
+    private missileGroup: TransformNode;
+    private fuselage!: Mesh;
+    private position: Vector3;
+    private velocity: Vector3;
+    private targetPosition: Vector3;
+    private speed: number = 110; // Outruns the interceptor that fired it
+    private turnRate: number = 2.5;
+    private launched: boolean = false;
+    private exploded: boolean = false;
+    private exhaustParticles!: ParticleSystem;
+    private lifeTime: number = 0;
+    private maxLifeTime: number = 6; // Short-range motor burns out quickly
+    private isTargetingFlare: boolean = false; // Spoofed by a flare; it never comes back to the bomber
+    private flareDetectionRange: number = 60;
+
+    constructor(scene: Scene, launchPosition: Vector3, launchVelocity: Vector3, targetPosition: Vector3, gameClock: GameClock) {
+        this.scene = scene;
+        this.gameClock = gameClock;
+        this.position = launchPosition.clone();
+        this.targetPosition = targetPosition.clone();
+
+        // Leaves the rail along the launcher's flight path
+        this.velocity = launchVelocity.normalizeToNew().scale(this.speed);
+
+        this.missileGroup = new TransformNode('airToAirMissileGroup', this.scene);
+        this.missileGroup.position = this.position.clone();
+
+        const horizontalSpeed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
+        this.missileGroup.rotation.y = Math.atan2(this.velocity.x, this.velocity.z);
+        this.missileGroup.rotation.x = Math.atan2(-this.velocity.y, horizontalSpeed);
+
+        this.createMissileModel();
+        this.setupParticleEffects();
+    }
+
+    private createMissileModel(): void {
+        this.fuselage = MeshBuilder.CreateCylinder('airToAirMissileFuselage', {
+            height: 2.5,
+            diameter: 0.15,
+            tessellation: 6
+        }, this.scene);
+
+        this.fuselage.rotation.x = Math.PI / 2; // Orient horizontally
+        this.fuselage.parent = this.missileGroup;
+
+        const fuselageMaterial = new StandardMaterial('airToAirMissileFuselageMaterial', this.scene);
+        fuselageMaterial.diffuseColor = new Color3(0.85, 0.85, 0.85);
+        fuselageMaterial.specularColor = new Color3(0.3, 0.3, 0.3);
+        fuselageMaterial.emissiveColor = new Color3(0.1, 0.1, 0.1);
+        this.fuselage.material = fuselageMaterial;
+
+        // Seeker head
+        const seeker = MeshBuilder.CreateSphere('airToAirMissileSeeker', { diameter: 0.15 }, this.scene);
+        seeker.position.z = 1.25;
+        seeker.parent = this.missileGroup;
+
+        const seekerMaterial = new StandardMaterial('airToAirMissileSeekerMaterial', this.scene);
+        seekerMaterial.diffuseColor = new Color3(0.2, 0.1, 0.3);
+        seekerMaterial.emissiveColor = new Color3(0.3, 0.1, 0.4);
+        seeker.material = seekerMaterial;
+
+        // Tail fins
+        [0, Math.PI / 2].forEach((angle, index) => {
+            const fin = MeshBuilder.CreateBox(`airToAirMissileFin${index}`, {
+                width: 0.6,
+                height: 0.02,
+                depth: 0.3
+            }, this.scene);
+
+            fin.position.z = -1.1;
+            fin.rotation.z = angle;
+            fin.parent = this.missileGroup;
+            fin.material = fuselageMaterial;
+        });
+    }
+
+    private setupParticleEffects(): void {
+        this.exhaustParticles = new ParticleSystem('airToAirMissileExhaust', 40, this.scene);
+        this.exhaustParticles.particleTexture = new Texture("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==", this.scene);
+
+        // Create emitter at rear of missile
+        const emitterMesh = MeshBuilder.CreateSphere('airToAirMissileEmitter', { diameter: 0.05 }, this.scene);
+        emitterMesh.position = new Vector3(0, 0, -1.3);
+        emitterMesh.parent = this.missileGroup;
+        emitterMesh.isVisible = false;
+
+        this.exhaustParticles.emitter = emitterMesh;
+        this.exhaustParticles.minEmitBox = new Vector3(-0.03, -0.03, -0.03);
+        this.exhaustParticles.maxEmitBox = new Vector3(0.03, 0.03, 0.03);
+
+        this.exhaustParticles.color1 = new Color4(1, 0.9, 0.6, 1.0);
+        this.exhaustParticles.color2 = new Color4(0.9, 0.9, 0.9, 0.6); // White smoke trail
+        this.exhaustParticles.colorDead = new Color4(0.5, 0.5, 0.5, 0.0);
+
+        this.exhaustParticles.emitRate = 40;
+        this.exhaustParticles.minLifeTime = 0.3;
+        this.exhaustParticles.maxLifeTime = 0.8;
+        this.exhaustParticles.minSize = 0.2;
+        this.exhaustParticles.maxSize = 0.5;
+        this.exhaustParticles.minEmitPower = 10;
+        this.exhaustParticles.maxEmitPower = 15;
+        this.exhaustParticles.updateSpeed = 0.01;
+
+        this.exhaustParticles.direction1 = new Vector3(-0.1, -0.1, -1);
+        this.exhaustParticles.direction2 = new Vector3(0.1, 0.1, -1);
+        this.exhaustParticles.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+    }
+
+    public launch(): void {
+        if (this.launched) return;
+
+        this.launched = true;
+        this.exhaustParticles.start();
+    }
+
+    // Flight is stepped by MissileGuidanceManager
+    public getGuidanceState(id: string): AirToAirGuidanceState {
+        const rotation = this.missileGroup.rotation;
+        return {
+            id,
+            missileType: 'air-to-air',
+            position: { x: this.position.x, y: this.position.y, z: this.position.z },
+            velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+            rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+            targetPosition: { x: this.targetPosition.x, y: this.targetPosition.y, z: this.targetPosition.z },
+            speed: this.speed,
+            turnRate: this.turnRate,
+            lifeTime: this.lifeTime,
+            maxLifeTime: this.maxLifeTime,
+            isTargetingFlare: this.isTargetingFlare,
+            flareDetectionRange: this.flareDetectionRange
+        };
+    }
+
+    public applyGuidance(result: MissileGuidanceResult): void {
+        if (!this.launched || this.exploded || result.state.missileType !== 'air-to-air') return;
+
+        const state = result.state;
+        this.position.set(state.position.x, state.position.y, state.position.z);
+        this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+        this.targetPosition.set(state.targetPosition.x, state.targetPosition.y, state.targetPosition.z);
+        this.lifeTime = state.lifeTime;
+        this.isTargetingFlare = state.isTargetingFlare;
+        this.missileGroup.position = this.position;
+        this.missileGroup.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
+
+        if (result.shouldExplode) {
+            this.explode();
+        }
+    }
+
+    public explode(): void {
+        if (this.exploded) return;
+
+        this.exploded = true;
+        this.exhaustParticles.stop();
+
+        // Create procedural explosion texture
+        const explosionTexture = new DynamicTexture('airToAirMissileExplosionTexture', {width: 64, height: 64}, this.scene);
+        const explosionContext = explosionTexture.getContext();
+
+        const explosionGradient = explosionContext.createRadialGradient(32, 32, 0, 32, 32, 32);
+        explosionGradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        explosionGradient.addColorStop(0.3, 'rgba(255, 220, 100, 0.8)');
+        explosionGradient.addColorStop(0.7, 'rgba(255, 120, 0, 0.4)');
+        explosionGradient.addColorStop(1, 'rgba(200, 0, 0, 0)');
+
+        explosionContext.fillStyle = explosionGradient;
+        explosionContext.fillRect(0, 0, 64, 64);
+        explosionTexture.update();
+
+        const explosionParticles = new ParticleSystem('airToAirMissileExplosion', 200, this.scene);
+        explosionParticles.particleTexture = explosionTexture;
+        explosionParticles.emitter = this.position;
+        explosionParticles.minEmitBox = new Vector3(-0.5, -0.5, -0.5);
+        explosionParticles.maxEmitBox = new Vector3(0.5, 0.5, 0.5);
+
+        explosionParticles.color1 = new Color4(1, 0.9, 0.3, 1.0);
+        explosionParticles.color2 = new Color4(1, 0.5, 0, 1.0);
+        explosionParticles.colorDead = new Color4(0.3, 0.1, 0, 0.0);
+
+        explosionParticles.minSize = 0.5;
+        explosionParticles.maxSize = 2.0;
+        explosionParticles.minLifeTime = 0.3;
+        explosionParticles.maxLifeTime = 0.9;
+        explosionParticles.emitRate = 500;
+        explosionParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
+        explosionParticles.gravity = new Vector3(0, -9.81, 0);
+        explosionParticles.direction1 = new Vector3(-3, 2, -3);
+        explosionParticles.direction2 = new Vector3(3, 5, 3);
+        explosionParticles.minEmitPower = 3;
+        explosionParticles.maxEmitPower = 8;
+
+        explosionParticles.start();
+
+        // Stop particles after a short time
+        this.gameClock.schedule(0.1, () => {
+            explosionParticles.stop();
+            this.gameClock.schedule(2, () => {
+                explosionParticles.dispose();
+            });
+        });
+
+        // Hide the missile mesh
+        this.missileGroup.setEnabled(false);
+    }
+
+    public getPosition(): Vector3 {
+        return this.position.clone();
+    }
+
+    public isLaunched(): boolean {
+        return this.launched;
+    }
+
+    public hasExploded(): boolean {
+        return this.exploded;
+    }
+
+    public dispose(): void {
+        if (this.exhaustParticles) {
+            this.exhaustParticles.dispose();
+        }
+        this.missileGroup.dispose();
+    }
+}
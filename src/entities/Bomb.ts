@@ -1,37 +1,189 @@
 import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Sound, Color4, PointLight, DynamicTexture } from '@babylonjs/core';
+import { GameClock } from '../utils/GameClock';
+import { BallisticsEnvironment, BallisticState, stepBallistic } from '../utils/BombBallistics';
+import { BombWeaponType } from '../utils/WeaponLoadout';
+import { BOMB_DAMAGE_PROFILES } from '../utils/CollisionResolver';
+import type { BombDamageProfile, SnapshotBomb } from '../workers/worker-protocol';
+
+export type BombKind = SnapshotBomb['kind'];
+
+// Loadout weapon -> the bomb it releases
+export const BOMB_WEAPON_KINDS: Record<BombWeaponType, BombKind> = {
+    bomb: 'standard',
+    cluster: 'cluster',
+    'bunker-buster': 'bunker-buster'
+};
+
+// Explosion size and particle budget relative to a standard bomb
+const BOMB_EFFECT_SCALES: Record<BombKind, number> = {
+    standard: 1,
+    cluster: 0.3,
+    submunition: 0.35,
+    'bunker-buster': 1.3
+};
+
+// Cluster canisters open at this height above the terrain and scatter submunitions over the footprint
+export const CLUSTER_DISPENSE_ALTITUDE = 40;
+export const CLUSTER_FOOTPRINT_RADIUS = 35;
+const CLUSTER_INNER_RING = 4; // Submunitions thrown to half the footprint radius
+const CLUSTER_OUTER_RING = 8; // Submunitions thrown to the full footprint radius
+
+// Farthest a bomb of this kind can do damage from its ballistic impact point
+export function getBombReachRadius(kind: BombKind, profiles: Record<BombKind, BombDamageProfile> = BOMB_DAMAGE_PROFILES): number {
+    return kind === 'cluster'
+        ? CLUSTER_FOOTPRINT_RADIUS + profiles.submunition.blastRadius
+        : profiles[kind].blastRadius;
+}
 
 export class Bomb {
     private scene: Scene;
+    private gameClock: GameClock;
+    private kind: BombKind;
     private mesh: Mesh;
     private position: Vector3;
-    private velocity: Vector3;
+    private ballisticState: BallisticState; // Plain copy the ballistics step works on
     private fireParticles!: ParticleSystem;
     private smokeParticles!: ParticleSystem;
     private explosionSound: Sound | null = null;
     private trailParticles!: ParticleSystem;
     private light!: PointLight;
 
-    constructor(scene: Scene, position: Vector3) {
+    // Bombs leave the bay with the bomber's velocity and fall from there
+    constructor(scene: Scene, position: Vector3, initialVelocity: Vector3, gameClock: GameClock, kind: BombKind = 'standard') {
         this.scene = scene;
+        this.gameClock = gameClock;
+        this.kind = kind;
         this.position = position.clone();
-        this.velocity = new Vector3(0, -50, 0); // Start with a downward velocity
+        this.ballisticState = {
+            position: { x: position.x, y: position.y, z: position.z },
+            velocity: { x: initialVelocity.x, y: initialVelocity.y, z: initialVelocity.z }
+        };
 
-        // Create detailed bomb mesh using a group
-        this.mesh = this.createDetailedBombMesh();
+        this.mesh = this.createMesh();
         this.mesh.position = this.position;
 
         // Add a light to the bomb
         this.light = new PointLight('bombLight', new Vector3(0, 0, 0), this.scene);
         this.light.diffuse = new Color3(1, 0.6, 0);
         this.light.specular = new Color3(1, 0.6, 0);
-        this.light.intensity = 1;
-        this.light.range = 20;
+        this.light.intensity = kind === 'submunition' ? 0.3 : 1;
+        this.light.range = 20 * BOMB_EFFECT_SCALES[kind];
         this.light.parent = this.mesh;
 
         this.setupExplosionEffects();
         this.setupTrail();
     }
 
+    // Every variant is modelled nose-up along local +Y; update() turns the nose along the flight path
+    private createMesh(): Mesh {
+        switch (this.kind) {
+            case 'cluster':
+                return this.createClusterCanisterMesh();
+            case 'submunition':
+                return this.createSubmunitionMesh();
+            case 'bunker-buster':
+                return this.createPenetratorMesh();
+            default:
+                return this.createDetailedBombMesh();
+        }
+    }
+
+    private createPartMaterial(name: string, diffuse: Color3, emissive: Color3 = new Color3(0.03, 0.03, 0.03)): StandardMaterial {
+        const material = new StandardMaterial(name, this.scene);
+        material.diffuseColor = diffuse;
+        material.specularColor = new Color3(0.4, 0.4, 0.4);
+        material.emissiveColor = emissive;
+        return material;
+    }
+
+    // Fat olive canister with a yellow band and split lines where the shell opens
+    private createClusterCanisterMesh(): Mesh {
+        const group = MeshBuilder.CreateBox('clusterGroup', { width: 0.1, height: 0.1, depth: 0.1 }, this.scene);
+        group.isVisible = false;
+
+        const body = MeshBuilder.CreateCylinder('clusterBody', { height: 3.6, diameter: 1.3, tessellation: 16 }, this.scene);
+        body.parent = group;
+        body.material = this.createPartMaterial('clusterBodyMaterial', new Color3(0.3, 0.35, 0.2));
+
+        const nose = MeshBuilder.CreateSphere('clusterNose', { diameter: 1.3, segments: 12, slice: 0.5 }, this.scene);
+        nose.position.y = 1.8;
+        nose.parent = group;
+        nose.material = body.material;
+
+        const band = MeshBuilder.CreateCylinder('clusterBand', { height: 0.3, diameter: 1.35, tessellation: 16 }, this.scene);
+        band.position.y = 1.2;
+        band.parent = group;
+        band.material = this.createPartMaterial('clusterBandMaterial', new Color3(0.9, 0.8, 0.1), new Color3(0.15, 0.12, 0));
+
+        const splitLineMaterial = this.createPartMaterial('clusterSplitLineMaterial', new Color3(0.1, 0.1, 0.1));
+        for (let i = 0; i < 2; i++) {
+            const splitLine = MeshBuilder.CreateBox(`clusterSplitLine${i}`, { width: 0.04, height: 3.4, depth: 1.34 }, this.scene);
+            splitLine.rotation.y = i * Math.PI / 2;
+            splitLine.parent = group;
+            splitLine.material = splitLineMaterial;
+        }
+
+        const finMaterial = this.createPartMaterial('clusterFinMaterial', new Color3(0.25, 0.28, 0.18));
+        for (let i = 0; i < 4; i++) {
+            const fin = MeshBuilder.CreateBox(`clusterFin${i}`, { width: 0.05, height: 1.2, depth: 1.6 }, this.scene);
+            fin.position.y = -2;
+            fin.rotation.y = i * Math.PI / 2;
+            fin.parent = group;
+            fin.material = finMaterial;
+        }
+
+        return group;
+    }
+
+    // Bomblet with a stub tail so it still reads as falling nose-first
+    private createSubmunitionMesh(): Mesh {
+        const group = MeshBuilder.CreateBox('submunitionGroup', { width: 0.05, height: 0.05, depth: 0.05 }, this.scene);
+        group.isVisible = false;
+
+        const body = MeshBuilder.CreateSphere('submunitionBody', { diameter: 0.6, segments: 8 }, this.scene);
+        body.parent = group;
+        body.material = this.createPartMaterial('submunitionBodyMaterial', new Color3(0.85, 0.75, 0.1), new Color3(0.1, 0.08, 0));
+
+        const tail = MeshBuilder.CreateCylinder('submunitionTail', { height: 0.5, diameterTop: 0.3, diameterBottom: 0.1, tessellation: 6 }, this.scene);
+        tail.position.y = -0.45;
+        tail.parent = group;
+        tail.material = this.createPartMaterial('submunitionTailMaterial', new Color3(0.2, 0.2, 0.2));
+
+        return group;
+    }
+
+    // Long, slender hardened casing with an ogive nose and small fins
+    private createPenetratorMesh(): Mesh {
+        const group = MeshBuilder.CreateBox('penetratorGroup', { width: 0.1, height: 0.1, depth: 0.1 }, this.scene);
+        group.isVisible = false;
+
+        const casingMaterial = this.createPartMaterial('penetratorCasingMaterial', new Color3(0.18, 0.2, 0.22));
+        const body = MeshBuilder.CreateCylinder('penetratorBody', { height: 6, diameter: 0.7, tessellation: 16 }, this.scene);
+        body.parent = group;
+        body.material = casingMaterial;
+
+        const nose = MeshBuilder.CreateCylinder('penetratorNose', { height: 1.6, diameterTop: 0, diameterBottom: 0.7, tessellation: 16 }, this.scene);
+        nose.position.y = 3.8;
+        nose.parent = group;
+        nose.material = this.createPartMaterial('penetratorNoseMaterial', new Color3(0.45, 0.45, 0.5));
+
+        const band = MeshBuilder.CreateTorus('penetratorBand', { diameter: 0.72, thickness: 0.12, tessellation: 16 }, this.scene);
+        band.position.y = 2.4;
+        band.parent = group;
+        band.material = this.createPartMaterial('penetratorBandMaterial', new Color3(0.8, 0.1, 0.1), new Color3(0.1, 0.01, 0.01));
+
+        const finMaterial = this.createPartMaterial('penetratorFinMaterial', new Color3(0.15, 0.15, 0.17));
+        for (let i = 0; i < 4; i++) {
+            const fin = MeshBuilder.CreateBox(`penetratorFin${i}`, { width: 0.04, height: 0.9, depth: 1.1 }, this.scene);
+            fin.position.y = -2.7;
+            fin.rotation.y = i * Math.PI / 2;
+            fin.parent = group;
+            fin.material = finMaterial;
+        }
+
+        return group;
+    }
+
     private createDetailedBombMesh(): Mesh {
         // Create a group to hold all bomb parts
         const bombGroup = MeshBuilder.CreateBox('bombGroup', { width: 0.1, height: 0.1, depth: 0.1 }, this.scene);
@@ -189,7 +341,7 @@ export class Bomb {
         this.trailParticles.maxSize = 0.5;
         this.trailParticles.minLifeTime = 0.2;
         this.trailParticles.maxLifeTime = 0.4;
-        this.trailParticles.emitRate = 200;
+        this.trailParticles.emitRate = this.kind === 'submunition' ? 40 : 200; // Keep a dozen bomblets cheap
         this.trailParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
         this.trailParticles.gravity = new Vector3(0, 0, 0);
         // Trail should go upward relative to the bomb's movement (since bomb is falling down)
@@ -202,6 +354,7 @@ export class Bomb {
     }
 
     private setupExplosionEffects(): void {
+        const scale = BOMB_EFFECT_SCALES[this.kind];
         // Create procedural fire texture
         const fireTexture = new DynamicTexture('fireTexture', {width: 64, height: 64}, this.scene);
         const fireContext = fireTexture.getContext();
@@ -218,19 +371,19 @@ export class Bomb {
         fireTexture.update();
 
         // Fire particle system for the main explosion flash
-        this.fireParticles = new ParticleSystem('fire', 2000, this.scene);
+        this.fireParticles = new ParticleSystem('fire', Math.ceil(2000 * scale), this.scene);
         this.fireParticles.particleTexture = fireTexture;
         this.fireParticles.emitter = this.mesh;
-        this.fireParticles.minEmitBox = new Vector3(-1.2, 0, -1.2);
-        this.fireParticles.maxEmitBox = new Vector3(1.2, 0, 1.2);
+        this.fireParticles.minEmitBox = new Vector3(-1.2 * scale, 0, -1.2 * scale);
+        this.fireParticles.maxEmitBox = new Vector3(1.2 * scale, 0, 1.2 * scale);
         this.fireParticles.color1 = new Color4(1, 0.9, 0, 1.0);
         this.fireParticles.color2 = new Color4(1, 0.3, 0, 1.0);
         this.fireParticles.colorDead = new Color4(0.2, 0, 0, 0.0);
-        this.fireParticles.minSize = 2.5;
-        this.fireParticles.maxSize = 6.5;
+        this.fireParticles.minSize = 2.5 * scale;
+        this.fireParticles.maxSize = 6.5 * scale;
         this.fireParticles.minLifeTime = 0.3;
         this.fireParticles.maxLifeTime = 0.6;
-        this.fireParticles.emitRate = 2000;
+        this.fireParticles.emitRate = Math.ceil(2000 * scale);
         this.fireParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
         this.fireParticles.gravity = new Vector3(0, -9.81, 0);
         this.fireParticles.direction1 = new Vector3(-10, 8, -10);
@@ -238,7 +391,7 @@ export class Bomb {
         this.fireParticles.minEmitPower = 5;
         this.fireParticles.maxEmitPower = 15;
         this.fireParticles.updateSpeed = 0.005;
-        this.fireParticles.manualEmitCount = 2000;
+        this.fireParticles.manualEmitCount = Math.ceil(2000 * scale);
         this.fireParticles.stop();
 
         // Create procedural smoke texture
@@ -268,19 +421,19 @@ export class Bomb {
         smokeTexture.update();
 
         // Smoke particle system for lingering smoke
-        this.smokeParticles = new ParticleSystem('smoke', 1200, this.scene);
+        this.smokeParticles = new ParticleSystem('smoke', Math.ceil(1200 * scale), this.scene);
         this.smokeParticles.particleTexture = smokeTexture;
         this.smokeParticles.emitter = this.mesh;
-        this.smokeParticles.minEmitBox = new Vector3(-2, 0, -2);
-        this.smokeParticles.maxEmitBox = new Vector3(2, 0, 2);
+        this.smokeParticles.minEmitBox = new Vector3(-2 * scale, 0, -2 * scale);
+        this.smokeParticles.maxEmitBox = new Vector3(2 * scale, 0, 2 * scale);
         this.smokeParticles.color1 = new Color4(0.3, 0.3, 0.3, 0.9);
         this.smokeParticles.color2 = new Color4(0.5, 0.5, 0.5, 0.7);
         this.smokeParticles.colorDead = new Color4(0.1, 0.1, 0.1, 0.0);
-        this.smokeParticles.minSize = 4.0;
-        this.smokeParticles.maxSize = 10.0;
+        this.smokeParticles.minSize = 4.0 * scale;
+        this.smokeParticles.maxSize = 10.0 * scale;
         this.smokeParticles.minLifeTime = 2.0;
         this.smokeParticles.maxLifeTime = 5.0;
-        this.smokeParticles.emitRate = 1200;
+        this.smokeParticles.emitRate = Math.ceil(1200 * scale);
         this.smokeParticles.blendMode = ParticleSystem.BLENDMODE_STANDARD;
         this.smokeParticles.gravity = new Vector3(0, -2, 0);
         this.smokeParticles.direction1 = new Vector3(-1.2, 3, -1.2);
@@ -288,19 +441,74 @@ export class Bomb {
         this.smokeParticles.minEmitPower = 1.2;
         this.smokeParticles.maxEmitPower = 3;
         this.smokeParticles.updateSpeed = 0.01;
-        this.smokeParticles.manualEmitCount = 1200;
+        this.smokeParticles.manualEmitCount = Math.ceil(1200 * scale);
         this.smokeParticles.stop();
     }
 
-    public update(deltaTime: number): void {
-        this.position.addInPlace(this.velocity.scale(deltaTime));
+    // Impacts are detected from the collision snapshot
+    public update(deltaTime: number, environment: BallisticsEnvironment): void {
+        stepBallistic(this.ballisticState, environment, deltaTime);
+
+        const { position, velocity } = this.ballisticState;
+        this.position.set(position.x, position.y, position.z);
         this.mesh.position = this.position;
+
+        // Point the nose along the flight path (the model's nose is its local +Y)
+        const horizontalSpeed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+        if (horizontalSpeed > 0.001 || velocity.y !== 0) {
+            this.mesh.rotation.x = Math.atan2(horizontalSpeed, velocity.y);
+            this.mesh.rotation.y = Math.atan2(velocity.x, velocity.z);
+        }
+    }
+
+    public getVelocity(): Vector3 {
+        const velocity = this.ballisticState.velocity;
+        return new Vector3(velocity.x, velocity.y, velocity.z);
     }
 
     public getPosition(): Vector3 {
         return this.position;
     }
 
+    public getKind(): BombKind {
+        return this.kind;
+    }
+
+    // Cluster canisters open once they drop to the dispense altitude
+    public shouldDispense(groundHeight: number): boolean {
+        return this.kind === 'cluster' && this.position.y - groundHeight <= CLUSTER_DISPENSE_ALTITUDE;
+    }
+
+    // Pop the canister open and scatter submunitions in two rings sized to land across the footprint
+    public dispense(gravity: number): Bomb[] {
+        const { position, velocity } = this.ballisticState;
+        const canisterPosition = new Vector3(position.x, position.y, position.z);
+
+        // Time to fall the dispense altitude (drag ignored), so the spread speed carries each ring to its radius
+        const fallTime = (velocity.y + Math.sqrt(velocity.y * velocity.y + 2 * gravity * CLUSTER_DISPENSE_ALTITUDE)) / gravity;
+        const rings = [
+            { count: CLUSTER_INNER_RING, radius: CLUSTER_FOOTPRINT_RADIUS / 2, angleOffset: Math.PI / CLUSTER_INNER_RING },
+            { count: CLUSTER_OUTER_RING, radius: CLUSTER_FOOTPRINT_RADIUS, angleOffset: 0 }
+        ];
+
+        const submunitions: Bomb[] = [];
+        rings.forEach(ring => {
+            const spreadSpeed = ring.radius / fallTime;
+            for (let i = 0; i < ring.count; i++) {
+                const angle = ring.angleOffset + (i / ring.count) * Math.PI * 2;
+                const submunitionVelocity = new Vector3(
+                    velocity.x + Math.sin(angle) * spreadSpeed,
+                    velocity.y,
+                    velocity.z + Math.cos(angle) * spreadSpeed
+                );
+                submunitions.push(new Bomb(this.scene, canisterPosition, submunitionVelocity, this.gameClock, 'submunition'));
+            }
+        });
+
+        this.explode(canisterPosition);
+        return submunitions;
+    }
+
     public explode(explosionPoint: Vector3): void {
         this.trailParticles.stop();
         this.light.setEnabled(false);
@@ -319,22 +527,22 @@ export class Bomb {
         this.mesh.dispose();
 
         // Dispose particles after they are done
-        setTimeout(() => {
+        this.gameClock.schedule(1, () => {
             try {
                 this.fireParticles.dispose();
                 this.trailParticles.dispose();
             } catch (e) {
                 // Silent error handling - no console logging
             }
-        }, 1000);
+        });
 
-        setTimeout(() => {
+        this.gameClock.schedule(6, () => {
             try {
                 this.smokeParticles.dispose();
             } catch (e) {
                 // Silent error handling - no console logging
             }
-        }, 6000);
+        });
     }
 
     public dispose(): void {
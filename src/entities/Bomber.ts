@@ -3,18 +3,32 @@ import { InputManager } from '../managers/InputManager';
 import { TomahawkMissile } from './TomahawkMissile';
 import { TerrainManager } from '../managers/TerrainManager';
 import { Building } from './Building';
+import { GameClock } from '../utils/GameClock';
+import { WeaponLoadout } from '../utils/WeaponLoadout';
+import { TargetQueue } from '../utils/TargetQueue';
+import { MissionPlan, buildPlannedRoute, cloneMissionPlan } from '../utils/MissionPlan';
+import { getAspectAngle, getRadarCrossSection, getSignatureRangeFactor, RcsProfile } from '../utils/RadarCrossSection';
+import { EcmJammer } from '../utils/EcmJammer';
+import { DEFAULT_TUNING, GameTuning } from '../utils/GameTuning';
+
+export const TOMAHAWK_DESIGNATION_RANGE = 600; // Player-designated targets can be struck from farther than the automatic pick
 
 export class Bomber {
     private scene: Scene;
+    private gameClock: GameClock;
+    private loadout: WeaponLoadout; // Tomahawk and flare ammo and reloads
     private isBombingRunActiveCallback: (() => boolean) | null = null; // Callback to check bombing run status
     private bomberGroup!: TransformNode;
     private position: Vector3;
     private rotation: Vector3;
     private velocity: Vector3;
-    private speed: number = 25; // Units per second
+    private previousPosition: Vector3; // State at the previous simulation step, for render interpolation
+    private previousRotationY: number = 0;
+    private previousBankAngle: number = 0;
+    private speed: number; // Units per second
     private altitude: number = 100; // Restored original altitude
-    private turnSpeed: number = 0.5; // Radians per second
-    private climbRate: number = 20; // Units per second
+    private turnSpeed: number; // Radians per second
+    private climbRate: number; // Units per second
     private particleSystems: ParticleSystem[] = []; // Engine exhaust particle systems
     private bombBayLeft!: Mesh;
     private bombBayRight!: Mesh;
@@ -38,9 +52,10 @@ export class Bomber {
     
     // Tomahawk missile system
     private missiles: TomahawkMissile[] = [];
-    private lastMissileLaunchTime: number = -Infinity;
-    private missileCooldownTime: number = 10; // 10 seconds cooldown
+    private missilesPendingCleanup: Set<TomahawkMissile> = new Set();
     private terrainManager: TerrainManager | null = null; // Reference to terrain manager for targeting
+    private targetQueue: TargetQueue<Building> = new TargetQueue(); // Player-designated Tomahawk targets
+    private missionPlan: MissionPlan | null = null; // Route every Tomahawk flies until cleared
     
     // Target detection caching for performance
     private cachedTarget: Building | null = null;
@@ -48,6 +63,7 @@ export class Bomber {
     private targetCheckInterval: number = 0.5; // Check for targets every 0.5 seconds instead of every frame
     private lastTargetCheckPosition: Vector3 = new Vector3();
     private targetCheckPositionThreshold: number = 50; // Recheck if moved more than 50 units
+    private suppliedTargetTick: number = -1; // Tick of the last target handed over from collision results
     
     // Performance optimizations: cache trigonometric calculations
     private lastRotationY: number = 0;
@@ -60,8 +76,8 @@ export class Bomber {
     private tempRotation: Vector3 = new Vector3();
 
     // Health system
-    private health: number = 100;
-    private maxHealth: number = 100;
+    private health: number;
+    private maxHealth: number;
     private isDestroyed: boolean = false;
     private damageEffects: ParticleSystem[] = [];
     private damageLight: PointLight | null = null;
@@ -70,20 +86,40 @@ export class Bomber {
     private onDestroyedCallback: (() => void) | null = null;
 
     // Countermeasure flare system
-    private flareCooldown: number = 8; // 8 seconds cooldown
-    private lastFlareTime: number = -Infinity;
     private activeFlares: Vector3[] = [];
-    private flareLifetime: number = 5; // Flares last 5 seconds
-    private flareDetectionRange: number = 80; // Range for Iskander missiles to detect flares
+    private flareLifetime: number; // Seconds
+    private flareDetectionRange: number; // Range for Iskander missiles to detect flares
     private flareParticleSystems: ParticleSystem[] = []; // Visual effects for flares
     private flareMeshes: Mesh[] = []; // Visual flare meshes
 
+    // Countermeasure chaff system
+    private activeChaff: Vector3[] = [];
+    private chaffLifetime: number; // Seconds chaff clouds hang in the air
+    private chaffParticleSystems: ParticleSystem[] = []; // Visual chaff clouds
+
+    // Electronic countermeasures
+    private ecmJammer: EcmJammer;
+    private rcsProfile: RcsProfile;
+
     // Target destruction callback
     private onTargetDestroyedCallback: ((building: Building) => void) | null = null;
 
-    constructor(scene: Scene) {
+    constructor(scene: Scene, gameClock: GameClock, loadout: WeaponLoadout, tuning: GameTuning = DEFAULT_TUNING) {
         this.scene = scene;
+        this.gameClock = gameClock;
+        this.loadout = loadout;
+        this.speed = tuning.bomber.speed;
+        this.turnSpeed = tuning.bomber.turnSpeed;
+        this.climbRate = tuning.bomber.climbRate;
+        this.health = tuning.bomber.maxHealth;
+        this.maxHealth = tuning.bomber.maxHealth;
+        this.flareLifetime = tuning.bomber.flareLifetime;
+        this.flareDetectionRange = tuning.bomber.flareDetectionRange;
+        this.chaffLifetime = tuning.bomber.chaffLifetime;
+        this.ecmJammer = new EcmJammer(tuning.ecm);
+        this.rcsProfile = tuning.radarCrossSection;
         this.position = new Vector3(0, this.altitude, 0);
+        this.previousPosition = this.position.clone();
         this.rotation = new Vector3(0, 0, 0);
         this.velocity = new Vector3(0, 0, this.speed);
 
@@ -440,6 +476,13 @@ export class Bomber {
     }
 
     public update(deltaTime: number, inputManager: InputManager): void {
+        // Remember the last simulated state so rendering can interpolate between steps
+        this.previousPosition.copyFrom(this.position);
+        this.previousRotationY = this.rotation.y;
+        this.previousBankAngle = this.currentBankAngle;
+
+        this.ecmJammer.update(deltaTime);
+
         // Handle turning (left/right arrows) and banking
         // Only turn if Right Shift is NOT pressed (Right Shift + arrows is for camera panning)
         // AND if Ctrl is NOT pressed (Ctrl + arrows is for camera distance)
@@ -510,25 +553,32 @@ export class Bomber {
         this.position.z += this.velocity.z * deltaTime;
         this.position.y = this.altitude;
 
-        // Update mesh position and rotation (including banking) using reusable vectors
-        this.bomberGroup.position.copyFrom(this.position);
-        
-        // Reuse rotation vector instead of creating new one
-        this.tempRotation.copyFrom(this.rotation);
-        this.tempRotation.z = this.currentBankAngle; // Apply banking to Z rotation (roll)
-        this.bomberGroup.rotation.copyFrom(this.tempRotation);
-
         // Update bomb bay state and effects
         this.updateBombBay(deltaTime);
 
         // Update missiles
-        this.updateMissiles(deltaTime);
+        this.updateMissiles();
+    }
+
+    // Place the mesh between the previous and current simulation step (alpha in [0, 1])
+    public interpolate(alpha: number): void {
+        Vector3.LerpToRef(this.previousPosition, this.position, alpha, this.bomberGroup.position);
+
+        // Reuse rotation vector instead of creating new one
+        this.tempRotation.copyFrom(this.rotation);
+        this.tempRotation.y = this.previousRotationY + (this.rotation.y - this.previousRotationY) * alpha;
+        this.tempRotation.z = this.previousBankAngle + (this.currentBankAngle - this.previousBankAngle) * alpha; // Banking on Z (roll)
+        this.bomberGroup.rotation.copyFrom(this.tempRotation);
     }
 
     public getPosition(): Vector3 {
         return this.position.clone();
     }
 
+    public getRenderPosition(): Vector3 {
+        return this.bomberGroup.position.clone();
+    }
+
     public getRotation(): Vector3 {
         return this.rotation.clone();
     }
@@ -538,13 +588,13 @@ export class Bomber {
     }
 
     public getBombBayPosition(): Vector3 {
-        return this.bomberGroup.position.add(new Vector3(0, -5, 0));
+        return this.position.add(new Vector3(0, -5, 0));
     }
 
     public openBombBay(): void {
         if (this.bombBayState === 'closed') {
             this.bombBayState = 'opening';
-            this.bombBayOpenStartTime = performance.now() / 1000;
+            this.bombBayOpenStartTime = this.gameClock.now();
             this.bombBayOpenProgress = 0;
             
             // Start visual effects
@@ -555,7 +605,7 @@ export class Bomber {
     public closeBombBay(): void {
         if (this.bombBayState === 'open') {
             this.bombBayState = 'closing';
-            this.bombBayOpenStartTime = performance.now() / 1000; // Set the start time for closing animation
+            this.bombBayOpenStartTime = this.gameClock.now(); // Set the start time for closing animation
             this.bombBayOpenProgress = 1; // Start from fully open position
             
             // Don't stop effects immediately - let them fade out during closing animation
@@ -571,7 +621,7 @@ export class Bomber {
     }
 
     public updateBombBay(deltaTime: number): void {
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.gameClock.now();
         
         if (this.bombBayState === 'opening') {
             const elapsed = currentTime - this.bombBayOpenStartTime;
@@ -710,8 +760,7 @@ export class Bomber {
 
     // Missile system methods
     public canLaunchMissile(): boolean {
-        const currentTime = performance.now() / 1000;
-        const cooldownReady = (currentTime - this.lastMissileLaunchTime) >= this.missileCooldownTime;
+        const cooldownReady = this.loadout.canFire('tomahawk');
         // Can launch if bomb bay is closed (not being used for bombing) or if missile launch is already pending
         const bombBayAvailable = this.bombBayState === 'closed' || this.missileLaunchPending;
         // Also check if bombing run is not active
@@ -724,15 +773,23 @@ export class Bomber {
     }
 
     public getMissileCooldownStatus(): number {
-        const currentTime = performance.now() / 1000;
-        const timeSinceLastLaunch = currentTime - this.lastMissileLaunchTime;
-        return Math.min(timeSinceLastLaunch / this.missileCooldownTime, 1);
+        return this.loadout.getReloadStatus('tomahawk');
+    }
+
+    // Collision results supply the closest launcher every tick, replacing the main-thread scan below
+    public setClosestDefenseBuilding(building: Building | null): void {
+        this.cachedTarget = building;
+        this.suppliedTargetTick = this.gameClock.getTick();
     }
 
     public findClosestDefenseBuilding(): Building | null {
+        if (this.suppliedTargetTick >= 0 && this.gameClock.getTick() - this.suppliedTargetTick <= 1) {
+            return this.cachedTarget && !this.cachedTarget.getIsDestroyed() ? this.cachedTarget : null;
+        }
+
         if (!this.terrainManager) return null;
         
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.gameClock.now();
         const distanceMoved = Vector3.Distance(this.position, this.lastTargetCheckPosition);
         
         // Use cached result if recent enough and position hasn't changed significantly
@@ -771,8 +828,29 @@ export class Bomber {
         return closestBuilding;
     }
 
+    public getTargetQueue(): TargetQueue<Building> {
+        return this.targetQueue;
+    }
+
+    public setMissionPlan(plan: MissionPlan | null): void {
+        this.missionPlan = plan ? cloneMissionPlan(plan) : null;
+    }
+
+    public getMissionPlan(): MissionPlan | null {
+        return this.missionPlan ? cloneMissionPlan(this.missionPlan) : null;
+    }
+
+    // Designated or queued targets in range come first; without any, the closest launcher is picked automatically
+    public getMissileTarget(): Building | null {
+        const designatedTarget = this.targetQueue.selectStrikeTarget(
+            building => Vector3.Distance(this.position, building.getPosition()) <= TOMAHAWK_DESIGNATION_RANGE,
+            building => this.missiles.some(missile => !missile.hasExploded() && missile.getTargetBuilding() === building)
+        );
+        return designatedTarget ?? this.findClosestDefenseBuilding();
+    }
+
     public hasValidTarget(): boolean {
-        return this.findClosestDefenseBuilding() !== null;
+        return this.getMissileTarget() !== null;
     }
 
     public invalidateTargetCache(): void {
@@ -783,8 +861,7 @@ export class Bomber {
     public launchMissile(): boolean {
         if (!this.canLaunchMissile()) return false;
 
-        // Find the closest defense building
-        const targetBuilding = this.findClosestDefenseBuilding();
+        const targetBuilding = this.getMissileTarget();
         if (!targetBuilding) return false; // No valid target in range
 
         // Check if bomb bay is ready for launch
@@ -808,22 +885,36 @@ export class Bomber {
     }
 
     private executeMissileLaunch(): void {
-        // Find the closest defense building
-        const targetBuilding = this.findClosestDefenseBuilding();
+        // Re-pick at launch: the queue may have moved on while the doors opened
+        const targetBuilding = this.getMissileTarget();
         if (!targetBuilding) return; // No valid target in range
 
-        const currentTime = performance.now() / 1000;
-        this.lastMissileLaunchTime = currentTime;
+        // The round leaves its station only once the doors are open
+        if (!this.loadout.consume('tomahawk')) {
+            this.missileLaunchPending = false;
+            this.closeBombBay();
+            return;
+        }
+        this.loadout.startReload('tomahawk');
 
         // Launch position from bomb bay
-        const launcherPosition = this.bomberGroup.position.add(new Vector3(0, -2, -1));
+        const launcherPosition = this.position.add(new Vector3(0, -2, -1));
 
-        // Create and launch missile targeting the defense building
+        // Follow the mission plan over the terrain when one is set
+        const terrainManager = this.terrainManager;
+        const route = this.missionPlan && terrainManager
+            ? buildPlannedRoute(launcherPosition, targetBuilding.getPosition(), this.missionPlan, (x, z) => terrainManager.getHeightAtPosition(x, z))
+                .map(point => new Vector3(point.x, point.y, point.z))
+            : null;
+
+        // Create and launch missile targeting the chosen building
         const missile = new TomahawkMissile(
             this.scene,
             launcherPosition,
             targetBuilding,
-            this.rotation.clone()
+            this.rotation.clone(),
+            this.gameClock,
+            route
         );
 
         // Set up target destruction callback
@@ -843,22 +934,24 @@ export class Bomber {
         this.missileLaunchPending = false;
     }
 
-    private updateMissiles(deltaTime: number): void {
-        // Update all missiles
+    private updateMissiles(): void {
+        // Flight is stepped by MissileGuidanceManager; this only cleans up
         for (let i = this.missiles.length - 1; i >= 0; i--) {
             const missile = this.missiles[i];
-            missile.update(deltaTime);
 
             // Remove missiles that have exploded and finished their effects
-            if (missile.hasExploded()) {
+            if (missile.hasExploded() && !this.missilesPendingCleanup.has(missile)) {
+                this.missilesPendingCleanup.add(missile);
+
                 // Remove missile after explosion effects are done
-                setTimeout(() => {
+                this.gameClock.schedule(10, () => {
                     missile.dispose();
+                    this.missilesPendingCleanup.delete(missile);
                     const index = this.missiles.indexOf(missile);
                     if (index > -1) {
                         this.missiles.splice(index, 1);
                     }
-                }, 10000); // 10 seconds after explosion
+                }); // 10 seconds after explosion
             }
         }
     }
@@ -867,6 +960,22 @@ export class Bomber {
         this.terrainManager = terrainManager;
     }
 
+    // Cross-section seen from an observer: the aspect it sees, the bomb bay doors and battle damage all count
+    public getRadarCrossSection(observer: { x: number; z: number }): number {
+        return getRadarCrossSection(
+            getAspectAngle(this.position, this.rotation.y, observer),
+            this.bombBayOpenProgress,
+            1 - this.health / this.maxHealth,
+            this.rcsProfile
+        );
+    }
+
+    // Multiplier on the range radars and seekers at the observer can pick the bomber up from; a running jammer gives it away
+    public getSignature(observer: { x: number; z: number }): number {
+        const jammingFactor = this.ecmJammer.isActive() ? this.ecmJammer.getProfile().signatureFactor : 1;
+        return getSignatureRangeFactor(this.getRadarCrossSection(observer)) * jammingFactor;
+    }
+
     // Health system methods
     public getHealth(): number {
         return this.health;
@@ -883,7 +992,7 @@ export class Bomber {
     public takeDamage(damageAmount: number): void {
         if (this.isDestroyed) return;
 
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.gameClock.now();
         const timeSinceLastDamage = currentTime - this.lastDamageTime;
         if (timeSinceLastDamage < 0.1) return; // Ignore damage if taken too frequently
 
@@ -929,7 +1038,7 @@ export class Bomber {
         explosionParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
 
         explosionParticles.start();
-        setTimeout(() => explosionParticles.stop(), 3000);
+        this.gameClock.schedule(3, () => explosionParticles.stop());
 
         // Stop all engine particles
         this.particleSystems.forEach(ps => ps.stop());
@@ -1015,7 +1124,7 @@ export class Bomber {
     public triggerDamageEffects(): void {
         if (this.isDestroyed || !this.damageEffects.length) return;
 
-        const currentTime = performance.now() / 1000;
+        const currentTime = this.gameClock.now();
         const timeSinceLastDamage = currentTime - this.lastDamageTime;
         
         if (timeSinceLastDamage < 0.1) return; // Prevent spam
@@ -1024,7 +1133,7 @@ export class Bomber {
         const smokeParticles = this.damageEffects[0];
         if (smokeParticles && !smokeParticles.isStarted()) {
             smokeParticles.start();
-            setTimeout(() => smokeParticles.stop(), this.damageEffectDuration * 1000);
+            this.gameClock.schedule(this.damageEffectDuration, () => smokeParticles.stop());
         }
 
         // Start fire effects if health is low
@@ -1032,18 +1141,18 @@ export class Bomber {
             const fireParticles = this.damageEffects[1];
             if (fireParticles && !fireParticles.isStarted()) {
                 fireParticles.start();
-                setTimeout(() => fireParticles.stop(), this.damageEffectDuration * 1000);
+                this.gameClock.schedule(this.damageEffectDuration, () => fireParticles.stop());
             }
         }
 
         // Flash damage light
         if (this.damageLight) {
             this.damageLight.intensity = 2;
-            setTimeout(() => {
+            this.gameClock.schedule(0.2, () => {
                 if (this.damageLight) {
                     this.damageLight.intensity = 0;
                 }
-            }, 200);
+            });
         }
     }
 
@@ -1065,21 +1174,16 @@ export class Bomber {
 
     // Countermeasure flare system
     public canLaunchFlares(): boolean {
-        const currentTime = performance.now() / 1000;
-        return (currentTime - this.lastFlareTime) >= this.flareCooldown;
+        return this.loadout.canFire('flare');
     }
 
     public getFlareCooldownStatus(): number {
-        const currentTime = performance.now() / 1000;
-        const timeSinceLastFlare = currentTime - this.lastFlareTime;
-        return Math.min(timeSinceLastFlare / this.flareCooldown, 1);
+        return this.loadout.getReloadStatus('flare');
     }
 
     public launchFlares(): boolean {
-        if (!this.canLaunchFlares()) return false;
-
-        const currentTime = performance.now() / 1000;
-        this.lastFlareTime = currentTime;
+        if (!this.canLaunchFlares() || !this.loadout.consume('flare')) return false;
+        this.loadout.startReload('flare');
 
         // Create multiple flare positions around the bomber
         const flarePositions = [
@@ -1122,7 +1226,7 @@ export class Bomber {
         this.activeFlares.push(...flarePositions);
 
         // Remove flares after lifetime
-        setTimeout(() => {
+        this.gameClock.schedule(this.flareLifetime, () => {
             // Remove flare positions
             this.activeFlares.splice(0, flarePositions.length);
             
@@ -1140,7 +1244,7 @@ export class Bomber {
                 }
             });
             this.flareParticleSystems = [];
-        }, this.flareLifetime * 1000);
+        });
 
         return true;
     }
@@ -1203,6 +1307,111 @@ export class Bomber {
         return this.flareDetectionRange;
     }
 
+    // Countermeasure chaff system
+    public canLaunchChaff(): boolean {
+        return this.loadout.canFire('chaff');
+    }
+
+    public getChaffCooldownStatus(): number {
+        return this.loadout.getReloadStatus('chaff');
+    }
+
+    public launchChaff(): boolean {
+        if (!this.canLaunchChaff() || !this.loadout.consume('chaff')) return false;
+        this.loadout.startReload('chaff');
+
+        // Clouds bloom behind and to either side of the bomber, where SAMs closing from the rear run into them
+        const sinY = Math.sin(this.rotation.y);
+        const cosY = Math.cos(this.rotation.y);
+        const chaffPositions = [
+            { back: 20, side: 0 },
+            { back: 30, side: 12 },
+            { back: 30, side: -12 }
+        ].map(offset => this.position.add(new Vector3(
+            -sinY * offset.back + cosY * offset.side,
+            -6,
+            -cosY * offset.back - sinY * offset.side
+        )));
+
+        const chaffParticles = chaffPositions.map((chaffPos, index) => this.createChaffParticleSystem(chaffPos.clone(), index));
+        this.chaffParticleSystems.push(...chaffParticles);
+        this.activeChaff.push(...chaffPositions);
+
+        // Remove chaff after lifetime
+        this.gameClock.schedule(this.chaffLifetime, () => {
+            this.activeChaff.splice(0, chaffPositions.length);
+
+            chaffParticles.forEach(particles => particles.dispose());
+            this.chaffParticleSystems = this.chaffParticleSystems.filter(particles => !chaffParticles.includes(particles));
+        });
+
+        return true;
+    }
+
+    private createChaffParticleSystem(chaffPosition: Vector3, index: number): ParticleSystem {
+        // Create procedural foil glint texture
+        const chaffTexture = new DynamicTexture(`chaffTexture${index}`, {width: 16, height: 16}, this.scene);
+        const chaffContext = chaffTexture.getContext();
+        chaffContext.fillStyle = 'rgba(220, 220, 230, 1)';
+        chaffContext.fillRect(6, 0, 4, 16);
+        chaffTexture.update();
+
+        // Slowly drifting, glittering strips
+        const chaffParticles = new ParticleSystem(`chaffParticles${index}`, 300, this.scene);
+        chaffParticles.particleTexture = chaffTexture;
+        chaffParticles.emitter = chaffPosition;
+        chaffParticles.minEmitBox = new Vector3(-4, -4, -4);
+        chaffParticles.maxEmitBox = new Vector3(4, 4, 4);
+
+        chaffParticles.color1 = new Color4(0.9, 0.9, 0.95, 1.0);
+        chaffParticles.color2 = new Color4(0.6, 0.6, 0.7, 0.8);
+        chaffParticles.colorDead = new Color4(0.5, 0.5, 0.5, 0.0);
+
+        chaffParticles.minSize = 0.2;
+        chaffParticles.maxSize = 0.5;
+        chaffParticles.minLifeTime = 1.5;
+        chaffParticles.maxLifeTime = 3.0;
+        chaffParticles.emitRate = 150;
+        chaffParticles.gravity = new Vector3(0, -1, 0);
+        chaffParticles.direction1 = new Vector3(-1, -0.5, -1);
+        chaffParticles.direction2 = new Vector3(1, 0.5, 1);
+        chaffParticles.minEmitPower = 1;
+        chaffParticles.maxEmitPower = 3;
+        chaffParticles.minAngularSpeed = -Math.PI;
+        chaffParticles.maxAngularSpeed = Math.PI;
+        chaffParticles.updateSpeed = 0.01;
+
+        chaffParticles.start();
+
+        return chaffParticles;
+    }
+
+    public getActiveChaff(): Vector3[] {
+        return this.activeChaff.map(chaff => chaff.clone());
+    }
+
+    // Electronic countermeasures: one key toggles the jammer; it shuts down by itself when the charge runs out
+    public toggleEcm(): boolean {
+        return this.ecmJammer.toggle();
+    }
+
+    public isEcmActive(): boolean {
+        return this.ecmJammer.isActive();
+    }
+
+    public canActivateEcm(): boolean {
+        return this.ecmJammer.canActivate();
+    }
+
+    public getEcmCharge(): number {
+        return this.ecmJammer.getCharge();
+    }
+
+    // Tomahawks still in flight
+    public getTomahawkMissiles(): TomahawkMissile[] {
+        return this.missiles.filter(missile => missile.isLaunched() && !missile.hasExploded());
+    }
+
     public dispose(): void {
         // Force close bomb bay and clean up all effects
         this.forceCloseBombBay();
@@ -1244,6 +1453,17 @@ export class Bomber {
         
         // Clear active flares
         this.activeFlares = [];
+
+        // Clean up chaff clouds
+        this.chaffParticleSystems.forEach(particles => particles.dispose());
+        this.chaffParticleSystems = [];
+        this.activeChaff = [];
+        this.ecmJammer.reset();
+
+        // Clean up Tomahawk missiles still in flight or awaiting cleanup
+        this.missiles.forEach(missile => missile.dispose());
+        this.missiles = [];
+        this.missilesPendingCleanup.clear();
         
         // Clean up damage effects
         this.damageEffects.forEach(ps => ps.dispose());
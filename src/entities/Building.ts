@@ -1,5 +1,11 @@
 import { Scene, Vector3, MeshBuilder, StandardMaterial, Color3, Mesh, TransformNode, ParticleSystem, Texture, Color4, PointLight, Animation, AnimationGroup, DynamicTexture } from '@babylonjs/core';
 import { DefenseMissile } from './DefenseMissile';
+import { SeededRandom } from '../utils/SeededRandom';
+import { GameClock } from '../utils/GameClock';
+import { RadarEnvironment, SamFireControl, SamState, canRadarDetect } from '../utils/SamFireControl';
+import { AirDefenseNetworkProfile, LauncherMode, LauncherNetworkStatus, createAirDefenseNetworkProfile, getLauncherRadarProfile } from '../utils/AirDefenseNetwork';
+import { DEFAULT_TUNING, GameTuning } from '../utils/GameTuning';
+import { FlakTarget, aimFlakBurst, canFlakEngage, getFlakFuseTime } from '../utils/Flak';
 
 export enum BuildingType {
     RESIDENTIAL = 'residential',
@@ -17,16 +23,32 @@ export interface BuildingConfig {
     color?: Color3;
     isTarget?: boolean;
     isDefenseLauncher?: boolean;
+    isAirbase?: boolean; // Scrambles interceptors once the bomber is detected
+    isAntiAircraft?: boolean; // Flak guns that engage the bomber when it flies low
+    isRadarSite?: boolean; // Surveillance radar sharing its tracks with launchers in its sector
+    detailSeed?: number; // Seeds cosmetic details so seeded worlds look identical
+}
+
+// Flak shell in flight from the gun to its fused burst point
+interface FlakShell {
+    tracer: Mesh;
+    from: Vector3;
+    burstPoint: Vector3;
+    fireTime: number;
+    fuseTime: number;
 }
 
 export class Building {
     private scene: Scene;
+    private gameClock: GameClock;
+    private random: SeededRandom; // Per-building stream for cosmetic detail and launcher aim
     private mesh: Mesh;
     private parent: TransformNode;
     private config: BuildingConfig;
     private targetRing: Mesh | null = null;
     private damage: number = 0;
-    private maxHealth: number = 100;
+    private maxHealth: number;
+    private tuning: GameTuning;
     private isDestroyed: boolean = false;
     private fireParticles: ParticleSystem | null = null;
     private smokeParticles: ParticleSystem | null = null;
@@ -35,16 +57,40 @@ export class Building {
     // Defense launcher properties
     private launcherMesh: Mesh | null = null;
     private defenseMissiles: DefenseMissile[] = [];
-    private lastMissileLaunchTime: number = 0;
-    private missileLaunchInterval: number = 8; // Launch every 8 seconds
-    private radarScanRange: number = 300; // Detection range
+    private fireControl: SamFireControl; // Search, track, lock, launch and guide
+    private networkProfile: AirDefenseNetworkProfile; // Radar ranges for each network mode
+    private aimOffset: Vector3 = new Vector3(); // Launch inaccuracy, kept while guiding the missile
+    private pendingAimPoint: Vector3 | null = null; // Last launch's aim point until the offset is taken from it
+    private reportedRadarState: SamState = 'search'; // Last state passed to the radar warning hook
+    private networkMode: LauncherMode = 'autonomous'; // Whether a radar site covers this launcher's sector
+
+    // Airbase properties
+    private runwayMesh: Mesh | null = null;
+
+    // Radar site properties
+    private radarDishMesh: Mesh | null = null;
+    private radarSiteTracking: boolean = false;
+
+    // Anti-aircraft artillery properties
+    private flakGunMesh: Mesh | null = null;
+    private flakShells: FlakShell[] = [];
+    private lastFlakFireTime: number = -Infinity;
     
     // Callback for destruction notification
     private onDestroyedCallback: (() => void) | null = null;
+    private onMissileLaunchedCallback: ((targetPosition: Vector3) => void) | null = null;
+    private onRadarStateChangedCallback: ((state: SamState) => void) | null = null;
+    private onFlakFiredCallback: ((burstPoint: Vector3) => void) | null = null;
 
-    constructor(scene: Scene, config: BuildingConfig) {
+    constructor(scene: Scene, config: BuildingConfig, gameClock: GameClock, tuning: GameTuning = DEFAULT_TUNING) {
         this.scene = scene;
+        this.gameClock = gameClock;
         this.config = config;
+        this.tuning = tuning;
+        this.maxHealth = tuning.building.maxHealth;
+        this.fireControl = new SamFireControl(tuning.samRadar);
+        this.networkProfile = createAirDefenseNetworkProfile(tuning.samRadar);
+        this.random = new SeededRandom(config.detailSeed ?? SeededRandom.generateSeed());
         this.parent = new TransformNode(`building_${config.type}_${Date.now()}`, scene);
         this.mesh = this.createBuildingMesh();
         this.setupMaterial();
@@ -57,6 +103,18 @@ export class Building {
         if (config.isDefenseLauncher) {
             this.createDefenseLauncher();
         }
+
+        if (config.isAirbase) {
+            this.createAirbase();
+        }
+
+        if (config.isAntiAircraft) {
+            this.createFlakGun();
+        }
+
+        if (config.isRadarSite) {
+            this.createRadarSite();
+        }
         
         this.setupDamageEffects();
     }
@@ -139,15 +197,15 @@ export class Building {
         }, this.scene);
         
         // Add smokestacks
-        const numStacks = Math.floor(Math.random() * 3) + 1;
+        const numStacks = this.random.nextInt(3) + 1;
         for (let i = 0; i < numStacks; i++) {
             const stack = MeshBuilder.CreateCylinder(`smokestack_${i}`, {
                 height: height * 0.8,
                 diameter: 2
             }, this.scene);
             
-            stack.position.x = (Math.random() - 0.5) * width * 0.6;
-            stack.position.z = (Math.random() - 0.5) * depth * 0.6;
+            stack.position.x = (this.random.next() - 0.5) * width * 0.6;
+            stack.position.z = (this.random.next() - 0.5) * depth * 0.6;
             stack.position.y = height / 2 + (height * 0.8) / 2;
             stack.parent = this.parent;
         }
@@ -297,6 +355,88 @@ export class Building {
         this.launcherMesh.material = launcherMaterial;
     }
 
+    private createAirbase(): void {
+        // Runway alongside the hangar, laid along the building's z axis
+        this.runwayMesh = MeshBuilder.CreateBox(`runway_${Date.now()}`, {
+            width: 12,
+            height: 0.5,
+            depth: 120
+        }, this.scene);
+
+        this.runwayMesh.position.x = this.config.width / 2 + 10;
+        this.runwayMesh.position.y = this.config.position.y + 0.25;
+        this.runwayMesh.parent = this.parent;
+
+        const runwayMaterial = new StandardMaterial(`runwayMaterial_${Date.now()}`, this.scene);
+        runwayMaterial.diffuseColor = new Color3(0.2, 0.2, 0.22);
+        runwayMaterial.specularColor = new Color3(0.05, 0.05, 0.05);
+        runwayMaterial.emissiveColor = new Color3(0.05, 0.1, 0.2); // Faint blue edge lighting
+        this.runwayMesh.material = runwayMaterial;
+    }
+
+    private createRadarSite(): void {
+        // Rotating surveillance antenna on a mast above the roof
+        const mast = MeshBuilder.CreateCylinder(`radarMast_${Date.now()}`, {
+            height: this.config.height / 2 + 3,
+            diameter: 0.8
+        }, this.scene);
+        mast.position.y = this.config.height / 2 + (this.config.height / 2 + 3) / 2;
+        mast.parent = this.parent;
+
+        this.radarDishMesh = MeshBuilder.CreateBox(`radarDish_${Date.now()}`, {
+            width: 8,
+            height: 3,
+            depth: 0.4
+        }, this.scene);
+        this.radarDishMesh.position.y = this.config.height + 3;
+        this.radarDishMesh.parent = this.parent;
+
+        const radarMaterial = new StandardMaterial(`radarSiteMaterial_${Date.now()}`, this.scene);
+        radarMaterial.diffuseColor = new Color3(0.85, 0.85, 0.8);
+        radarMaterial.specularColor = new Color3(0.4, 0.4, 0.4);
+        radarMaterial.emissiveColor = new Color3(0.1, 0.2, 0.1);
+        mast.material = radarMaterial;
+        this.radarDishMesh.material = radarMaterial;
+
+        // One sweep every 4 seconds
+        const sweepAnimation = new Animation("radarSweep", "rotation.y", 30, Animation.ANIMATIONTYPE_FLOAT, Animation.ANIMATIONLOOPMODE_CYCLE);
+        sweepAnimation.setKeys([
+            { frame: 0, value: 0 },
+            { frame: 120, value: Math.PI * 2 }
+        ]);
+        this.radarDishMesh.animations = [sweepAnimation];
+        this.scene.beginAnimation(this.radarDishMesh, 0, 120, true);
+    }
+
+    private createFlakGun(): void {
+        // Sandbagged gun pit on the roof with a pair of barrels pointing skyward
+        this.flakGunMesh = MeshBuilder.CreateCylinder(`flakGun_${Date.now()}`, {
+            height: 1.5,
+            diameter: 5,
+            tessellation: 12
+        }, this.scene);
+
+        this.flakGunMesh.position.y = this.config.height / 2 + 0.75;
+        this.flakGunMesh.parent = this.parent;
+
+        const gunMaterial = new StandardMaterial(`flakGunMaterial_${Date.now()}`, this.scene);
+        gunMaterial.diffuseColor = new Color3(0.35, 0.4, 0.2); // Olive drab
+        gunMaterial.specularColor = new Color3(0.1, 0.1, 0.1);
+        this.flakGunMesh.material = gunMaterial;
+
+        for (let i = 0; i < 2; i++) {
+            const barrel = MeshBuilder.CreateCylinder(`flakBarrel_${i}`, {
+                height: 5,
+                diameter: 0.4
+            }, this.scene);
+            barrel.position.x = i === 0 ? -0.6 : 0.6;
+            barrel.position.y = 2.5;
+            barrel.rotation.x = -Math.PI / 6; // Elevated
+            barrel.parent = this.flakGunMesh;
+            barrel.material = gunMaterial;
+        }
+    }
+
     private setupDamageEffects(): void {
         // Create procedural fire texture
         const fireTexture = new DynamicTexture('buildingFireTexture', {width: 64, height: 64}, this.scene);
@@ -474,14 +614,14 @@ export class Building {
         explosionParticles.start();
 
         // Dispose of explosion particles after time
-        setTimeout(() => {
+        this.gameClock.schedule(5, () => {
             explosionParticles.dispose();
-        }, 5000);
+        });
 
         // Fade out and dispose building
-        setTimeout(() => {
+        this.gameClock.schedule(1, () => {
             this.dispose();
-        }, 1000);
+        });
     }
 
     private destroyBuildingByBomb(): void {
@@ -562,15 +702,15 @@ export class Building {
         debrisParticles.start();
 
         // Dispose of explosion particles after time
-        setTimeout(() => {
+        this.gameClock.schedule(6, () => {
             bombExplosionParticles.dispose();
             debrisParticles.dispose();
-        }, 6000); // Longer duration for bomb effects
+        }); // Longer duration for bomb effects
 
         // Fade out and dispose building
-        setTimeout(() => {
+        this.gameClock.schedule(1.5, () => {
             this.dispose();
-        }, 1500); // Slightly longer delay
+        }); // Slightly longer delay
     }
 
     public isTarget(): boolean {
@@ -589,14 +729,40 @@ export class Building {
         return this.config.height;
     }
 
-    public updateDefenseLauncher(bomberPosition: Vector3, currentTime: number, deltaTime: number): void {
+    public setOnMissileLaunchedCallback(callback: (targetPosition: Vector3) => void): void {
+        this.onMissileLaunchedCallback = callback;
+    }
+
+    // Radar warning hook: fires on every fire control state change
+    public setOnRadarStateChangedCallback(callback: (state: SamState) => void): void {
+        this.onRadarStateChangedCallback = callback;
+    }
+
+    public getRadarState(): SamState {
+        return this.fireControl.getState();
+    }
+
+    // Radar antenna sits on top of the launcher
+    public getRadarPosition(): Vector3 {
+        const position = this.getPosition();
+        return new Vector3(position.x, position.y + this.config.height + 3, position.z);
+    }
+
+    // autoLaunch is off during replay playback, where launches come from the recording instead
+    // Missile flight is stepped by MissileGuidanceManager; this runs the radar, fires and sends guidance commands
+    // Networked launchers also engage on tracks shared by a radar site; autonomous ones search alone at short range
+    public updateDefenseLauncher(
+        bomberPosition: Vector3,
+        currentTime: number,
+        environment: RadarEnvironment,
+        network: LauncherNetworkStatus,
+        autoLaunch: boolean = true
+    ): void {
         if (!this.config.isDefenseLauncher || this.isDestroyed) return;
 
-        // Update existing missiles
         for (let i = this.defenseMissiles.length - 1; i >= 0; i--) {
             const missile = this.defenseMissiles[i];
-            missile.update(deltaTime);
-            
+
             // Remove exploded missiles
             if (missile.hasExploded()) {
                 missile.dispose();
@@ -604,38 +770,241 @@ export class Building {
             }
         }
 
-        // Check if we should launch a new missile
-        const distanceToBomber = Vector3.Distance(this.getPosition(), bomberPosition);
-        if (distanceToBomber <= this.radarScanRange && 
-            (currentTime - this.lastMissileLaunchTime) >= this.missileLaunchInterval) {
-            
+        this.networkMode = network.mode;
+        const detected = network.cued ||
+            canRadarDetect(this.getRadarPosition(), bomberPosition, environment, getLauncherRadarProfile(network.mode, this.networkProfile));
+        if (this.fireControl.update(currentTime, detected, this.defenseMissiles.length > 0, autoLaunch, environment.isTargetJamming)) {
             this.launchDefenseMissile(bomberPosition);
-            this.lastMissileLaunchTime = currentTime;
+        }
+
+        // Taken here rather than at launch so recorded launches replay the same offset
+        if (this.pendingAimPoint) {
+            this.aimOffset.copyFrom(this.pendingAimPoint.subtract(bomberPosition));
+            this.pendingAimPoint = null;
+        }
+
+        // Missiles are steered only while the radar sees the bomber
+        const guiding = this.fireControl.getState() === 'guide' && detected;
+        const commandTarget = guiding ? bomberPosition.add(this.aimOffset) : null;
+        this.defenseMissiles.forEach(missile => missile.setCommandTarget(commandTarget));
+
+        this.notifyRadarStateChange();
+    }
+
+    // Out of play: the radar stops tracking until the launcher is updated again
+    public idleDefenseLauncher(currentTime: number): void {
+        if (!this.config.isDefenseLauncher) return;
+
+        this.fireControl.reset(currentTime);
+        this.defenseMissiles.forEach(missile => missile.setCommandTarget(null));
+        this.notifyRadarStateChange();
+    }
+
+    private notifyRadarStateChange(): void {
+        const state = this.fireControl.getState();
+        if (state === this.reportedRadarState) return;
+
+        this.reportedRadarState = state;
+        if (this.onRadarStateChangedCallback) {
+            this.onRadarStateChangedCallback(state);
         }
     }
 
     private launchDefenseMissile(bomberPosition: Vector3): void {
         if (!this.config.isDefenseLauncher || this.isDestroyed) return;
 
+        // Add some inaccuracy to make the missile aim slightly off target
+        const inaccuracy = this.tuning.defenseMissile.launchInaccuracy;
+        const targetPosition = bomberPosition.clone();
+        targetPosition.x += (this.random.next() - 0.5) * inaccuracy;
+        targetPosition.y += (this.random.next() - 0.5) * inaccuracy;
+        targetPosition.z += (this.random.next() - 0.5) * inaccuracy;
+
+        this.launchDefenseMissileAt(targetPosition);
+    }
+
+    // Fire at an exact aim point (used directly when replaying recorded launches)
+    public launchDefenseMissileAt(targetPosition: Vector3): void {
+        if (!this.config.isDefenseLauncher || this.isDestroyed) return;
+
+        this.fireControl.notifyLaunch(this.gameClock.now());
+        this.pendingAimPoint = targetPosition.clone();
+        this.notifyRadarStateChange();
+
         const launchPosition = this.getPosition().clone();
         launchPosition.y += this.config.height + 3; // Launch from top of launcher
 
-        // Add some inaccuracy to make the missile aim slightly off target
-        const inaccuracy = 20; // Units of inaccuracy
-        const targetPosition = bomberPosition.clone();
-        targetPosition.x += (Math.random() - 0.5) * inaccuracy;
-        targetPosition.y += (Math.random() - 0.5) * inaccuracy;
-        targetPosition.z += (Math.random() - 0.5) * inaccuracy;
-        
-        const missile = new DefenseMissile(this.scene, launchPosition, targetPosition);
+        const missile = new DefenseMissile(this.scene, launchPosition, targetPosition, this.gameClock, this.tuning.defenseMissile);
         missile.launch();
         this.defenseMissiles.push(missile);
+
+        if (this.onMissileLaunchedCallback) {
+            this.onMissileLaunchedCallback(targetPosition);
+        }
+    }
+
+    // Destroy outright regardless of remaining health; returns false if it was already down
+    public forceDestroy(): boolean {
+        if (this.isDestroyed) return false;
+        return this.takeDamage(this.maxHealth, true);
     }
 
     public isDefenseLauncher(): boolean {
         return this.config.isDefenseLauncher || false;
     }
 
+    public isAirbase(): boolean {
+        return this.config.isAirbase || false;
+    }
+
+    // Where scrambled interceptors leave the runway, just above the ground
+    public getRunwayPosition(): Vector3 {
+        const position = this.getPosition();
+        return new Vector3(position.x + this.config.width / 2 + 10, this.config.position.y + 5, position.z - 60);
+    }
+
+    public isRadarSite(): boolean {
+        return this.config.isRadarSite || false;
+    }
+
+    // Sweeps for the bomber; the network shares what it sees with launchers in the sector
+    public updateRadarSite(bomberPosition: Vector3, environment: RadarEnvironment): boolean {
+        if (!this.config.isRadarSite || this.isDestroyed) {
+            this.radarSiteTracking = false;
+            return false;
+        }
+
+        this.radarSiteTracking = canRadarDetect(this.getRadarPosition(), bomberPosition, environment, this.networkProfile.surveillanceRadar);
+        return this.radarSiteTracking;
+    }
+
+    // Out of play: the site stops reporting a track
+    public idleRadarSite(): void {
+        this.radarSiteTracking = false;
+    }
+
+    public isRadarSiteTracking(): boolean {
+        return this.radarSiteTracking;
+    }
+
+    public getNetworkMode(): LauncherMode {
+        return this.networkMode;
+    }
+
+    public isAntiAircraft(): boolean {
+        return this.config.isAntiAircraft || false;
+    }
+
+    // Muzzles of the roof-mounted flak gun
+    public getFlakGunPosition(): Vector3 {
+        const position = this.getPosition();
+        return new Vector3(position.x, position.y + this.config.height / 2 + 3, position.z);
+    }
+
+    public setOnFlakFiredCallback(callback: (burstPoint: Vector3) => void): void {
+        this.onFlakFiredCallback = callback;
+    }
+
+    // autoFire is off during replay playback, where bursts come from the recording instead
+    public updateFlakGun(target: FlakTarget, currentTime: number, hasLineOfSight: (from: Vector3, to: Vector3) => boolean, autoFire: boolean = true): void {
+        if (!this.config.isAntiAircraft || this.isDestroyed || !autoFire) return;
+        if (currentTime - this.lastFlakFireTime < this.tuning.flak.fireInterval) return;
+
+        const gunPosition = this.getFlakGunPosition();
+        const targetPosition = new Vector3(target.position.x, target.position.y, target.position.z);
+        if (!canFlakEngage(gunPosition, targetPosition, this.tuning.flak) || !hasLineOfSight(gunPosition, targetPosition)) return;
+
+        const burstPoint = aimFlakBurst(gunPosition, target, () => this.random.next(), this.tuning.flak);
+        this.fireFlakAt(new Vector3(burstPoint.x, burstPoint.y, burstPoint.z));
+    }
+
+    // Fire a shell fused to burst at an exact point (used directly when replaying recorded bursts)
+    public fireFlakAt(burstPoint: Vector3): void {
+        if (!this.config.isAntiAircraft || this.isDestroyed) return;
+
+        const currentTime = this.gameClock.now();
+        const from = this.getFlakGunPosition();
+        this.lastFlakFireTime = currentTime;
+
+        const tracer = MeshBuilder.CreateSphere(`flakTracer_${Date.now()}`, { diameter: 0.8 }, this.scene);
+        const tracerMaterial = new StandardMaterial(`flakTracerMaterial_${Date.now()}`, this.scene);
+        tracerMaterial.emissiveColor = new Color3(1, 0.7, 0.2); // Glowing tracer
+        tracerMaterial.disableLighting = true;
+        tracer.material = tracerMaterial;
+        tracer.position.copyFrom(from);
+
+        this.flakShells.push({ tracer, from, burstPoint: burstPoint.clone(), fireTime: currentTime, fuseTime: getFlakFuseTime(from, burstPoint, this.tuning.flak) });
+
+        if (this.onFlakFiredCallback) {
+            this.onFlakFiredCallback(burstPoint);
+        }
+    }
+
+    // Moves tracers along and returns the points of shells that burst this tick
+    public updateFlakShells(currentTime: number): Vector3[] {
+        const bursts: Vector3[] = [];
+        for (let i = this.flakShells.length - 1; i >= 0; i--) {
+            const shell = this.flakShells[i];
+            const progress = (currentTime - shell.fireTime) / shell.fuseTime;
+            if (progress < 1) {
+                shell.tracer.position.copyFrom(Vector3.Lerp(shell.from, shell.burstPoint, progress));
+                continue;
+            }
+
+            shell.tracer.material?.dispose();
+            shell.tracer.dispose();
+            this.flakShells.splice(i, 1);
+            this.createFlakBurstEffect(shell.burstPoint);
+            bursts.push(shell.burstPoint);
+        }
+        return bursts;
+    }
+
+    public hasFlakShellsInFlight(): boolean {
+        return this.flakShells.length > 0;
+    }
+
+    private createFlakBurstEffect(point: Vector3): void {
+        // Brief flash followed by a lingering black puff
+        const burstTexture = new DynamicTexture('flakBurstTexture', {width: 64, height: 64}, this.scene);
+        const burstContext = burstTexture.getContext();
+
+        const burstGradient = burstContext.createRadialGradient(32, 32, 0, 32, 32, 32);
+        burstGradient.addColorStop(0, 'rgba(255, 240, 200, 1)');
+        burstGradient.addColorStop(0.3, 'rgba(90, 80, 70, 0.8)');
+        burstGradient.addColorStop(1, 'rgba(20, 20, 20, 0)');
+
+        burstContext.fillStyle = burstGradient;
+        burstContext.fillRect(0, 0, 64, 64);
+        burstTexture.update();
+
+        const burstParticles = new ParticleSystem('flakBurst', 60, this.scene);
+        burstParticles.particleTexture = burstTexture;
+        burstParticles.emitter = point.clone();
+        burstParticles.minEmitBox = new Vector3(-1, -1, -1);
+        burstParticles.maxEmitBox = new Vector3(1, 1, 1);
+        burstParticles.color1 = new Color4(1, 0.8, 0.4, 1.0);
+        burstParticles.color2 = new Color4(0.15, 0.15, 0.15, 0.9);
+        burstParticles.colorDead = new Color4(0.1, 0.1, 0.1, 0.0);
+        burstParticles.minSize = 3.0;
+        burstParticles.maxSize = 8.0;
+        burstParticles.minLifeTime = 1.0;
+        burstParticles.maxLifeTime = 2.5;
+        burstParticles.emitRate = 600;
+        burstParticles.blendMode = ParticleSystem.BLENDMODE_STANDARD;
+        burstParticles.gravity = new Vector3(0, -0.5, 0);
+        burstParticles.direction1 = new Vector3(-3, -3, -3);
+        burstParticles.direction2 = new Vector3(3, 3, 3);
+        burstParticles.minEmitPower = 1;
+        burstParticles.maxEmitPower = 4;
+        burstParticles.manualEmitCount = 60;
+        burstParticles.start();
+
+        this.gameClock.schedule(3, () => {
+            burstParticles.dispose();
+        });
+    }
+
     public getActiveMissiles(): DefenseMissile[] {
         if (!this.config.isDefenseLauncher) return [];
         
@@ -656,7 +1025,16 @@ export class Building {
         if (this.smokeParticles) this.smokeParticles.dispose();
         if (this.damageLight) this.damageLight.dispose();
         if (this.launcherMesh) this.launcherMesh.dispose();
-        
+        if (this.runwayMesh) this.runwayMesh.dispose();
+        if (this.flakGunMesh) this.flakGunMesh.dispose();
+        if (this.radarDishMesh) this.radarDishMesh.dispose();
+
+        this.flakShells.forEach(shell => {
+            shell.tracer.material?.dispose();
+            shell.tracer.dispose();
+        });
+        this.flakShells = [];
+
         // Dispose all defense missiles
         this.defenseMissiles.forEach(missile => missile.dispose());
         this.defenseMissiles = [];
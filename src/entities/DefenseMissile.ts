@@ -1,23 +1,36 @@
 import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Color4, PointLight, TransformNode, DynamicTexture } from '@babylonjs/core';
+import { GameClock } from '../utils/GameClock';
+import { DEFAULT_TUNING, DefenseMissileTuning } from '../utils/GameTuning';
+import { DefenseGuidanceState, MissileGuidanceResult } from '../workers/worker-protocol';
 
 export class DefenseMissile {
     private scene: Scene;
+    private gameClock: GameClock;
     private missileGroup: TransformNode;
     private fuselage!: Mesh;
     private position: Vector3;
     private velocity: Vector3;
     private targetPosition: Vector3;
-    private speed: number = 80; // Slower than Tomahawk
+    private speed: number;
     private launched: boolean = false;
     private exploded: boolean = false;
     private exhaustParticles!: ParticleSystem;
     private light!: PointLight;
     private lifeTime: number = 0;
-    private maxLifeTime: number = 10; // Missiles self-destruct after 10 seconds
+    private maxLifeTime: number; // Missiles self-destruct after this many seconds
     private targetSet: boolean = false; // Performance optimization flag
+    private commandGuided: boolean = false; // Steered by the launching SAM while its radar holds the track
+    private turnRate: number;
+    private isTargetingChaff: boolean = false; // Seduced by chaff; the SAM's commands no longer reach it
+    private chaffDetectionRange: number; // Chaff clouds this close break the missile away from the bomber
 
-    constructor(scene: Scene, launchPosition: Vector3, targetPosition: Vector3) {
+    constructor(scene: Scene, launchPosition: Vector3, targetPosition: Vector3, gameClock: GameClock, tuning: DefenseMissileTuning = DEFAULT_TUNING.defenseMissile) {
         this.scene = scene;
+        this.gameClock = gameClock;
+        this.speed = tuning.speed;
+        this.turnRate = tuning.turnRate;
+        this.maxLifeTime = tuning.maxLifeTime;
+        this.chaffDetectionRange = tuning.chaffDetectionRange;
         this.position = launchPosition.clone();
         this.targetPosition = targetPosition.clone();
         
@@ -148,46 +161,58 @@ export class DefenseMissile {
         this.exhaustParticles.start();
     }
 
-    public update(deltaTime: number): void {
-        if (!this.launched || this.exploded) return;
+    // Flight is stepped by MissileGuidanceManager
+    public getGuidanceState(id: string): DefenseGuidanceState {
+        const rotation = this.missileGroup.rotation;
+        return {
+            id,
+            missileType: 'defense',
+            position: { x: this.position.x, y: this.position.y, z: this.position.z },
+            velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+            rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+            targetPosition: { x: this.targetPosition.x, y: this.targetPosition.y, z: this.targetPosition.z },
+            speed: this.speed,
+            lifeTime: this.lifeTime,
+            maxLifeTime: this.maxLifeTime,
+            targetSet: this.targetSet,
+            commandGuided: this.commandGuided,
+            turnRate: this.turnRate,
+            isTargetingChaff: this.isTargetingChaff,
+            chaffDetectionRange: this.chaffDetectionRange
+        };
+    }
 
-        this.lifeTime += deltaTime;
-        
-        // Update position
-        this.position.addInPlace(this.velocity.scale(deltaTime));
-        this.missileGroup.position = this.position;
+    public applyGuidance(result: MissileGuidanceResult): void {
+        if (!this.launched || this.exploded || result.state.missileType !== 'defense') return;
 
-        // Only update rotation if target hasn't been set yet
-        if (!this.targetSet) {
-            // Calculate direction to target once
-            const direction = this.targetPosition.subtract(this.position).normalize();
-            this.velocity = direction.scale(this.speed);
-            
-            // Update rotation to match velocity direction for proper orientation
-            if (this.velocity.lengthSquared() > 0.01) {
-                // Calculate yaw (horizontal rotation around Y axis)
-                const yaw = Math.atan2(this.velocity.x, this.velocity.z) + Math.PI; // Add 180° to flip missile
-                
-                // Calculate pitch (vertical rotation around X axis) 
-                const horizontalSpeed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
-                const pitch = Math.atan2(this.velocity.y, horizontalSpeed) + Math.PI;
-                
-                // Apply rotation to missile group
-                this.missileGroup.rotation.y = yaw;
-                this.missileGroup.rotation.x = pitch;
-            }
-            
-            // Mark target as set to avoid future recalculations
-            this.targetSet = true;
+        const state = result.state;
+        this.position.set(state.position.x, state.position.y, state.position.z);
+        this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+        this.lifeTime = state.lifeTime;
+        this.targetSet = state.targetSet;
+        if (state.isTargetingChaff) {
+            this.isTargetingChaff = true;
+            this.commandGuided = false;
+            this.targetPosition.set(state.targetPosition.x, state.targetPosition.y, state.targetPosition.z);
         }
+        this.missileGroup.position = this.position;
+        this.missileGroup.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
 
-        // Check if we've reached the target or maximum lifetime
-        const distanceToTarget = Vector3.Distance(this.position, this.targetPosition);
-        if (distanceToTarget < 5 || this.lifeTime > this.maxLifeTime) {
+        if (result.shouldExplode) {
             this.explode();
         }
     }
 
+    // Latest aim point from the SAM radar, or null when it has lost the track
+    public setCommandTarget(targetPosition: Vector3 | null): void {
+        if (this.isTargetingChaff) return;
+
+        this.commandGuided = targetPosition !== null;
+        if (targetPosition) {
+            this.targetPosition.copyFrom(targetPosition);
+        }
+    }
+
     public explode(): void {
         if (this.exploded) return;
         
@@ -236,12 +261,12 @@ export class DefenseMissile {
         explosionParticles.start();
         
         // Stop particles after a short time
-        setTimeout(() => {
+        this.gameClock.schedule(0.1, () => {
             explosionParticles.stop();
-            setTimeout(() => {
+            this.gameClock.schedule(2, () => {
                 explosionParticles.dispose();
-            }, 2000);
-        }, 100);
+            });
+        });
         
         // Hide the missile mesh
         this.missileGroup.setEnabled(false);
@@ -0,0 +1,242 @@
+import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Color4, TransformNode, DynamicTexture } from '@babylonjs/core';
+import { GameClock } from '../utils/GameClock';
+import { INTERCEPTOR_PROFILE, InterceptorMode, InterceptorProfile, InterceptorState, InterceptorTarget, getInterceptorVelocity, stepInterceptor } from '../utils/InterceptorAI';
+
+// Enemy fighter scrambled from an airbase; flown by InterceptorAI and stepped by InterceptorManager
+export class Interceptor {
+    private scene: Scene;
+    private gameClock: GameClock;
+    private aircraftGroup: TransformNode;
+    private fuselage!: Mesh;
+    private state: InterceptorState;
+    private profile: InterceptorProfile;
+    private health: number = 60;
+    private destroyed: boolean = false;
+    private exhaustParticles!: ParticleSystem;
+
+    constructor(
+        scene: Scene,
+        launchPosition: Vector3,
+        heading: number,
+        currentTime: number,
+        gameClock: GameClock,
+        profile: InterceptorProfile = INTERCEPTOR_PROFILE
+    ) {
+        this.scene = scene;
+        this.gameClock = gameClock;
+        this.profile = profile;
+        this.state = {
+            position: { x: launchPosition.x, y: launchPosition.y, z: launchPosition.z },
+            heading,
+            pitch: profile.maxClimbAngle, // Climbing out
+            speed: profile.minSpeed,
+            missilesLeft: profile.missiles,
+            lastMissileTime: currentTime, // No shots straight off the runway
+            mode: 'pursuit'
+        };
+
+        this.aircraftGroup = new TransformNode('interceptorGroup', this.scene);
+        this.createAircraftModel();
+        this.setupParticleEffects();
+        this.syncTransform();
+        this.exhaustParticles.start();
+    }
+
+    private createAircraftModel(): void {
+        const bodyMaterial = new StandardMaterial('interceptorMaterial', this.scene);
+        bodyMaterial.diffuseColor = new Color3(0.35, 0.4, 0.45); // Air superiority grey
+        bodyMaterial.specularColor = new Color3(0.2, 0.2, 0.2);
+        bodyMaterial.emissiveColor = new Color3(0.05, 0.05, 0.08);
+
+        this.fuselage = MeshBuilder.CreateCylinder('interceptorFuselage', {
+            height: 9,
+            diameterTop: 0.4,
+            diameterBottom: 1.2,
+            tessellation: 8
+        }, this.scene);
+        this.fuselage.rotation.x = Math.PI / 2; // Nose along +z
+        this.fuselage.parent = this.aircraftGroup;
+        this.fuselage.material = bodyMaterial;
+
+        // Swept delta wing
+        const wing = MeshBuilder.CreateBox('interceptorWing', {
+            width: 7,
+            height: 0.15,
+            depth: 3
+        }, this.scene);
+        wing.position.z = -1.5;
+        wing.parent = this.aircraftGroup;
+        wing.material = bodyMaterial;
+
+        const tailFin = MeshBuilder.CreateBox('interceptorTailFin', {
+            width: 0.15,
+            height: 2,
+            depth: 1.5
+        }, this.scene);
+        tailFin.position.y = 1;
+        tailFin.position.z = -3.5;
+        tailFin.parent = this.aircraftGroup;
+        tailFin.material = bodyMaterial;
+
+        const canopy = MeshBuilder.CreateSphere('interceptorCanopy', { diameter: 0.8 }, this.scene);
+        canopy.position.y = 0.4;
+        canopy.position.z = 2;
+        canopy.parent = this.aircraftGroup;
+
+        const canopyMaterial = new StandardMaterial('interceptorCanopyMaterial', this.scene);
+        canopyMaterial.diffuseColor = new Color3(0.1, 0.15, 0.2);
+        canopyMaterial.specularColor = new Color3(0.8, 0.8, 0.8);
+        canopy.material = canopyMaterial;
+    }
+
+    private setupParticleEffects(): void {
+        // Afterburner
+        this.exhaustParticles = new ParticleSystem('interceptorExhaust', 60, this.scene);
+        this.exhaustParticles.particleTexture = new Texture("data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==", this.scene);
+
+        const emitterMesh = MeshBuilder.CreateSphere('interceptorEmitter', { diameter: 0.05 }, this.scene);
+        emitterMesh.position = new Vector3(0, 0, -4.6);
+        emitterMesh.parent = this.aircraftGroup;
+        emitterMesh.isVisible = false;
+
+        this.exhaustParticles.emitter = emitterMesh;
+        this.exhaustParticles.minEmitBox = new Vector3(-0.2, -0.2, -0.1);
+        this.exhaustParticles.maxEmitBox = new Vector3(0.2, 0.2, 0.1);
+
+        this.exhaustParticles.color1 = new Color4(1, 0.6, 0.2, 1.0);
+        this.exhaustParticles.color2 = new Color4(1, 0.3, 0.1, 0.8);
+        this.exhaustParticles.colorDead = new Color4(0.2, 0.2, 0.2, 0.0);
+
+        this.exhaustParticles.emitRate = 60;
+        this.exhaustParticles.minLifeTime = 0.1;
+        this.exhaustParticles.maxLifeTime = 0.3;
+        this.exhaustParticles.minSize = 0.4;
+        this.exhaustParticles.maxSize = 0.9;
+        this.exhaustParticles.minEmitPower = 10;
+        this.exhaustParticles.maxEmitPower = 20;
+        this.exhaustParticles.updateSpeed = 0.01;
+
+        this.exhaustParticles.direction1 = new Vector3(-0.1, -0.1, -1);
+        this.exhaustParticles.direction2 = new Vector3(0.1, 0.1, -1);
+        this.exhaustParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
+    }
+
+    // Flies one tick of pursuit; returns whether a missile was fired
+    public update(target: InterceptorTarget, groundHeight: number, currentTime: number, deltaTime: number): boolean {
+        if (this.destroyed) return false;
+
+        const step = stepInterceptor(this.state, target, groundHeight, currentTime, deltaTime, this.profile);
+        this.state = step.state;
+        this.syncTransform();
+        return step.fireMissile;
+    }
+
+    private syncTransform(): void {
+        const position = this.state.position;
+        this.aircraftGroup.position.set(position.x, position.y, position.z);
+        this.aircraftGroup.rotation.set(-this.state.pitch, this.state.heading, 0);
+    }
+
+    // Returns true if this damage shot it down
+    public takeDamage(damage: number): boolean {
+        if (this.destroyed) return false;
+
+        this.health = Math.max(0, this.health - damage);
+        if (this.health === 0) {
+            this.explode();
+            return true;
+        }
+        return false;
+    }
+
+    public explode(): void {
+        if (this.destroyed) return;
+
+        this.destroyed = true;
+        this.exhaustParticles.stop();
+
+        // Create procedural explosion texture
+        const explosionTexture = new DynamicTexture('interceptorExplosionTexture', {width: 64, height: 64}, this.scene);
+        const explosionContext = explosionTexture.getContext();
+
+        const explosionGradient = explosionContext.createRadialGradient(32, 32, 0, 32, 32, 32);
+        explosionGradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        explosionGradient.addColorStop(0.2, 'rgba(255, 230, 0, 0.9)');
+        explosionGradient.addColorStop(0.5, 'rgba(255, 100, 0, 0.6)');
+        explosionGradient.addColorStop(1, 'rgba(60, 60, 60, 0)');
+
+        explosionContext.fillStyle = explosionGradient;
+        explosionContext.fillRect(0, 0, 64, 64);
+        explosionTexture.update();
+
+        const explosionParticles = new ParticleSystem('interceptorExplosion', 400, this.scene);
+        explosionParticles.particleTexture = explosionTexture;
+        explosionParticles.emitter = this.getPosition();
+        explosionParticles.minEmitBox = new Vector3(-2, -1, -2);
+        explosionParticles.maxEmitBox = new Vector3(2, 1, 2);
+
+        explosionParticles.color1 = new Color4(1, 0.8, 0.1, 1.0);
+        explosionParticles.color2 = new Color4(1, 0.3, 0, 1.0);
+        explosionParticles.colorDead = new Color4(0.2, 0.2, 0.2, 0.0);
+
+        explosionParticles.minSize = 1;
+        explosionParticles.maxSize = 4;
+        explosionParticles.minLifeTime = 0.5;
+        explosionParticles.maxLifeTime = 1.5;
+        explosionParticles.emitRate = 800;
+        explosionParticles.blendMode = ParticleSystem.BLENDMODE_ONEONE;
+        explosionParticles.gravity = new Vector3(0, -9.81, 0);
+        explosionParticles.direction1 = new Vector3(-5, 0, -5);
+        explosionParticles.direction2 = new Vector3(5, 6, 5);
+        explosionParticles.minEmitPower = 5;
+        explosionParticles.maxEmitPower = 12;
+
+        explosionParticles.start();
+
+        this.gameClock.schedule(0.15, () => {
+            explosionParticles.stop();
+            this.gameClock.schedule(2, () => {
+                explosionParticles.dispose();
+            });
+        });
+
+        this.aircraftGroup.setEnabled(false);
+    }
+
+    public getPosition(): Vector3 {
+        const position = this.state.position;
+        return new Vector3(position.x, position.y, position.z);
+    }
+
+    public getVelocity(): Vector3 {
+        const velocity = getInterceptorVelocity(this.state);
+        return new Vector3(velocity.x, velocity.y, velocity.z);
+    }
+
+    public getHeading(): number {
+        return this.state.heading;
+    }
+
+    public getMode(): InterceptorMode {
+        return this.state.mode;
+    }
+
+    public getMissilesLeft(): number {
+        return this.state.missilesLeft;
+    }
+
+    public getHealth(): number {
+        return this.health;
+    }
+
+    public isDestroyed(): boolean {
+        return this.destroyed;
+    }
+
+    public dispose(): void {
+        if (this.exhaustParticles) {
+            this.exhaustParticles.dispose();
+        }
+        this.aircraftGroup.dispose();
+    }
+}
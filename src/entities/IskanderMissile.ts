@@ -1,9 +1,12 @@
 import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Color4, PointLight, TransformNode, DynamicTexture } from '@babylonjs/core';
 import { Bomber } from './Bomber';
-import { WorkerManager } from '../managers/WorkerManager';
+import { IskanderGuidanceState, MissileGuidanceResult } from '../workers/worker-protocol';
+import { GameClock } from '../utils/GameClock';
+import { DEFAULT_TUNING, IskanderTuning } from '../utils/GameTuning';
 
 export class IskanderMissile {
     private scene: Scene;
+    private gameClock: GameClock;
     private missileGroup: TransformNode;
     private fuselage!: Mesh;
     private position: Vector3;
@@ -11,8 +14,8 @@ export class IskanderMissile {
     private rotation: Vector3;
     private targetPosition: Vector3;
     private bomber: Bomber;
-    private speed: number = 120; // Slightly slower than Tomahawk
-    private turnRate: number = 1.25; // How fast the missile can turn
+    private speed: number;
+    private turnRate: number; // How fast the missile can turn
     private launched: boolean = false;
     private exploded: boolean = false;
     private exhaustParticles!: ParticleSystem;
@@ -30,47 +33,37 @@ export class IskanderMissile {
     private waypoints: Vector3[] = [];
     
     // Performance optimization: cached calculations
-    private lastUpdateTime: number = 0;
-    private updateInterval: number = 1/60; // 60 FPS max updates
     private cachedCurvePosition: Vector3 = new Vector3();
     private curveCacheValid: boolean = false;
     private lastCurveTime: number = -1;
     
     // Countermeasure flare targeting
-    private flareTargets: Vector3[] = [];
-    private currentTargetIndex: number = 0;
-    private flareDetectionRange: number = 80; // Increased from 50 to 80 for better effectiveness
-    private flareAttractionStrength: number = 0.7; // How strongly flares attract the missile
-    private originalTargetPosition: Vector3;
+    private flareDetectionRange: number; // The bomber's flares, as tuned for the sortie
     private isTargetingFlare: boolean = false;
 
     // Lock-on system properties
     private lockOnRange: number = Infinity; // Remove distance limitation - always allow lock
     private isLockedOn: boolean = false;
     private lockOnTime: number = 0;
-    private lockOnDuration: number = 1.0; // Time required to establish lock
-    private guidanceStrength: number = 2.0; // How strongly the missile turns toward target
-    private maxTurnRate: number = 3.0; // Maximum turn rate in radians per second
+    private lockOnDuration: number; // Time required to establish lock
     private lastTargetUpdateTime: number = 0;
     private targetUpdateInterval: number = 0.1; // Update target position every 100ms
 
     // Lock establishment callback
     private onLockEstablishedCallback: (() => void) | null = null;
 
-    // Worker integration
-    private workerManager: WorkerManager;
-    private pendingPhysicsUpdate: boolean = false;
-    private lastPhysicsResult: any = null;
-
-    constructor(scene: Scene, launchPosition: Vector3, bomber: Bomber, workerManager: WorkerManager) {
+    constructor(scene: Scene, launchPosition: Vector3, bomber: Bomber, gameClock: GameClock, tuning: IskanderTuning = DEFAULT_TUNING.iskander) {
         this.scene = scene;
+        this.gameClock = gameClock;
         this.position = launchPosition.clone();
         this.bomber = bomber;
+        this.speed = tuning.speed;
+        this.turnRate = tuning.turnRate;
+        this.lockOnDuration = tuning.lockOnDuration;
+        this.flareDetectionRange = bomber.getFlareDetectionRange();
         this.targetPosition = bomber.getPosition().clone();
-        this.originalTargetPosition = this.targetPosition.clone();
         this.rotation = new Vector3(0, 0, 0);
         this.velocity = new Vector3(0, 0, 0); // Start stationary
-        this.workerManager = workerManager;
         
         this.missileGroup = new TransformNode('iskanderGroup', this.scene);
         this.missileGroup.position = this.position.clone();
@@ -537,118 +530,51 @@ export class IskanderMissile {
         this.flightSmokeParticles.start();
     }
 
-    public addFlareTarget(flarePosition: Vector3): void {
-        this.flareTargets.push(flarePosition.clone());
-    }
-
-    private checkForFlareTargets(): void {
-        // Clear old flare targets that are too far away
-        this.flareTargets = this.flareTargets.filter(flarePos => {
-            const distanceToFlare = Vector3.Distance(this.position, flarePos);
-            return distanceToFlare <= this.flareDetectionRange * 2; // Keep flares within 2x detection range
-        });
-
-        // Check if any flares are within detection range
-        let closestFlare: Vector3 | null = null;
-        let closestDistance = Infinity;
-        
-        for (let i = 0; i < this.flareTargets.length; i++) {
-            const flarePos = this.flareTargets[i];
-            const distanceToFlare = Vector3.Distance(this.position, flarePos);
-            
-            if (distanceToFlare <= this.flareDetectionRange && distanceToFlare < closestDistance) {
-                closestFlare = flarePos;
-                closestDistance = distanceToFlare;
-            }
-        }
-        
-        if (closestFlare) {
-            // Switch to targeting the closest flare
-            this.targetPosition = closestFlare.clone();
-            this.isTargetingFlare = true;
-            return;
-        }
-        
-        // If no flares in range, return to original target (bomber)
-        if (this.isTargetingFlare) {
-            this.targetPosition = this.originalTargetPosition.clone();
-            this.isTargetingFlare = false;
-        }
+    // Flight is stepped by MissileGuidanceManager; flares and the bomber's position are supplied with each batch
+    public getGuidanceState(id: string): IskanderGuidanceState {
+        return {
+            id,
+            missileType: 'iskander',
+            position: { x: this.position.x, y: this.position.y, z: this.position.z },
+            velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+            rotation: { x: this.rotation.x, y: this.rotation.y, z: this.rotation.z },
+            targetPosition: { x: this.targetPosition.x, y: this.targetPosition.y, z: this.targetPosition.z },
+            speed: this.speed,
+            turnRate: this.turnRate,
+            isTargetingFlare: this.isTargetingFlare,
+            flareDetectionRange: this.flareDetectionRange,
+            isLockedOn: this.isLockedOn,
+            lockOnTime: this.lockOnTime,
+            lockOnDuration: this.lockOnDuration,
+            lastTargetUpdateTime: this.lastTargetUpdateTime,
+            targetUpdateInterval: this.targetUpdateInterval,
+            // MissileGuidanceManager traces the line of sight, the bomber's signature and its jamming when it batches the missile
+            bomberVisible: true,
+            bomberSignature: 1,
+            bomberJamming: false
+        };
     }
 
-    public update(deltaTime: number): void {
-        if (!this.launched || this.exploded) return;
-
-        // Performance optimization: limit update frequency
-        const currentTime = performance.now() / 1000;
-        if (currentTime - this.lastUpdateTime < this.updateInterval) {
-            return;
-        }
-        this.lastUpdateTime = currentTime;
-
-        // Update target position periodically for better performance
-        if (currentTime - this.lastTargetUpdateTime > this.targetUpdateInterval) {
-            if (!this.isTargetingFlare) {
-                this.targetPosition = this.bomber.getPosition().clone();
-                this.originalTargetPosition = this.targetPosition.clone();
-            }
-            this.lastTargetUpdateTime = currentTime;
-        }
-
-        // Use simple, reliable physics that works
-        this.updatePhysicsSimple(deltaTime, currentTime);
-    }
-
-    private updatePhysicsSimple(deltaTime: number, currentTime: number): void {
-        // Simple, reliable physics that guarantees movement
-        
-        // Check for flare targets (countermeasures)
-        this.checkForFlareTargets();
-        
-        // Basic guidance: move toward target
-        const directionToTarget = this.targetPosition.subtract(this.position).normalize();
-        const desiredVelocity = directionToTarget.scale(this.speed);
-        
-        // Simple velocity interpolation
-        this.velocity.x += (desiredVelocity.x - this.velocity.x) * this.turnRate * deltaTime;
-        this.velocity.y += (desiredVelocity.y - this.velocity.y) * this.turnRate * deltaTime;
-        this.velocity.z += (desiredVelocity.z - this.velocity.z) * this.turnRate * deltaTime;
-        
-        // Ensure minimum velocity
-        if (this.velocity.lengthSquared() < this.speed * 0.1) {
-            this.velocity = directionToTarget.scale(this.speed * 0.5);
-        }
-        
-        // Update rotation based on velocity
-        if (this.velocity.lengthSquared() > 0.01) {
-            this.rotation.y = Math.atan2(this.velocity.x, this.velocity.z);
-            const horizontalSpeed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
-            if (horizontalSpeed > 0.001) {
-                this.rotation.x = Math.atan2(-this.velocity.y, horizontalSpeed);
-            }
-        }
-
-        // Update position
-        this.position.x += this.velocity.x * deltaTime;
-        this.position.y += this.velocity.y * deltaTime;
-        this.position.z += this.velocity.z * deltaTime;
+    public applyGuidance(result: MissileGuidanceResult): void {
+        if (!this.launched || this.exploded || result.state.missileType !== 'iskander') return;
+
+        const state = result.state;
+        this.position.set(state.position.x, state.position.y, state.position.z);
+        this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+        this.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
+        this.targetPosition.set(state.targetPosition.x, state.targetPosition.y, state.targetPosition.z);
+        this.isTargetingFlare = state.isTargetingFlare;
+        this.isLockedOn = state.isLockedOn;
+        this.lockOnTime = state.lockOnTime;
+        this.lastTargetUpdateTime = state.lastTargetUpdateTime;
         this.missileGroup.position = this.position.clone();
         this.missileGroup.rotation = this.rotation.clone();
 
-        // Simple lock-on system - always allow lock regardless of distance
-        const distanceToTarget = Vector3.Distance(this.position, this.targetPosition);
-        if (!this.isLockedOn) {
-            this.lockOnTime += deltaTime;
-            if (this.lockOnTime >= this.lockOnDuration) {
-                this.isLockedOn = true;
-                if (this.onLockEstablishedCallback) {
-                    this.onLockEstablishedCallback();
-                }
-            }
+        if (result.lockEstablished && this.onLockEstablishedCallback) {
+            this.onLockEstablishedCallback();
         }
 
-        // Check if reached target or ground
-        if (distanceToTarget <= 5 || this.position.y <= 0) {
+        if (result.shouldExplode) {
             this.explode();
         }
     }
@@ -687,7 +613,7 @@ export class IskanderMissile {
         this.missileGroup.setEnabled(false);
         
         // Clean up after explosion
-        setTimeout(() => {
+        this.gameClock.schedule(1, () => {
             this.fireParticles.dispose();
             this.trailParticles.dispose();
             this.exhaustParticles.dispose();
@@ -698,11 +624,11 @@ export class IskanderMissile {
             if (this.missileGroup) {
                 this.missileGroup.dispose();
             }
-        }, 1000);
+        });
         
-        setTimeout(() => {
+        this.gameClock.schedule(6, () => {
             this.explosionSmokeParticles.dispose();
-        }, 6000);
+        });
     }
 
     public getPosition(): Vector3 {
@@ -1,8 +1,12 @@
 import { Scene, Mesh, Vector3, MeshBuilder, StandardMaterial, Color3, ParticleSystem, Texture, Sound, Color4, PointLight, TransformNode, Animation, AnimationGroup, DynamicTexture } from '@babylonjs/core';
 import { Building } from './Building';
+import { GameClock } from '../utils/GameClock';
+import { getRouteLength } from '../utils/MissionPlan';
+import { MissileGuidanceResult, TomahawkGuidanceState } from '../workers/worker-protocol';
 
 export class TomahawkMissile {
     private scene: Scene;
+    private gameClock: GameClock;
     private missileGroup: TransformNode;
     private fuselage!: Mesh;
     private position: Vector3;
@@ -35,24 +39,17 @@ export class TomahawkMissile {
     // Simple curved path following
     private pathTime: number = 0;
     private pathSpeed: number = 0.5; // Speed along the curved path
-
-    // Performance optimization: cached calculations
-    private lastUpdateTime: number = 0;
-    private updateInterval: number = 1/60; // 60 FPS max updates
-    private cachedCurvePosition: Vector3 = new Vector3();
-    private curveCacheValid: boolean = false;
-    private lastCurveTime: number = -1;
-
-    // Look-ahead orientation properties
-    private lookAheadDistance: number = 0.4; // How far ahead to look on the curve (0-1) - increased for better path following
-    private lastSegmentChangeTime: number = 0;
-    private orientationUpdateThreshold: number = 0.15; // When to update orientation (segment progress) - increased threshold
+    private flightTime: number = 0;
+    private guidedFlightStarted: boolean = false; // Guided flight begins once the launch drop is over
+    private lastOrientationUpdateTime: number = 0; // Flight time of the last look-ahead orientation
 
     // Target destruction callback
     private onTargetDestroyedCallback: ((building: Building) => void) | null = null;
 
-    constructor(scene: Scene, launchPosition: Vector3, targetBuilding: Building, launchRotation: Vector3) {
+    // A planned route (launch point first, target last) replaces the generated curve
+    constructor(scene: Scene, launchPosition: Vector3, targetBuilding: Building, launchRotation: Vector3, gameClock: GameClock, route: Vector3[] | null = null) {
         this.scene = scene;
+        this.gameClock = gameClock;
         this.position = launchPosition.clone();
         this.targetBuilding = targetBuilding;
         this.targetPosition = targetBuilding.getPosition().clone();
@@ -67,7 +64,12 @@ export class TomahawkMissile {
         this.setupParticleEffects();
         this.setupExplosionEffects();
         this.createLaunchAnimation();
-        this.generateCurvedPath();
+        if (route && route.length > 2) {
+            this.waypoints = route.map(waypoint => waypoint.clone());
+            this.pathSpeed = this.speed / getRouteLength(this.waypoints); // Cover the route at cruise speed
+        } else {
+            this.generateCurvedPath();
+        }
     }
 
     private generateCurvedPath(): void {
@@ -75,77 +77,6 @@ export class TomahawkMissile {
         this.waypoints = [this.position.clone(), this.targetPosition.clone()];
     }
 
-    private getCurvedPathPosition(t: number): Vector3 {
-        // Use cached result if available
-        if (this.curveCacheValid && Math.abs(t - this.lastCurveTime) < 0.01) {
-            return this.cachedCurvePosition.clone();
-        }
-
-        // Create a simple curved path using parametric equations
-        const startPos = this.waypoints[0];
-        const endPos = this.waypoints[1];
-        
-        // Linear interpolation for base path
-        const basePos = Vector3.Lerp(startPos, endPos, t);
-        
-        // Add curved deviation
-        const distance = Vector3.Distance(startPos, endPos);
-        const curveAmplitude = distance * 0.15; // Reduced curve amplitude
-        
-        // Create a winding curve using sine waves - keep it low to the ground
-        const curveX = Math.sin(t * Math.PI * 2) * curveAmplitude;
-        const curveZ = Math.cos(t * Math.PI * 1.5) * curveAmplitude;
-        
-        // Reduced height variation - cruise missiles stay low
-        const maxHeightVariation = 15; // Much smaller height variation
-        const curveY = Math.sin(t * Math.PI) * maxHeightVariation;
-        
-        // Ensure the missile never goes above the launch altitude
-        const maxAltitude = startPos.y + 10; // Never more than 10 units above launch
-        const calculatedY = basePos.y + curveY;
-        const clampedY = Math.min(calculatedY, maxAltitude);
-        
-        // Additional safety: ensure missile stays well below bomber altitude (bomber at ~100, missile should stay below 90)
-        const bomberAltitude = 100;
-        const safeMissileAltitude = Math.min(clampedY, bomberAltitude - 10);
-        
-        // Cache the result
-        this.cachedCurvePosition.set(
-            basePos.x + curveX,
-            safeMissileAltitude,
-            basePos.z + curveZ
-        );
-        this.lastCurveTime = t;
-        this.curveCacheValid = true;
-        
-        return this.cachedCurvePosition.clone();
-    }
-
-    private getLookAheadPosition(): Vector3 {
-        // Get position ahead on the curve for orientation targeting
-        const lookAheadTime = Math.min(this.pathTime + this.lookAheadDistance, 1.0);
-        return this.getCurvedPathPosition(lookAheadTime);
-    }
-
-    private updateOrientationToLookAhead(): void {
-        // Update missile orientation to look ahead to the end of the current curve segment
-        const lookAheadPos = this.getLookAheadPosition();
-        const directionToLookAhead = lookAheadPos.subtract(this.position).normalize();
-        
-        if (directionToLookAhead.lengthSquared() > 0.01) {
-            // Calculate yaw (horizontal rotation around Y axis)
-            this.rotation.y = Math.atan2(directionToLookAhead.x, directionToLookAhead.z);
-            
-            // Calculate pitch (vertical rotation around X axis) - fixed calculation
-            const horizontalSpeed = Math.sqrt(directionToLookAhead.x * directionToLookAhead.x + directionToLookAhead.z * directionToLookAhead.z);
-            if (horizontalSpeed > 0.001) {
-                this.rotation.x = Math.atan2(-directionToLookAhead.y, horizontalSpeed); // Negative Y for correct pitch
-            } else {
-                this.rotation.x = 0; // No pitch if no horizontal movement
-            }
-        }
-    }
-
     private createMissileModel(): void {
         // Main fuselage - sleek cruise missile body
         this.fuselage = MeshBuilder.CreateCylinder('missileFuselage', {
@@ -556,7 +487,7 @@ export class TomahawkMissile {
         if (this.launched) return;
         
         this.launched = true;
-        this.pathStartTime = performance.now() / 1000;
+        this.pathStartTime = this.gameClock.now();
         
         // Start all particle effects
         this.exhaustParticles.start();
@@ -565,96 +496,43 @@ export class TomahawkMissile {
         
         // Play launch animation
         this.launchAnimationGroup.play(false);
-        
-        // After launch animation, start guided flight
-        setTimeout(() => {
-            this.startGuidedFlight();
-        }, 1000);
     }
 
-    private startGuidedFlight(): void {
-        // Initialize path time for curved navigation
-        this.pathTime = 0;
-        this.lastSegmentChangeTime = performance.now() / 1000;
-        
-        // Calculate initial velocity toward first point on the curve
-        const firstCurvePoint = this.getCurvedPathPosition(0.1);
-        const directionToCurve = firstCurvePoint.subtract(this.position).normalize();
-        this.velocity = directionToCurve.scale(this.speed);
-        
-        // Set initial orientation to look ahead
-        this.updateOrientationToLookAhead();
+    // Flight is stepped by MissileGuidanceManager
+    public getGuidanceState(id: string): TomahawkGuidanceState {
+        return {
+            id,
+            missileType: 'tomahawk',
+            position: { x: this.position.x, y: this.position.y, z: this.position.z },
+            velocity: { x: this.velocity.x, y: this.velocity.y, z: this.velocity.z },
+            rotation: { x: this.rotation.x, y: this.rotation.y, z: this.rotation.z },
+            targetPosition: { x: this.targetPosition.x, y: this.targetPosition.y, z: this.targetPosition.z },
+            speed: this.speed,
+            turnRate: this.turnRate,
+            waypoints: this.waypoints.map(waypoint => ({ x: waypoint.x, y: waypoint.y, z: waypoint.z })),
+            pathTime: this.pathTime,
+            pathSpeed: this.pathSpeed,
+            flightTime: this.flightTime,
+            guidedFlightStarted: this.guidedFlightStarted,
+            lastOrientationUpdateTime: this.lastOrientationUpdateTime
+        };
     }
 
-    public update(deltaTime: number): void {
-        if (!this.launched || this.exploded) return;
-
-        // Performance optimization: limit update frequency
-        const currentTime = performance.now() / 1000;
-        if (currentTime - this.lastUpdateTime < this.updateInterval) {
-            return;
-        }
-        this.lastUpdateTime = currentTime;
-
-        // Update curved path navigation
-        this.pathTime += deltaTime * this.pathSpeed;
-        
-        // Check if we should update orientation at curve segment boundaries
-        // Update orientation every 0.2 progress units (5 segments total)
-        const segmentSize = 0.2;
-        const currentSegment = Math.floor(this.pathTime / segmentSize);
-        const segmentProgress = (this.pathTime % segmentSize) / segmentSize;
-        
-        // Update orientation at the start of each segment and more frequently for better responsiveness
-        const shouldUpdateOrientation = (segmentProgress <= this.orientationUpdateThreshold || 
-                                        segmentProgress >= 0.9) && 
-                                       (currentTime - this.lastSegmentChangeTime) > 0.2; // More frequent updates
-        
-        if (shouldUpdateOrientation) {
-            this.updateOrientationToLookAhead();
-            this.lastSegmentChangeTime = currentTime;
-        }
-        
-        if (this.pathTime <= 1.0) {
-            // Follow the curved path
-            const targetPosition = this.getCurvedPathPosition(this.pathTime);
-            const directionToTarget = targetPosition.subtract(this.position).normalize();
-            const desiredVelocity = directionToTarget.scale(this.speed);
-            
-            // Smoothly interpolate velocity for curved movement
-            this.velocity.x = this.velocity.x + (desiredVelocity.x - this.velocity.x) * this.turnRate * deltaTime;
-            this.velocity.y = this.velocity.y + (desiredVelocity.y - this.velocity.y) * this.turnRate * deltaTime;
-            this.velocity.z = this.velocity.z + (desiredVelocity.z - this.velocity.z) * this.turnRate * deltaTime;
-        } else {
-            // Head directly to target when curve is complete
-            const directionToTarget = this.targetPosition.subtract(this.position).normalize();
-            this.velocity = directionToTarget.scale(this.speed);
-        }
-        
-        // Update rotation based on velocity (only if not updating orientation to look ahead)
-        if (!shouldUpdateOrientation && this.velocity.lengthSquared() > 0.01) {
-            // Calculate yaw (horizontal rotation around Y axis)
-            this.rotation.y = Math.atan2(this.velocity.x, this.velocity.z);
-            
-            // Calculate pitch (vertical rotation around X axis) - fixed calculation
-            const horizontalSpeed = Math.sqrt(this.velocity.x * this.velocity.x + this.velocity.z * this.velocity.z);
-            if (horizontalSpeed > 0.001) {
-                this.rotation.x = Math.atan2(-this.velocity.y, horizontalSpeed); // Negative Y for correct pitch
-            } else {
-                this.rotation.x = 0; // No pitch if no horizontal movement
-            }
-        }
-
-        // Update position
-        this.position.x += this.velocity.x * deltaTime;
-        this.position.y += this.velocity.y * deltaTime;
-        this.position.z += this.velocity.z * deltaTime;
+    public applyGuidance(result: MissileGuidanceResult): void {
+        if (!this.launched || this.exploded || result.state.missileType !== 'tomahawk') return;
+
+        const state = result.state;
+        this.position.set(state.position.x, state.position.y, state.position.z);
+        this.velocity.set(state.velocity.x, state.velocity.y, state.velocity.z);
+        this.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z);
+        this.pathTime = state.pathTime;
+        this.flightTime = state.flightTime;
+        this.guidedFlightStarted = state.guidedFlightStarted;
+        this.lastOrientationUpdateTime = state.lastOrientationUpdateTime;
         this.missileGroup.position = this.position.clone();
         this.missileGroup.rotation = this.rotation.clone();
 
-        // Check if reached target or ground
-        const distanceToTarget = Vector3.Distance(this.position, this.targetPosition);
-        if (distanceToTarget <= 5 || this.position.y <= 0) {
+        if (result.shouldExplode) {
             this.explode();
         }
     }
@@ -693,17 +571,17 @@ export class TomahawkMissile {
         this.fuselage.setEnabled(false);
         
         // Clean up after explosion - reduced cleanup time
-        setTimeout(() => {
+        this.gameClock.schedule(1, () => {
             this.fireParticles.dispose();
             this.trailParticles.dispose();
             this.exhaustParticles.dispose();
             this.shockwaveParticles.dispose();
             this.sparkParticles.dispose();
-        }, 1000); // Reduced from 1500
+        }); // Reduced from 1.5 seconds
         
-        setTimeout(() => {
+        this.gameClock.schedule(6, () => {
             this.explosionSmokeParticles.dispose();
-        }, 6000); // Reduced from 8000
+        }); // Reduced from 8 seconds
     }
 
     public getPosition(): Vector3 {
@@ -718,6 +596,10 @@ export class TomahawkMissile {
         return this.exploded;
     }
 
+    public getTargetBuilding(): Building | null {
+        return this.targetBuilding;
+    }
+
     public dispose(): void {
         if (this.missileGroup) this.missileGroup.dispose();
         if (this.fireParticles) this.fireParticles.dispose();
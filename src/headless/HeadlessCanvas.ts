@@ -0,0 +1,102 @@
+import type { DOMMatrix, ICanvas, ICanvasGradient, ICanvasRenderingContext, IPath2D, ITextMetrics } from '@babylonjs/core';
+
+// Stand-in for the 2D canvas API under Node: DynamicTextures draw into this and nothing is kept.
+// Implements Babylon's ICanvas in full so the compiler checks it against what the engine may call.
+class HeadlessGradient implements ICanvasGradient {
+    public addColorStop(offset: number, color: string): void {}
+}
+
+class HeadlessCanvasContext implements ICanvasRenderingContext {
+    public readonly canvas: HeadlessCanvas;
+    public lineJoin: string = 'miter';
+    public miterLimit: number = 10;
+    public font: string = '10px sans-serif';
+    public strokeStyle: string | ICanvasGradient = '#000000';
+    public fillStyle: string | ICanvasGradient = '#000000';
+    public filter: string = 'none';
+    public globalAlpha: number = 1;
+    public shadowColor: string = 'rgba(0, 0, 0, 0)';
+    public shadowBlur: number = 0;
+    public shadowOffsetX: number = 0;
+    public shadowOffsetY: number = 0;
+    public lineWidth: number = 1;
+
+    constructor(canvas: HeadlessCanvas) {
+        this.canvas = canvas;
+    }
+
+    public createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): ICanvasGradient {
+        return new HeadlessGradient();
+    }
+
+    public createLinearGradient(x0: number, y0: number, x1: number, y1: number): ICanvasGradient {
+        return new HeadlessGradient();
+    }
+
+    // Blank pixels; Node has no ImageData class, so this is a plain object of the same shape
+    public getImageData(sx: number, sy: number, sw: number, sh: number): ImageData {
+        return { width: sw, height: sh, data: new Uint8ClampedArray(sw * sh * 4), colorSpace: 'srgb' };
+    }
+
+    public measureText(text: string): ITextMetrics {
+        const width = text.length * 6;
+        return { width, actualBoundingBoxLeft: 0, actualBoundingBoxRight: width, actualBoundingBoxAscent: 8, actualBoundingBoxDescent: 2 };
+    }
+
+    public getTransform(): DOMMatrix {
+        return {
+            is2D: true, isIdentity: true,
+            a: 1, b: 0, c: 0, d: 1, e: 0, f: 0,
+            m11: 1, m12: 0, m13: 0, m14: 0,
+            m21: 0, m22: 1, m23: 0, m24: 0,
+            m31: 0, m32: 0, m33: 1, m34: 0,
+            m41: 0, m42: 0, m43: 0, m44: 1
+        };
+    }
+
+    public putImageData(imageData: ImageData, dx: number, dy: number): void {}
+    public drawImage(image: any, ...coordinates: number[]): void {}
+    public clearRect(x: number, y: number, width: number, height: number): void {}
+    public fillRect(x: number, y: number, width: number, height: number): void {}
+    public strokeRect(x: number, y: number, width: number, height: number): void {}
+    public rect(x: number, y: number, width: number, height: number): void {}
+    public clip(): void {}
+    public beginPath(): void {}
+    public closePath(): void {}
+    public moveTo(x: number, y: number): void {}
+    public lineTo(x: number, y: number): void {}
+    public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {}
+    public arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise?: boolean): void {}
+    public fill(): void {}
+    public stroke(path?: IPath2D): void {}
+    public setLineDash(segments: Array<number>): void {}
+    public fillText(text: string, x: number, y: number, maxWidth?: number): void {}
+    public strokeText(text: string, x: number, y: number, maxWidth?: number): void {}
+    public save(): void {}
+    public restore(): void {}
+    public scale(x: number, y: number): void {}
+    public rotate(angle: number): void {}
+    public translate(x: number, y: number): void {}
+    public setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {}
+}
+
+export class HeadlessCanvas implements ICanvas {
+    public width: number;
+    public height: number;
+    private context: HeadlessCanvasContext;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.context = new HeadlessCanvasContext(this);
+    }
+
+    // Only 2D drawing happens off-screen; WebGL goes through the NullEngine itself
+    public getContext(contextType: string, contextAttributes?: any): ICanvasRenderingContext {
+        return this.context;
+    }
+
+    public toDataURL(mime: string): string {
+        return `data:${mime},`;
+    }
+}
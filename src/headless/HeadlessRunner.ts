@@ -0,0 +1,141 @@
+import { Logger, NullEngine, Scene } from '@babylonjs/core';
+import { Game } from '../managers/Game';
+import { FlightRecorder, FlightRecording } from '../utils/FlightRecorder';
+import { LoadoutSelection } from '../utils/WeaponLoadout';
+import { GameTuning } from '../utils/GameTuning';
+import { createInProcessWorker } from '../workers/in-process-worker';
+import { HeadlessCanvas } from './HeadlessCanvas';
+
+// Returns the simulation input bitmask (see SIMULATION_INPUT_KEYS) to hold during the given tick
+export type HeadlessPilot = (game: Game, tick: number) => number;
+
+export interface SortieOptions {
+    worldSeed?: number;
+    maxTicks?: number;
+    pilot?: HeadlessPilot;
+    keepRecording?: boolean; // Attach the flight recording to the result (for replaying failures)
+    wind?: boolean; // Seeded crosswind on falling bombs
+    loadout?: LoadoutSelection; // Weapon stations; defaults to DEFAULT_LOADOUT
+    tuning?: GameTuning; // Difficulty; defaults to Normal
+}
+
+export interface SortieResult {
+    worldSeed: number;
+    ticks: number;
+    survived: boolean;
+    bomberHealth: number;
+    destroyedBuildings: number;
+    destroyedTargets: number;
+    iskanderLaunches: number;
+    defenseMissileLaunches: number;
+    interceptorScrambles: number;
+    interceptorsDestroyed: number; // Shot down by the tail gun or flown into the ground
+    flakBursts: number;
+    flakDamageTaken: number;
+    recording?: FlightRecording;
+}
+
+// Runs whole sorties against Babylon's NullEngine with in-process workers, as fast as the CPU allows
+export class HeadlessRunner {
+    private engine: NullEngine;
+    private defaultMaxTicks: number = 60 * 60 * 5; // Five minutes of game time
+    private yieldInterval: number = 30; // Ticks between yields so in-process worker replies (terrain chunks) can land
+
+    constructor() {
+        Logger.LogLevels = Logger.ErrorLogLevel; // Keep stdout clean for result output
+        this.engine = new NullEngine();
+
+        // NullEngine has no canvas under Node; procedural textures draw into a stub instead
+        this.engine.createCanvas = (width: number, height: number) => new HeadlessCanvas(width, height);
+    }
+
+    public async runSortie(options: SortieOptions = {}): Promise<SortieResult> {
+        const scene = new Scene(this.engine);
+        const game = new Game(scene, null, {
+            workerFactory: createInProcessWorker,
+            worldSeed: options.worldSeed,
+            headless: true,
+            wind: options.wind,
+            loadout: options.loadout,
+            tuning: options.tuning
+        });
+
+        try {
+            await game.initialize();
+            await this.yieldToWorkers();
+
+            const maxTicks = options.maxTicks ?? this.defaultMaxTicks;
+            const pilot = options.pilot ?? HeadlessRunner.autopilot;
+            const inputManager = game.getInputManager();
+            const gameClock = game.getGameClock();
+
+            while (gameClock.getTick() < maxTicks && !game.isGameOver()) {
+                inputManager.setPlaybackInputs(pilot(game, gameClock.getTick() + 1));
+                game.runTicks(1);
+
+                if (gameClock.getTick() % this.yieldInterval === 0) {
+                    await this.yieldToWorkers();
+                }
+            }
+
+            const recording = game.getFlightRecording();
+            const events = recording ? recording.events : [];
+            const result: SortieResult = {
+                worldSeed: game.getWorldSeed(),
+                ticks: gameClock.getTick(),
+                survived: !game.isGameOver(),
+                bomberHealth: game.getBomberHealth(),
+                destroyedBuildings: game.getDestroyedBuildings(),
+                destroyedTargets: game.getDestroyedTargets(),
+                iskanderLaunches: events.filter(event => event.type === 'iskander-launch').length,
+                defenseMissileLaunches: events.filter(event => event.type === 'defense-missile-launch').length,
+                interceptorScrambles: events.filter(event => event.type === 'interceptor-scramble').length,
+                interceptorsDestroyed: game.getInterceptorManager().getInterceptorsDestroyed(),
+                flakBursts: events.filter(event => event.type === 'flak-burst').length,
+                flakDamageTaken: game.getFlakDamageTaken()
+            };
+            if (options.keepRecording && recording) {
+                result.recording = recording;
+            }
+            return result;
+        } finally {
+            game.dispose();
+            scene.dispose();
+        }
+    }
+
+    public dispose(): void {
+        this.engine.dispose();
+    }
+
+    private yieldToWorkers(): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    // Simple scripted pilot: weaves across the map and fires whatever is available
+    public static autopilot(game: Game, tick: number): number {
+        const bomber = game.getBomber();
+        const pressedKeys = new Set<string>();
+
+        // Turn for 3 seconds out of every 20 so the bomber crosses new terrain
+        const weaveTick = tick % 1200;
+        if (weaveTick < 180) {
+            pressedKeys.add(Math.floor(tick / 1200) % 2 === 0 ? 'ArrowLeft' : 'ArrowRight');
+        }
+
+        if (game.isBombingAvailable()) {
+            pressedKeys.add('Slash');
+        }
+        if (bomber.canLaunchMissile() && bomber.hasValidTarget()) {
+            pressedKeys.add('Period');
+        }
+        if (bomber.canLaunchFlares() && (game.hasIskanderMissilesInRange() || game.getInterceptorManager().hasMissilesInbound(bomber.getPosition(), bomber.getFlareDetectionRange()))) {
+            pressedKeys.add('Comma');
+        }
+        if (bomber.canLaunchChaff() && game.hasDefenseMissilesInbound()) {
+            pressedKeys.add('KeyC');
+        }
+
+        return FlightRecorder.encodeInputs(key => pressedKeys.has(key));
+    }
+}
@@ -0,0 +1,67 @@
+import { HeadlessRunner, SortieResult } from './HeadlessRunner';
+import { SeededRandom } from '../utils/SeededRandom';
+import { DIFFICULTY_PRESETS, GameTuning, getDifficultyTuning, parseTuning } from '../utils/GameTuning';
+import { readFileSync } from 'fs';
+
+// Usage: node dist-headless/simulate.js [--sorties N] [--ticks N] [--seed S] [--wind] [--verbose]
+//        [--difficulty easy|normal|hard] [--tuning file.json]
+function readArgument(args: string[], name: string): string | undefined {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+// A tuning file applies over the chosen preset, so a designer can try one change against Hard
+function readTuning(args: string[]): GameTuning {
+    const difficulty = readArgument(args, 'difficulty') ?? 'normal';
+    if (!(difficulty in DIFFICULTY_PRESETS)) {
+        throw new Error(`Unknown difficulty: ${difficulty}`);
+    }
+    const preset = getDifficultyTuning(difficulty as keyof typeof DIFFICULTY_PRESETS);
+    const tuningFile = readArgument(args, 'tuning');
+    return tuningFile !== undefined ? parseTuning(readFileSync(tuningFile, 'utf8'), preset) : preset;
+}
+
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const sorties = Number(readArgument(args, 'sorties') ?? 10);
+    const maxTicks = readArgument(args, 'ticks') !== undefined ? Number(readArgument(args, 'ticks')) : undefined;
+    const seedArgument = readArgument(args, 'seed');
+    const baseSeed = seedArgument !== undefined ? SeededRandom.parseSeed(seedArgument) : SeededRandom.generateSeed();
+    const wind = args.includes('--wind');
+    const verbose = args.includes('--verbose');
+    const tuning = readTuning(args);
+
+    const runner = new HeadlessRunner();
+    const results: SortieResult[] = [];
+
+    for (let i = 0; i < sorties; i++) {
+        const result = await runner.runSortie({ worldSeed: (baseSeed + i) >>> 0, maxTicks, wind, tuning });
+        results.push(result);
+        if (verbose) {
+            console.log(JSON.stringify(result));
+        }
+    }
+    runner.dispose();
+
+    const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+    console.log(JSON.stringify({
+        sorties: results.length,
+        baseSeed,
+        survivalRate: average(results.map(result => result.survived ? 1 : 0)),
+        averageTicks: average(results.map(result => result.ticks)),
+        averageBomberHealth: average(results.map(result => result.bomberHealth)),
+        averageDestroyedBuildings: average(results.map(result => result.destroyedBuildings)),
+        averageDestroyedTargets: average(results.map(result => result.destroyedTargets)),
+        averageIskanderLaunches: average(results.map(result => result.iskanderLaunches)),
+        averageDefenseMissileLaunches: average(results.map(result => result.defenseMissileLaunches)),
+        averageInterceptorScrambles: average(results.map(result => result.interceptorScrambles)),
+        averageInterceptorsDestroyed: average(results.map(result => result.interceptorsDestroyed)),
+        averageFlakBursts: average(results.map(result => result.flakBursts)),
+        averageFlakDamageTaken: average(results.map(result => result.flakDamageTaken))
+    }, null, 2));
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -1,5 +1,6 @@
 import { Engine, Scene } from '@babylonjs/core';
 import { Game } from './managers/Game';
+import { createBrowserWorker } from './workers/browser-workers';
 
 // Get the canvas element
 const canvasElement = document.getElementById('renderCanvas');
@@ -36,7 +37,7 @@ if (process.env.NODE_ENV === 'development') {
 }
 
 // Create the game instance
-const game = new Game(scene, canvas);
+const game = new Game(scene, canvas, { workerFactory: createBrowserWorker });
 
 // Initialize the game
 game.initialize().then(() => {
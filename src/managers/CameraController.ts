@@ -98,7 +98,7 @@ export class CameraController {
             this.followDistance = Math.min(this.maxFollowDistance, this.followDistance);
         }
 
-        const bomberPos = this.bomber.getPosition();
+        const bomberPos = this.bomber.getRenderPosition(); // Interpolated so the camera tracks the rendered mesh
         const bomberRotation = this.bomber.getRotation();
 
         // Calculate effective rotation with caching to avoid repeated trig calculations
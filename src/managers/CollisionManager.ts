@@ -0,0 +1,133 @@
+import { Vector3 } from '@babylonjs/core';
+import { AirToAirMissile } from '../entities/AirToAirMissile';
+import { Bomb } from '../entities/Bomb';
+import { Building } from '../entities/Building';
+import { DefenseMissile } from '../entities/DefenseMissile';
+import { IskanderMissile } from '../entities/IskanderMissile';
+import { resolveCollisionSnapshot } from '../utils/CollisionResolver';
+import { EntityIdRegistry } from '../utils/EntityIdRegistry';
+import { WorkerTickPipeline } from '../utils/WorkerTickPipeline';
+import { FlakProfile } from '../utils/Flak';
+import {
+    BombDamageProfile,
+    CollisionSnapshot,
+    CollisionSnapshotResult,
+    MissileDamageProfile,
+    SnapshotBomb,
+    SnapshotMissile
+} from '../workers/worker-protocol';
+import { WorkerManager } from './WorkerManager';
+
+// Live objects a snapshot is taken from
+export interface CollisionWorld {
+    bomberPosition: Vector3;
+    bombs: Bomb[];
+    iskanderMissiles: IskanderMissile[];
+    defenseMissiles: DefenseMissile[];
+    airToAirMissiles: AirToAirMissile[];
+    flares: Vector3[];
+    flakBursts: Vector3[];
+    buildings: Building[];
+    missileDamage: Record<SnapshotMissile['kind'], MissileDamageProfile>;
+    bombDamage: Record<SnapshotBomb['kind'], BombDamageProfile>;
+    flak: FlakProfile;
+    getGroundHeight: (x: number, z: number) => number; // Terrain height, for bomb impacts
+}
+
+// Maps snapshot ids back to the objects they were taken from
+export interface CollisionEntities {
+    bombs: Map<string, Bomb>;
+    missiles: Map<string, IskanderMissile | DefenseMissile | AirToAirMissile>;
+    buildings: Map<string, Building>;
+}
+
+export interface ResolvedCollisions {
+    result: CollisionSnapshotResult;
+    entities: CollisionEntities;
+    fromWorker: boolean;
+}
+
+// Submits a collision snapshot every tick and hands back last tick's results one tick later (see WorkerTickPipeline)
+export class CollisionManager {
+    private entityIds: EntityIdRegistry = new EntityIdRegistry();
+    private pipeline: WorkerTickPipeline<CollisionSnapshot, CollisionSnapshotResult, CollisionEntities>;
+
+    constructor(workerManager: WorkerManager) {
+        this.pipeline = new WorkerTickPipeline(
+            snapshot => workerManager.resolveCollisions(snapshot),
+            resolveCollisionSnapshot
+        );
+    }
+
+    public submit(tick: number, world: CollisionWorld): void {
+        const entities: CollisionEntities = { bombs: new Map(), missiles: new Map(), buildings: new Map() };
+        const snapshot: CollisionSnapshot = {
+            tick,
+            bomberPosition: this.toPlainVector(world.bomberPosition),
+            bombs: [],
+            missiles: [],
+            flares: world.flares.map((flare, index) => ({ id: `flare_${index}`, position: this.toPlainVector(flare) })),
+            flakBursts: world.flakBursts.map((burst, index) => ({ id: `flak_${index}`, position: this.toPlainVector(burst) })),
+            buildings: [],
+            missileDamage: world.missileDamage,
+            bombDamage: world.bombDamage,
+            flak: world.flak
+        };
+
+        world.bombs.forEach(bomb => {
+            const id = this.entityIds.getId(bomb, 'bomb');
+            entities.bombs.set(id, bomb);
+            const position = bomb.getPosition();
+            snapshot.bombs.push({ id, kind: bomb.getKind(), position: this.toPlainVector(position), groundHeight: world.getGroundHeight(position.x, position.z) });
+        });
+
+        const addMissile = (missile: IskanderMissile | DefenseMissile | AirToAirMissile, kind: SnapshotMissile['kind']) => {
+            if (!missile.isLaunched() || missile.hasExploded()) return;
+            const id = this.entityIds.getId(missile, kind);
+            entities.missiles.set(id, missile);
+            snapshot.missiles.push({ id, kind, position: this.toPlainVector(missile.getPosition()) });
+        };
+        world.iskanderMissiles.forEach(missile => addMissile(missile, 'iskander'));
+        world.defenseMissiles.forEach(missile => addMissile(missile, 'defense'));
+        world.airToAirMissiles.forEach(missile => addMissile(missile, 'air-to-air'));
+
+        world.buildings.forEach(building => {
+            if (building.getIsDestroyed()) return;
+            const id = this.entityIds.getId(building, 'building');
+            const bounds = building.getBounds();
+            entities.buildings.set(id, building);
+            snapshot.buildings.push({
+                id,
+                position: this.toPlainVector(building.getPosition()),
+                bounds: { min: this.toPlainVector(bounds.min), max: this.toPlainVector(bounds.max) },
+                isDefenseLauncher: building.isDefenseLauncher(),
+                isTarget: building.isTarget()
+            });
+        });
+
+        this.pipeline.submit(snapshot, entities);
+    }
+
+    // Results for the snapshot submitted last tick
+    public takeResults(): ResolvedCollisions | null {
+        const resolved = this.pipeline.take();
+        return resolved ? { result: resolved.result, entities: resolved.context, fromWorker: resolved.fromWorker } : null;
+    }
+
+    public getWorkerResultCount(): number {
+        return this.pipeline.getWorkerResultCount();
+    }
+
+    public getFallbackResultCount(): number {
+        return this.pipeline.getFallbackResultCount();
+    }
+
+    public reset(): void {
+        this.pipeline.reset();
+        this.entityIds.reset();
+    }
+
+    private toPlainVector(vector: Vector3): { x: number; y: number; z: number } {
+        return { x: vector.x, y: vector.y, z: vector.z };
+    }
+}
@@ -1,46 +1,139 @@
-import { Scene, Vector3, HemisphericLight, DirectionalLight, Color3, FreeCamera, Mesh, MeshBuilder, StandardMaterial, Texture, DynamicTexture } from '@babylonjs/core';
-import { Bomber } from '../entities/Bomber';
+import { Scene, Vector3, HemisphericLight, DirectionalLight, Color3, FreeCamera, Texture, IParticleSystem, PointerEventTypes } from '@babylonjs/core';
+import { Bomber, TOMAHAWK_DESIGNATION_RANGE } from '../entities/Bomber';
 import { TerrainManager } from './TerrainManager';
 import { InputManager } from './InputManager';
-import { CameraController, CameraLockMode } from './CameraController';
-import { Bomb } from '../entities/Bomb';
+import { CameraController } from './CameraController';
+import { Bomb, BOMB_WEAPON_KINDS, BombKind, getBombReachRadius } from '../entities/Bomb';
 import { TomahawkMissile } from '../entities/TomahawkMissile';
 import { IskanderMissile } from '../entities/IskanderMissile';
 import { UIManager } from '../ui/UIManager';
 import { RadarManager } from '../ui/RadarManager';
-import { WorkerManager } from './WorkerManager';
+import { BombSight, BombSightSolution } from '../ui/BombSight';
+import { TargetDesignationBox } from '../ui/TargetDesignationBox';
+import { MissionPlanner } from '../ui/MissionPlanner';
+import { RadarWarning, RadarWarningReceiver } from '../ui/RadarWarningReceiver';
+import { AirDefenseOverlay } from '../ui/AirDefenseOverlay';
+import { WorkerManager, WorkerFactory } from './WorkerManager';
+import { CollisionManager } from './CollisionManager';
+import { MissileGuidanceManager } from './MissileGuidanceManager';
+import { InterceptorManager } from './InterceptorManager';
 import { Building } from '../entities/Building';
+import { DefenseMissile } from '../entities/DefenseMissile';
+import { SeededRandom } from '../utils/SeededRandom';
+import { GameClock } from '../utils/GameClock';
+import { FlightRecorder, FlightRecording, FlightEvent, FlightEventType } from '../utils/FlightRecorder';
+import { ReplayPlayer } from '../utils/ReplayPlayer';
+import { BallisticsEnvironment, BallisticState, BOMB_EJECTION_SPEED, DEFAULT_BALLISTICS, createSeededWind, predictBombImpact } from '../utils/BombBallistics';
+import { BOMB_WEAPONS, BombWeaponType, DEFAULT_LOADOUT, LoadoutSelection, WEAPON_SPECS, WeaponLoadout } from '../utils/WeaponLoadout';
+import { MissionPlan, cloneMissionPlan, isValidMissionPlan } from '../utils/MissionPlan';
+import { SAM_STATES, SamState } from '../utils/SamFireControl';
+import { ThreatDirector, chooseLaunchSites } from '../utils/ThreatDirector';
+import {
+    DEFAULT_TUNING,
+    Difficulty,
+    GameTuning,
+    getBombDamageProfiles,
+    getMissileDamageProfiles,
+    getWeaponSpecs
+} from '../utils/GameTuning';
+import type { Vector3 as WorldPoint } from '../workers/worker-utils';
+
+export interface GameOptions {
+    workerFactory: WorkerFactory; // Browser Web Workers, or in-process handlers when headless
+    worldSeed?: number; // Overrides ?seed= / random seed selection
+    headless?: boolean; // No DOM, no input listeners, no HUD; the caller drives ticks via runTicks()
+    wind?: boolean; // Seeded crosswind on falling bombs; overrides ?wind=1
+    loadout?: LoadoutSelection; // Weapon stations for live sorties; defaults to DEFAULT_LOADOUT
+    tuning?: GameTuning; // Gameplay numbers for live sorties; defaults to Normal difficulty
+}
 
 export class Game {
     private scene: Scene;
-    private canvas: HTMLCanvasElement;
+    private canvas: HTMLCanvasElement | null;
+    private options: GameOptions;
+    private headless: boolean;
     private bomber!: Bomber;
     private terrainManager!: TerrainManager;
     private inputManager!: InputManager;
     private cameraController!: CameraController;
     private camera!: FreeCamera;
-    private uiManager!: UIManager;
-    private radarManager!: RadarManager;
-    private groundCrosshair!: Mesh;
+    private uiManager: UIManager | null = null;
+    private radarManager: RadarManager | null = null;
+    private bombSight: BombSight | null = null; // CCIP reticle and readout
+    private bombSightMaxTimeOfFlight: number = 30; // No solution beyond this
+    private targetDesignationBox: TargetDesignationBox | null = null; // HUD box around the designated Tomahawk target
+    private radarWarningReceiver: RadarWarningReceiver | null = null; // RWR scope showing SAM sites tracking the bomber
     private workerManager!: WorkerManager;
+    private collisionManager!: CollisionManager; // Per-tick collision snapshots resolved by the collision worker
+    private collisionQueryRadius: number = 500; // Buildings (and their defense missiles) included around the bomber
+    private missileGuidanceManager!: MissileGuidanceManager; // Per-tick batched flight of every live missile
+    private worldSeed: number;
+    private gameClock: GameClock = new GameClock(); // Fixed-step simulation clock driving all gameplay
+    private simulationRandom: SeededRandom; // Gameplay randomness, seeded from the world seed
+    private windEnabled: boolean;
+    private ballistics: BallisticsEnvironment = DEFAULT_BALLISTICS; // Picked per sortie; replays use the recorded wind
+    private loadoutSelection: LoadoutSelection; // Chosen on the pre-sortie screen, kept across restarts
+    private difficulty: Difficulty; // Also chosen on the pre-sortie screen...
+    private tuningSelection: GameTuning; // ...along with the numbers it stands for
+    private tuning!: GameTuning; // The sortie being flown: the selection, or the recording's during replay
+    private loadout!: WeaponLoadout; // Ammo and reloads for the current sortie
 
     // Bombing properties
     private bombs: Bomb[] = [];
     private isBombingRun: boolean = false;
-    private bombingRunCooldown: number = 15; // 15 seconds
-    private lastBombingRunTime: number = -Infinity; // Start with cooldown finished
     private bombsToDrop: number = 0;
     private lastBombDropTime: number = 0;
+    private selectedBombWeapon: BombWeaponType | null = null; // Null falls back to the first mounted bomb variant
+    private bombingRunWeapon: BombWeaponType = 'bomb'; // Variant the current run is dropping
+    private bombSelectKeyHeld: boolean = false; // One cycle per key press
+
+    // Countermeasures
+    private ecmKeyHeld: boolean = false; // One jammer toggle per key press
+
+    // Tomahawk target designation
+    private pendingTargetDesignations: Building[] = []; // Clicked on the radar or in the world, applied on the next tick
+    private targetCycleKeyHeld: boolean = false;
+    private targetQueueKeyHeld: boolean = false;
+    private targetPickRadius: number = 30; // Clicks this close to a target or launcher designate it
+
+    // Tomahawk mission planning
+    private missionPlanner: MissionPlanner | null = null; // Top-down route planning view
+    private pendingMissionPlans: Array<MissionPlan | null> = []; // Applied from the planner on the next tick; null clears
+    private lastMissionPlannerToggleTime: number = 0;
+
+    // Debug view of radar site to launcher links
+    private airDefenseOverlay: AirDefenseOverlay | null = null;
+    private terrainLoading: boolean = false; // A restarted sortie holds still until the chunks around its start exist
+    private lastNetworkOverlayToggleTime: number = 0;
+
+    // Radar warnings: SAM sites whose radar is tracking the bomber, kept up to date from their state change events
+    private radarWarnings: Map<Building, SamState> = new Map();
+    private signatureReadoutRange: number = 600; // SAM sites the HUD signature is measured against
 
     // Iskander missile system
     private iskanderMissiles: IskanderMissile[] = [];
-    private lastIskanderLaunchTime: number = -Infinity;
-    private iskanderLaunchInterval: number = 20;
-    private iskanderRandomInterval: number = 25;
+    private iskanderMissilesPendingCleanup: Set<IskanderMissile> = new Set();
+    private threatDirector!: ThreatDirector; // Decides when, how many and from where
+
+    // Enemy fighters scrambled from airbases
+    private interceptorManager!: InterceptorManager;
+    private airToAirAlertRange: number = 400; // Air-to-air missiles this close call for flares
+
+    // Anti-aircraft artillery
+    private pendingFlakBursts: Vector3[] = []; // Shells burst since the last collision snapshot
+    private flakDamageTaken: number = 0;
 
     // Camera toggle properties
     private lastCameraToggleTime: number = 0;
     private cameraToggleCooldown: number = 0.3; // 300ms cooldown to prevent rapid toggling
+
+    // Pause and time scale controls
+    private lastPauseToggleTime: number = 0;
+    private pauseToggleCooldown: number = 0.3; // 300ms cooldown to prevent rapid toggling
+    private lastTimeScaleChangeTime: number = 0;
+    private timeScaleChangeCooldown: number = 0.2;
+    private timeScaleSteps: number[] = [0.25, 0.5, 1, 2, 4];
+    private particleBaseUpdateSpeeds: WeakMap<IParticleSystem, number> = new WeakMap();
     
     // Scoring system
     private destroyedBuildings: number = 0;
@@ -49,29 +142,67 @@ export class Game {
     // Game state
     private gameOver: boolean = false;
     private gameOverTime: number = 0;
-    private gameOverDelay: number = 5; // 5 seconds before restart
-
-    // Performance optimization: frame rate control and caching
-    private lastFrameTime: number = 0;
-    private targetFrameRate: number = 60;
-    private frameInterval: number = 1000 / 60; // 16.67ms for 60 FPS
-    private lastTerrainUpdateTime: number = 0;
-    private terrainUpdateInterval: number = 100; // Update terrain every 100ms
-    private lastDefenseUpdateTime: number = 0;
-    private defenseUpdateInterval: number = 50; // Update defense every 50ms
+    private gameOverMessage: HTMLElement | null = null;
+    private inMainMenu: boolean = false;
+
+    // Flight recorder and replay playback
+    private flightRecorder: FlightRecorder = new FlightRecorder();
+    private replayPlayer: ReplayPlayer | null = null;
+    private replaySeekTargetTick: number = -1; // -1 when not seeking
+    private maxSeekStepsPerFrame: number = 600; // Spread long seeks over several frames
+    private pendingReplayDestructions: FlightEvent[] = [];
+
+    // Performance optimization: presentation-only updates are throttled on wall time
+    private maxFrameDeltaTime: number = 0.1; // Clamp for per-frame camera smoothing
     private lastUIUpdateTime: number = 0;
     private uiUpdateInterval: number = 50; // Update UI every 50ms
     private lastRadarUpdateTime: number = 0;
     private radarUpdateInterval: number = 100; // Update radar every 100ms
-    private lastCollisionCheckTime: number = 0;
-    private collisionCheckInterval: number = 16; // Check collisions every 16ms (60fps)
     private cachedBomberPosition: Vector3 = new Vector3();
     private positionCacheValid: boolean = false;
     private positionCacheThreshold: number = 5; // Recalculate if moved more than 5 units
 
-    constructor(scene: Scene, canvas: HTMLCanvasElement) {
+    constructor(scene: Scene, canvas: HTMLCanvasElement | null, options: GameOptions) {
         this.scene = scene;
         this.canvas = canvas;
+        this.options = options;
+        this.headless = options.headless ?? false;
+        this.worldSeed = options.worldSeed !== undefined
+            ? options.worldSeed >>> 0
+            : (this.headless ? SeededRandom.generateSeed() : this.resolveWorldSeed());
+        this.simulationRandom = new SeededRandom(this.worldSeed ^ 0x9E3779B9);
+        this.windEnabled = options.wind ?? (this.headless ? false : this.resolveWindEnabled());
+        this.loadoutSelection = { ...(options.loadout ?? DEFAULT_LOADOUT) };
+        this.difficulty = options.tuning ? 'custom' : 'normal';
+        this.tuningSelection = options.tuning ?? DEFAULT_TUNING;
+    }
+
+    private resolveWindEnabled(): boolean {
+        try {
+            return new URL(window.location.href).searchParams.get('wind') === '1';
+        } catch (error) {
+            // Silent error handling - no console logging
+            return false;
+        }
+    }
+
+    // Read the world seed from ?seed= (number or any string) so a map can be shared and replayed
+    private resolveWorldSeed(): number {
+        try {
+            const url = new URL(window.location.href);
+            const seedParam = url.searchParams.get('seed');
+            const seed = seedParam ? SeededRandom.parseSeed(seedParam) : SeededRandom.generateSeed();
+
+            // Keep the active seed in the address bar so the current URL reproduces this world
+            if (seedParam === null) {
+                url.searchParams.set('seed', seed.toString());
+                window.history.replaceState(null, '', url.toString());
+            }
+            return seed;
+        } catch (error) {
+            // Silent error handling - no console logging
+            return SeededRandom.generateSeed();
+        }
     }
 
     public async initialize(): Promise<void> {
@@ -79,18 +210,68 @@ export class Game {
         this.setupCamera();
         
         // Initialize worker manager first
-        this.workerManager = new WorkerManager();
+        this.workerManager = new WorkerManager(this.options.workerFactory);
+        this.collisionManager = new CollisionManager(this.workerManager);
+        this.missileGuidanceManager = new MissileGuidanceManager(this.workerManager);
+        
+        this.createSortie();
+        this.startFlightRecording();
+        this.inputManager = new InputManager(this.scene, this.canvas);
+
+        // Headless runs skip all DOM-based presentation
+        if (!this.headless) {
+            this.uiManager = new UIManager(this, this.inputManager);
+            this.radarManager = new RadarManager(this.gameClock);
+            this.bombSight = new BombSight(this.scene);
+            this.targetDesignationBox = new TargetDesignationBox(this.scene);
+            this.radarWarningReceiver = new RadarWarningReceiver();
+            this.radarManager.setOnPositionClickedCallback((position: Vector3) => this.designateTargetNear(position));
+            this.setupTargetPicking();
+            this.missionPlanner = new MissionPlanner(this, this.scene);
+            this.airDefenseOverlay = new AirDefenseOverlay(this.scene);
+        }
+
+        await this.terrainManager.generateInitialTerrain(this.bomber.getPosition());
         
-        this.bomber = new Bomber(this.scene);
+        if (!this.headless) {
+            // The first sortie waits behind the pre-sortie loadout screen
+            this.inMainMenu = true;
+            this.gameClock.pause();
+            this.uiManager?.showMainMenu();
+            this.startGameLoop();
+        }
+    }
+
+    // Advance the simulation by whole ticks without rendering (headless runs and tooling)
+    public runTicks(count: number): void {
+        for (let i = 0; i < count && !this.isReplayFinished(); i++) {
+            this.gameClock.step();
+            this.runFixedStep();
+        }
+    }
+
+    // Bomber, terrain and camera rig for one sortie; rebuilt on every in-place restart
+    private createSortie(): void {
+        const recordedWind = this.replayPlayer ? this.replayPlayer.getRecording().wind : undefined;
+        const wind = this.replayPlayer
+            ? (recordedWind ? { ...recordedWind } : DEFAULT_BALLISTICS.wind)
+            : (this.windEnabled ? createSeededWind(this.worldSeed) : DEFAULT_BALLISTICS.wind);
+        this.ballistics = { ...DEFAULT_BALLISTICS, wind };
+
+        const recordedTuning = this.replayPlayer ? this.replayPlayer.getRecording().tuning : undefined;
+        this.tuning = this.replayPlayer ? (recordedTuning ?? DEFAULT_TUNING) : this.tuningSelection;
+        this.threatDirector = new ThreatDirector(this.tuning.threatDirector);
+
+        const recordedLoadout = this.replayPlayer ? this.replayPlayer.getRecording().loadout : undefined;
+        this.loadout = new WeaponLoadout(this.replayPlayer ? (recordedLoadout ?? DEFAULT_LOADOUT) : this.loadoutSelection, this.gameClock, getWeaponSpecs(this.tuning.weapons));
+
+        this.bomber = new Bomber(this.scene, this.gameClock, this.loadout, this.tuning);
         this.bomber.setBombingRunActiveCallback(() => this.isBombingRunInProgress());
-        this.terrainManager = new TerrainManager(this.scene, this.workerManager);
+        this.terrainManager = new TerrainManager(this.scene, this.workerManager, this.worldSeed, this.gameClock, this.tuning);
         this.bomber.setTerrainManager(this.terrainManager);
         this.terrainManager.setBomber(this.bomber);
-        this.inputManager = new InputManager(this.scene, this.canvas);
+        this.interceptorManager = new InterceptorManager(this.scene, this.gameClock, this.tuning);
         this.cameraController = new CameraController(this.camera, this.bomber);
-        this.uiManager = new UIManager(this, this.inputManager);
-        this.radarManager = new RadarManager();
-        this.createGroundCrosshair();
 
         // Set up bomber destruction callback
         this.bomber.setOnDestroyedCallback(() => {
@@ -104,9 +285,184 @@ export class Game {
             }
         });
 
-        await this.terrainManager.generateInitialTerrain(this.bomber.getPosition());
-        
-        this.startGameLoop();
+        // Feed world events to the flight recorder
+        this.terrainManager.setOnBuildingDestroyedCallback((building: Building) => {
+            this.recordFlightEvent('building-destroyed', building.getPosition());
+        });
+        this.terrainManager.setOnDefenseMissileLaunchedCallback((building: Building, targetPosition: Vector3) => {
+            this.recordFlightEvent('defense-missile-launch', building.getPosition(), targetPosition);
+        });
+        this.terrainManager.setOnSamStateChangedCallback((building: Building, state: SamState) => {
+            this.handleSamStateChange(building, state);
+        });
+        this.terrainManager.setOnFlakFiredCallback((building: Building, burstPoint: Vector3) => {
+            this.recordFlightEvent('flak-burst', building.getPosition(), burstPoint);
+        });
+        this.interceptorManager.setOnScrambleCallback((airbase: Building) => {
+            this.recordFlightEvent('interceptor-scramble', airbase.getPosition());
+            if (this.replaySeekTargetTick === -1) {
+                this.uiManager?.showAlert('INTERCEPTORS SCRAMBLED!', 'sam-warning', 3000);
+            }
+        });
+    }
+
+    // Restart in place: keeps the engine, workers and compiled shaders, rebuilds everything gameplay-related
+    public reset(): void {
+        try {
+            this.hideGameOverMessage();
+
+            // Let deferred effect cleanup run before the entities it references are torn down
+            this.gameClock.flushScheduledTasks();
+
+            this.bombs.forEach(bomb => bomb.dispose());
+            this.bombs = [];
+            this.iskanderMissiles.forEach(missile => missile.dispose());
+            this.iskanderMissiles = [];
+            this.iskanderMissilesPendingCleanup.clear();
+            this.interceptorManager.dispose();
+            this.pendingFlakBursts = [];
+            this.bomber.dispose();
+            this.terrainManager.dispose();
+
+            this.gameClock.reset();
+            this.collisionManager.reset();
+            this.missileGuidanceManager.reset();
+            this.simulationRandom = new SeededRandom(this.worldSeed ^ 0x9E3779B9);
+
+            // Scores and cooldowns
+            this.isBombingRun = false;
+            this.bombsToDrop = 0;
+            this.lastBombDropTime = 0;
+            this.selectedBombWeapon = null;
+            this.bombSelectKeyHeld = false;
+            this.ecmKeyHeld = false;
+            this.pendingTargetDesignations = [];
+            this.targetCycleKeyHeld = false;
+            this.targetQueueKeyHeld = false;
+            this.pendingMissionPlans = [];
+            this.radarWarnings.clear();
+            this.destroyedBuildings = 0;
+            this.destroyedTargets = 0;
+            this.flakDamageTaken = 0;
+            this.gameOver = false;
+            this.gameOverTime = 0;
+            this.positionCacheValid = false;
+
+            this.createSortie();
+            this.uiManager?.reset();
+            this.radarManager?.reset();
+            this.airDefenseOverlay?.reset();
+            this.loadSortieTerrain();
+
+            // A replay rewinds to its first tick; live play starts a fresh recording
+            this.pendingReplayDestructions = [];
+            if (this.replayPlayer) {
+                this.replayPlayer.rewind();
+            } else {
+                this.startFlightRecording();
+            }
+        } catch (error) {
+            // Silent error handling - no console logging
+        }
+    }
+
+    // Like the first start, a restart waits for its terrain; chunks the worker fails on are built on the main thread instead
+    private loadSortieTerrain(): void {
+        const terrainManager = this.terrainManager;
+        this.terrainLoading = true;
+        terrainManager.generateInitialTerrain(this.bomber.getPosition())
+            .catch(() => {
+                // Silent error handling - terrain streaming fills in whatever is missing once the sortie runs
+            })
+            .finally(() => {
+                // A newer restart owns the flag once it has rebuilt the terrain
+                if (this.terrainManager === terrainManager) {
+                    this.terrainLoading = false;
+                }
+            });
+    }
+
+    private startFlightRecording(): void {
+        this.flightRecorder.start(
+            this.worldSeed,
+            this.gameClock.getFixedTimeStep(),
+            this.windEnabled ? this.ballistics.wind : undefined,
+            this.loadout.getSelection(),
+            this.tuning
+        );
+    }
+
+    // Tear down everything this game created (headless runs create one Game per sortie)
+    public dispose(): void {
+        try {
+            this.gameClock.flushScheduledTasks();
+            this.bombs.forEach(bomb => bomb.dispose());
+            this.bombs = [];
+            this.iskanderMissiles.forEach(missile => missile.dispose());
+            this.iskanderMissiles = [];
+            this.iskanderMissilesPendingCleanup.clear();
+            this.interceptorManager.dispose();
+            this.bomber.dispose();
+            this.terrainManager.dispose();
+            this.workerManager.dispose();
+        } catch (error) {
+            // Silent error handling - no console logging
+        }
+    }
+
+    // Reset the world and hold it paused behind the main menu until a new mission starts
+    public quitToMenu(): void {
+        this.reset();
+        this.inMainMenu = true;
+        this.gameClock.pause();
+        this.uiManager?.showMainMenu();
+    }
+
+    // Pre-sortie screen: remount the stations before the clock starts, nothing has been recorded yet
+    public setLoadoutSelection(selection: LoadoutSelection): void {
+        if (!this.inMainMenu || this.replayPlayer) return;
+
+        this.loadout.configure(selection);
+        this.loadoutSelection = this.loadout.getSelection();
+        this.selectedBombWeapon = null;
+        this.startFlightRecording();
+    }
+
+    public getLoadoutSelection(): LoadoutSelection {
+        return { ...this.loadoutSelection };
+    }
+
+    // Pre-sortie screen: the world is rebuilt so every building and the bomber pick up the new numbers
+    public setDifficulty(difficulty: Difficulty, tuning: GameTuning): void {
+        if (!this.inMainMenu || this.replayPlayer) return;
+
+        this.difficulty = difficulty;
+        this.tuningSelection = tuning;
+        this.reset();
+        this.gameClock.pause();
+    }
+
+    public getDifficulty(): Difficulty {
+        return this.difficulty;
+    }
+
+    public getTuning(): GameTuning {
+        return this.tuning;
+    }
+
+    public getLoadout(): WeaponLoadout {
+        return this.loadout;
+    }
+
+    public startMission(): void {
+        if (!this.inMainMenu) return;
+        this.inMainMenu = false;
+        this.uiManager?.hideMainMenu();
+        this.gameClock.resume();
+    }
+
+    public isInMainMenu(): boolean {
+        return this.inMainMenu;
     }
 
     private setupLighting(): void {
@@ -121,135 +477,450 @@ export class Game {
     private setupCamera(): void {
         this.camera = new FreeCamera('camera', new Vector3(0, 100, -200), this.scene);
         this.camera.setTarget(Vector3.Zero());
-        this.camera.attachControl(this.canvas, true);
+        if (this.canvas) {
+            this.camera.attachControl(this.canvas, true);
+        }
     }
 
-    private createGroundCrosshair(): void {
-        this.groundCrosshair = MeshBuilder.CreatePlane('groundCrosshair', {size: 10}, this.scene);
-        this.groundCrosshair.rotation.x = Math.PI / 2;
-        this.groundCrosshair.isPickable = false;
+    public startGameLoop(): void {
+        this.scene.registerBeforeRender(() => {
+            try {
+                const frameDeltaTime = this.scene.getEngine().getDeltaTime() / 1000;
+
+                // Run as many fixed simulation steps as the elapsed frame time covers, once the sortie's terrain is in
+                if (!this.terrainLoading) {
+                    this.gameClock.advance(frameDeltaTime);
+                    if (this.replaySeekTargetTick >= 0) {
+                        this.runReplaySeek();
+                    } else {
+                        while (!this.isReplayFinished() && this.gameClock.consumeStep()) {
+                            this.runFixedStep();
+                        }
+                    }
+                }
 
-        const crosshairMaterial = new StandardMaterial('crosshairMaterial', this.scene);
-        
-        // Use DynamicTexture to draw a crosshair
-        const textureSize = 64;
-        const dynamicTexture = new DynamicTexture("dynamic crosshair", textureSize, this.scene, false);
-        const ctx = dynamicTexture.getContext();
+                this.renderUpdate(Math.min(frameDeltaTime, this.maxFrameDeltaTime));
+                this.inputManager.endFrame();
+
+            } catch (error) {
+                // Silent error handling - no console logging
+            }
+        });
+    }
 
-        // Clear with transparent background
-        ctx.clearRect(0, 0, textureSize, textureSize);
+    // Wraps fixedUpdate with input capture (live) or input injection (replay) for the current tick
+    private runFixedStep(): void {
+        const tick = this.gameClock.getTick();
 
-        // Draw the 'X'
-        ctx.strokeStyle = "rgba(200, 200, 200, 0.3)"; // Dimmer, more translucent white
-        ctx.lineWidth = 1; // Thinner line
-        
-        // Line 1 (\\)
-        ctx.beginPath();
-        ctx.moveTo(textureSize * 0.3, textureSize * 0.3);
-        ctx.lineTo(textureSize * 0.7, textureSize * 0.7);
-        ctx.stroke();
-        
-        // Line 2 (/)
-        ctx.beginPath();
-        ctx.moveTo(textureSize * 0.7, textureSize * 0.3);
-        ctx.lineTo(textureSize * 0.3, textureSize * 0.7);
-        ctx.stroke();
-        
-        dynamicTexture.update();
+        if (this.replayPlayer) {
+            this.inputManager.setPlaybackInputs(this.replayPlayer.getInputsForTick(tick));
+        } else {
+            this.flightRecorder.recordTick(tick, this.inputManager.captureSimulationInputs());
+        }
 
-        crosshairMaterial.diffuseTexture = dynamicTexture;
-        crosshairMaterial.diffuseTexture.hasAlpha = true;
-        crosshairMaterial.useAlphaFromDiffuseTexture = true;
-        crosshairMaterial.emissiveColor = Color3.White();
-        crosshairMaterial.disableLighting = true;
-        crosshairMaterial.backFaceCulling = false; // Render from both sides
+        this.fixedUpdate(this.gameClock.getFixedTimeStep());
 
-        this.groundCrosshair.material = crosshairMaterial;
-        this.groundCrosshair.setEnabled(false);
+        // Hold on the last frame when the recording runs out
+        if (this.isReplayFinished()) {
+            this.gameClock.pause();
+        }
     }
 
-    public startGameLoop(): void {
-        let lastFrameTime = performance.now();
-        
-        this.scene.registerBeforeRender(() => {
-            try {
-                const currentTime = performance.now();
-                
-                // Check for game over condition FIRST, before any frame rate limiting
-                if (this.gameOver) {
-                    const timeSinceGameOver = (currentTime / 1000) - this.gameOverTime;
-                    if (timeSinceGameOver >= this.gameOverDelay) {
-                        // Restart the game
-                        location.reload();
-                        return; // Exit early to prevent further processing
+    // One deterministic simulation step; everything here reads the game clock, never wall time
+    private fixedUpdate(deltaTime: number): void {
+        const currentTime = this.gameClock.now();
+
+        if (this.replayPlayer) {
+            this.applyReplayEvents(this.gameClock.getTick());
+        }
+
+        this.loadout.update();
+        this.handleTargeting();
+        this.handleMissionPlanning();
+        this.handleBombSelection();
+        this.handleBombing(currentTime);
+        this.handleMissileLaunch();
+        this.handleIskanderLaunch(currentTime);
+        this.handleCountermeasures();
+        this.bomber.update(deltaTime, this.inputManager);
+        this.interceptorManager.update(deltaTime, this.bomber, this.terrainManager, !this.replayPlayer);
+        this.updateBombs(deltaTime);
+        this.cleanUpIskanderMissiles();
+
+        // Apply hits and missile flight from last tick's snapshots, then hand this tick's to the workers
+        this.applyCollisionResults();
+        this.missileGuidanceManager.applyResults();
+        this.submitCollisionSnapshot();
+        this.submitMissileGuidance(deltaTime);
+
+        // Terrain streaming is throttled internally
+        this.terrainManager.update(this.bomber.getPosition());
+
+        this.terrainManager.updateDefenseLaunchers(
+            this.bomber.getPosition(),
+            currentTime,
+            radar => this.bomber.getSignature(radar),
+            this.bomber.isEcmActive(),
+            !this.replayPlayer // Recorded launches replace the launchers' own timers during replay
+        );
+
+        // Bursts are resolved against the bomber with next tick's collision snapshot
+        this.pendingFlakBursts.push(...this.terrainManager.updateAntiAircraftGuns(
+            this.bomber.getPosition(),
+            this.bomber.getVelocity(),
+            currentTime,
+            !this.replayPlayer
+        ));
+
+        if (this.replayPlayer) {
+            this.reconcileReplayDestructions();
+        }
+    }
+
+    private recordFlightEvent(type: FlightEventType, position: Vector3, target?: Vector3, plan?: MissionPlan): void {
+        if (this.replayPlayer) return;
+
+        const event: FlightEvent = {
+            tick: this.gameClock.getTick(),
+            type,
+            position: FlightRecorder.toRecordedVector(position)
+        };
+        if (target) {
+            event.target = FlightRecorder.toRecordedVector(target);
+        }
+        if (plan) {
+            event.plan = cloneMissionPlan(plan);
+        }
+        this.flightRecorder.recordEvent(event);
+    }
+
+    // Spawn recorded launches at the start of the tick they happened on
+    private applyReplayEvents(tick: number): void {
+        this.replayPlayer!.takeEventsForTick(tick).forEach(event => {
+            const position = new Vector3(event.position.x, event.position.y, event.position.z);
+
+            switch (event.type) {
+                case 'iskander-launch':
+                    this.spawnIskanderMissile(position);
+                    break;
+                case 'defense-missile-launch': {
+                    const launcher = this.terrainManager.findBuildingAt(position);
+                    if (launcher && event.target) {
+                        launcher.launchDefenseMissileAt(new Vector3(event.target.x, event.target.y, event.target.z));
                     }
+                    break;
                 }
-                
-                // Performance optimization: frame rate limiting
-                if (currentTime - lastFrameTime < this.frameInterval) {
-                    return;
+                case 'building-destroyed':
+                    this.pendingReplayDestructions.push(event);
+                    break;
+                case 'target-designated': {
+                    const building = this.terrainManager.findBuildingAt(position);
+                    if (building) {
+                        this.applyTargetDesignation(building);
+                    }
+                    break;
                 }
-                
-                const deltaTime = this.scene.getEngine().getDeltaTime() / 1000;
-                
-                const safeDeltaTime = Math.min(deltaTime, 0.1);
-                const safeCurrentTime = currentTime / 1000;
-
-                // Always update critical systems
-                this.handleBombing(safeCurrentTime);
-                this.handleMissileLaunch();
-                this.handleIskanderLaunch(safeCurrentTime);
-                this.handleCountermeasures();
-                this.handleCameraToggle(safeCurrentTime);
-                this.bomber.update(safeDeltaTime, this.inputManager);
-                this.cameraController.update(safeDeltaTime, this.inputManager);
-                this.updateBombs(safeDeltaTime);
-                this.updateIskanderMissiles(safeDeltaTime);
-                this.updateGroundCrosshair();
-
-                // Check for defense missile collisions (high frequency for responsive damage)
-                if (currentTime - this.lastCollisionCheckTime > this.collisionCheckInterval) {
-                    this.checkDefenseMissileCollisions();
-                    this.checkIskanderMissileCollisions();
-                    this.lastCollisionCheckTime = currentTime;
+                case 'mission-planned':
+                    this.bomber.setMissionPlan(event.plan ?? null);
+                    break;
+                case 'interceptor-scramble': {
+                    const airbase = this.terrainManager.findBuildingAt(position);
+                    if (airbase) {
+                        this.interceptorManager.scrambleFrom(airbase);
+                    }
+                    break;
                 }
-
-                // Update terrain less frequently
-                if (currentTime - this.lastTerrainUpdateTime > this.terrainUpdateInterval) {
-                    this.terrainManager.update(this.bomber.getPosition());
-                    this.lastTerrainUpdateTime = currentTime;
+                case 'flak-burst': {
+                    const gun = this.terrainManager.findBuildingAt(position);
+                    if (gun && event.target) {
+                        gun.fireFlakAt(new Vector3(event.target.x, event.target.y, event.target.z));
+                    }
+                    break;
                 }
+            }
+        });
+    }
 
-                // Update defense launchers less frequently
-                if (currentTime - this.lastDefenseUpdateTime > this.defenseUpdateInterval) {
-                    this.terrainManager.updateDefenseLaunchers(
-                        this.bomber.getPosition(), 
-                        safeCurrentTime, 
-                        safeDeltaTime
-                    );
-                    this.lastDefenseUpdateTime = currentTime;
+    // Destruction is checked after the tick has simulated, so it only kicks in where playback diverged
+    private reconcileReplayDestructions(): void {
+        this.pendingReplayDestructions.forEach(event => {
+            const building = this.terrainManager.findBuildingAt(new Vector3(event.position.x, event.position.y, event.position.z));
+            if (building && building.forceDestroy()) {
+                this.destroyedBuildings++;
+                if (building.isTarget()) {
+                    this.destroyedTargets++;
                 }
+            }
+        });
+        this.pendingReplayDestructions = [];
+    }
 
-                // Update UI less frequently
-                if (currentTime - this.lastUIUpdateTime > this.uiUpdateInterval) {
-                    this.uiManager.update();
-                    this.lastUIUpdateTime = currentTime;
-                }
+    private runReplaySeek(): void {
+        let steps = 0;
+        while (this.gameClock.getTick() < this.replaySeekTargetTick && steps < this.maxSeekStepsPerFrame) {
+            this.gameClock.step();
+            this.runFixedStep();
+            steps++;
+        }
 
-                // Update radar less frequently
-                if (currentTime - this.lastRadarUpdateTime > this.radarUpdateInterval) {
-                    this.radarManager.update(this.bomber, this.terrainManager, this.destroyedTargets, this.iskanderMissiles);
-                    this.lastRadarUpdateTime = currentTime;
-                }
+        if (this.gameClock.getTick() >= this.replaySeekTargetTick) {
+            this.replaySeekTargetTick = -1;
+        }
+    }
 
-                this.inputManager.endFrame();
-                
-                lastFrameTime = currentTime;
-                
-            } catch (error) {
-                // Silent error handling - no console logging
+    private isReplayFinished(): boolean {
+        return this.replayPlayer !== null && this.replayPlayer.isFinished(this.gameClock.getTick());
+    }
+
+    public startReplay(recording: FlightRecording): void {
+        if (recording.fixedTimeStep !== this.gameClock.getFixedTimeStep()) {
+            throw new Error('Recording was made with a different simulation time step');
+        }
+
+        this.inMainMenu = false;
+        this.uiManager?.hideMainMenu();
+        this.flightRecorder.stop();
+        this.replayPlayer = new ReplayPlayer(recording);
+        this.replaySeekTargetTick = -1;
+        this.worldSeed = recording.worldSeed;
+        this.reset();
+        this.uiManager?.showReplayControls();
+    }
+
+    // Leave playback and start a live sortie in the same world
+    public stopReplay(): void {
+        if (!this.replayPlayer) return;
+
+        this.replayPlayer = null;
+        this.replaySeekTargetTick = -1;
+        this.inputManager.setPlaybackInputs(null);
+        this.uiManager?.hideReplayControls();
+        this.reset();
+    }
+
+    // Jump to a tick: forward seeks fast-simulate from here, backward seeks rebuild the world first
+    public seekReplay(tick: number): void {
+        if (!this.replayPlayer) return;
+
+        const targetTick = Math.max(0, Math.min(this.replayPlayer.getTickCount(), Math.floor(tick)));
+        if (targetTick < this.gameClock.getTick()) {
+            const wasPaused = this.gameClock.isPaused();
+            this.reset();
+            if (wasPaused) {
+                this.gameClock.pause();
             }
-        });
+        }
+        this.replaySeekTargetTick = targetTick;
+    }
+
+    public setReplayPlaying(playing: boolean): void {
+        if (!this.replayPlayer) return;
+
+        if (!playing) {
+            this.gameClock.pause();
+            return;
+        }
+
+        // Playing from the end starts over
+        if (this.isReplayFinished()) {
+            this.seekReplay(0);
+        }
+        this.gameClock.resume();
+    }
+
+    public isReplayActive(): boolean {
+        return this.replayPlayer !== null;
+    }
+
+    public getReplayTick(): number {
+        return this.gameClock.getTick();
+    }
+
+    public getReplayTickCount(): number {
+        return this.replayPlayer ? this.replayPlayer.getTickCount() : 0;
+    }
+
+    public getFlightRecording(): FlightRecording | null {
+        return this.replayPlayer ? this.replayPlayer.getRecording() : this.flightRecorder.getRecording();
+    }
+
+    public exportRecording(): string | null {
+        const recording = this.getFlightRecording();
+        return recording ? FlightRecorder.serialize(recording) : null;
+    }
+
+    // Replay the sortie that just ended (from the game over screen)
+    public watchLastSortie(): void {
+        const recording = this.flightRecorder.getRecording();
+        if (recording) {
+            this.startReplay(recording);
+        }
+    }
+
+    // Once per rendered frame: interpolation, camera and HUD
+    private renderUpdate(frameDeltaTime: number): void {
+        const currentTime = performance.now();
+
+        this.handlePauseToggle(currentTime / 1000);
+        this.handleMissionPlannerToggle(currentTime / 1000);
+        this.handleNetworkOverlayToggle(currentTime / 1000);
+        this.handleTimeScaleKeys(currentTime / 1000);
+        this.applyTimeScaleToEffects();
+
+        this.bomber.interpolate(this.gameClock.getInterpolationAlpha());
+        this.handleCameraToggle(currentTime / 1000);
+        this.cameraController.update(frameDeltaTime, this.inputManager);
+        this.bombSight?.update(this.gameOver ? null : this.getBombSightSolution());
+        this.targetDesignationBox?.update(this.gameOver ? null : this.bomber.getTargetQueue(), this.bomber.getPosition());
+        this.missionPlanner?.update();
+        this.radarWarningReceiver?.update(this.gameOver ? null : this.getRadarWarnings());
+
+        // Update UI less frequently
+        if (currentTime - this.lastUIUpdateTime > this.uiUpdateInterval) {
+            this.uiManager?.update();
+            this.lastUIUpdateTime = currentTime;
+        }
+
+        // Update radar less frequently
+        if (currentTime - this.lastRadarUpdateTime > this.radarUpdateInterval) {
+            this.radarManager?.update(
+                this.bomber,
+                this.terrainManager,
+                this.destroyedTargets,
+                this.iskanderMissiles,
+                this.interceptorManager.getInterceptors(),
+                this.interceptorManager.getAirToAirMissiles()
+            );
+            this.airDefenseOverlay?.update(this.bomber.getPosition(), this.terrainManager);
+            this.lastRadarUpdateTime = currentTime;
+        }
+    }
+
+    private handlePauseToggle(currentTime: number): void {
+        if (this.inputManager.isPauseKeyPressed() &&
+            (currentTime - this.lastPauseToggleTime) > this.pauseToggleCooldown) {
+            // Escape backs out of the planner instead of opening the pause menu
+            if (this.isMissionPlannerOpen()) {
+                this.closeMissionPlanner();
+            } else {
+                this.togglePause();
+            }
+            this.lastPauseToggleTime = currentTime;
+        }
+    }
+
+    private handleMissionPlannerToggle(currentTime: number): void {
+        if (this.inputManager.isMissionPlannerKeyPressed() &&
+            (currentTime - this.lastMissionPlannerToggleTime) > this.pauseToggleCooldown) {
+            if (this.isMissionPlannerOpen()) {
+                this.closeMissionPlanner();
+            } else {
+                this.openMissionPlanner();
+            }
+            this.lastMissionPlannerToggleTime = currentTime;
+        }
+    }
+
+    private handleNetworkOverlayToggle(currentTime: number): void {
+        if (this.inputManager.isNetworkOverlayKeyPressed() &&
+            (currentTime - this.lastNetworkOverlayToggleTime) > this.pauseToggleCooldown) {
+            this.airDefenseOverlay?.toggle();
+            this.lastNetworkOverlayToggleTime = currentTime;
+        }
+    }
+
+    // The planner holds the simulation still, without the pause menu
+    public openMissionPlanner(): void {
+        if (!this.missionPlanner || this.missionPlanner.isOpen() || this.gameOver || this.inMainMenu || this.replayPlayer) return;
+        if (this.gameClock.isPaused()) return; // Not from the pause menu
+
+        this.gameClock.pause();
+        this.missionPlanner.open();
+    }
+
+    public closeMissionPlanner(): void {
+        if (!this.missionPlanner || !this.missionPlanner.isOpen()) return;
+
+        this.missionPlanner.close();
+        this.gameClock.resume();
+    }
+
+    public isMissionPlannerOpen(): boolean {
+        return this.missionPlanner !== null && this.missionPlanner.isOpen();
+    }
+
+    private handleTimeScaleKeys(currentTime: number): void {
+        if ((currentTime - this.lastTimeScaleChangeTime) <= this.timeScaleChangeCooldown) {
+            return;
+        }
+
+        if (this.inputManager.isTimeScaleDownPressed()) {
+            this.stepTimeScale(-1);
+            this.lastTimeScaleChangeTime = currentTime;
+        } else if (this.inputManager.isTimeScaleUpPressed()) {
+            this.stepTimeScale(1);
+            this.lastTimeScaleChangeTime = currentTime;
+        }
+    }
+
+    private stepTimeScale(direction: number): void {
+        const currentScale = this.gameClock.getTimeScale();
+        let index = this.timeScaleSteps.findIndex(step => step >= currentScale);
+        if (index === -1) index = this.timeScaleSteps.length - 1;
+        const nextIndex = Math.max(0, Math.min(this.timeScaleSteps.length - 1, index + direction));
+        this.setTimeScale(this.timeScaleSteps[nextIndex]);
+    }
+
+    // Particles and Babylon animations run on frame time, so scale them to match the game clock
+    private applyTimeScaleToEffects(): void {
+        const effectiveScale = this.gameClock.getEffectiveTimeScale();
+        this.scene.animationTimeScale = effectiveScale;
+
+        for (const particleSystem of this.scene.particleSystems) {
+            let baseUpdateSpeed = this.particleBaseUpdateSpeeds.get(particleSystem);
+            if (baseUpdateSpeed === undefined) {
+                baseUpdateSpeed = particleSystem.updateSpeed;
+                this.particleBaseUpdateSpeeds.set(particleSystem, baseUpdateSpeed);
+            }
+            particleSystem.updateSpeed = baseUpdateSpeed * effectiveScale;
+        }
+    }
+
+    public pause(): void {
+        if (this.gameOver || this.inMainMenu || this.gameClock.isPaused()) return;
+        this.gameClock.pause();
+        this.uiManager?.showPauseMenu();
+    }
+
+    public resume(): void {
+        if (this.inMainMenu || !this.gameClock.isPaused()) return;
+        this.gameClock.resume();
+        this.uiManager?.hidePauseMenu();
+    }
+
+    public togglePause(): void {
+        if (this.gameClock.isPaused()) {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    public isPaused(): boolean {
+        return this.gameClock.isPaused();
+    }
+
+    public setTimeScale(scale: number): void {
+        this.gameClock.setTimeScale(scale);
+        this.uiManager?.updateTimeScaleDisplay(this.gameClock.getTimeScale());
+    }
+
+    public getTimeScale(): number {
+        return this.gameClock.getTimeScale();
+    }
+
+    public getTimeScaleSteps(): number[] {
+        return [...this.timeScaleSteps];
     }
 
     private handleBombing(currentTime: number): void {
@@ -264,8 +935,12 @@ export class Game {
 
         // Only drop bombs if we're in a bombing run AND the bomb bay is fully open
         if (this.isBombingRun && this.bombsToDrop > 0 && this.bomber.isBombBayOpen() && (currentTime - this.lastBombDropTime) >= 1) {
-            this.dropBomb();
-            this.bombsToDrop--;
+            if (this.loadout.consume(this.bombingRunWeapon)) {
+                this.dropBomb(BOMB_WEAPON_KINDS[this.bombingRunWeapon]);
+                this.bombsToDrop--;
+            } else {
+                this.bombsToDrop = 0; // Stations ran dry mid-run
+            }
             this.lastBombDropTime = currentTime;
         }
 
@@ -273,8 +948,179 @@ export class Game {
         if (this.isBombingRun && this.bombsToDrop === 0) {
             this.isBombingRun = false;
             this.bomber.closeBombBay();
-            this.lastBombingRunTime = currentTime;
+            this.loadout.startReload(this.bombingRunWeapon);
+        }
+    }
+
+    // Cycle through the mounted bomb variants; the bay keeps whatever a run started with
+    private handleBombSelection(): void {
+        const pressed = this.inputManager.isBombSelectKeyPressed();
+        if (pressed && !this.bombSelectKeyHeld && !this.isBombingRun) {
+            const mounted = this.getMountedBombWeapons();
+            if (mounted.length > 1) {
+                const index = mounted.indexOf(this.getSelectedBombWeapon());
+                this.selectedBombWeapon = mounted[(index + 1) % mounted.length];
+            }
+        }
+        this.bombSelectKeyHeld = pressed;
+    }
+
+    private getMountedBombWeapons(): BombWeaponType[] {
+        return this.loadout.getMountedWeapons()
+            .filter((weapon): weapon is BombWeaponType => BOMB_WEAPONS.includes(weapon as BombWeaponType));
+    }
+
+    // The chosen variant if still mounted, otherwise the first bomb variant on the stations
+    public getSelectedBombWeapon(): BombWeaponType {
+        const mounted = this.getMountedBombWeapons();
+        if (this.selectedBombWeapon && mounted.includes(this.selectedBombWeapon)) {
+            return this.selectedBombWeapon;
+        }
+        return mounted[0] ?? 'bomb';
+    }
+
+    // Cycle and queue keys act once per press; clicks arrive from the radar and world picking
+    private handleTargeting(): void {
+        const targetQueue = this.bomber.getTargetQueue();
+
+        const cyclePressed = this.inputManager.isTargetCycleKeyPressed();
+        if (cyclePressed && !this.targetCycleKeyHeld) {
+            targetQueue.cycle(this.getTargetCandidates());
+        }
+        this.targetCycleKeyHeld = cyclePressed;
+
+        const queuePressed = this.inputManager.isTargetQueueKeyPressed();
+        const designated = targetQueue.getDesignated();
+        if (queuePressed && !this.targetQueueKeyHeld && designated) {
+            targetQueue.toggleQueued(designated);
+        }
+        this.targetQueueKeyHeld = queuePressed;
+
+        this.pendingTargetDesignations.forEach(building => {
+            this.applyTargetDesignation(building);
+            this.recordFlightEvent('target-designated', building.getPosition());
+        });
+        this.pendingTargetDesignations = [];
+
+        targetQueue.prune();
+    }
+
+    // A click designates the building and queues it, or takes it off the queue if it was already there
+    private applyTargetDesignation(building: Building): void {
+        if (building.getIsDestroyed()) return;
+
+        const targetQueue = this.bomber.getTargetQueue();
+        targetQueue.designate(building);
+        targetQueue.toggleQueued(building);
+    }
+
+    // Live mission targets, launchers and radar sites within Tomahawk range the bomber can designate (it needs to see the roof), nearest first
+    public getTargetCandidates(): Building[] {
+        const bomberPosition = this.bomber.getPosition();
+        return this.terrainManager.getBuildingsInRadius(bomberPosition, TOMAHAWK_DESIGNATION_RANGE)
+            .filter(building => (building.isTarget() || building.isDefenseLauncher() || building.isRadarSite()) && !building.getIsDestroyed())
+            .map(building => ({ building, distance: Vector3.Distance(bomberPosition, building.getPosition()) }))
+            .filter(candidate => candidate.distance <= TOMAHAWK_DESIGNATION_RANGE)
+            .filter(candidate => {
+                const position = candidate.building.getPosition();
+                const roof = new Vector3(position.x, candidate.building.getBounds().max.y, position.z);
+                return this.terrainManager.hasLineOfSight(bomberPosition, roof);
+            })
+            .sort((a, b) => a.distance - b.distance)
+            .map(candidate => candidate.building);
+    }
+
+    // Designate the candidate closest to a clicked point; replays take designations from the recording
+    public designateTargetNear(point: Vector3): boolean {
+        if (this.replayPlayer || this.inMainMenu || this.gameOver) return false;
+
+        let closest: Building | null = null;
+        let closestDistance = this.targetPickRadius;
+        for (const building of this.getTargetCandidates()) {
+            const position = building.getPosition();
+            const distance = Math.sqrt((position.x - point.x) ** 2 + (position.z - point.z) ** 2);
+            if (distance <= closestDistance) {
+                closest = building;
+                closestDistance = distance;
+            }
+        }
+        if (!closest) return false;
+
+        this.pendingTargetDesignations.push(closest);
+        return true;
+    }
+
+    private setupTargetPicking(): void {
+        this.scene.onPointerObservable.add(pointerInfo => {
+            if (pointerInfo.type !== PointerEventTypes.POINTERDOWN) return;
+
+            const pick = this.scene.pick(this.scene.pointerX, this.scene.pointerY);
+            if (pick && pick.hit && pick.pickedPoint) {
+                this.designateTargetNear(pick.pickedPoint);
+            }
+        });
+    }
+
+    // Plans from the planner take effect on a tick boundary so replays can reproduce them
+    private handleMissionPlanning(): void {
+        this.pendingMissionPlans.forEach(plan => {
+            this.bomber.setMissionPlan(plan);
+            this.recordFlightEvent('mission-planned', this.bomber.getPosition(), undefined, plan ?? undefined);
+        });
+        this.pendingMissionPlans = [];
+    }
+
+    // Null clears the plan so Tomahawks fly their default curved path; replays take plans from the recording
+    public setMissionPlan(plan: MissionPlan | null): void {
+        if (this.replayPlayer || this.inMainMenu || this.gameOver) return;
+        if (plan && !isValidMissionPlan(plan)) {
+            throw new Error('Invalid mission plan');
         }
+        this.pendingMissionPlans.push(plan ? cloneMissionPlan(plan) : null);
+    }
+
+    // The plan the next Tomahawk will fly, including one still waiting for the next tick
+    public getMissionPlan(): MissionPlan | null {
+        if (this.pendingMissionPlans.length > 0) {
+            const pending = this.pendingMissionPlans[this.pendingMissionPlans.length - 1];
+            return pending ? cloneMissionPlan(pending) : null;
+        }
+        return this.bomber.getMissionPlan();
+    }
+
+    private handleSamStateChange(building: Building, state: SamState): void {
+        if (state === 'search') {
+            this.radarWarnings.delete(building);
+            return;
+        }
+        this.radarWarnings.set(building, state);
+
+        // Seeking replays skip alerts for the ticks they fast-forward through
+        if (this.replaySeekTargetTick !== -1) return;
+        if (state === 'lock') {
+            this.uiManager?.showAlert('SAM LOCK', 'sam-warning', 2000);
+        } else if (state === 'launch') {
+            this.uiManager?.showAlert('SAM LAUNCH!', 'sam-warning', 3000);
+        }
+    }
+
+    // SAM sites tracking the bomber, most threatening first
+    public getRadarWarnings(): RadarWarning[] {
+        const bomberPosition = this.bomber.getPosition();
+        const heading = this.bomber.getRotation().y;
+        const warnings: RadarWarning[] = [];
+
+        this.radarWarnings.forEach((state, building) => {
+            if (building.getIsDestroyed()) return;
+            const position = building.getPosition();
+            const dx = position.x - bomberPosition.x;
+            const dz = position.z - bomberPosition.z;
+            let bearing = Math.atan2(dx, dz) - heading;
+            bearing = Math.atan2(Math.sin(bearing), Math.cos(bearing)); // Wrap to -PI..PI
+            warnings.push({ bearing, distance: Math.sqrt(dx * dx + dz * dz), state });
+        });
+
+        return warnings.sort((a, b) => SAM_STATES.indexOf(b.state) - SAM_STATES.indexOf(a.state) || a.distance - b.distance);
     }
 
     private handleMissileLaunch(): void {
@@ -289,99 +1135,82 @@ export class Game {
     }
 
     private handleIskanderLaunch(currentTime: number): void {
-        // Check if it's time to launch an Iskander missile
-        const timeSinceLastLaunch = currentTime - this.lastIskanderLaunchTime;
-        const totalInterval = this.iskanderLaunchInterval + Math.random() * this.iskanderRandomInterval;
-        
-        if (timeSinceLastLaunch >= totalInterval) {
-            this.launchIskanderMissile();
-            this.lastIskanderLaunchTime = currentTime;
-        }
+        if (this.replayPlayer) return; // Launches come from the recording during replay
+
+        const context = {
+            destroyedTargets: this.destroyedTargets,
+            healthFraction: this.bomber.getHealthPercentage() / 100,
+            nearbyDefenses: this.terrainManager.getLiveDefenseLauncherCount()
+        };
+        const launches = this.threatDirector.update(
+            currentTime,
+            context,
+            (count: number) => this.chooseIskanderLaunchSites(count),
+            () => this.simulationRandom.next()
+        );
+        launches.forEach(position => this.spawnIskanderMissile(new Vector3(position.x, position.y, position.z)));
     }
 
-    private launchIskanderMissile(): void {
-        // Find the defense launcher farthest from the bomber
+    // Launchers that can see the bomber, for the director to pick a salvo's sites from
+    private chooseIskanderLaunchSites(count: number): WorldPoint[] {
         const bomberPosition = this.bomber.getPosition();
-        const buildings = this.terrainManager.getBuildingsInRadius(bomberPosition, 1000);
-        
-        let farthestLauncher = null;
-        let maxDistance = 0;
-        
-        for (const building of buildings) {
-            if (building.isDefenseLauncher() && !building.getIsDestroyed()) {
-                const distance = Vector3.Distance(bomberPosition, building.getPosition());
-                if (distance > maxDistance) {
-                    maxDistance = distance;
-                    farthestLauncher = building;
-                }
-            }
-        }
+        const candidates = this.terrainManager.getBuildingsInRadius(bomberPosition, this.tuning.threatDirector.maxLaunchRange)
+            .filter(building => building.isDefenseLauncher() && !building.getIsDestroyed())
+            .map(building => {
+                const position = building.getRadarPosition(); // Launch from above the launcher, where its radar sees from
+                return {
+                    position,
+                    distance: Vector3.Distance(bomberPosition, position),
+                    hasLineOfSight: this.terrainManager.hasLineOfSight(position, bomberPosition)
+                };
+            });
+        return chooseLaunchSites(candidates, count, this.tuning.threatDirector);
+    }
+
+    private spawnIskanderMissile(launchPosition: Vector3): void {
+        const missile = new IskanderMissile(this.scene, launchPosition, this.bomber, this.gameClock, this.tuning.iskander);
         
-        if (farthestLauncher) {
-            const launchPosition = farthestLauncher.getPosition().clone();
-            launchPosition.y += 5; // Launch from above the launcher
-            
-            const missile = new IskanderMissile(this.scene, launchPosition, this.bomber, this.workerManager);
-            
-            missile.launch();
-            this.iskanderMissiles.push(missile);
-        }
+        missile.launch();
+        this.iskanderMissiles.push(missile);
+        this.recordFlightEvent('iskander-launch', launchPosition);
     }
 
     private handleCountermeasures(): void {
         if (this.inputManager.isCountermeasureKeyPressed() && 
             this.bomber.canLaunchFlares() && 
-            this.hasIskanderMissilesForAlert()) {
+            this.hasFlareThreats()) {
             this.bomber.launchFlares();
         }
+
+        if (this.inputManager.isChaffKeyPressed() &&
+            this.bomber.canLaunchChaff() &&
+            this.hasDefenseMissilesInbound()) {
+            this.bomber.launchChaff();
+        }
+
+        const ecmPressed = this.inputManager.isEcmKeyPressed();
+        if (ecmPressed && !this.ecmKeyHeld) {
+            this.bomber.toggleEcm();
+        }
+        this.ecmKeyHeld = ecmPressed;
     }
 
-    private updateIskanderMissiles(deltaTime: number): void {
-        // Update all Iskander missiles
+    private cleanUpIskanderMissiles(): void {
+        // Flight is stepped by MissileGuidanceManager
         for (let i = this.iskanderMissiles.length - 1; i >= 0; i--) {
             const missile = this.iskanderMissiles[i];
-            
-            // Update missile physics (now handled by worker)
-            missile.update(deltaTime);
-            
-            // Add active flares to missile for targeting
-            const activeFlares = this.bomber.getActiveFlares();
-            activeFlares.forEach(flare => {
-                missile.addFlareTarget(flare);
-            });
 
             // Remove missiles that have exploded
-            if (missile.hasExploded()) {
-                setTimeout(() => {
+            if (missile.hasExploded() && !this.iskanderMissilesPendingCleanup.has(missile)) {
+                this.iskanderMissilesPendingCleanup.add(missile);
+                this.gameClock.schedule(2, () => {
                     missile.dispose();
+                    this.iskanderMissilesPendingCleanup.delete(missile);
                     const index = this.iskanderMissiles.indexOf(missile);
                     if (index > -1) {
                         this.iskanderMissiles.splice(index, 1);
                     }
-                }, 2000); // Reduced from 10 seconds to 2 seconds for faster cleanup
-            }
-        }
-    }
-
-    private checkIskanderMissileCollisions(): void {
-        if (this.gameOver || this.bomber.isBomberDestroyed()) return;
-
-        const bomberPosition = this.bomber.getPosition();
-        
-        for (const missile of this.iskanderMissiles) {
-            if (missile.isLaunched() && !missile.hasExploded()) {
-                const missilePosition = missile.getPosition();
-                const distance = Vector3.Distance(bomberPosition, missilePosition);
-                
-                // Check for direct hit or proximity explosion
-                if (distance <= 8) { // Direct hit radius
-                    this.bomber.takeDamage(50); // Increased from 30% to 50% of bomber health
-                    missile.explode();
-                } else if (distance <= 20) { // Proximity explosion
-                    const damage = Math.max(10, 40 - distance); // Increased from 25 to 40
-                    this.bomber.takeDamage(damage);
-                    missile.explode();
-                }
+                }); // Reduced from 10 seconds to 2 seconds for faster cleanup
             }
         }
     }
@@ -390,30 +1219,61 @@ export class Game {
         if (this.inputManager.isCameraTogglePressed() && 
             (currentTime - this.lastCameraToggleTime) > this.cameraToggleCooldown) {
             this.cameraController.toggleLockMode();
-            this.uiManager.updateCameraToggleIcon();
+            this.uiManager?.updateCameraToggleIcon();
             this.lastCameraToggleTime = currentTime;
         }
     }
 
-    private dropBomb(): void {
-        const bombPosition = this.bomber.getBombBayPosition();
-        const bomb = new Bomb(this.scene, bombPosition);
+    private dropBomb(kind: BombKind): void {
+        const bomb = new Bomb(this.scene, this.bomber.getBombBayPosition(), this.getBombReleaseVelocity(), this.gameClock, kind);
         this.bombs.push(bomb);
     }
 
+    private getBombReleaseVelocity(): Vector3 {
+        return this.bomber.getVelocity().add(new Vector3(0, -BOMB_EJECTION_SPEED, 0));
+    }
+
+    // Where a bomb released now would land, flown with the same ballistics and step as real bombs
+    public getBombSightSolution(): BombSightSolution | null {
+        const position = this.bomber.getBombBayPosition();
+        const velocity = this.getBombReleaseVelocity();
+        const release: BallisticState = {
+            position: { x: position.x, y: position.y, z: position.z },
+            velocity: { x: velocity.x, y: velocity.y, z: velocity.z }
+        };
+        const impact = predictBombImpact(
+            release,
+            this.ballistics,
+            (x, z) => this.terrainManager.getHeightAtPosition(x, z),
+            this.gameClock.getFixedTimeStep(),
+            this.bombSightMaxTimeOfFlight
+        );
+        if (!impact) return null;
+
+        const impactPoint = new Vector3(impact.point.x, impact.point.y, impact.point.z);
+        const blastRadius = getBombReachRadius(BOMB_WEAPON_KINDS[this.getSelectedBombWeapon()], getBombDamageProfiles(this.tuning));
+        return {
+            impactPoint,
+            timeToImpact: impact.timeOfFlight,
+            blastRadius,
+            buildingsInBlast: this.terrainManager.getBuildingsInRadius(impactPoint, blastRadius)
+                .filter(building => !building.getIsDestroyed())
+        };
+    }
+
     public startBombingRun(): void {
         if (this.isBombingAvailable()) {
+            this.bombingRunWeapon = this.getSelectedBombWeapon();
             this.isBombingRun = true;
-            this.bombsToDrop = 9;
-            this.lastBombDropTime = performance.now() / 1000;
+            this.bombsToDrop = Math.min(WEAPON_SPECS[this.bombingRunWeapon].salvoSize, this.loadout.getRounds(this.bombingRunWeapon));
+            this.lastBombDropTime = this.gameClock.now();
             this.bomber.openBombBay();
             // Don't drop bomb immediately - wait for doors to open
         }
     }
 
     public isBombingAvailable(): boolean {
-        const currentTime = performance.now() / 1000;
-        const cooldownReady = (currentTime - this.lastBombingRunTime) > this.bombingRunCooldown;
+        const cooldownReady = this.loadout.canFire(this.getSelectedBombWeapon());
         const noWeaponActive = !this.bomber.isWeaponSystemActive();
         return !this.isBombingRun && cooldownReady && noWeaponActive;
     }
@@ -427,10 +1287,7 @@ export class Game {
     }
 
     public getBombCooldownStatus(): number {
-        const currentTime = performance.now() / 1000;
-        const timeSinceLastRun = currentTime - this.lastBombingRunTime;
-        const cooldownProgress = Math.min(timeSinceLastRun / this.bombingRunCooldown, 1);
-        return this.isBombingRun ? 0 : cooldownProgress;
+        return this.isBombingRun ? 0 : this.loadout.getReloadStatus(this.getSelectedBombWeapon());
     }
 
     public getBomber(): Bomber {
@@ -441,7 +1298,7 @@ export class Game {
         return this.cameraController;
     }
 
-    public getUIManager(): UIManager {
+    public getUIManager(): UIManager | null {
         return this.uiManager;
     }
 
@@ -457,6 +1314,22 @@ export class Game {
         return this.bomber.getHealthPercentage();
     }
 
+    // Bomber signature toward the nearest live SAM site, or null with none about
+    public getBomberSignature(): number | null {
+        const bomberPosition = this.bomber.getPosition();
+        let nearest: Building | null = null;
+        let nearestDistance = Infinity;
+        for (const building of this.terrainManager.getBuildingsInRadius(bomberPosition, this.signatureReadoutRange)) {
+            if (!building.isDefenseLauncher() || building.getIsDestroyed()) continue;
+            const distance = Vector3.Distance(bomberPosition, building.getPosition());
+            if (distance < nearestDistance) {
+                nearest = building;
+                nearestDistance = distance;
+            }
+        }
+        return nearest ? this.bomber.getSignature(nearest.getRadarPosition()) : null;
+    }
+
     public hasIskanderMissilesInRange(): boolean {
         const bomberPosition = this.bomber.getPosition();
         const flareDetectionRange = this.bomber.getFlareDetectionRange();
@@ -496,6 +1369,53 @@ export class Game {
         return false;
     }
 
+    // Heat seekers flares can decoy: Iskanders locking on, or air-to-air missiles closing in
+    public hasFlareThreats(): boolean {
+        return this.hasIskanderMissilesForAlert() ||
+            this.interceptorManager.hasMissilesInbound(this.bomber.getPosition(), this.airToAirAlertRange);
+    }
+
+    public getInterceptorManager(): InterceptorManager {
+        return this.interceptorManager;
+    }
+
+    public getFlakDamageTaken(): number {
+        return this.flakDamageTaken;
+    }
+
+    // SAM missiles in flight near the bomber; chaff is only worth dropping against these
+    public hasDefenseMissilesInbound(): boolean {
+        return this.terrainManager.getActiveDefenseMissiles(this.bomber.getPosition()).length > 0;
+    }
+
+    public getInputManager(): InputManager {
+        return this.inputManager;
+    }
+
+    public getTerrainManager(): TerrainManager {
+        return this.terrainManager;
+    }
+
+    public isGameOver(): boolean {
+        return this.gameOver;
+    }
+
+    public isHeadless(): boolean {
+        return this.headless;
+    }
+
+    public getGameClock(): GameClock {
+        return this.gameClock;
+    }
+
+    public getWorldSeed(): number {
+        return this.worldSeed;
+    }
+
+    public getBallistics(): BallisticsEnvironment {
+        return this.ballistics;
+    }
+
     public getScene(): Scene {
         return this.scene;
     }
@@ -505,58 +1425,144 @@ export class Game {
     }
 
     private updateBombs(deltaTime: number): void {
+        // Impacts are resolved from the collision snapshot, with each variant's own damage profile
+        this.bombs.forEach(bomb => bomb.update(deltaTime, this.ballistics));
+
+        // Cluster canisters that reached their dispense altitude are replaced by their submunitions
         for (let i = this.bombs.length - 1; i >= 0; i--) {
             const bomb = this.bombs[i];
-            bomb.update(deltaTime);
+            const position = bomb.getPosition();
+            if (bomb.shouldDispense(this.terrainManager.getHeightAtPosition(position.x, position.z))) {
+                this.bombs.splice(i, 1, ...bomb.dispense(this.ballistics.gravity));
+            }
+        }
+    }
+
+    private submitCollisionSnapshot(): void {
+        const bomberPosition = this.bomber.getPosition();
+        const buildings = new Set(this.terrainManager.getBuildingsInRadius(bomberPosition, this.collisionQueryRadius));
+        const bombDamage = getBombDamageProfiles(this.tuning);
 
+        // Bombs arc well ahead of the bomber; include whatever they could strike or their blast could reach
+        this.bombs.forEach(bomb => {
             const bombPosition = bomb.getPosition();
+            const groundHeight = this.terrainManager.getHeightAtPosition(bombPosition.x, bombPosition.z);
+            const groundPoint = new Vector3(bombPosition.x, groundHeight, bombPosition.z);
+            this.terrainManager.getBuildingsInRadius(groundPoint, getBombReachRadius(bomb.getKind(), bombDamage)).forEach(building => buildings.add(building));
+        });
 
-            if (bombPosition.y <= 0) {
-                const explosionPoint = new Vector3(bombPosition.x, 0, bombPosition.z);
-                
-                const blastRadius = 50;
-                const nearbyBuildings = this.terrainManager.getBuildingsInRadius(explosionPoint, blastRadius);
-                
-                nearbyBuildings.forEach(building => {
-                    const distance = Vector3.Distance(explosionPoint, building.getPosition());
-                    const damage = Math.max(10, 50 - distance);
-                    
-                    const wasDestroyed = building.takeDamage(damage, true);
-                    if (wasDestroyed) {
-                        this.destroyedBuildings++;
-                        if (building.isTarget()) {
-                            this.destroyedTargets++;
-                        }
-                    }
-                });
-                
-                bomb.explode(explosionPoint);
-                this.bombs.splice(i, 1);
+        const defenseMissiles: DefenseMissile[] = [];
+        buildings.forEach(building => {
+            if (building.isDefenseLauncher() && !building.getIsDestroyed()) {
+                defenseMissiles.push(...building.getDefenseMissiles());
             }
-        }
+        });
+
+        this.collisionManager.submit(this.gameClock.getTick(), {
+            bomberPosition,
+            bombs: this.bombs,
+            iskanderMissiles: this.iskanderMissiles,
+            defenseMissiles,
+            airToAirMissiles: this.interceptorManager.getAirToAirMissiles(),
+            flares: this.bomber.getActiveFlares(),
+            flakBursts: this.pendingFlakBursts,
+            buildings: Array.from(buildings),
+            missileDamage: getMissileDamageProfiles(this.tuning),
+            bombDamage,
+            flak: this.tuning.flak,
+            getGroundHeight: (x, z) => this.terrainManager.getHeightAtPosition(x, z)
+        });
+        this.pendingFlakBursts = [];
     }
 
-    private updateGroundCrosshair(): void {
-        const cameraMode = this.cameraController.getLockMode();
-        if (cameraMode === CameraLockMode.GROUND) {
-            this.groundCrosshair.setEnabled(true);
-            const bomberPosition = this.bomber.getPosition();
-            const terrainHeight = this.terrainManager.getHeightAtPosition(bomberPosition.x, bomberPosition.z);
-            this.groundCrosshair.position.set(bomberPosition.x, terrainHeight + 0.5, bomberPosition.z);
-        } else {
-            this.groundCrosshair.setEnabled(false);
+    private submitMissileGuidance(deltaTime: number): void {
+        const bomberPosition = this.bomber.getPosition();
+        this.missileGuidanceManager.submit(this.gameClock.getTick(), deltaTime, this.gameClock.now(), {
+            bomberPosition,
+            flares: this.bomber.getActiveFlares(),
+            chaff: this.bomber.getActiveChaff(),
+            tomahawkMissiles: this.bomber.getTomahawkMissiles(),
+            defenseMissiles: this.terrainManager.getActiveDefenseMissiles(bomberPosition),
+            iskanderMissiles: this.iskanderMissiles,
+            airToAirMissiles: this.interceptorManager.getAirToAirMissiles(),
+            hasLineOfSight: (from, to) => this.terrainManager.hasLineOfSight(from, to),
+            getBomberSignature: observer => this.bomber.getSignature(observer),
+            isBomberJamming: this.bomber.isEcmActive(),
+            ecm: this.tuning.ecm
+        });
+    }
+
+    private applyCollisionResults(): void {
+        const resolved = this.collisionManager.takeResults();
+        if (!resolved) return;
+        const { result, entities } = resolved;
+
+        result.bombImpacts.forEach(impact => {
+            const bomb = entities.bombs.get(impact.bombId);
+            const index = bomb ? this.bombs.indexOf(bomb) : -1;
+            if (!bomb || index === -1) return;
+
+            impact.buildingHits.forEach(hit => {
+                const building = entities.buildings.get(hit.buildingId);
+                if (!building) return;
+
+                const wasDestroyed = building.takeDamage(hit.damage, true);
+                if (wasDestroyed) {
+                    this.destroyedBuildings++;
+                    if (building.isTarget()) {
+                        this.destroyedTargets++;
+                    }
+                }
+            });
+
+            bomb.explode(new Vector3(impact.point.x, impact.point.y, impact.point.z));
+            this.bombs.splice(index, 1);
+        });
+
+        // Missiles may have detonated on their own since the snapshot was taken
+        const getLiveMissile = (missileId: string) => {
+            const missile = entities.missiles.get(missileId);
+            return missile && missile.isLaunched() && !missile.hasExploded() ? missile : null;
+        };
+
+        result.flareDecoys.forEach(decoy => {
+            getLiveMissile(decoy.missileId)?.explode();
+        });
+
+        if (!this.gameOver && !this.bomber.isBomberDestroyed()) {
+            result.missileHits.forEach(hit => {
+                const missile = getLiveMissile(hit.missileId);
+                if (!missile) return;
+                this.bomber.takeDamage(hit.damage);
+                missile.explode();
+            });
+
+            result.flakHits.forEach(hit => {
+                this.bomber.takeDamage(hit.damage);
+                this.flakDamageTaken += hit.damage;
+            });
         }
+
+        const closestDefenseBuilding = result.closestDefenseBuildingId
+            ? entities.buildings.get(result.closestDefenseBuildingId) || null
+            : null;
+        this.bomber.setClosestDefenseBuilding(closestDefenseBuilding);
     }
 
     private handleGameOver(): void {
         this.gameOver = true;
-        this.gameOverTime = performance.now() / 1000;
+        this.gameOverTime = this.gameClock.now();
+
+        // Replays keep their own controls instead of the game over screen
+        if (this.replayPlayer || this.headless) return;
         
         // Show game over message
         this.showGameOverMessage();
     }
 
     private showGameOverMessage(): void {
+        this.hideGameOverMessage();
+
         const gameOverDiv = document.createElement('div');
         gameOverDiv.id = 'game-over-message';
         gameOverDiv.innerHTML = `
@@ -565,13 +1571,36 @@ export class Game {
                 <p>Your Bomber has been destroyed!</p>
                 <p>Buildings Destroyed: ${this.destroyedBuildings}</p>
                 <p>Targets Eliminated: ${this.destroyedTargets}</p>
-                <p>Restarting in ${this.gameOverDelay} seconds...</p>
+                <div class="game-over-actions">
+                    <button id="game-over-retry-button">RETRY</button>
+                    <button id="game-over-replay-button">WATCH REPLAY</button>
+                    <button id="game-over-save-button">SAVE REPLAY</button>
+                    <button id="game-over-quit-button">QUIT TO MENU</button>
+                </div>
             </div>
         `;
         document.body.appendChild(gameOverDiv);
+        this.gameOverMessage = gameOverDiv;
+
+        document.getElementById('game-over-retry-button')!.addEventListener('click', () => {
+            this.reset();
+        });
+        document.getElementById('game-over-replay-button')!.addEventListener('click', () => {
+            this.watchLastSortie();
+        });
+        document.getElementById('game-over-save-button')!.addEventListener('click', () => {
+            this.uiManager?.exportRecording();
+        });
+        document.getElementById('game-over-quit-button')!.addEventListener('click', () => {
+            this.quitToMenu();
+        });
 
-        // Add styles
+        // Add styles once; the overlay itself is recreated per game over
+        if (document.getElementById('game-over-styles')) {
+            return;
+        }
         const style = document.createElement('style');
+        style.id = 'game-over-styles';
         style.textContent = `
             #game-over-message {
                 position: fixed;
@@ -604,38 +1633,35 @@ export class Game {
                 font-size: 1.2em;
                 margin: 10px 0;
             }
+            .game-over-actions {
+                display: flex;
+                justify-content: center;
+                gap: 16px;
+                margin-top: 30px;
+            }
+            .game-over-actions button {
+                background-color: rgba(0, 0, 0, 0.5);
+                color: white;
+                border: 2px solid #ff0000;
+                border-radius: 6px;
+                padding: 10px 24px;
+                font-family: Arial, sans-serif;
+                font-size: 1em;
+                font-weight: bold;
+                cursor: pointer;
+                transition: background-color 0.2s;
+            }
+            .game-over-actions button:hover {
+                background-color: rgba(255, 0, 0, 0.4);
+            }
         `;
         document.head.appendChild(style);
     }
 
-    private checkDefenseMissileCollisions(): void {
-        if (this.gameOver || this.bomber.isBomberDestroyed()) return;
-
-        const bomberPosition = this.bomber.getPosition();
-        const buildings = this.terrainManager.getBuildingsInRadius(bomberPosition, 500);
-        
-        for (const building of buildings) {
-            if (building.isDefenseLauncher() && !building.getIsDestroyed()) {
-                // Get defense missiles from the building
-                const defenseMissiles = building.getDefenseMissiles();
-                
-                for (const missile of defenseMissiles) {
-                    if (missile.isLaunched() && !missile.hasExploded()) {
-                        const missilePosition = missile.getPosition();
-                        const distance = Vector3.Distance(bomberPosition, missilePosition);
-                        
-                        // Check for direct hit or proximity explosion
-                        if (distance <= 8) { // Direct hit radius
-                            this.bomber.takeDamage(25); // Direct hit damage
-                            missile.explode();
-                        } else if (distance <= 20) { // Proximity explosion
-                            const damage = Math.max(5, 20 - distance);
-                            this.bomber.takeDamage(damage);
-                            missile.explode();
-                        }
-                    }
-                }
-            }
+    private hideGameOverMessage(): void {
+        if (this.gameOverMessage) {
+            this.gameOverMessage.remove();
+            this.gameOverMessage = null;
         }
     }
-} 
\ No newline at end of file
+}
@@ -1,8 +1,9 @@
 import { Scene } from '@babylonjs/core';
+import { FlightRecorder, SIMULATION_INPUT_KEYS } from '../utils/FlightRecorder';
 
 export class InputManager {
     private scene: Scene;
-    private canvas: HTMLCanvasElement;
+    private canvas: HTMLCanvasElement | null;
     private keys: { [key: string]: boolean } = {};
     private wheelDelta: number = 0;
     
@@ -14,15 +15,21 @@ export class InputManager {
     private lastKeyCacheUpdate: number = 0;
     private keyCacheInterval: number = 16; // Update cache every 16ms (~60fps)
 
-    constructor(scene: Scene, canvas: HTMLCanvasElement) {
+    // Recorded simulation inputs replace live keys during replay playback
+    private playbackKeys: number | null = null;
+
+    // Without a canvas (headless) no listeners are attached; inputs come from setPlaybackInputs()
+    constructor(scene: Scene, canvas: HTMLCanvasElement | null) {
         this.scene = scene;
         this.canvas = canvas;
-        this.setupKeyboardInput();
-        this.setupMouseInput();
+        if (canvas) {
+            this.setupKeyboardInput();
+            this.setupMouseInput(canvas);
+        }
     }
 
-    private setupMouseInput(): void {
-        this.canvas.addEventListener('wheel', (event) => {
+    private setupMouseInput(canvas: HTMLCanvasElement): void {
+        canvas.addEventListener('wheel', (event) => {
             this.wheelDelta += event.deltaY;
             event.preventDefault();
         });
@@ -59,6 +66,10 @@ export class InputManager {
     }
 
     public isKeyPressed(key: string): boolean {
+        if (this.playbackKeys !== null && SIMULATION_INPUT_KEYS.includes(key)) {
+            return FlightRecorder.isKeyInMask(this.playbackKeys, key);
+        }
+
         // Cache frequently accessed keys to reduce lookup overhead during bomber turning
         const currentTime = performance.now();
         if (!this.keyCacheValid || currentTime - this.lastKeyCacheUpdate > this.keyCacheInterval) {
@@ -94,6 +105,30 @@ export class InputManager {
         return this.isKeyPressed('Comma');
     }
 
+    public isChaffKeyPressed(): boolean {
+        return this.isKeyPressed('KeyC');
+    }
+
+    // Switches the ECM jammer on or off
+    public isEcmKeyPressed(): boolean {
+        return this.isKeyPressed('KeyE');
+    }
+
+    // Cycles the mounted bomb variants
+    public isBombSelectKeyPressed(): boolean {
+        return this.isKeyPressed('KeyB');
+    }
+
+    // Steps the Tomahawk designation through nearby targets
+    public isTargetCycleKeyPressed(): boolean {
+        return this.isKeyPressed('KeyT');
+    }
+
+    // Adds or removes the designated target from the strike queue
+    public isTargetQueueKeyPressed(): boolean {
+        return this.isKeyPressed('KeyG');
+    }
+
     public triggerBombKeyPress(): void {
         this.keys['Slash'] = true;
         // Reset after a short time to simulate a single press
@@ -118,6 +153,30 @@ export class InputManager {
         }, 100);
     }
 
+    public triggerChaffKeyPress(): void {
+        this.keys['KeyC'] = true;
+        // Reset after a short time to simulate a single press
+        setTimeout(() => {
+            this.keys['KeyC'] = false;
+        }, 100);
+    }
+
+    public triggerEcmKeyPress(): void {
+        this.keys['KeyE'] = true;
+        // Reset after a short time to simulate a single press
+        setTimeout(() => {
+            this.keys['KeyE'] = false;
+        }, 100);
+    }
+
+    public triggerBombSelectKeyPress(): void {
+        this.keys['KeyB'] = true;
+        // Reset after a short time to simulate a single press
+        setTimeout(() => {
+            this.keys['KeyB'] = false;
+        }, 100);
+    }
+
     public isShiftUpPressed(): boolean {
         return this.isKeyPressed('ShiftLeft') && this.isKeyPressed('ArrowUp') ||
                this.isKeyPressed('ShiftRight') && this.isKeyPressed('ArrowUp');
@@ -142,6 +201,26 @@ export class InputManager {
         return this.isKeyPressed('Quote');
     }
 
+    public isPauseKeyPressed(): boolean {
+        return this.isKeyPressed('Escape');
+    }
+
+    public isMissionPlannerKeyPressed(): boolean {
+        return this.isKeyPressed('KeyM');
+    }
+
+    public isNetworkOverlayKeyPressed(): boolean {
+        return this.isKeyPressed('KeyN');
+    }
+
+    public isTimeScaleDownPressed(): boolean {
+        return this.isKeyPressed('Minus');
+    }
+
+    public isTimeScaleUpPressed(): boolean {
+        return this.isKeyPressed('Equal');
+    }
+
     public isRightShiftLeftPressed(): boolean {
         return this.isKeyPressed('ShiftRight') && this.isKeyPressed('ArrowLeft');
     }
@@ -168,6 +247,19 @@ export class InputManager {
         return this.isKeyPressed('ControlLeft') || this.isKeyPressed('ControlRight');
     }
 
+    // Bitmask of the simulation keys held right now, for the flight recorder
+    public captureSimulationInputs(): number {
+        return FlightRecorder.encodeInputs(key => this.isKeyPressed(key));
+    }
+
+    public setPlaybackInputs(keys: number | null): void {
+        this.playbackKeys = keys;
+    }
+
+    public isPlaybackActive(): boolean {
+        return this.playbackKeys !== null;
+    }
+
     public getKeys(): { [key: string]: boolean } {
         return { ...this.keys };
     }
@@ -0,0 +1,189 @@
+import { Scene, Vector3 } from '@babylonjs/core';
+import { AirToAirMissile } from '../entities/AirToAirMissile';
+import { Bomber } from '../entities/Bomber';
+import { Building } from '../entities/Building';
+import { Interceptor } from '../entities/Interceptor';
+import { GameClock } from '../utils/GameClock';
+import { DEFAULT_TUNING, GameTuning } from '../utils/GameTuning';
+import { getTailGunDamage } from '../utils/TailGun';
+import { TerrainManager } from './TerrainManager';
+
+// Scrambles fighters from airbases once the SAM network is tracking the bomber, flies them and their missiles,
+// and lets the bomber's tail gun shoot them down. Missile flight itself is stepped by MissileGuidanceManager.
+export class InterceptorManager {
+    private scene: Scene;
+    private gameClock: GameClock;
+    private interceptors: Interceptor[] = [];
+    private airToAirMissiles: AirToAirMissile[] = [];
+    private pendingCleanup: Set<Interceptor | AirToAirMissile> = new Set(); // Wrecks left up for their explosion
+    private lastScrambleTime: number = -Infinity;
+    private tuning: GameTuning;
+    private interceptorsDestroyed: number = 0;
+    private onScrambleCallback: ((airbase: Building) => void) | null = null;
+
+    constructor(scene: Scene, gameClock: GameClock, tuning: GameTuning = DEFAULT_TUNING) {
+        this.scene = scene;
+        this.gameClock = gameClock;
+        this.tuning = tuning;
+    }
+
+    // autoScramble is off during replay playback, where scrambles come from the recording instead
+    public update(deltaTime: number, bomber: Bomber, terrainManager: TerrainManager, autoScramble: boolean = true): void {
+        const currentTime = this.gameClock.now();
+        const bomberPosition = bomber.getPosition();
+
+        if (autoScramble && this.shouldScramble(currentTime, terrainManager)) {
+            const airbase = this.findAirbase(bomberPosition, terrainManager);
+            if (airbase) {
+                this.scrambleFrom(airbase);
+            }
+        }
+
+        const target = { position: bomberPosition, velocity: bomber.getVelocity() };
+        const bomberDown = bomber.isBomberDestroyed();
+        let tailGunTarget: Interceptor | null = null;
+        let tailGunDamage = 0;
+
+        for (let i = this.interceptors.length - 1; i >= 0; i--) {
+            const interceptor = this.interceptors[i];
+            if (interceptor.isDestroyed()) continue;
+
+            const position = interceptor.getPosition();
+            const groundHeight = terrainManager.getHeightAtPosition(position.x, position.z);
+            if (interceptor.update(target, groundHeight, currentTime, deltaTime)) {
+                this.launchMissile(interceptor, bomberPosition);
+            }
+
+            const newPosition = interceptor.getPosition();
+            if (newPosition.y <= groundHeight) {
+                interceptor.explode(); // Flew into the ground
+                this.interceptorsDestroyed++;
+                continue;
+            }
+
+            if (interceptor.getMode() === 'egress' && Vector3.Distance(newPosition, bomberPosition) > this.tuning.interceptorScramble.egressRange) {
+                interceptor.dispose();
+                this.interceptors.splice(i, 1);
+                continue;
+            }
+
+            // The turret engages whichever fighter it can hurt most
+            if (!bomberDown) {
+                const damage = getTailGunDamage(bomberPosition, bomber.getRotation().y, newPosition, deltaTime, this.tuning.tailGun);
+                if (damage > tailGunDamage) {
+                    tailGunDamage = damage;
+                    tailGunTarget = interceptor;
+                }
+            }
+        }
+
+        if (tailGunTarget && tailGunTarget.takeDamage(tailGunDamage)) {
+            this.interceptorsDestroyed++;
+        }
+
+        this.cleanUp();
+    }
+
+    private shouldScramble(currentTime: number, terrainManager: TerrainManager): boolean {
+        return currentTime - this.lastScrambleTime >= this.tuning.interceptorScramble.scrambleInterval &&
+            this.getAirborneCount() < this.tuning.interceptorScramble.maxAirborne &&
+            terrainManager.isBomberTracked();
+    }
+
+    // Nearest live airbase in range of the bomber
+    private findAirbase(bomberPosition: Vector3, terrainManager: TerrainManager): Building | null {
+        let nearest: Building | null = null;
+        let nearestDistance = Infinity;
+        for (const building of terrainManager.getBuildingsInRadius(bomberPosition, this.tuning.interceptorScramble.scrambleRange)) {
+            if (!building.isAirbase() || building.getIsDestroyed()) continue;
+            const distance = Vector3.Distance(bomberPosition, building.getPosition());
+            if (distance < nearestDistance) {
+                nearest = building;
+                nearestDistance = distance;
+            }
+        }
+        return nearest;
+    }
+
+    // Launch a fighter off the airbase's runway (used directly when replaying recorded scrambles)
+    public scrambleFrom(airbase: Building): void {
+        if (!airbase.isAirbase() || airbase.getIsDestroyed()) return;
+
+        const currentTime = this.gameClock.now();
+        this.lastScrambleTime = currentTime;
+        this.interceptors.push(new Interceptor(this.scene, airbase.getRunwayPosition(), 0, currentTime, this.gameClock, this.tuning.interceptor));
+
+        if (this.onScrambleCallback) {
+            this.onScrambleCallback(airbase);
+        }
+    }
+
+    private launchMissile(interceptor: Interceptor, bomberPosition: Vector3): void {
+        const velocity = interceptor.getVelocity();
+        const launchPosition = interceptor.getPosition().add(velocity.normalizeToNew().scale(6)); // Clear of the airframe
+        const missile = new AirToAirMissile(this.scene, launchPosition, velocity, bomberPosition, this.gameClock);
+        missile.launch();
+        this.airToAirMissiles.push(missile);
+    }
+
+    private cleanUp(): void {
+        const scheduleRemoval = <T extends Interceptor | AirToAirMissile>(entity: T, list: T[]) => {
+            this.pendingCleanup.add(entity);
+            this.gameClock.schedule(2, () => {
+                entity.dispose();
+                this.pendingCleanup.delete(entity);
+                const index = list.indexOf(entity);
+                if (index > -1) {
+                    list.splice(index, 1);
+                }
+            });
+        };
+
+        this.interceptors.forEach(interceptor => {
+            if (interceptor.isDestroyed() && !this.pendingCleanup.has(interceptor)) {
+                scheduleRemoval(interceptor, this.interceptors);
+            }
+        });
+        this.airToAirMissiles.forEach(missile => {
+            if (missile.hasExploded() && !this.pendingCleanup.has(missile)) {
+                scheduleRemoval(missile, this.airToAirMissiles);
+            }
+        });
+    }
+
+    public setOnScrambleCallback(callback: (airbase: Building) => void): void {
+        this.onScrambleCallback = callback;
+    }
+
+    public getInterceptors(): Interceptor[] {
+        return this.interceptors;
+    }
+
+    public getAirToAirMissiles(): AirToAirMissile[] {
+        return this.airToAirMissiles;
+    }
+
+    public getAirborneCount(): number {
+        return this.interceptors.filter(interceptor => !interceptor.isDestroyed()).length;
+    }
+
+    public getInterceptorsDestroyed(): number {
+        return this.interceptorsDestroyed;
+    }
+
+    // Air-to-air missiles in flight within range of the bomber; flares are worth dropping against these
+    public hasMissilesInbound(bomberPosition: Vector3, range: number): boolean {
+        return this.airToAirMissiles.some(missile =>
+            missile.isLaunched() && !missile.hasExploded() && Vector3.Distance(bomberPosition, missile.getPosition()) <= range);
+    }
+
+    public dispose(): void {
+        this.interceptors.forEach(interceptor => interceptor.dispose());
+        this.interceptors = [];
+        this.airToAirMissiles.forEach(missile => missile.dispose());
+        this.airToAirMissiles = [];
+        this.pendingCleanup.clear();
+        this.lastScrambleTime = -Infinity;
+        this.interceptorsDestroyed = 0;
+    }
+}
@@ -0,0 +1,106 @@
+import { Vector3 } from '@babylonjs/core';
+import { AirToAirMissile } from '../entities/AirToAirMissile';
+import { DefenseMissile } from '../entities/DefenseMissile';
+import { IskanderMissile } from '../entities/IskanderMissile';
+import { TomahawkMissile } from '../entities/TomahawkMissile';
+import { EcmProfile } from '../utils/EcmJammer';
+import { EntityIdRegistry } from '../utils/EntityIdRegistry';
+import { stepMissileGuidance } from '../utils/MissileGuidance';
+import { WorkerTickPipeline } from '../utils/WorkerTickPipeline';
+import { MissileGuidanceBatch, MissileGuidanceBatchResult, MissileGuidanceState } from '../workers/worker-protocol';
+import { WorkerManager } from './WorkerManager';
+
+export type GuidedMissile = TomahawkMissile | DefenseMissile | IskanderMissile | AirToAirMissile;
+
+// Live missiles and the inputs their guidance reads
+export interface GuidanceWorld {
+    bomberPosition: Vector3;
+    flares: Vector3[];
+    chaff: Vector3[];
+    tomahawkMissiles: TomahawkMissile[];
+    defenseMissiles: DefenseMissile[];
+    iskanderMissiles: IskanderMissile[];
+    airToAirMissiles: AirToAirMissile[];
+    hasLineOfSight: (from: Vector3, to: Vector3) => boolean; // Iskander seekers need to see the bomber...
+    getBomberSignature: (observer: Vector3) => number; // ...and lock faster the bigger it looks...
+    isBomberJamming: boolean; // ...unless its ECM is on
+    ecm: EcmProfile;
+}
+
+// Steps every live missile in one batched worker request per tick. Like collisions, a batch submitted on
+// one tick is applied on the next, from the worker's reply or the same step run synchronously when it's late.
+export class MissileGuidanceManager {
+    private entityIds: EntityIdRegistry = new EntityIdRegistry();
+    private pipeline: WorkerTickPipeline<MissileGuidanceBatch, MissileGuidanceBatchResult, Map<string, GuidedMissile>>;
+
+    constructor(workerManager: WorkerManager) {
+        this.pipeline = new WorkerTickPipeline(
+            batch => workerManager.batchUpdateMissiles(batch),
+            stepMissileGuidance
+        );
+    }
+
+    public submit(tick: number, deltaTime: number, currentTime: number, world: GuidanceWorld): void {
+        const missiles = new Map<string, GuidedMissile>();
+        const batch: MissileGuidanceBatch = {
+            tick,
+            deltaTime,
+            currentTime,
+            bomberPosition: this.toPlainVector(world.bomberPosition),
+            flares: world.flares.map(flare => this.toPlainVector(flare)),
+            chaff: world.chaff.map(cloud => this.toPlainVector(cloud)),
+            ecm: world.ecm,
+            missiles: []
+        };
+
+        const addMissile = (missile: GuidedMissile, prefix: string): MissileGuidanceState | null => {
+            if (!missile.isLaunched() || missile.hasExploded()) return null;
+            const id = this.entityIds.getId(missile, prefix);
+            missiles.set(id, missile);
+            const state = missile.getGuidanceState(id);
+            batch.missiles.push(state);
+            return state;
+        };
+        world.tomahawkMissiles.forEach(missile => addMissile(missile, 'tomahawk'));
+        world.defenseMissiles.forEach(missile => addMissile(missile, 'defense'));
+        world.iskanderMissiles.forEach(missile => {
+            const state = addMissile(missile, 'iskander');
+            if (state?.missileType === 'iskander') {
+                state.bomberVisible = world.hasLineOfSight(missile.getPosition(), world.bomberPosition);
+                state.bomberSignature = world.getBomberSignature(missile.getPosition());
+                state.bomberJamming = world.isBomberJamming;
+            }
+        });
+        world.airToAirMissiles.forEach(missile => addMissile(missile, 'air-to-air'));
+
+        this.pipeline.submit(batch, missiles);
+    }
+
+    // Moves every missile from last tick's batch; ones that exploded in the meantime are left alone
+    public applyResults(): MissileGuidanceBatchResult | null {
+        const resolved = this.pipeline.take();
+        if (!resolved) return null;
+
+        resolved.result.results.forEach(result => {
+            resolved.context.get(result.state.id)?.applyGuidance(result);
+        });
+        return resolved.result;
+    }
+
+    public getWorkerResultCount(): number {
+        return this.pipeline.getWorkerResultCount();
+    }
+
+    public getFallbackResultCount(): number {
+        return this.pipeline.getFallbackResultCount();
+    }
+
+    public reset(): void {
+        this.pipeline.reset();
+        this.entityIds.reset();
+    }
+
+    private toPlainVector(vector: Vector3): { x: number; y: number; z: number } {
+        return { x: vector.x, y: vector.y, z: vector.z };
+    }
+}
@@ -1,7 +1,16 @@
 import { Scene, Vector3, GroundMesh, MeshBuilder, StandardMaterial, Color3, Color4, Texture, DynamicTexture, Mesh } from '@babylonjs/core';
-import { NoiseGenerator } from '../utils/NoiseGenerator';
+import { TerrainGenerator } from '../utils/TerrainGenerator';
+import { SeededRandom } from '../utils/SeededRandom';
+import { GameClock } from '../utils/GameClock';
 import { Building, BuildingConfig } from '../entities/Building';
+import { DefenseMissile } from '../entities/DefenseMissile';
 import { WorkerManager } from './WorkerManager';
+import { BoundingBox, LineOfSightQuery, LineOfSightResult, TerrainChunkResult } from '../workers/worker-protocol';
+import type { Vector3 as WorldPoint } from '../workers/worker-utils';
+import { traceLineOfSight } from '../utils/LineOfSight';
+import { RadarEnvironment, SamState } from '../utils/SamFireControl';
+import { AIR_DEFENSE_NETWORK_PROFILE, resolveAirDefenseNetwork } from '../utils/AirDefenseNetwork';
+import { DEFAULT_TUNING, GameTuning } from '../utils/GameTuning';
 
 interface TerrainChunk {
     mesh: GroundMesh;
@@ -10,12 +19,19 @@ interface TerrainChunk {
     z: number;
 }
 
+// A launcher and the radar site sharing tracks with it
+export interface AirDefenseLinkPair {
+    radar: Building;
+    launcher: Building;
+}
+
 export class TerrainManager {
     private scene: Scene;
     private chunks: Map<string, TerrainChunk | null> = new Map();
     private chunkSize: number = 500;
     private viewDistance: number = 800;
     private generationThreshold: number = 300;
+    private defenseLauncherRange: number = 400; // Launchers beyond this from the bomber stay idle
     private terrainMaterial!: StandardMaterial;
     private lastTerrainUpdateTime: number = 0;
     private heightmapCache: Map<string, Float32Array> = new Map();
@@ -28,17 +44,33 @@ export class TerrainManager {
     private lastCacheTime: number = 0;
 
     private workerManager: WorkerManager;
-    private noiseGenerator: NoiseGenerator; // Kept for fallback height calculation
+    private gameClock: GameClock;
+    private worldSeed: number;
+    private tuning: GameTuning; // Handed to every building spawned
+    private terrainGenerator: TerrainGenerator; // Same generator the worker uses, for fallback and height queries
 
     private isDisposing: boolean = false;
 
+    // Gameplay event hooks (used by the flight recorder)
+    private onBuildingDestroyedCallback: ((building: Building) => void) | null = null;
+    private onDefenseMissileLaunchedCallback: ((building: Building, targetPosition: Vector3) => void) | null = null;
+    private onSamStateChangedCallback: ((building: Building, state: SamState) => void) | null = null; // Radar warnings
+    private activeDefenseLaunchers: Set<Building> = new Set(); // Launchers updated last tick
+    private activeRadarSites: Set<Building> = new Set(); // Radar sites updated last tick
+    private airDefenseLinks: AirDefenseLinkPair[] = [];
+    private onFlakFiredCallback: ((building: Building, burstPoint: Vector3) => void) | null = null;
+    private firingAntiAircraftGuns: Set<Building> = new Set(); // Guns with shells still in flight
+
     // Track active worker calls to prevent overlapping requests
     private activeWorkerCalls: Set<string> = new Set();
 
-    constructor(scene: Scene, workerManager: WorkerManager) {
+    constructor(scene: Scene, workerManager: WorkerManager, worldSeed: number, gameClock: GameClock, tuning: GameTuning = DEFAULT_TUNING) {
         this.scene = scene;
         this.workerManager = workerManager;
-        this.noiseGenerator = new NoiseGenerator(); // Fallback for synchronous height requests
+        this.gameClock = gameClock;
+        this.tuning = tuning;
+        this.worldSeed = worldSeed >>> 0;
+        this.terrainGenerator = new TerrainGenerator(this.worldSeed, this.chunkSize, this.subdivisions);
         this.createTerrainMaterial();
         this.createClearSky();
     }
@@ -64,7 +96,7 @@ export class TerrainManager {
 
         try {
             // Use async/await with timeout
-            const result = await this.workerManager.generateTerrainChunk(chunkX, chunkZ, this.chunkSize, this.subdivisions);
+            const result = await this.workerManager.generateTerrainChunk(chunkX, chunkZ, this.chunkSize, this.subdivisions, this.worldSeed);
             
             // Only process result if we're still not disposing
             if (!this.isDisposing) {
@@ -75,15 +107,17 @@ export class TerrainManager {
             if (!this.isDisposing) {
                 // Silent error handling - no console logging
             }
-            // Always fallback to synchronous generation if worker fails
-            this.generateChunkSynchronously(chunkX, chunkZ);
+            // Fallback to synchronous generation if worker fails, unless this manager was disposed meanwhile
+            if (!this.isDisposing) {
+                this.generateChunkSynchronously(chunkX, chunkZ);
+            }
         } finally {
             // Always clean up the tracking
             this.activeWorkerCalls.delete(chunkKey);
         }
     }
 
-    private processTerrainChunkResult(result: any, chunkX: number, chunkZ: number): void {
+    private processTerrainChunkResult(result: TerrainChunkResult, chunkX: number, chunkZ: number): void {
         const chunkKey = `${chunkX}_${chunkZ}`;
         const { heightmap, buildingConfigs } = result;
 
@@ -142,7 +176,7 @@ export class TerrainManager {
         ground.material = this.terrainMaterial;
 
         // Generate heightmap synchronously
-        const heightmap = this.generateHeightmapSynchronously(chunkX, chunkZ);
+        const heightmap = this.terrainGenerator.generateHeightmap(chunkX, chunkZ);
         const positions = ground.getVerticesData('position');
         if (positions) {
             for (let i = 0; i < heightmap.length; i++) {
@@ -164,158 +198,41 @@ export class TerrainManager {
         this.chunks.set(chunkKey, chunk);
 
         // Generate buildings synchronously
-        const buildingConfigs = this.generateBuildingsSynchronously(chunkX, chunkZ, heightmap);
+        const buildingConfigs = this.terrainGenerator.generateBuildings(chunkX, chunkZ, heightmap);
         this.createBuildingsFromConfigs(chunk, buildingConfigs);
     }
 
-    private generateHeightmapSynchronously(chunkX: number, chunkZ: number): Float32Array {
-        const worldX = chunkX * this.chunkSize;
-        const worldZ = chunkZ * this.chunkSize;
-        const heights = new Float32Array((this.subdivisions + 1) * (this.subdivisions + 1));
-
-        for (let i = 0; i <= this.subdivisions; i++) {
-            for (let j = 0; j <= this.subdivisions; j++) {
-                const localX = (j / this.subdivisions - 0.5) * this.chunkSize;
-                const localZ = (i / this.subdivisions - 0.5) * this.chunkSize;
-                const x = localX + worldX;
-                const z = localZ + worldZ;
-
-                const height = this.calculateHeightFromNoise(x, z);
-                const index = i * (this.subdivisions + 1) + j;
-                heights[index] = height;
-            }
-        }
-        return heights;
-    }
-
-    private generateBuildingsSynchronously(chunkX: number, chunkZ: number, heightmap: Float32Array): BuildingConfig[] {
-        const worldX = chunkX * this.chunkSize;
-        const worldZ = chunkZ * this.chunkSize;
-        const buildingConfigs: BuildingConfig[] = [];
-        const buildingDensity = 0.00005;
-        const chunkArea = this.chunkSize * this.chunkSize;
-        const numBuildings = Math.floor(chunkArea * buildingDensity * (0.5 + Math.random() * 0.8));
-
-        for (let i = 0; i < numBuildings; i++) {
-            const localX = (Math.random() - 0.5) * this.chunkSize * 0.8;
-            const localZ = (Math.random() - 0.5) * this.chunkSize * 0.8;
-            const buildingX = worldX + localX;
-            const buildingZ = worldZ + localZ;
-
-            const terrainHeight = this.getHeightAtPositionFromHeightmap(localX, localZ, heightmap);
-
-            const sampleDistance = 5;
-            const heightNorth = this.getHeightAtPositionFromHeightmap(localX, localZ - sampleDistance, heightmap);
-            const heightSouth = this.getHeightAtPositionFromHeightmap(localX, localZ + sampleDistance, heightmap);
-            const heightEast = this.getHeightAtPositionFromHeightmap(localX + sampleDistance, localZ, heightmap);
-            const heightWest = this.getHeightAtPositionFromHeightmap(localX - sampleDistance, localZ, heightmap);
-
-            const maxSlope = Math.max(
-                Math.abs(heightNorth - terrainHeight),
-                Math.abs(heightSouth - terrainHeight),
-                Math.abs(heightEast - terrainHeight),
-                Math.abs(heightWest - terrainHeight)
-            );
-
-            if (maxSlope > 8) {
-                continue;
-            }
-
-            const buildingConfig = this.generateRandomBuildingConfig(
-                new Vector3(buildingX, 0, buildingZ),
-                terrainHeight
-            );
-
-            buildingConfig.isTarget = Math.random() < 0.1;
-            buildingConfigs.push(buildingConfig);
-        }
-        return buildingConfigs;
-    }
-
-    private getHeightAtPositionFromHeightmap(localX: number, localZ: number, heights: Float32Array): number {
-        const gridX = (localX + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
-        const gridZ = (localZ + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
-        
-        const gridX0 = Math.floor(gridX);
-        const gridZ0 = Math.floor(gridZ);
-
-        if (gridX0 < 0 || gridX0 >= this.subdivisions || gridZ0 < 0 || gridZ0 >= this.subdivisions) {
-            return 0;
-        }
-
-        const tx = gridX - gridX0;
-        const tz = gridZ - gridZ0;
-        
-        const h00 = heights[gridZ0 * (this.subdivisions + 1) + gridX0];
-        const h10 = heights[gridZ0 * (this.subdivisions + 1) + (gridX0 + 1)];
-        const h01 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + gridX0];
-        const h11 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + (gridX0 + 1)];
-
-        if (h00 === undefined || h10 === undefined || h01 === undefined || h11 === undefined) {
-            return 0;
-        }
-        
-        const h_x1 = h00 * (1 - tx) + h10 * tx;
-        const h_x2 = h01 * (1 - tx) + h11 * tx;
-
-        return h_x1 * (1 - tz) + h_x2 * tz;
-    }
-
-    private generateRandomBuildingConfig(position: Vector3, terrainHeight: number): BuildingConfig {
-        const types = ['residential', 'commercial', 'industrial', 'skyscraper'];
-        const type = types[Math.floor(Math.random() * types.length)] as any;
-        
-        let width: number, height: number, depth: number;
-        
-        switch (type) {
-            case 'residential':
-                width = 8 + Math.random() * 8;
-                height = 8 + Math.random() * 12;
-                depth = 8 + Math.random() * 8;
-                break;
-            case 'commercial':
-                width = 12 + Math.random() * 15;
-                height = 12 + Math.random() * 18;
-                depth = 12 + Math.random() * 15;
-                break;
-            case 'industrial':
-                width = 15 + Math.random() * 20;
-                height = 10 + Math.random() * 15;
-                depth = 15 + Math.random() * 20;
-                break;
-            case 'skyscraper':
-                width = 10 + Math.random() * 12;
-                height = 25 + Math.random() * 35;
-                depth = 10 + Math.random() * 12;
-                break;
-            default:
-                width = 8 + Math.random() * 10;
-                height = 8 + Math.random() * 15;
-                depth = 8 + Math.random() * 10;
-        }
-        
-        const isDefenseLauncher = Math.random() < 0.15;
-        
-        return {
-            position: { x: position.x, y: terrainHeight, z: position.z },
-            type: type,
-            width: width,
-            height: height,
-            depth: depth,
-            isDefenseLauncher: isDefenseLauncher
-        };
-    }
-
     private createBuildingsFromConfigs(chunk: TerrainChunk, configs: BuildingConfig[]): void {
         configs.forEach(config => {
             const position = new Vector3(config.position.x, config.position.y, config.position.z);
             const buildingConfig = { ...config, position };
 
-            const building = new Building(this.scene, buildingConfig);
-            if (buildingConfig.isDefenseLauncher && this.bomber) {
-                building.setOnDestroyedCallback(() => {
-                    if (this.bomber && this.bomber.invalidateTargetCache) {
-                        this.bomber.invalidateTargetCache();
+            const building = new Building(this.scene, buildingConfig, this.gameClock, this.tuning);
+            building.setOnDestroyedCallback(() => {
+                if (buildingConfig.isDefenseLauncher && this.bomber && this.bomber.invalidateTargetCache) {
+                    this.bomber.invalidateTargetCache();
+                }
+                if (this.onBuildingDestroyedCallback) {
+                    this.onBuildingDestroyedCallback(building);
+                }
+            });
+            if (buildingConfig.isDefenseLauncher) {
+                building.setOnMissileLaunchedCallback((targetPosition: Vector3) => {
+                    if (this.onDefenseMissileLaunchedCallback) {
+                        this.onDefenseMissileLaunchedCallback(building, targetPosition);
+                    }
+                });
+                building.setOnRadarStateChangedCallback((state: SamState) => {
+                    if (this.onSamStateChangedCallback) {
+                        this.onSamStateChangedCallback(building, state);
+                    }
+                });
+            }
+            if (buildingConfig.isAntiAircraft) {
+                building.setOnFlakFiredCallback((burstPoint: Vector3) => {
+                    this.firingAntiAircraftGuns.add(building);
+                    if (this.onFlakFiredCallback) {
+                        this.onFlakFiredCallback(building, burstPoint);
                     }
                 });
             }
@@ -328,9 +245,10 @@ export class TerrainManager {
         const groundTexture = new DynamicTexture('groundTexture', {width: 256, height: 256}, this.scene);
         const context = groundTexture.getContext();
         const imageData = context.getImageData(0, 0, 256, 256);
+        const random = new SeededRandom(this.worldSeed);
         for (let i = 0; i < imageData.data.length; i += 4) {
-            const noise = Math.random();
-            const variation = Math.random();
+            const noise = random.next();
+            const variation = random.next();
             let r, g, b;
             if (variation < 0.4) {
                 r = Math.floor(60 + noise * 40);
@@ -368,74 +286,96 @@ export class TerrainManager {
             return;
         }
         
-        const chunkX = Math.floor(center.x / this.chunkSize);
-        const chunkZ = Math.floor(center.z / this.chunkSize);
+        const chunkX = this.terrainGenerator.getChunkIndex(center.x);
+        const chunkZ = this.terrainGenerator.getChunkIndex(center.z);
+        const chunks: Promise<void>[] = [];
         for (let x = chunkX - 1; x <= chunkX + 1; x++) {
             for (let z = chunkZ - 1; z <= chunkZ + 1; z++) {
-                this.generateChunk(x, z);
+                chunks.push(this.generateChunk(x, z));
             }
         }
+        await Promise.all(chunks);
     }
 
-    private calculateHeightFromNoise(x: number, z: number): number {
-        let height = 0;
-        height += this.noiseGenerator.fractalNoise(x * 0.005, z * 0.005, 4) * 25;
-        height += this.noiseGenerator.fractalNoise(x * 0.015, z * 0.015, 3) * 15;
-        height += this.noiseGenerator.fractalNoise(x * 0.03, z * 0.03, 2) * 8;
-        height += this.noiseGenerator.fractalNoise(x * 0.08, z * 0.08, 1) * 3;
-        return Math.max(0, Math.min(height, 60));
+    // Whether the chunk under a point has its heightmap loaded
+    public isChunkLoadedAt(x: number, z: number): boolean {
+        return this.heightmapCache.has(`${this.terrainGenerator.getChunkIndex(x)}_${this.terrainGenerator.getChunkIndex(z)}`);
     }
 
     public getHeightAtPosition(x: number, z: number): number {
-        const chunkX = Math.floor(x / this.chunkSize);
-        const chunkZ = Math.floor(z / this.chunkSize);
-        const chunkKey = `${chunkX}_${chunkZ}`;
-        const heights = this.heightmapCache.get(chunkKey);
+        return this.terrainGenerator.sampleHeight(this.heightmapCache, x, z);
+    }
 
-        if (!heights) {
-            return this.calculateHeightFromNoise(x, z);
-        }
+    // Whether two points see each other over the loaded terrain and past live buildings, and what blocks them if not
+    public getLineOfSight(from: WorldPoint, to: WorldPoint): LineOfSightResult {
+        const getGroundHeight = (x: number, z: number) => this.getHeightAtPosition(x, z);
+        return traceLineOfSight(from, to, getGroundHeight, this.getBuildingBoundsAlong([{ from, to }]));
+    }
 
-        const worldChunkX = chunkX * this.chunkSize;
-        const worldChunkZ = chunkZ * this.chunkSize;
-        
-        const localX = x - worldChunkX;
-        const localZ = z - worldChunkZ;
-        
-        const gridX = (localX + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
-        const gridZ = (localZ + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
-        
-        const gridX0 = Math.floor(gridX);
-        const gridZ0 = Math.floor(gridZ);
+    public hasLineOfSight(from: WorldPoint, to: WorldPoint): boolean {
+        return this.getLineOfSight(from, to).visible;
+    }
 
-        if (gridX0 < 0 || gridX0 >= this.subdivisions || gridZ0 < 0 || gridZ0 >= this.subdivisions) {
-            return this.calculateHeightFromNoise(x, z);
+    // Bulk queries run on the terrain worker against a copy of the heightmaps they cross; results are in query order
+    public traceLineOfSightBatch(queries: LineOfSightQuery[]): Promise<LineOfSightResult[]> {
+        if (queries.length === 0) return Promise.resolve([]);
+
+        const heightmaps: Array<{ chunkX: number; chunkZ: number; heights: Float32Array }> = [];
+        const extent = this.getQueryExtent(queries);
+        const generator = this.terrainGenerator;
+        for (let chunkX = generator.getChunkIndex(extent.minX); chunkX <= generator.getChunkIndex(extent.maxX); chunkX++) {
+            for (let chunkZ = generator.getChunkIndex(extent.minZ); chunkZ <= generator.getChunkIndex(extent.maxZ); chunkZ++) {
+                const heights = this.heightmapCache.get(`${chunkX}_${chunkZ}`);
+                if (heights) {
+                    heightmaps.push({ chunkX, chunkZ, heights });
+                }
+            }
         }
 
-        const tx = gridX - gridX0;
-        const tz = gridZ - gridZ0;
-        
-        const h00 = heights[gridZ0 * (this.subdivisions + 1) + gridX0];
-        const h10 = heights[gridZ0 * (this.subdivisions + 1) + (gridX0 + 1)];
-        const h01 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + gridX0];
-        const h11 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + (gridX0 + 1)];
+        return this.workerManager.traceLineOfSight({
+            chunkSize: this.chunkSize,
+            subdivisions: this.subdivisions,
+            seed: this.worldSeed,
+            heightmaps,
+            buildings: this.getBuildingBoundsAlong(queries),
+            queries: queries.map(query => ({
+                from: { x: query.from.x, y: query.from.y, z: query.from.z },
+                to: { x: query.to.x, y: query.to.y, z: query.to.z }
+            }))
+        });
+    }
 
-        if (h00 === undefined || h10 === undefined || h01 === undefined || h11 === undefined) {
-            return this.calculateHeightFromNoise(x, z);
+    // Boxes of live buildings that could stand in the way of any of the queries
+    private getBuildingBoundsAlong(queries: LineOfSightQuery[]): BoundingBox[] {
+        const extent = this.getQueryExtent(queries);
+        const bounds: BoundingBox[] = [];
+        const generator = this.terrainGenerator;
+        // A building near a chunk edge can overhang into the next chunk, so look one chunk further out
+        for (let chunkX = generator.getChunkIndex(extent.minX) - 1; chunkX <= generator.getChunkIndex(extent.maxX) + 1; chunkX++) {
+            for (let chunkZ = generator.getChunkIndex(extent.minZ) - 1; chunkZ <= generator.getChunkIndex(extent.maxZ) + 1; chunkZ++) {
+                this.chunks.get(`${chunkX}_${chunkZ}`)?.buildings.forEach(building => {
+                    if (building.getIsDestroyed()) return;
+                    const { min, max } = building.getBounds();
+                    if (max.x < extent.minX || min.x > extent.maxX || max.z < extent.minZ || min.z > extent.maxZ) return;
+                    bounds.push({ min: { x: min.x, y: min.y, z: min.z }, max: { x: max.x, y: max.y, z: max.z } });
+                });
+            }
         }
-        
-        const h_x1 = h00 * (1 - tx) + h10 * tx;
-        const h_x2 = h01 * (1 - tx) + h11 * tx;
+        return bounds;
+    }
 
-        return h_x1 * (1 - tz) + h_x2 * tz;
+    private getQueryExtent(queries: LineOfSightQuery[]): { minX: number; maxX: number; minZ: number; maxZ: number } {
+        const xs = queries.flatMap(query => [query.from.x, query.to.x]);
+        const zs = queries.flatMap(query => [query.from.z, query.to.z]);
+        return { minX: Math.min(...xs), maxX: Math.max(...xs), minZ: Math.min(...zs), maxZ: Math.max(...zs) };
     }
 
     public update(bomberPosition: Vector3): void {
-        const currentChunkX = Math.floor(bomberPosition.x / this.chunkSize);
-        const currentChunkZ = Math.floor(bomberPosition.z / this.chunkSize);
+        const currentChunkX = this.terrainGenerator.getChunkIndex(bomberPosition.x);
+        const currentChunkZ = this.terrainGenerator.getChunkIndex(bomberPosition.z);
         
         // Performance optimization: limit update frequency and prevent updates during game over
-        const currentTime = performance.now();
+        const currentTime = this.gameClock.now() * 1000;
         if (currentTime - this.lastTerrainUpdateTime < 100) {
             return;
         }
@@ -483,11 +423,12 @@ export class TerrainManager {
     }
 
     private getDistanceToNearestChunkEdge(position: Vector3): number {
-        const chunkX = Math.floor(position.x / this.chunkSize);
-        const chunkZ = Math.floor(position.z / this.chunkSize);
+        const chunkX = this.terrainGenerator.getChunkIndex(position.x);
+        const chunkZ = this.terrainGenerator.getChunkIndex(position.z);
         
-        const chunkCenterX = (chunkX + 0.5) * this.chunkSize;
-        const chunkCenterZ = (chunkZ + 0.5) * this.chunkSize;
+        // Chunks are centred on their origin
+        const chunkCenterX = chunkX * this.chunkSize;
+        const chunkCenterZ = chunkZ * this.chunkSize;
         
         const distanceToEdgeX = Math.abs(position.x - chunkCenterX);
         const distanceToEdgeZ = Math.abs(position.z - chunkCenterZ);
@@ -566,7 +507,7 @@ export class TerrainManager {
 
     public getBuildingsInRadius(position: Vector3, radius: number): Building[] {
         const cacheKey = `${Math.floor(position.x / 50)}_${Math.floor(position.z / 50)}_${radius}`;
-        const currentTime = performance.now();
+        const currentTime = this.gameClock.now() * 1000;
         
         if (this.buildingCache.has(cacheKey) && (currentTime - this.lastCacheTime) < this.cacheTimeout) {
             return this.buildingCache.get(cacheKey)!.filter(building => {
@@ -578,8 +519,8 @@ export class TerrainManager {
         const buildings: Building[] = [];
         
         const chunkRadius = Math.ceil(radius / this.chunkSize) + 1;
-        const centerChunkX = Math.floor(position.x / this.chunkSize);
-        const centerChunkZ = Math.floor(position.z / this.chunkSize);
+        const centerChunkX = this.terrainGenerator.getChunkIndex(position.x);
+        const centerChunkZ = this.terrainGenerator.getChunkIndex(position.z);
         
         for (let x = centerChunkX - chunkRadius; x <= centerChunkX + chunkRadius; x++) {
             for (let z = centerChunkZ - chunkRadius; z <= centerChunkZ + chunkRadius; z++) {
@@ -613,21 +554,152 @@ export class TerrainManager {
     }
 
     public getTerrainChunkAtPosition(position: Vector3): TerrainChunk | undefined {
-        const chunkX = Math.floor(position.x / this.chunkSize);
-        const chunkZ = Math.floor(position.z / this.chunkSize);
+        const chunkX = this.terrainGenerator.getChunkIndex(position.x);
+        const chunkZ = this.terrainGenerator.getChunkIndex(position.z);
         const chunkKey = `${chunkX}_${chunkZ}`;
         return this.chunks.get(chunkKey) ?? undefined;
     }
 
-    public updateDefenseLaunchers(bomberPosition: Vector3, currentTime: number, deltaTime: number): void {
-        const maxRange = 400;
-        const buildings = this.getBuildingsInRadius(bomberPosition, maxRange);
-        
-        buildings.forEach(building => {
-            if (building.isDefenseLauncher()) {
-                building.updateDefenseLauncher(bomberPosition, currentTime, deltaTime);
+    public updateDefenseLaunchers(
+        bomberPosition: Vector3,
+        currentTime: number,
+        getBomberSignature: (radar: WorldPoint) => number,
+        isBomberJamming: boolean,
+        autoLaunch: boolean = true
+    ): void {
+        const environment: RadarEnvironment = {
+            getGroundHeight: (x, z) => this.getHeightAtPosition(x, z),
+            hasLineOfSight: (from, to) => this.hasLineOfSight(from, to),
+            getTargetSignature: getBomberSignature,
+            isTargetJamming: isBomberJamming
+        };
+
+        // Radar sites reach beyond the launchers' range, and cover launchers a sector further out still
+        const radarSites = this.getBuildingsInRadius(bomberPosition, this.defenseLauncherRange + AIR_DEFENSE_NETWORK_PROFILE.sectorRange)
+            .filter(building => building.isRadarSite() && !building.getIsDestroyed());
+        const radarNodes = radarSites.map(building => ({
+            position: building.getRadarPosition(),
+            tracking: building.updateRadarSite(bomberPosition, environment)
+        }));
+        const activeRadarSites: Set<Building> = new Set(radarSites);
+
+        const launchers = this.getBuildingsInRadius(bomberPosition, this.defenseLauncherRange)
+            .filter(building => building.isDefenseLauncher());
+        const network = resolveAirDefenseNetwork(radarNodes, launchers.map(building => building.getPosition()));
+        const activeLaunchers: Set<Building> = new Set();
+
+        launchers.forEach((building, index) => {
+            building.updateDefenseLauncher(bomberPosition, currentTime, environment, network.launchers[index], autoLaunch);
+            activeLaunchers.add(building);
+        });
+        this.airDefenseLinks = network.links.map(link => ({ radar: radarSites[link.radar], launcher: launchers[link.launcher] }));
+
+        // Launchers and radar sites left behind stop tracking
+        this.activeDefenseLaunchers.forEach(building => {
+            if (!activeLaunchers.has(building)) {
+                building.idleDefenseLauncher(currentTime);
+            }
+        });
+        this.activeRadarSites.forEach(building => {
+            if (!activeRadarSites.has(building)) {
+                building.idleRadarSite();
+            }
+        });
+        this.activeDefenseLaunchers = activeLaunchers;
+        this.activeRadarSites = activeRadarSites;
+    }
+
+    // Radar site to launcher links of the network around the bomber, as of the last update
+    public getAirDefenseLinks(): AirDefenseLinkPair[] {
+        return this.airDefenseLinks;
+    }
+
+    public getDefenseLauncherRange(): number {
+        return this.defenseLauncherRange;
+    }
+
+    // Fires flak guns near the bomber and returns the points where shells burst this tick
+    public updateAntiAircraftGuns(
+        bomberPosition: Vector3,
+        bomberVelocity: Vector3,
+        currentTime: number,
+        autoFire: boolean = true
+    ): Vector3[] {
+        const target = { position: bomberPosition, velocity: bomberVelocity };
+        // Flak guns beyond their range hold fire
+        this.getBuildingsInRadius(bomberPosition, this.tuning.flak.range).forEach(building => {
+            if (building.isAntiAircraft()) {
+                building.updateFlakGun(target, currentTime, (from, to) => this.hasLineOfSight(from, to), autoFire);
             }
         });
+
+        // Shells keep flying after the bomber has left the gun behind
+        const bursts: Vector3[] = [];
+        this.firingAntiAircraftGuns.forEach(building => {
+            bursts.push(...building.updateFlakShells(currentTime));
+            if (!building.hasFlakShellsInFlight()) {
+                this.firingAntiAircraftGuns.delete(building);
+            }
+        });
+        return bursts;
+    }
+
+    // Some SAM radar in play has the bomber beyond search, or a radar site holds it: the defences know it's there
+    public isBomberTracked(): boolean {
+        for (const building of this.activeDefenseLaunchers) {
+            if (!building.getIsDestroyed() && building.getRadarState() !== 'search') return true;
+        }
+        for (const building of this.activeRadarSites) {
+            if (!building.getIsDestroyed() && building.isRadarSiteTracking()) return true;
+        }
+        return false;
+    }
+
+    // Launchers still standing among those updateDefenseLaunchers keeps active
+    public getLiveDefenseLauncherCount(): number {
+        let count = 0;
+        this.activeDefenseLaunchers.forEach(building => {
+            if (!building.getIsDestroyed()) count++;
+        });
+        return count;
+    }
+
+    // In-flight missiles of the launchers updateDefenseLaunchers keeps active
+    public getActiveDefenseMissiles(bomberPosition: Vector3): DefenseMissile[] {
+        const missiles: DefenseMissile[] = [];
+        this.getBuildingsInRadius(bomberPosition, this.defenseLauncherRange).forEach(building => {
+            if (building.isDefenseLauncher() && !building.getIsDestroyed()) {
+                missiles.push(...building.getActiveMissiles());
+            }
+        });
+        return missiles;
+    }
+
+    // Exact lookup by position, bypassing the radius cache (buildings never move)
+    public findBuildingAt(position: Vector3, tolerance: number = 1): Building | null {
+        const chunk = this.getTerrainChunkAtPosition(position);
+        if (!chunk) return null;
+        return chunk.buildings.find(building => Vector3.Distance(position, building.getPosition()) <= tolerance) ?? null;
+    }
+
+    public setOnBuildingDestroyedCallback(callback: (building: Building) => void): void {
+        this.onBuildingDestroyedCallback = callback;
+    }
+
+    public setOnDefenseMissileLaunchedCallback(callback: (building: Building, targetPosition: Vector3) => void): void {
+        this.onDefenseMissileLaunchedCallback = callback;
+    }
+
+    public setOnSamStateChangedCallback(callback: (building: Building, state: SamState) => void): void {
+        this.onSamStateChangedCallback = callback;
+    }
+
+    public setOnFlakFiredCallback(callback: (building: Building, burstPoint: Vector3) => void): void {
+        this.onFlakFiredCallback = callback;
+    }
+
+    public getWorldSeed(): number {
+        return this.worldSeed;
     }
 
     public setBomber(bomber: any): void {
@@ -659,6 +731,10 @@ export class TerrainManager {
             this.chunks.clear();
             this.heightmapCache.clear();
             this.buildingCache.clear();
+            this.activeDefenseLaunchers.clear();
+            this.activeRadarSites.clear();
+            this.airDefenseLinks = [];
+            this.firingAntiAircraftGuns.clear();
             
             // Dispose of terrain material
             if (this.terrainMaterial) {
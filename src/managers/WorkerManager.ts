@@ -1,185 +1,223 @@
 import { Vector3 } from '@babylonjs/core';
+import {
+    BuildingData,
+    BuildingInRadius,
+    CollisionObject,
+    CollisionSnapshot,
+    CollisionSnapshotResult,
+    CreateParticlesRequest,
+    GenericCollisionResult,
+    LineOfSightBatch,
+    LineOfSightResult,
+    MissileGuidanceBatch,
+    MissileGuidanceBatchResult,
+    Particle,
+    ParticlePhysicsResult,
+    ParticleSystemData,
+    TerrainChunkResult,
+    WORKER_PROTOCOL_VERSION,
+    WORKER_RESPONSE_TYPES,
+    WorkerErrorCode,
+    WorkerRequestMap,
+    WorkerRequestType,
+    WorkerResponseEnvelope,
+    WorkerResultFor
+} from '../workers/worker-protocol';
+
+// The subset of the Worker API the manager relies on, so in-process workers can stand in under Node
+export interface WorkerLike {
+    onmessage: ((event: MessageEvent) => any) | null;
+    onerror: ((event: ErrorEvent) => any) | null;
+    postMessage(message: any, transfer?: Transferable[]): void;
+    terminate(): void;
+}
+
+export type WorkerName = 'terrain' | 'missilePhysics' | 'collisionDetection' | 'particlePhysics';
+
+export type WorkerFactory = (name: WorkerName) => WorkerLike;
 
-interface WorkerMessage {
-    type: string;
-    data: any;
+// Rejection reason for worker calls; code is set when the worker itself replied with an error
+export class WorkerRequestError extends Error {
+    public readonly code: WorkerErrorCode | 'TIMEOUT' | 'WORKER_CRASHED' | 'DISPOSED' | 'UNEXPECTED_RESPONSE';
+    public readonly requestType: WorkerRequestType;
+
+    constructor(code: WorkerRequestError['code'], requestType: WorkerRequestType, message: string) {
+        super(message);
+        this.name = 'WorkerRequestError';
+        this.code = code;
+        this.requestType = requestType;
+    }
 }
 
-interface WorkerResult {
-    type: string;
-    data: any;
+interface PendingRequest {
+    worker: WorkerLike;
+    requestType: WorkerRequestType;
+    resolve: (result: any) => void;
+    reject: (error: WorkerRequestError) => void;
+    timeoutId: ReturnType<typeof setTimeout>;
 }
 
 export class WorkerManager {
-    private terrainWorker!: Worker;
-    private missilePhysicsWorker!: Worker;
-    private collisionDetectionWorker!: Worker;
-    private particlePhysicsWorker!: Worker;
+    private terrainWorker!: WorkerLike;
+    private missilePhysicsWorker!: WorkerLike;
+    private collisionDetectionWorker!: WorkerLike;
+    private particlePhysicsWorker!: WorkerLike;
     
-    private messageCallbacks: Map<string, (result: any) => void> = new Map();
+    private pendingRequests: Map<string, PendingRequest> = new Map();
     private messageIdCounter: number = 0;
+    private requestTimeout: number = 2000; // 2 second timeout
 
-    constructor() {
-        this.initializeWorkers();
+    constructor(workerFactory: WorkerFactory) {
+        this.initializeWorkers(workerFactory);
     }
 
-    private initializeWorkers(): void {
+    private initializeWorkers(workerFactory: WorkerFactory): void {
         // Initialize terrain worker
-        this.terrainWorker = new Worker(new URL('../workers/terrain.worker.ts', import.meta.url), { type: 'module' });
-        this.setupWorkerListener(this.terrainWorker, 'terrainWorker');
+        this.terrainWorker = workerFactory('terrain');
+        this.setupWorkerListener(this.terrainWorker);
 
         // Initialize missile physics worker
-        this.missilePhysicsWorker = new Worker(new URL('../workers/missile-physics.worker.ts', import.meta.url), { type: 'module' });
-        this.setupWorkerListener(this.missilePhysicsWorker, 'missilePhysicsWorker');
+        this.missilePhysicsWorker = workerFactory('missilePhysics');
+        this.setupWorkerListener(this.missilePhysicsWorker);
 
         // Initialize collision detection worker
-        this.collisionDetectionWorker = new Worker(new URL('../workers/collision-detection.worker.ts', import.meta.url), { type: 'module' });
-        this.setupWorkerListener(this.collisionDetectionWorker, 'collisionDetectionWorker');
+        this.collisionDetectionWorker = workerFactory('collisionDetection');
+        this.setupWorkerListener(this.collisionDetectionWorker);
 
         // Initialize particle physics worker
-        this.particlePhysicsWorker = new Worker(new URL('../workers/particle-physics.worker.ts', import.meta.url), { type: 'module' });
-        this.setupWorkerListener(this.particlePhysicsWorker, 'particlePhysicsWorker');
+        this.particlePhysicsWorker = workerFactory('particlePhysics');
+        this.setupWorkerListener(this.particlePhysicsWorker);
     }
 
-    private setupWorkerListener(worker: Worker, workerName: string): void {
+    private setupWorkerListener(worker: WorkerLike): void {
         worker.onmessage = (event) => {
-            const { type, data, messageId } = event.data;
-            
-            // Handle callback if messageId exists
-            if (messageId && this.messageCallbacks.has(messageId)) {
-                const callback = this.messageCallbacks.get(messageId)!;
-                callback(data);
-                this.messageCallbacks.delete(messageId);
-            }
-            
-            // Handle specific message types
-            this.handleWorkerMessage(type, data, workerName);
+            this.handleWorkerResponse(event.data);
         };
 
         worker.onerror = (error) => {
-            // Silent error handling - no console logging
+            // A crashed worker can't answer anything it was asked
+            this.rejectPendingRequests(worker, 'WORKER_CRASHED', error && error.message ? error.message : 'Worker error');
         };
     }
 
-    private handleWorkerMessage(type: string, data: any, workerName: string): void {
-        switch (type) {
-            case 'TERRAIN_CHUNK_READY':
-                // Handle terrain chunk completion
-                break;
-            case 'MISSILE_PHYSICS_RESULT':
-                // Handle missile physics update
-                break;
-            case 'COLLISION_RESULT':
-                // Handle collision detection result
-                break;
-            case 'PARTICLE_PHYSICS_RESULT':
-                // Handle particle physics update
-                break;
-            default:
-                // Silent handling of unknown message types
-                break;
+    private handleWorkerResponse(response: WorkerResponseEnvelope): void {
+        if (!response || typeof response.messageId !== 'string') {
+            return; // Uncorrelated reply; nothing is waiting for it
         }
+
+        const pending = this.pendingRequests.get(response.messageId);
+        if (!pending) {
+            return; // Already timed out or disposed
+        }
+        this.pendingRequests.delete(response.messageId);
+        clearTimeout(pending.timeoutId);
+
+        if (response.protocolVersion !== WORKER_PROTOCOL_VERSION) {
+            pending.reject(new WorkerRequestError('PROTOCOL_VERSION_MISMATCH', pending.requestType,
+                `Worker replied with protocol version ${response.protocolVersion}, expected ${WORKER_PROTOCOL_VERSION}`));
+            return;
+        }
+
+        if (response.type === 'WORKER_ERROR') {
+            pending.reject(new WorkerRequestError(response.data.code, pending.requestType, response.data.message));
+            return;
+        }
+
+        if (response.type !== WORKER_RESPONSE_TYPES[pending.requestType]) {
+            pending.reject(new WorkerRequestError('UNEXPECTED_RESPONSE', pending.requestType,
+                `Expected ${WORKER_RESPONSE_TYPES[pending.requestType]}, got ${response.type}`));
+            return;
+        }
+
+        pending.resolve(response.data);
+    }
+
+    private rejectPendingRequests(worker: WorkerLike | null, code: WorkerRequestError['code'], message: string): void {
+        this.pendingRequests.forEach((pending, messageId) => {
+            if (worker && pending.worker !== worker) return;
+            clearTimeout(pending.timeoutId);
+            this.pendingRequests.delete(messageId);
+            pending.reject(new WorkerRequestError(code, pending.requestType, message));
+        });
     }
 
     // Terrain worker methods
-    public generateTerrainChunk(chunkX: number, chunkZ: number, chunkSize: number, subdivisions: number): Promise<any> {
-        return this.sendMessageToWorker(this.terrainWorker, {
+    public generateTerrainChunk(chunkX: number, chunkZ: number, chunkSize: number, subdivisions: number, seed: number): Promise<TerrainChunkResult> {
+        return this.sendRequest(this.terrainWorker, 'GENERATE_TERRAIN_CHUNK', {
             chunkX,
             chunkZ,
             chunkSize,
-            subdivisions
+            subdivisions,
+            seed
         });
     }
 
-    // Missile physics worker methods
-    public updateMissilePhysics(missileData: any): Promise<any> {
-        return this.sendMessageToWorker(this.missilePhysicsWorker, {
-            type: 'UPDATE_MISSILE_PHYSICS',
-            data: missileData
-        });
+    // Heightmaps are copied rather than transferred: the terrain cache keeps using them
+    public async traceLineOfSight(batch: LineOfSightBatch): Promise<LineOfSightResult[]> {
+        const { results } = await this.sendRequest(this.terrainWorker, 'TRACE_LINE_OF_SIGHT', batch);
+        return results;
     }
 
-    public batchUpdateMissiles(missilesData: any[]): Promise<any> {
-        return this.sendMessageToWorker(this.missilePhysicsWorker, {
-            type: 'BATCH_UPDATE_MISSILES',
-            data: { missiles: missilesData }
-        });
+    // Missile physics worker methods
+    public batchUpdateMissiles(batch: MissileGuidanceBatch): Promise<MissileGuidanceBatchResult> {
+        return this.sendRequest(this.missilePhysicsWorker, 'BATCH_UPDATE_MISSILES', batch);
     }
 
     // Collision detection worker methods
-    public detectCollisions(collisionData: any): Promise<any> {
-        return this.sendMessageToWorker(this.collisionDetectionWorker, {
-            type: 'DETECT_COLLISIONS',
-            data: collisionData
-        });
+    public async detectCollisions(objects: CollisionObject[]): Promise<GenericCollisionResult[]> {
+        const { results } = await this.sendRequest(this.collisionDetectionWorker, 'DETECT_COLLISIONS', { objects });
+        return results;
     }
 
-    public getBuildingsInRadius(bomberPosition: Vector3, buildings: any[], radius: number): Promise<any> {
-        return this.sendMessageToWorker(this.collisionDetectionWorker, {
-            type: 'GET_BUILDINGS_IN_RADIUS',
-            data: {
-                bomberPosition: { x: bomberPosition.x, y: bomberPosition.y, z: bomberPosition.z },
-                buildings,
-                radius
-            }
-        });
+    public async checkCollision(object1: CollisionObject, object2: CollisionObject): Promise<GenericCollisionResult | null> {
+        const { collision } = await this.sendRequest(this.collisionDetectionWorker, 'CHECK_SPECIFIC_COLLISION', { object1, object2 });
+        return collision;
     }
 
-    // Particle physics worker methods
-    public updateParticleSystem(particleSystemData: any): Promise<any> {
-        return this.sendMessageToWorker(this.particlePhysicsWorker, {
-            type: 'UPDATE_PARTICLE_SYSTEM',
-            data: particleSystemData
+    public async getBuildingsInRadius(bomberPosition: Vector3, buildings: BuildingData[], radius: number): Promise<BuildingInRadius[]> {
+        const { buildingsInRadius } = await this.sendRequest(this.collisionDetectionWorker, 'GET_BUILDINGS_IN_RADIUS', {
+            bomberPosition: { x: bomberPosition.x, y: bomberPosition.y, z: bomberPosition.z },
+            buildings,
+            radius
         });
+        return buildingsInRadius;
     }
 
-    public batchUpdateParticleSystems(particleSystemsData: any[]): Promise<any> {
-        return this.sendMessageToWorker(this.particlePhysicsWorker, {
-            type: 'BATCH_UPDATE_PARTICLE_SYSTEMS',
-            data: { systems: particleSystemsData }
-        });
+    public resolveCollisions(snapshot: CollisionSnapshot): Promise<CollisionSnapshotResult> {
+        return this.sendRequest(this.collisionDetectionWorker, 'RESOLVE_COLLISIONS', snapshot);
     }
 
-    public generateParticles(particleSystemData: any, deltaTime: number): Promise<any> {
-        return this.sendMessageToWorker(this.particlePhysicsWorker, {
-            type: 'GENERATE_PARTICLES',
-            data: { system: particleSystemData, deltaTime }
-        });
+    // Particle physics worker methods
+    public updateParticlePhysics(particleSystemData: ParticleSystemData): Promise<ParticlePhysicsResult> {
+        return this.sendRequest(this.particlePhysicsWorker, 'UPDATE_PARTICLE_PHYSICS', particleSystemData);
+    }
+
+    public async createParticles(request: CreateParticlesRequest): Promise<Particle[]> {
+        const { particles } = await this.sendRequest(this.particlePhysicsWorker, 'CREATE_PARTICLES', request);
+        return particles;
     }
 
-    // Generic message sending with async/await and timeout
-    private async sendMessageToWorker(worker: Worker, message: any): Promise<any> {
+    // Send a typed request; resolves with the matching response's data or rejects with a WorkerRequestError
+    private sendRequest<K extends WorkerRequestType>(worker: WorkerLike, type: K, data: WorkerRequestMap[K], transfer?: Transferable[]): Promise<WorkerResultFor<K>> {
         const messageId = `msg_${this.messageIdCounter++}`;
-        const messageWithId = { ...message, messageId };
-        
-        // Create a promise that resolves when we get a response
-        const responsePromise = new Promise<any>((resolve, reject) => {
-            // Store callback for response
-            this.messageCallbacks.set(messageId, resolve);
-            
-            // Send message to worker
-            worker.postMessage(messageWithId);
-        });
-        
-        // Create timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => {
-                if (this.messageCallbacks.has(messageId)) {
-                    this.messageCallbacks.delete(messageId);
-                    reject(new Error(`Worker response timeout`));
+
+        return new Promise<WorkerResultFor<K>>((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                if (this.pendingRequests.delete(messageId)) {
+                    reject(new WorkerRequestError('TIMEOUT', type, `Worker response timeout for ${type}`));
                 }
-            }, 2000); // 2 second timeout
+            }, this.requestTimeout);
+
+            this.pendingRequests.set(messageId, { worker, requestType: type, resolve, reject, timeoutId });
+
+            try {
+                worker.postMessage({ type, data, protocolVersion: WORKER_PROTOCOL_VERSION, messageId }, transfer);
+            } catch (error) {
+                this.pendingRequests.delete(messageId);
+                clearTimeout(timeoutId);
+                reject(new WorkerRequestError('WORKER_CRASHED', type, error instanceof Error ? error.message : String(error)));
+            }
         });
-        
-        try {
-            // Race between response and timeout
-            const result = await Promise.race([responsePromise, timeoutPromise]);
-            return result;
-        } catch (error) {
-            // Clean up callback if it still exists
-            this.messageCallbacks.delete(messageId);
-            throw error;
-        }
     }
 
     // Cleanup method
@@ -189,6 +227,6 @@ export class WorkerManager {
         this.collisionDetectionWorker.terminate();
         this.particlePhysicsWorker.terminate();
         
-        this.messageCallbacks.clear();
+        this.rejectPendingRequests(null, 'DISPOSED', 'Worker manager disposed');
     }
-} 
\ No newline at end of file
+}
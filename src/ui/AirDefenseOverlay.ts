@@ -0,0 +1,124 @@
+import { Scene, Vector3, Color4, LinesMesh, MeshBuilder } from '@babylonjs/core';
+import { Building } from '../entities/Building';
+import { TerrainManager } from '../managers/TerrainManager';
+
+const IDLE_LINK_COLOR = new Color4(0.4, 1, 0.6, 1);
+const CUED_LINK_COLOR = new Color4(1, 0.3, 0.3, 1);
+const AUTONOMOUS_COLOR = new Color4(1, 0.6, 0, 1);
+const NODE_MARKER_HEIGHT = 40; // Vertical post over each autonomous launcher
+
+// Debug view of the air defense network: links drawn in the world between radar sites and the launchers they feed
+export class AirDefenseOverlay {
+    private scene: Scene;
+    private visible: boolean = false;
+    private lines: LinesMesh | null = null;
+    private panel: HTMLElement;
+    private lastPanelText: string = '';
+
+    constructor(scene: Scene) {
+        this.scene = scene;
+        this.panel = document.createElement('div');
+        this.panel.id = 'air-defense-overlay';
+        document.body.appendChild(this.panel);
+        this.addStyles();
+    }
+
+    public toggle(): void {
+        this.visible = !this.visible;
+        this.panel.classList.toggle('visible', this.visible);
+        if (!this.visible) {
+            this.clearLines();
+        }
+    }
+
+    public isVisible(): boolean {
+        return this.visible;
+    }
+
+    public update(bomberPosition: Vector3, terrainManager: TerrainManager): void {
+        if (!this.visible) return;
+
+        const segments: Vector3[][] = [];
+        const colors: Color4[][] = [];
+        let cuedLinks = 0;
+        const radarSites: Set<Building> = new Set();
+        const tracking: Set<Building> = new Set();
+
+        terrainManager.getAirDefenseLinks().forEach(link => {
+            if (link.radar.getIsDestroyed() || link.launcher.getIsDestroyed()) return;
+            const color = link.radar.isRadarSiteTracking() ? CUED_LINK_COLOR : IDLE_LINK_COLOR;
+            segments.push([link.radar.getRadarPosition(), link.launcher.getRadarPosition()]);
+            colors.push([color, color]);
+            radarSites.add(link.radar);
+            if (link.radar.isRadarSiteTracking()) {
+                tracking.add(link.radar);
+                cuedLinks++;
+            }
+        });
+
+        let networked = 0;
+        let autonomous = 0;
+        terrainManager.getBuildingsInRadius(bomberPosition, terrainManager.getDefenseLauncherRange()).forEach(building => {
+            if (!building.isDefenseLauncher() || building.getIsDestroyed()) return;
+            if (building.getNetworkMode() === 'networked') {
+                networked++;
+                return;
+            }
+            autonomous++;
+            const base = building.getRadarPosition();
+            segments.push([base, base.add(new Vector3(0, NODE_MARKER_HEIGHT, 0))]);
+            colors.push([AUTONOMOUS_COLOR, AUTONOMOUS_COLOR]);
+        });
+
+        this.clearLines();
+        if (segments.length > 0) {
+            this.lines = MeshBuilder.CreateLineSystem('airDefenseOverlay', { lines: segments, colors }, this.scene);
+            this.lines.isPickable = false;
+        }
+
+        const panelText = `AIR DEFENSE NET<br>RADAR SITES ${radarSites.size} (${tracking.size} TRACKING)<br>` +
+            `SAM NETWORKED ${networked} / AUTONOMOUS ${autonomous}<br>LINKS CUED ${cuedLinks}`;
+        if (panelText !== this.lastPanelText) {
+            this.panel.innerHTML = panelText;
+            this.lastPanelText = panelText;
+        }
+    }
+
+    private clearLines(): void {
+        if (this.lines) {
+            this.lines.dispose();
+            this.lines = null;
+        }
+    }
+
+    // Links belong to the old world after a restart
+    public reset(): void {
+        this.clearLines();
+        this.lastPanelText = '';
+        this.panel.innerHTML = '';
+    }
+
+    private addStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #air-defense-overlay {
+                position: fixed;
+                bottom: 20px;
+                left: 340px; /* Right of the instructions */
+                padding: 6px 10px;
+                background-color: rgba(0, 0, 0, 0.6);
+                border: 1px solid rgba(102, 255, 153, 0.5);
+                color: #66ff99;
+                font-family: 'Courier New', monospace;
+                font-size: 11px;
+                line-height: 1.4;
+                pointer-events: none;
+                display: none;
+            }
+            #air-defense-overlay.visible {
+                display: block;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+}
@@ -0,0 +1,206 @@
+import { Scene, Vector3, Mesh, MeshBuilder, StandardMaterial, DynamicTexture, Color3 } from '@babylonjs/core';
+import { Building } from '../entities/Building';
+
+export interface BombSightSolution {
+    impactPoint: Vector3;
+    timeToImpact: number; // Seconds of fall for a bomb released now
+    blastRadius: number; // Reach of the selected bomb variant around the impact point
+    buildingsInBlast: Building[]; // Live buildings a bomb released now would damage
+}
+
+// CCIP reticle: marks where a bomb released right now would land, in every camera mode
+export class BombSight {
+    private scene: Scene;
+    private reticle: Mesh;
+    private blastRing: Mesh; // Outline of the blast radius around the impact point, unit radius scaled per solution
+    private buildingMarkers: Mesh[] = []; // Pooled markers over buildings inside the blast
+    private maxBuildingMarkers: number = 20;
+    private targetMarkerMaterial: StandardMaterial;
+    private buildingMarkerMaterial: StandardMaterial;
+    private readout: HTMLElement;
+    private timeText: HTMLElement;
+    private blastText: HTMLElement;
+    private lastTimeText: string = '';
+    private lastBlastText: string = '';
+
+    constructor(scene: Scene) {
+        this.scene = scene;
+        this.reticle = this.createReticle();
+        this.blastRing = this.createBlastRing();
+        this.targetMarkerMaterial = this.createMarkerMaterial('ccipTargetMarkerMaterial', new Color3(1, 0.2, 0.2));
+        this.buildingMarkerMaterial = this.createMarkerMaterial('ccipBuildingMarkerMaterial', new Color3(1, 0.7, 0));
+
+        this.readout = document.createElement('div');
+        this.readout.id = 'ccip-readout';
+        this.readout.innerHTML = `
+            <span class="ccip-label">CCIP</span>
+            <span id="ccip-time"></span>
+            <span id="ccip-blast"></span>
+        `;
+        document.body.appendChild(this.readout);
+        this.timeText = document.getElementById('ccip-time')!;
+        this.blastText = document.getElementById('ccip-blast')!;
+        this.addStyles();
+    }
+
+    private createReticle(): Mesh {
+        const reticle = MeshBuilder.CreatePlane('ccipReticle', { size: 12 }, this.scene);
+        reticle.rotation.x = Math.PI / 2;
+        reticle.isPickable = false;
+
+        // Ring with a centre pip and four ticks
+        const textureSize = 128;
+        const dynamicTexture = new DynamicTexture('ccipReticleTexture', textureSize, this.scene, false);
+        const ctx = dynamicTexture.getContext();
+        const center = textureSize / 2;
+        ctx.clearRect(0, 0, textureSize, textureSize);
+        ctx.strokeStyle = 'rgba(0, 255, 0, 0.8)';
+        ctx.fillStyle = 'rgba(0, 255, 0, 0.8)';
+        ctx.lineWidth = 4;
+
+        ctx.beginPath();
+        ctx.arc(center, center, textureSize * 0.3, 0, Math.PI * 2);
+        ctx.stroke();
+
+        ctx.beginPath();
+        ctx.arc(center, center, 5, 0, Math.PI * 2);
+        ctx.fill();
+
+        [[0, -1], [0, 1], [-1, 0], [1, 0]].forEach(([dx, dz]) => {
+            ctx.beginPath();
+            ctx.moveTo(center + dx * textureSize * 0.3, center + dz * textureSize * 0.3);
+            ctx.lineTo(center + dx * textureSize * 0.45, center + dz * textureSize * 0.45);
+            ctx.stroke();
+        });
+        dynamicTexture.update();
+
+        const material = new StandardMaterial('ccipReticleMaterial', this.scene);
+        material.diffuseTexture = dynamicTexture;
+        material.diffuseTexture.hasAlpha = true;
+        material.useAlphaFromDiffuseTexture = true;
+        material.emissiveColor = Color3.White();
+        material.disableLighting = true;
+        material.backFaceCulling = false; // Render from both sides
+        reticle.material = material;
+        reticle.setEnabled(false);
+        return reticle;
+    }
+
+    private createBlastRing(): Mesh {
+        const ring = MeshBuilder.CreateTorus('ccipBlastRing', {
+            diameter: 2,
+            thickness: 0.012,
+            tessellation: 64
+        }, this.scene);
+        ring.isPickable = false;
+
+        const material = new StandardMaterial('ccipBlastRingMaterial', this.scene);
+        material.emissiveColor = new Color3(0, 1, 0);
+        material.disableLighting = true;
+        material.alpha = 0.35;
+        ring.material = material;
+        ring.setEnabled(false);
+        return ring;
+    }
+
+    private createMarkerMaterial(name: string, color: Color3): StandardMaterial {
+        const material = new StandardMaterial(name, this.scene);
+        material.emissiveColor = color;
+        material.disableLighting = true;
+        material.alpha = 0.8;
+        return material;
+    }
+
+    private getBuildingMarker(index: number): Mesh {
+        if (!this.buildingMarkers[index]) {
+            // Downward-pointing cone hovering over the roof
+            const marker = MeshBuilder.CreateCylinder(`ccipBuildingMarker_${index}`, {
+                height: 4,
+                diameterTop: 4,
+                diameterBottom: 0,
+                tessellation: 8
+            }, this.scene);
+            marker.isPickable = false;
+            this.buildingMarkers[index] = marker;
+        }
+        return this.buildingMarkers[index];
+    }
+
+    // Null hides the sight (no solution, bomber down)
+    public update(solution: BombSightSolution | null): void {
+        if (!solution) {
+            this.reticle.setEnabled(false);
+            this.blastRing.setEnabled(false);
+            this.buildingMarkers.forEach(marker => marker.setEnabled(false));
+            this.readout.classList.remove('visible');
+            return;
+        }
+
+        const { impactPoint, buildingsInBlast } = solution;
+        this.reticle.setEnabled(true);
+        this.reticle.position.set(impactPoint.x, impactPoint.y + 0.5, impactPoint.z);
+        this.blastRing.setEnabled(true);
+        this.blastRing.position.set(impactPoint.x, impactPoint.y + 1, impactPoint.z);
+        this.blastRing.scaling.set(solution.blastRadius, solution.blastRadius, solution.blastRadius);
+
+        const markedBuildings = buildingsInBlast.slice(0, this.maxBuildingMarkers);
+        markedBuildings.forEach((building, index) => {
+            const marker = this.getBuildingMarker(index);
+            const position = building.getPosition();
+            marker.position.set(position.x, position.y + building.getMaxHeight() + 6, position.z);
+            marker.material = building.isTarget() ? this.targetMarkerMaterial : this.buildingMarkerMaterial;
+            marker.setEnabled(true);
+        });
+        for (let i = markedBuildings.length; i < this.buildingMarkers.length; i++) {
+            this.buildingMarkers[i].setEnabled(false);
+        }
+
+        // Only touch the DOM when the text changes
+        const timeText = `${solution.timeToImpact.toFixed(1)}s`;
+        const targetCount = buildingsInBlast.filter(building => building.isTarget()).length;
+        const blastText = `${buildingsInBlast.length} BLDG / ${targetCount} TGT`;
+        if (timeText !== this.lastTimeText) {
+            this.timeText.textContent = timeText;
+            this.lastTimeText = timeText;
+        }
+        if (blastText !== this.lastBlastText) {
+            this.blastText.textContent = blastText;
+            this.blastText.classList.toggle('on-target', targetCount > 0);
+            this.lastBlastText = blastText;
+        }
+        this.readout.classList.add('visible');
+    }
+
+    private addStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #ccip-readout {
+                position: fixed;
+                bottom: 135px; /* Above the bomb bay status */
+                right: 20px;
+                padding: 4px 8px;
+                background-color: rgba(0, 0, 0, 0.5);
+                border: 2px solid rgba(0, 255, 0, 0.5);
+                border-radius: 6px;
+                color: #00ff00;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                display: none;
+                flex-direction: column;
+                align-items: flex-end;
+                pointer-events: none;
+            }
+            #ccip-readout.visible {
+                display: flex;
+            }
+            #ccip-readout .ccip-label {
+                opacity: 0.7;
+            }
+            #ccip-blast.on-target {
+                color: #ff3333;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+}
@@ -0,0 +1,477 @@
+import { Scene, Vector3, MeshBuilder, Color3, LinesMesh } from '@babylonjs/core';
+import { Game } from '../managers/Game';
+import { Building } from '../entities/Building';
+import {
+    DEFAULT_MISSION_PLAN,
+    MAX_PLAN_ALTITUDE,
+    MAX_PLAN_WAYPOINTS,
+    MIN_PLAN_ALTITUDE,
+    MissionPlan,
+    PlanWaypoint,
+    buildPlannedRoute,
+    cloneMissionPlan,
+    getApproachPoint,
+    getPlanOutline
+} from '../utils/MissionPlan';
+
+const MAP_RANGE = 600; // World units from the bomber to the map edge
+const MAP_SIZE = 420; // Canvas pixels
+const TERRAIN_SAMPLE_SPACING = 10; // One heightmap cell per this many world units
+const WAYPOINT_PICK_RADIUS = 10; // Right clicks this close (in pixels) remove a waypoint
+const ROUTE_LINE_REBUILD_DISTANCE = 50; // The world route line restarts from the bomber after it flies this far
+
+// Top-down planning view for Tomahawk routes, plus the planned route drawn in the world
+export class MissionPlanner {
+    private game: Game;
+    private scene: Scene;
+    private overlay: HTMLElement;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private terrainImage: HTMLCanvasElement; // Heightmap of the loaded chunks, redrawn each time the view opens
+    private altitudeInput: HTMLInputElement;
+    private altitudeValue: HTMLElement;
+    private headingToggle: HTMLInputElement;
+    private headingInput: HTMLInputElement;
+    private headingValue: HTMLElement;
+    private targetLabel: HTMLElement;
+    private waypointCount: HTMLElement;
+    private draft: MissionPlan = cloneMissionPlan(DEFAULT_MISSION_PLAN); // Edited here, handed to the game on apply
+    private mapCenter: PlanWaypoint = { x: 0, z: 0 }; // Bomber position when the view opened
+    private visible: boolean = false;
+
+    // World route line
+    private routeLine: LinesMesh | null = null;
+    private routeLineKey: string = ''; // Plan and target the line was built for
+    private routeLineStart: Vector3 = new Vector3();
+
+    constructor(game: Game, scene: Scene) {
+        this.game = game;
+        this.scene = scene;
+
+        this.overlay = document.createElement('div');
+        this.overlay.id = 'mission-planner';
+        this.overlay.innerHTML = `
+            <div id="mission-planner-panel">
+                <div id="mission-planner-title">TOMAHAWK MISSION PLAN</div>
+                <canvas id="mission-planner-map" width="${MAP_SIZE}" height="${MAP_SIZE}"></canvas>
+                <div id="mission-planner-controls">
+                    <div id="mission-planner-target"></div>
+                    <div id="mission-planner-waypoints"></div>
+                    <label class="mission-planner-row">
+                        <span>ALTITUDE</span>
+                        <input id="mission-planner-altitude" type="range" min="${MIN_PLAN_ALTITUDE}" max="${MAX_PLAN_ALTITUDE}" step="5">
+                        <span id="mission-planner-altitude-value"></span>
+                    </label>
+                    <label class="mission-planner-row">
+                        <input id="mission-planner-heading-toggle" type="checkbox">
+                        <span>APPROACH</span>
+                        <input id="mission-planner-heading" type="range" min="0" max="355" step="5">
+                        <span id="mission-planner-heading-value"></span>
+                    </label>
+                    <div class="mission-planner-row">
+                        <button id="mission-planner-undo" class="pause-menu-button">UNDO</button>
+                        <button id="mission-planner-clear" class="pause-menu-button">CLEAR</button>
+                    </div>
+                    <div class="mission-planner-row">
+                        <button id="mission-planner-apply" class="pause-menu-button">APPLY</button>
+                        <button id="mission-planner-remove" class="pause-menu-button">NO PLAN</button>
+                        <button id="mission-planner-cancel" class="pause-menu-button">CANCEL</button>
+                    </div>
+                    <div id="mission-planner-hint">Click the map to add waypoints &middot; right click removes one &middot; M or ESC to close</div>
+                </div>
+            </div>
+        `;
+        document.body.appendChild(this.overlay);
+
+        this.canvas = document.getElementById('mission-planner-map') as HTMLCanvasElement;
+        this.context = this.canvas.getContext('2d')!;
+        this.terrainImage = document.createElement('canvas');
+        this.altitudeInput = document.getElementById('mission-planner-altitude') as HTMLInputElement;
+        this.altitudeValue = document.getElementById('mission-planner-altitude-value')!;
+        this.headingToggle = document.getElementById('mission-planner-heading-toggle') as HTMLInputElement;
+        this.headingInput = document.getElementById('mission-planner-heading') as HTMLInputElement;
+        this.headingValue = document.getElementById('mission-planner-heading-value')!;
+        this.targetLabel = document.getElementById('mission-planner-target')!;
+        this.waypointCount = document.getElementById('mission-planner-waypoints')!;
+
+        this.canvas.addEventListener('click', (event) => this.handleMapClick(event));
+        this.canvas.addEventListener('contextmenu', (event) => this.handleMapRightClick(event));
+        this.altitudeInput.addEventListener('input', () => {
+            this.draft.altitude = Number(this.altitudeInput.value);
+            this.refresh();
+        });
+        this.headingToggle.addEventListener('change', () => {
+            this.draft.approachHeading = this.headingToggle.checked ? this.getHeadingInputRadians() : null;
+            this.refresh();
+        });
+        this.headingInput.addEventListener('input', () => {
+            this.headingToggle.checked = true;
+            this.draft.approachHeading = this.getHeadingInputRadians();
+            this.refresh();
+        });
+        document.getElementById('mission-planner-undo')!.addEventListener('click', () => {
+            this.draft.waypoints.pop();
+            this.refresh();
+        });
+        document.getElementById('mission-planner-clear')!.addEventListener('click', () => {
+            this.draft.waypoints = [];
+            this.refresh();
+        });
+        document.getElementById('mission-planner-apply')!.addEventListener('click', () => {
+            this.game.setMissionPlan(this.draft);
+            this.game.closeMissionPlanner();
+        });
+        document.getElementById('mission-planner-remove')!.addEventListener('click', () => {
+            this.game.setMissionPlan(null);
+            this.game.closeMissionPlanner();
+        });
+        document.getElementById('mission-planner-cancel')!.addEventListener('click', () => {
+            this.game.closeMissionPlanner();
+        });
+
+        this.addStyles();
+    }
+
+    public isOpen(): boolean {
+        return this.visible;
+    }
+
+    // Start from the current plan, centred on the bomber
+    public open(): void {
+        const bomberPosition = this.game.getBomber().getPosition();
+        this.mapCenter = { x: bomberPosition.x, z: bomberPosition.z };
+        this.draft = this.game.getMissionPlan() ?? cloneMissionPlan(DEFAULT_MISSION_PLAN);
+
+        this.altitudeInput.value = `${this.draft.altitude}`;
+        this.headingToggle.checked = this.draft.approachHeading !== null;
+        if (this.draft.approachHeading !== null) {
+            const degrees = (this.draft.approachHeading * 180 / Math.PI) % 360;
+            this.headingInput.value = `${Math.round(degrees < 0 ? degrees + 360 : degrees)}`;
+        }
+
+        this.renderTerrain();
+        this.refresh();
+        this.visible = true;
+        this.overlay.classList.add('visible');
+    }
+
+    public close(): void {
+        this.visible = false;
+        this.overlay.classList.remove('visible');
+    }
+
+    private getHeadingInputRadians(): number {
+        return Number(this.headingInput.value) * Math.PI / 180;
+    }
+
+    private getDesignatedTarget(): Building | null {
+        return this.game.getBomber().getTargetQueue().getDesignated();
+    }
+
+    private toMap(point: PlanWaypoint): { x: number; y: number } {
+        const scale = MAP_SIZE / (MAP_RANGE * 2);
+        return {
+            x: (point.x - this.mapCenter.x + MAP_RANGE) * scale,
+            y: (this.mapCenter.z + MAP_RANGE - point.z) * scale // North is up
+        };
+    }
+
+    private toWorld(event: MouseEvent): PlanWaypoint {
+        const rect = this.canvas.getBoundingClientRect();
+        const pixelX = (event.clientX - rect.left) * (MAP_SIZE / rect.width);
+        const pixelY = (event.clientY - rect.top) * (MAP_SIZE / rect.height);
+        const scale = MAP_SIZE / (MAP_RANGE * 2);
+        return {
+            x: this.mapCenter.x - MAP_RANGE + pixelX / scale,
+            z: this.mapCenter.z + MAP_RANGE - pixelY / scale
+        };
+    }
+
+    private handleMapClick(event: MouseEvent): void {
+        if (this.draft.waypoints.length >= MAX_PLAN_WAYPOINTS) return;
+        this.draft.waypoints.push(this.toWorld(event));
+        this.refresh();
+    }
+
+    private handleMapRightClick(event: MouseEvent): void {
+        event.preventDefault();
+
+        const clicked = this.toMap(this.toWorld(event));
+        let closestIndex = -1;
+        let closestDistance = WAYPOINT_PICK_RADIUS;
+        this.draft.waypoints.forEach((waypoint, index) => {
+            const point = this.toMap(waypoint);
+            const distance = Math.sqrt((point.x - clicked.x) ** 2 + (point.y - clicked.y) ** 2);
+            if (distance <= closestDistance) {
+                closestIndex = index;
+                closestDistance = distance;
+            }
+        });
+        if (closestIndex > -1) {
+            this.draft.waypoints.splice(closestIndex, 1);
+            this.refresh();
+        }
+    }
+
+    // Shade the heightmap of every loaded chunk; unloaded ground stays dark
+    private renderTerrain(): void {
+        try {
+            const terrainManager = this.game.getTerrainManager();
+            const cells = Math.round(MAP_RANGE * 2 / TERRAIN_SAMPLE_SPACING);
+            const heights: Array<number | null> = [];
+            let minHeight = Infinity;
+            let maxHeight = -Infinity;
+
+            for (let row = 0; row < cells; row++) {
+                const z = this.mapCenter.z + MAP_RANGE - (row + 0.5) * TERRAIN_SAMPLE_SPACING;
+                for (let column = 0; column < cells; column++) {
+                    const x = this.mapCenter.x - MAP_RANGE + (column + 0.5) * TERRAIN_SAMPLE_SPACING;
+                    if (!terrainManager.isChunkLoadedAt(x, z)) {
+                        heights.push(null);
+                        continue;
+                    }
+                    const height = terrainManager.getHeightAtPosition(x, z);
+                    heights.push(height);
+                    minHeight = Math.min(minHeight, height);
+                    maxHeight = Math.max(maxHeight, height);
+                }
+            }
+
+            this.terrainImage.width = cells;
+            this.terrainImage.height = cells;
+            const terrainContext = this.terrainImage.getContext('2d')!;
+            const image = terrainContext.createImageData(cells, cells);
+            const heightRange = Math.max(1, maxHeight - minHeight);
+            heights.forEach((height, index) => {
+                const offset = index * 4;
+                if (height === null) {
+                    image.data.set([16, 20, 24, 255], offset);
+                    return;
+                }
+                // Low ground green, high ground brown
+                const shade = (height - minHeight) / heightRange;
+                image.data.set([40 + shade * 110, 90 + shade * 10, 40 + shade * 10, 255], offset);
+            });
+            terrainContext.putImageData(image, 0, 0);
+        } catch (error) {
+            // Silent error handling - no console logging
+        }
+    }
+
+    private refresh(): void {
+        this.altitudeValue.textContent = `${this.draft.altitude}m`;
+        this.headingValue.textContent = this.draft.approachHeading === null
+            ? 'DIRECT'
+            : `${this.headingInput.value.padStart(3, '0')}°`;
+        this.waypointCount.textContent = `WAYPOINTS ${this.draft.waypoints.length}/${MAX_PLAN_WAYPOINTS}`;
+
+        const target = this.getDesignatedTarget();
+        this.targetLabel.textContent = target
+            ? `TARGET ${target.isTarget() ? 'TGT' : target.isRadarSite() ? 'RADAR' : 'SAM'} ${Math.round(Math.sqrt((target.getPosition().x - this.mapCenter.x) ** 2 + (target.getPosition().z - this.mapCenter.z) ** 2))}m`
+            : 'NO TARGET DESIGNATED - ROUTE ENDS AT LAUNCH TARGET';
+
+        this.drawMap(target);
+    }
+
+    private drawMap(target: Building | null): void {
+        const context = this.context;
+        context.imageSmoothingEnabled = false;
+        context.drawImage(this.terrainImage, 0, 0, MAP_SIZE, MAP_SIZE);
+
+        // Targets, launchers and radar sites on the map
+        const bomber = this.game.getBomber();
+        const bomberPosition = bomber.getPosition();
+        this.game.getTerrainManager().getBuildingsInRadius(bomberPosition, MAP_RANGE * Math.SQRT2).forEach(building => {
+            if (building.getIsDestroyed() || (!building.isTarget() && !building.isDefenseLauncher() && !building.isRadarSite())) return;
+            const point = this.toMap(building.getPosition());
+            context.fillStyle = building.isTarget() ? '#ff3333' : building.isRadarSite() ? '#66ff99' : '#ff9900';
+            context.fillRect(point.x - 3, point.y - 3, 6, 6);
+        });
+
+        // Planned route, with the run-in dashed
+        const targetPoint = target ? target.getPosition() : null;
+        const outline = getPlanOutline(bomberPosition, targetPoint, this.draft);
+        const approachPoint = targetPoint ? getApproachPoint(targetPoint, this.draft) : null;
+        context.strokeStyle = '#00ffff';
+        context.lineWidth = 2;
+        context.beginPath();
+        outline.forEach((waypoint, index) => {
+            const point = this.toMap(waypoint);
+            if (index === 0) {
+                context.moveTo(point.x, point.y);
+            } else {
+                context.lineTo(point.x, point.y);
+            }
+            if (index === outline.length - 2 && approachPoint) {
+                context.stroke();
+                context.beginPath();
+                context.setLineDash([6, 4]);
+                context.moveTo(point.x, point.y);
+            }
+        });
+        context.stroke();
+        context.setLineDash([]);
+
+        context.font = 'bold 10px Courier New';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        this.draft.waypoints.forEach((waypoint, index) => {
+            const point = this.toMap(waypoint);
+            context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            context.beginPath();
+            context.arc(point.x, point.y, 7, 0, Math.PI * 2);
+            context.fill();
+            context.strokeStyle = '#00ffff';
+            context.stroke();
+            context.fillStyle = '#00ffff';
+            context.fillText(`${index + 1}`, point.x, point.y);
+        });
+
+        if (targetPoint) {
+            const point = this.toMap(targetPoint);
+            context.strokeStyle = '#00ff00';
+            context.strokeRect(point.x - 7, point.y - 7, 14, 14);
+        }
+
+        // Bomber, pointing along its heading
+        const heading = bomber.getRotation().y;
+        const bomberPoint = this.toMap(bomberPosition);
+        context.save();
+        context.translate(bomberPoint.x, bomberPoint.y);
+        context.rotate(heading);
+        context.fillStyle = '#ffffff';
+        context.beginPath();
+        context.moveTo(0, -8);
+        context.lineTo(5, 6);
+        context.lineTo(-5, 6);
+        context.closePath();
+        context.fill();
+        context.restore();
+    }
+
+    // Keep the world route line in step with the applied plan and designated target
+    public update(): void {
+        try {
+            const plan = this.game.isGameOver() ? null : this.game.getMissionPlan();
+            if (!plan) {
+                this.disposeRouteLine();
+                return;
+            }
+
+            const bomberPosition = this.game.getBomber().getPosition();
+            const target = this.getDesignatedTarget();
+            const targetPosition = target ? target.getPosition() : null;
+            const key = JSON.stringify([plan, targetPosition ? [targetPosition.x, targetPosition.z] : null]);
+            if (key === this.routeLineKey && this.routeLine &&
+                Vector3.Distance(bomberPosition, this.routeLineStart) < ROUTE_LINE_REBUILD_DISTANCE) {
+                return;
+            }
+
+            this.disposeRouteLine();
+            this.routeLineKey = key;
+            this.routeLineStart.copyFrom(bomberPosition);
+
+            const points = this.buildRouteLinePoints(bomberPosition, targetPosition, plan);
+            if (points.length < 2) return;
+
+            this.routeLine = MeshBuilder.CreateLines('missionPlanRoute', { points }, this.scene);
+            this.routeLine.color = new Color3(0, 1, 1);
+            this.routeLine.isPickable = false;
+        } catch (error) {
+            // Silent error handling - no console logging
+        }
+    }
+
+    // Without a designated target the line stops at the last waypoint
+    private buildRouteLinePoints(start: Vector3, targetPosition: Vector3 | null, plan: MissionPlan): Vector3[] {
+        const terrainManager = this.game.getTerrainManager();
+        const getGroundHeight = (x: number, z: number) => terrainManager.getHeightAtPosition(x, z);
+
+        let end = targetPosition;
+        let routePlan = plan;
+        if (!end) {
+            const lastWaypoint = plan.waypoints[plan.waypoints.length - 1];
+            if (!lastWaypoint) return [];
+            end = new Vector3(lastWaypoint.x, getGroundHeight(lastWaypoint.x, lastWaypoint.z) + plan.altitude, lastWaypoint.z);
+            routePlan = { ...plan, waypoints: plan.waypoints.slice(0, -1), approachHeading: null };
+        }
+
+        return buildPlannedRoute(start, end, routePlan, getGroundHeight)
+            .map(point => new Vector3(point.x, point.y, point.z));
+    }
+
+    private disposeRouteLine(): void {
+        if (this.routeLine) {
+            this.routeLine.dispose();
+            this.routeLine = null;
+        }
+        this.routeLineKey = '';
+    }
+
+    private addStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #mission-planner {
+                position: fixed;
+                inset: 0;
+                display: none;
+                align-items: center;
+                justify-content: center;
+                background-color: rgba(0, 0, 0, 0.6);
+                z-index: 2500;
+            }
+            #mission-planner.visible {
+                display: flex;
+            }
+            #mission-planner-panel {
+                display: grid;
+                grid-template-columns: auto 260px;
+                grid-template-rows: auto auto;
+                gap: 12px;
+                padding: 16px;
+                background-color: rgba(0, 0, 0, 0.85);
+                border: 2px solid rgba(0, 255, 255, 0.6);
+                border-radius: 8px;
+                color: #00ffff;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+            }
+            #mission-planner-title {
+                grid-column: 1 / 3;
+                font-size: 16px;
+                text-align: center;
+            }
+            #mission-planner-map {
+                border: 1px solid rgba(0, 255, 255, 0.4);
+                cursor: crosshair;
+            }
+            #mission-planner-controls {
+                display: flex;
+                flex-direction: column;
+                gap: 10px;
+            }
+            .mission-planner-row {
+                display: flex;
+                align-items: center;
+                gap: 6px;
+            }
+            .mission-planner-row input[type="range"] {
+                flex: 1;
+            }
+            .mission-planner-row .pause-menu-button {
+                flex: 1;
+                min-width: 0;
+                padding-left: 4px;
+                padding-right: 4px;
+            }
+            #mission-planner-hint {
+                margin-top: auto;
+                color: rgba(0, 255, 255, 0.6);
+                font-size: 10px;
+                font-weight: normal;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+}
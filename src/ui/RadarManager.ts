@@ -4,6 +4,10 @@ import { Bomber } from '../entities/Bomber';
 import { TerrainManager } from '../managers/TerrainManager';
 import { DefenseMissile } from '../entities/DefenseMissile';
 import { IskanderMissile } from '../entities/IskanderMissile';
+import { Interceptor } from '../entities/Interceptor';
+import { AirToAirMissile } from '../entities/AirToAirMissile';
+import { GameClock } from '../utils/GameClock';
+import { MissionPlan, getPlanOutline } from '../utils/MissionPlan';
 
 interface RadarMarker {
     element: HTMLElement;
@@ -14,10 +18,12 @@ interface RadarMarker {
 export class RadarManager {
     private radarDisplay: HTMLElement;
     private targetCountElement: HTMLElement;
+    private gameClock: GameClock;
     private radarRadius: number = 500; // Radar range in game units
     private radarPixelRadius: number = 88; // Radar display radius in pixels
     private lastPulseTime: number = 0;
-    private pulseInterval: number = 2000; // 2 seconds
+    private pulseInterval: number = 2; // 2 seconds of game time
+    private pulseDuration: number = 1.5; // Matches radar-pulse-animation at 1x
     private activeMissiles: DefenseMissile[] = []; // Track active defense missiles
     private activeIskanderMissiles: IskanderMissile[] = []; // Track active Iskander missiles
 
@@ -31,12 +37,61 @@ export class RadarManager {
     private cachedBomberRotation: number = 0;
     private positionCacheValid: boolean = false;
     private positionCacheThreshold: number = 10; // Recalculate if moved more than 10 units
+    private drawnBomberPosition: Vector3 = new Vector3(); // Frame the markers were last drawn in, for mapping clicks
+    private drawnBomberRotation: number = 0;
+    private onPositionClickedCallback: ((position: Vector3) => void) | null = null;
+    private routeOverlay: SVGSVGElement; // Tomahawk mission plan, drawn under the markers
+    private routeLine: SVGPolylineElement;
+    private networkLinks: SVGPathElement; // Radar site to launcher links, drawn under the route
+    private cuedNetworkLinks: SVGPathElement; // Links whose radar site holds the bomber
+    private maskedBuildings: Set<Building> = new Set(); // Contacts hidden from the bomber by terrain or buildings, drawn dimmed
+    private lineOfSightRequest: number = 0; // Latest bulk query; older replies are dropped
 
-    constructor() {
+    constructor(gameClock: GameClock) {
+        this.gameClock = gameClock;
         this.radarDisplay = document.getElementById('radarDisplay')!;
         this.targetCountElement = document.getElementById('targetCount')!;
         this.createRadarPulseStyles();
         this.initializeMarkerPool();
+
+        const svgNamespace = 'http://www.w3.org/2000/svg';
+        this.routeOverlay = document.createElementNS(svgNamespace, 'svg');
+        this.routeOverlay.setAttribute('class', 'radar-route');
+        this.routeOverlay.setAttribute('width', `${this.radarPixelRadius * 2}`);
+        this.routeOverlay.setAttribute('height', `${this.radarPixelRadius * 2}`);
+        this.networkLinks = document.createElementNS(svgNamespace, 'path');
+        this.networkLinks.setAttribute('class', 'radar-network-link');
+        this.cuedNetworkLinks = document.createElementNS(svgNamespace, 'path');
+        this.cuedNetworkLinks.setAttribute('class', 'radar-network-link cued');
+        this.routeLine = document.createElementNS(svgNamespace, 'polyline');
+        this.routeOverlay.appendChild(this.networkLinks);
+        this.routeOverlay.appendChild(this.cuedNetworkLinks);
+        this.routeOverlay.appendChild(this.routeLine);
+        this.radarDisplay.appendChild(this.routeOverlay);
+
+        this.radarDisplay.addEventListener('click', (event) => this.handleRadarClick(event));
+    }
+
+    // Clicks report the world position under the cursor, used to designate Tomahawk targets
+    public setOnPositionClickedCallback(callback: (position: Vector3) => void): void {
+        this.onPositionClickedCallback = callback;
+    }
+
+    private handleRadarClick(event: MouseEvent): void {
+        if (!this.onPositionClickedCallback) return;
+
+        // Undo the marker transform: radar pixels -> bomber-relative -> world
+        const rect = this.radarDisplay.getBoundingClientRect();
+        const rotatedX = ((event.clientX - rect.left - this.radarPixelRadius) / this.radarPixelRadius) * this.radarRadius;
+        const rotatedZ = ((this.radarPixelRadius - (event.clientY - rect.top)) / this.radarPixelRadius) * this.radarRadius;
+        const cosY = Math.cos(this.drawnBomberRotation);
+        const sinY = Math.sin(this.drawnBomberRotation);
+
+        this.onPositionClickedCallback(new Vector3(
+            this.drawnBomberPosition.x + rotatedX * cosY + rotatedZ * sinY,
+            this.drawnBomberPosition.y,
+            this.drawnBomberPosition.z - rotatedX * sinY + rotatedZ * cosY
+        ));
     }
 
     private initializeMarkerPool(): void {
@@ -67,6 +122,7 @@ export class RadarManager {
                 
                 // Set the appropriate class
                 marker.element.className = `radar-${type}`;
+                marker.element.style.transform = ''; // Interceptor markers rotate themselves
                 
                 return marker;
             }
@@ -104,11 +160,83 @@ export class RadarManager {
                 transform-origin: center;
                 animation: radar-pulse-animation 1.5s ease-out;
             }
+            #radarDisplay {
+                cursor: crosshair;
+            }
+            .radar-designated {
+                outline: 1px solid #00ff00;
+                outline-offset: 3px;
+            }
+            .radar-queued {
+                box-shadow: 0 0 0 2px rgba(0, 255, 255, 0.9);
+            }
+            .radar-masked {
+                opacity: 0.35;
+            }
+            .radar-route {
+                position: absolute;
+                left: 0;
+                top: 0;
+                clip-path: circle(50%);
+                pointer-events: none;
+            }
+            .radar-network-link {
+                fill: none;
+                stroke: rgba(102, 255, 153, 0.35);
+                stroke-width: 1;
+            }
+            .radar-network-link.cued {
+                stroke: rgba(255, 80, 80, 0.8);
+            }
+            .radar-autonomous {
+                background: transparent !important;
+                border: 1px solid #ff6600;
+                box-sizing: border-box;
+            }
+            .radar-route polyline {
+                fill: none;
+                stroke: rgba(0, 255, 255, 0.8);
+                stroke-width: 1;
+                stroke-dasharray: 3 2;
+            }
+            #radarDisplay.paused .radar-pulse,
+            #radarDisplay.paused .radar-sweep {
+                animation-play-state: paused;
+            }
         `;
         document.head.appendChild(style);
     }
 
-    public update(bomber: Bomber, terrainManager: TerrainManager, destroyedTargets: number, iskanderMissiles: IskanderMissile[] = []): void {
+    // Clear markers, pulses and caches when the game restarts in place
+    public reset(): void {
+        this.markerPool.forEach(marker => {
+            if (marker.inUse) {
+                this.returnMarkerToPool(marker);
+            }
+        });
+        this.radarDisplay.querySelectorAll('.radar-pulse').forEach(pulse => pulse.remove());
+        this.activeMissiles = [];
+        this.activeIskanderMissiles = [];
+        this.cachedBuildings = [];
+        this.maskedBuildings.clear();
+        this.lineOfSightRequest++;
+        this.positionCacheValid = false;
+        this.lastPulseTime = 0;
+        this.lastUpdateTime = 0;
+        this.targetCountElement.textContent = '0';
+        this.routeLine.setAttribute('points', '');
+        this.networkLinks.setAttribute('d', '');
+        this.cuedNetworkLinks.setAttribute('d', '');
+    }
+
+    public update(
+        bomber: Bomber,
+        terrainManager: TerrainManager,
+        destroyedTargets: number,
+        iskanderMissiles: IskanderMissile[] = [],
+        interceptors: Interceptor[] = [],
+        airToAirMissiles: AirToAirMissile[] = []
+    ): void {
         // Performance optimization: limit update frequency
         const currentTime = performance.now();
         if (currentTime - this.lastUpdateTime < this.updateInterval) {
@@ -123,20 +251,29 @@ export class RadarManager {
             }
         });
 
-        // Handle radar pulse
-        if (currentTime - this.lastPulseTime > this.pulseInterval) {
-            this.lastPulseTime = currentTime;
+        // Freeze CSS animations while the game is paused
+        this.radarDisplay.classList.toggle('paused', this.gameClock.isPaused());
+
+        // Handle radar pulse (driven by game time so it follows pause and time scale)
+        const gameTime = this.gameClock.now();
+        if (gameTime - this.lastPulseTime > this.pulseInterval) {
+            this.lastPulseTime = gameTime;
             const pulse = document.createElement('div');
             pulse.className = 'radar-pulse';
+            pulse.style.animationDuration = `${this.pulseDuration / this.gameClock.getTimeScale()}s`;
             this.radarDisplay.appendChild(pulse);
-            setTimeout(() => {
+            this.gameClock.schedule(this.pulseDuration, () => {
                 pulse.remove();
-            }, 1500); // Remove after animation finishes
+            }); // Remove after animation finishes
         }
 
         // Get bomber position and orientation
         const bomberPosition = bomber.getPosition();
         const bomberRotationY = bomber.getRotation().y;
+        this.drawnBomberPosition.copyFrom(bomberPosition);
+        this.drawnBomberRotation = bomberRotationY;
+        const targetQueue = bomber.getTargetQueue();
+        const designated = targetQueue.getDesignated();
 
         // Check if we need to recalculate cached data
         const distanceMoved = Vector3.Distance(bomberPosition, this.cachedBomberPosition);
@@ -147,6 +284,7 @@ export class RadarManager {
             this.cachedBomberRotation = bomberRotationY;
             this.cachedBuildings = terrainManager.getBuildingsInRadius(bomberPosition, this.radarRadius);
             this.positionCacheValid = true;
+            this.requestLineOfSight(bomberPosition, terrainManager);
         }
 
         // Pre-calculate sin and cos for rotation
@@ -158,8 +296,8 @@ export class RadarManager {
         for (const building of this.cachedBuildings) {
             if (markerCount >= this.maxMarkers) break;
             
-            // Only show targets and defense launchers on radar
-            if (!building.isTarget() && !building.isDefenseLauncher()) {
+            // Only show targets, defense launchers, radar sites, airbases and flak guns on radar
+            if (!building.isTarget() && !building.isDefenseLauncher() && !building.isRadarSite() && !building.isAirbase() && !building.isAntiAircraft()) {
                 continue; // Skip regular buildings
             }
             
@@ -184,6 +322,12 @@ export class RadarManager {
                     markerType = 'target';
                 } else if (building.isDefenseLauncher()) {
                     markerType = 'defense-launcher';
+                } else if (building.isRadarSite()) {
+                    markerType = 'radar-site';
+                } else if (building.isAirbase()) {
+                    markerType = 'airbase';
+                } else if (building.isAntiAircraft()) {
+                    markerType = 'anti-aircraft';
                 } else {
                     // This should never happen due to the filter above, but keeping for safety
                     continue;
@@ -195,6 +339,11 @@ export class RadarManager {
                     marker.element.style.left = `${this.radarPixelRadius + radarX}px`;
                     marker.element.style.top = `${this.radarPixelRadius - radarZ}px`; // Flip Z for screen coordinates
                     marker.element.style.display = 'block';
+                    marker.element.classList.toggle('radar-designated', building === designated);
+                    marker.element.classList.toggle('radar-queued', targetQueue.isQueued(building));
+                    marker.element.classList.toggle('radar-masked', this.maskedBuildings.has(building));
+                    // Launchers with no radar site left in their sector are drawn hollow
+                    marker.element.classList.toggle('radar-autonomous', building.isDefenseLauncher() && building.getNetworkMode() === 'autonomous');
                     
                     if (!marker.element.parentNode) {
                         this.radarDisplay.appendChild(marker.element);
@@ -205,15 +354,100 @@ export class RadarManager {
             }
         }
 
+        this.updateNetworkLinks(terrainManager, bomberPosition, cosY, sinY);
+        this.updateRouteLine(bomber.getMissionPlan(), bomberPosition, designated, cosY, sinY);
+
         // Update active missiles list and add missile markers
         this.activeIskanderMissiles = iskanderMissiles.filter(missile => missile.isLaunched() && !missile.hasExploded());
-        this.updateMissileMarkers(bomberPosition, bomberRotationY, cosY, sinY, terrainManager, markerCount);
+        markerCount = this.updateMissileMarkers(bomberPosition, bomberRotationY, cosY, sinY, terrainManager, markerCount);
+
+        // Fighters and the missiles they've fired
+        for (const interceptor of interceptors) {
+            if (markerCount >= this.maxMarkers) break;
+            if (interceptor.isDestroyed()) continue;
+
+            const marker = this.placeContactMarker('interceptor', interceptor.getPosition(), bomberPosition, cosY, sinY);
+            if (marker) {
+                // Nose points along the fighter's heading, relative to the bomber's
+                marker.element.style.transform = `translate(-50%, -50%) rotate(${interceptor.getHeading() - bomberRotationY}rad)`;
+                markerCount++;
+            }
+        }
+        for (const missile of airToAirMissiles) {
+            if (markerCount >= this.maxMarkers) break;
+            if (!missile.isLaunched() || missile.hasExploded()) continue;
+
+            if (this.placeContactMarker('missile', missile.getPosition(), bomberPosition, cosY, sinY)) {
+                markerCount++;
+            }
+        }
 
         // Update score display - only targets
         this.targetCountElement.textContent = destroyedTargets.toString();
     }
 
-    private updateMissileMarkers(bomberPosition: Vector3, bomberRotationY: number, cosY: number, sinY: number, terrainManager: TerrainManager, currentMarkerCount: number): void {
+    // Ground track of the mission plan from the bomber, through the waypoints, to the designated target
+    // Traced on the terrain worker; markers keep their last known state until the reply lands
+    private async requestLineOfSight(bomberPosition: Vector3, terrainManager: TerrainManager): Promise<void> {
+        const request = ++this.lineOfSightRequest;
+        const contacts = this.cachedBuildings.filter(building => building.isTarget() || building.isDefenseLauncher() || building.isRadarSite() || building.isAirbase() || building.isAntiAircraft());
+        const from = bomberPosition.clone();
+
+        try {
+            const results = await terrainManager.traceLineOfSightBatch(contacts.map(building => {
+                const position = building.getPosition();
+                return { from, to: { x: position.x, y: building.getBounds().max.y, z: position.z } };
+            }));
+            if (request !== this.lineOfSightRequest) return;
+            this.maskedBuildings = new Set(contacts.filter((_, index) => !results[index].visible));
+        } catch (error) {
+            // Silent error handling - no console logging
+        }
+    }
+
+    // Air defense network links; ones fed by a radar site tracking the bomber stand out
+    private updateNetworkLinks(terrainManager: TerrainManager, bomberPosition: Vector3, cosY: number, sinY: number): void {
+        const toRadar = (position: Vector3) => {
+            const relativeX = position.x - bomberPosition.x;
+            const relativeZ = position.z - bomberPosition.z;
+            const radarX = ((relativeX * cosY - relativeZ * sinY) / this.radarRadius) * this.radarPixelRadius;
+            const radarZ = ((relativeX * sinY + relativeZ * cosY) / this.radarRadius) * this.radarPixelRadius;
+            return `${(this.radarPixelRadius + radarX).toFixed(1)},${(this.radarPixelRadius - radarZ).toFixed(1)}`;
+        };
+
+        let idle = '';
+        let cued = '';
+        terrainManager.getAirDefenseLinks().forEach(link => {
+            if (link.radar.getIsDestroyed() || link.launcher.getIsDestroyed()) return;
+            const segment = `M${toRadar(link.radar.getPosition())} L${toRadar(link.launcher.getPosition())} `;
+            if (link.radar.isRadarSiteTracking()) {
+                cued += segment;
+            } else {
+                idle += segment;
+            }
+        });
+        this.networkLinks.setAttribute('d', idle);
+        this.cuedNetworkLinks.setAttribute('d', cued);
+    }
+
+    private updateRouteLine(plan: MissionPlan | null, bomberPosition: Vector3, designated: Building | null, cosY: number, sinY: number): void {
+        if (!plan) {
+            this.routeLine.setAttribute('points', '');
+            return;
+        }
+
+        const points = getPlanOutline(bomberPosition, designated ? designated.getPosition() : null, plan).map(point => {
+            const relativeX = point.x - bomberPosition.x;
+            const relativeZ = point.z - bomberPosition.z;
+            const radarX = ((relativeX * cosY - relativeZ * sinY) / this.radarRadius) * this.radarPixelRadius;
+            const radarZ = ((relativeX * sinY + relativeZ * cosY) / this.radarRadius) * this.radarPixelRadius;
+            return `${(this.radarPixelRadius + radarX).toFixed(1)},${(this.radarPixelRadius - radarZ).toFixed(1)}`;
+        });
+        this.routeLine.setAttribute('points', points.join(' '));
+    }
+
+    // Returns the marker count including the missiles drawn
+    private updateMissileMarkers(bomberPosition: Vector3, bomberRotationY: number, cosY: number, sinY: number, terrainManager: TerrainManager, currentMarkerCount: number): number {
         // Get all buildings to collect their active missiles
         const allBuildings = terrainManager.getBuildingsInRadius(bomberPosition, this.radarRadius);
         this.activeMissiles = [];
@@ -297,5 +531,26 @@ export class RadarManager {
                 }
             }
         }
+        return markerCount;
     }
-} 
\ No newline at end of file
+
+    // Pooled marker for a moving contact, or null when it's off the scope or the pool is empty
+    private placeContactMarker(type: string, position: Vector3, bomberPosition: Vector3, cosY: number, sinY: number): RadarMarker | null {
+        const relativeX = position.x - bomberPosition.x;
+        const relativeZ = position.z - bomberPosition.z;
+        const radarX = ((relativeX * cosY - relativeZ * sinY) / this.radarRadius) * this.radarPixelRadius;
+        const radarZ = ((relativeX * sinY + relativeZ * cosY) / this.radarRadius) * this.radarPixelRadius;
+        if (Math.sqrt(radarX * radarX + radarZ * radarZ) > this.radarPixelRadius) return null;
+
+        const marker = this.getMarkerFromPool(type);
+        if (!marker) return null;
+
+        marker.element.style.left = `${this.radarPixelRadius + radarX}px`;
+        marker.element.style.top = `${this.radarPixelRadius - radarZ}px`;
+        marker.element.style.display = 'block';
+        if (!marker.element.parentNode) {
+            this.radarDisplay.appendChild(marker.element);
+        }
+        return marker;
+    }
+}
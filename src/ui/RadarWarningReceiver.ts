@@ -0,0 +1,128 @@
+import { SAM_STATES, SamState } from '../utils/SamFireControl';
+
+export interface RadarWarning {
+    bearing: number; // Radians clockwise from the bomber's nose
+    distance: number;
+    state: SamState; // Never 'search': sites only show once their radar tracks the bomber
+}
+
+const SCOPE_RADIUS = 50; // Pixels
+const MAX_SYMBOLS = 8;
+
+// Threat scope: a symbol per SAM site tracking the bomber, placed by bearing, nearer the centre the closer it is to firing
+export class RadarWarningReceiver {
+    private scope: HTMLElement;
+    private symbols: HTMLElement[] = [];
+    private readout: HTMLElement;
+    private lastReadoutText: string = '';
+
+    constructor() {
+        this.scope = document.createElement('div');
+        this.scope.id = 'rwr-scope';
+        this.scope.innerHTML = `<div id="rwr-ring"></div><div id="rwr-readout"></div>`;
+        document.body.appendChild(this.scope);
+        this.readout = document.getElementById('rwr-readout')!;
+
+        for (let i = 0; i < MAX_SYMBOLS; i++) {
+            const symbol = document.createElement('div');
+            symbol.className = 'rwr-symbol';
+            symbol.textContent = 'S';
+            this.scope.appendChild(symbol);
+            this.symbols.push(symbol);
+        }
+        this.addStyles();
+    }
+
+    // Null hides every symbol (bomber down)
+    public update(warnings: RadarWarning[] | null): void {
+        const shown = warnings ? warnings.slice(0, MAX_SYMBOLS) : [];
+
+        this.symbols.forEach((symbol, index) => {
+            const warning = shown[index];
+            if (!warning) {
+                symbol.style.display = 'none';
+                return;
+            }
+
+            // Track sits on the outer ring, lock inside it, launch and guide innermost
+            const radius = SCOPE_RADIUS * (warning.state === 'track' ? 0.75 : warning.state === 'lock' ? 0.5 : 0.3);
+            symbol.style.left = `${SCOPE_RADIUS + Math.sin(warning.bearing) * radius}px`;
+            symbol.style.top = `${SCOPE_RADIUS - Math.cos(warning.bearing) * radius}px`;
+            symbol.className = `rwr-symbol rwr-${warning.state}`;
+            symbol.style.display = 'block';
+        });
+
+        const highest = shown.reduce<SamState | null>((threat, warning) =>
+            threat === null || SAM_STATES.indexOf(warning.state) > SAM_STATES.indexOf(threat) ? warning.state : threat, null);
+        const readoutText = highest ? highest.toUpperCase() : '';
+        if (readoutText !== this.lastReadoutText) {
+            this.readout.textContent = readoutText;
+            this.readout.className = highest ? `rwr-${highest}` : '';
+            this.scope.classList.toggle('active', highest !== null);
+            this.lastReadoutText = readoutText;
+        }
+    }
+
+    private addStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #rwr-scope {
+                position: fixed;
+                top: 20px;
+                right: 120px; /* Left of the camera toggle */
+                width: ${SCOPE_RADIUS * 2}px;
+                height: ${SCOPE_RADIUS * 2}px;
+                border-radius: 50%;
+                background-color: rgba(0, 0, 0, 0.5);
+                border: 2px solid rgba(0, 255, 0, 0.3);
+                box-sizing: border-box;
+                font-family: 'Courier New', monospace;
+                font-weight: bold;
+                pointer-events: none;
+            }
+            #rwr-scope.active {
+                border-color: rgba(255, 200, 0, 0.8);
+            }
+            #rwr-ring {
+                position: absolute;
+                left: 25%;
+                top: 25%;
+                width: 50%;
+                height: 50%;
+                border: 1px dashed rgba(0, 255, 0, 0.3);
+                border-radius: 50%;
+                box-sizing: border-box;
+            }
+            #rwr-readout {
+                position: absolute;
+                top: ${SCOPE_RADIUS * 2 + 4}px;
+                left: 50%;
+                transform: translateX(-50%);
+                font-size: 11px;
+                white-space: nowrap;
+                text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+            }
+            .rwr-symbol {
+                position: absolute;
+                transform: translate(-50%, -50%);
+                font-size: 12px;
+                display: none;
+            }
+            .rwr-track {
+                color: #ffff00;
+            }
+            .rwr-lock {
+                color: #ff9900;
+            }
+            .rwr-launch,
+            .rwr-guide {
+                color: #ff3333;
+                animation: rwr-flash 0.4s steps(2) infinite;
+            }
+            @keyframes rwr-flash {
+                50% { opacity: 0.2; }
+            }
+        `;
+        document.head.appendChild(style);
+    }
+}
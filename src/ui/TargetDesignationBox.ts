@@ -0,0 +1,193 @@
+import { Scene, Vector3, Matrix } from '@babylonjs/core';
+import { Building } from '../entities/Building';
+import { TargetQueue, MAX_QUEUED_TARGETS } from '../utils/TargetQueue';
+
+// HUD designation box: brackets the designated Tomahawk target on screen and numbers the strike queue
+export class TargetDesignationBox {
+    private scene: Scene;
+    private box: HTMLElement;
+    private boxLabel: HTMLElement;
+    private queueMarkers: HTMLElement[] = []; // One numbered tag per queue slot
+    private readout: HTMLElement;
+    private lastLabelText: string = '';
+    private lastReadoutText: string = '';
+
+    constructor(scene: Scene) {
+        this.scene = scene;
+
+        this.box = document.createElement('div');
+        this.box.id = 'target-designation-box';
+        this.box.innerHTML = `<span id="target-designation-label"></span>`;
+        document.body.appendChild(this.box);
+        this.boxLabel = document.getElementById('target-designation-label')!;
+
+        for (let i = 0; i < MAX_QUEUED_TARGETS; i++) {
+            const marker = document.createElement('div');
+            marker.className = 'target-queue-marker';
+            marker.textContent = `${i + 1}`;
+            document.body.appendChild(marker);
+            this.queueMarkers.push(marker);
+        }
+
+        this.readout = document.createElement('div');
+        this.readout.id = 'target-queue-readout';
+        document.body.appendChild(this.readout);
+        this.addStyles();
+    }
+
+    // Screen position in CSS pixels, or null when the point is behind the camera or off screen
+    private projectToScreen(position: Vector3): { x: number; y: number } | null {
+        const camera = this.scene.activeCamera;
+        const engine = this.scene.getEngine();
+        const canvas = engine.getRenderingCanvas();
+        if (!camera || !canvas) return null;
+
+        const renderWidth = engine.getRenderWidth();
+        const renderHeight = engine.getRenderHeight();
+        const projected = Vector3.Project(
+            position,
+            Matrix.IdentityReadOnly,
+            this.scene.getTransformMatrix(),
+            camera.viewport.toGlobal(renderWidth, renderHeight)
+        );
+        if (projected.z < 0 || projected.z > 1 ||
+            projected.x < 0 || projected.x > renderWidth || projected.y < 0 || projected.y > renderHeight) {
+            return null;
+        }
+
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: rect.left + projected.x * (rect.width / renderWidth),
+            y: rect.top + projected.y * (rect.height / renderHeight)
+        };
+    }
+
+    // Middle of the building, where the box is centred
+    private getAimPoint(building: Building): Vector3 {
+        const position = building.getPosition();
+        return new Vector3(position.x, position.y + building.getMaxHeight() / 2, position.z);
+    }
+
+    // Null hides everything (bomber down)
+    public update(targetQueue: TargetQueue<Building> | null, bomberPosition: Vector3): void {
+        const designated = targetQueue ? targetQueue.getDesignated() : null;
+        const queue = targetQueue ? targetQueue.getQueue() : [];
+
+        const boxPosition = designated ? this.projectToScreen(this.getAimPoint(designated)) : null;
+        if (designated && boxPosition) {
+            this.box.style.left = `${boxPosition.x}px`;
+            this.box.style.top = `${boxPosition.y}px`;
+            this.box.classList.add('visible');
+            this.box.classList.toggle('mission-target', designated.isTarget());
+
+            // Only touch the DOM when the text changes
+            const range = Math.round(Vector3.Distance(bomberPosition, designated.getPosition()));
+            const slot = queue.indexOf(designated);
+            const labelText = `${designated.isTarget() ? 'TGT' : designated.isRadarSite() ? 'RADAR' : 'SAM'} ${range}m${slot > -1 ? ` Q${slot + 1}` : ''}`;
+            if (labelText !== this.lastLabelText) {
+                this.boxLabel.textContent = labelText;
+                this.lastLabelText = labelText;
+            }
+        } else {
+            this.box.classList.remove('visible');
+        }
+
+        this.queueMarkers.forEach((marker, index) => {
+            const building = queue[index];
+            const markerPosition = building && building !== designated ? this.projectToScreen(this.getAimPoint(building)) : null;
+            if (markerPosition) {
+                marker.style.left = `${markerPosition.x}px`;
+                marker.style.top = `${markerPosition.y}px`;
+                marker.classList.add('visible');
+            } else {
+                marker.classList.remove('visible');
+            }
+        });
+
+        const readoutText = targetQueue && (designated || queue.length > 0)
+            ? `TGT QUEUE ${queue.length}/${MAX_QUEUED_TARGETS}`
+            : '';
+        if (readoutText !== this.lastReadoutText) {
+            this.readout.textContent = readoutText;
+            this.readout.classList.toggle('visible', readoutText !== '');
+            this.lastReadoutText = readoutText;
+        }
+    }
+
+    private addStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #target-designation-box {
+                position: fixed;
+                width: 44px;
+                height: 44px;
+                transform: translate(-50%, -50%);
+                border: 2px solid #00ff00;
+                box-sizing: border-box;
+                display: none;
+                pointer-events: none;
+                z-index: 5;
+            }
+            #target-designation-box.visible {
+                display: block;
+            }
+            #target-designation-box.mission-target {
+                border-color: #ff3333;
+            }
+            #target-designation-label {
+                position: absolute;
+                top: 46px;
+                left: 50%;
+                transform: translateX(-50%);
+                color: #00ff00;
+                font-family: 'Courier New', monospace;
+                font-size: 11px;
+                font-weight: bold;
+                white-space: nowrap;
+                text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+            }
+            #target-designation-box.mission-target #target-designation-label {
+                color: #ff3333;
+            }
+            .target-queue-marker {
+                position: fixed;
+                width: 16px;
+                height: 16px;
+                transform: translate(-50%, -50%);
+                border: 2px solid #00ffff;
+                border-radius: 50%;
+                color: #00ffff;
+                font-family: 'Courier New', monospace;
+                font-size: 10px;
+                font-weight: bold;
+                line-height: 16px;
+                text-align: center;
+                display: none;
+                pointer-events: none;
+                z-index: 5;
+            }
+            .target-queue-marker.visible {
+                display: block;
+            }
+            #target-queue-readout {
+                position: fixed;
+                bottom: 110px; /* Above the missile button */
+                right: 120px;
+                padding: 4px 8px;
+                background-color: rgba(0, 0, 0, 0.5);
+                border: 2px solid rgba(0, 255, 255, 0.5);
+                border-radius: 6px;
+                color: #00ffff;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                display: none;
+                pointer-events: none;
+            }
+            #target-queue-readout.visible {
+                display: block;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+}
@@ -1,6 +1,10 @@
 import { Game } from "../managers/Game";
 import { InputManager } from "../managers/InputManager";
 import { CameraLockMode } from "../managers/CameraController";
+import { FlightRecorder } from "../utils/FlightRecorder";
+import { BOMBER_STATIONS, BombWeaponType, LoadoutSelection, WEAPON_SPECS, WeaponType } from "../utils/WeaponLoadout";
+import { getSignatureLevel } from "../utils/RadarCrossSection";
+import { DIFFICULTIES, Difficulty, GameTuning, getDifficultyTuning, parseTuning } from "../utils/GameTuning";
 
 export class UIManager {
     private game: Game;
@@ -9,17 +13,29 @@ export class UIManager {
     private bombButtonIcon!: HTMLElement;
     private bombButtonCooldown!: HTMLElement;
     private bombBayStatus!: HTMLElement;
+    private bombTypeLabel!: HTMLElement; // Selected bomb variant; click to cycle
     private missileButton!: HTMLElement;
     private missileButtonIcon!: HTMLElement;
     private missileButtonCooldown!: HTMLElement;
     private countermeasureButton!: HTMLElement;
     private countermeasureButtonIcon!: HTMLElement;
     private countermeasureButtonCooldown!: HTMLElement;
+    private chaffButton!: HTMLElement;
+    private chaffButtonCooldown!: HTMLElement;
+    private ecmButton!: HTMLElement; // Toggles the jammer; the fill shows its charge
+    private ecmButtonCharge!: HTMLElement;
+    private ecmStatus!: HTMLElement;
     private cameraToggleButton!: HTMLElement;
     private cameraToggleIcon!: HTMLElement;
     private healthBar!: HTMLElement;
     private healthBarFill!: HTMLElement;
     private healthText!: HTMLElement;
+    private signatureMeter!: HTMLElement; // Radar signature toward the nearest SAM site
+    private signatureFill!: HTMLElement;
+    private signatureText!: HTMLElement;
+    private roundCounters: Map<WeaponType, { button: HTMLElement; text: HTMLElement }> = new Map();
+    private lastRounds: Map<WeaponType, number> = new Map();
+    private lastBombWeapon: BombWeaponType | null = null;
     
     // Performance optimization: cache target status
     private cachedHasValidTarget: boolean = false;
@@ -30,9 +46,13 @@ export class UIManager {
     private lastBombCooldown: number = -1;
     private lastMissileCooldown: number = -1;
     private lastCountermeasureCooldown: number = -1;
+    private lastChaffCooldown: number = -1;
+    private lastEcmCharge: number = -1;
+    private lastEcmActive: boolean | null = null;
     private lastHasTarget: boolean = false;
     private lastLockMode: CameraLockMode = CameraLockMode.BOMBER;
     private lastHealth: number = -1;
+    private lastSignatureText: string = '';
     private updateBatchTimeout: ReturnType<typeof setTimeout> | null = null;
     private pendingUpdates: Set<string> = new Set();
 
@@ -45,15 +65,43 @@ export class UIManager {
     private persistentAlerts: Set<string> = new Set();
     private iskanderAlertId: string = 'iskander-lock';
 
+    // Pause menu and time scale indicator
+    private pauseMenu!: HTMLElement;
+    private pauseTimeScaleButtons: Map<number, HTMLElement> = new Map();
+    private timeScaleIndicator!: HTMLElement;
+    private mainMenu!: HTMLElement;
+    private selectedLoadout: LoadoutSelection = {}; // Pre-sortie picks, applied on START MISSION
+    private loadoutButtons: Map<string, Map<WeaponType, HTMLElement>> = new Map(); // Station id -> weapon -> button
+    private loadoutSummary!: HTMLElement;
+    private difficultyButtons: Map<Difficulty, HTMLElement> = new Map();
+    private difficultySummary!: HTMLElement;
+    private tuningFileInput!: HTMLInputElement; // Custom difficulty: a designer's tuning file
+
+    // Replay controls and recording import
+    private replayControls!: HTMLElement;
+    private replayPlayButton!: HTMLElement;
+    private replayScrubber!: HTMLInputElement;
+    private replayTimeText!: HTMLElement;
+    private replaySpeedButtons: Map<number, HTMLElement> = new Map();
+    private isScrubbing: boolean = false;
+    private recordingFileInput!: HTMLInputElement;
+
     constructor(game: Game, inputManager: InputManager) {
         this.game = game;
         this.inputManager = inputManager;
         this.createBombButton();
         this.createMissileButton();
         this.createCountermeasureButton();
+        this.createChaffButton();
+        this.createEcmButton();
         this.createCameraToggleButton();
         this.createHealthBar();
+        this.createSignatureMeter();
         this.createAlertSystem();
+        this.createPauseMenu();
+        this.createTimeScaleIndicator();
+        this.createMainMenu();
+        this.createReplayControls();
 
         // Listen for button clicks to start a bombing run
         this.bombButton.addEventListener('click', () => {
@@ -62,6 +110,14 @@ export class UIManager {
             }
         });
 
+        // Clicking the variant label cycles bombs instead of starting a run
+        this.bombTypeLabel.addEventListener('click', (event) => {
+            event.stopPropagation();
+            if (!this.game.isBombingRunActive()) {
+                this.inputManager.triggerBombSelectKeyPress();
+            }
+        });
+
         // Listen for missile button clicks
         this.missileButton.addEventListener('click', () => {
             if (this.game.getBomber().canLaunchMissile() && this.game.getBomber().hasValidTarget()) {
@@ -71,11 +127,26 @@ export class UIManager {
 
         // Listen for countermeasure button clicks
         this.countermeasureButton.addEventListener('click', () => {
-            if (this.game.getBomber().canLaunchFlares() && this.game.hasIskanderMissilesForAlert()) {
+            if (this.game.getBomber().canLaunchFlares() && this.game.hasFlareThreats()) {
                 this.inputManager.triggerCountermeasureKeyPress();
             }
         });
 
+        // Listen for chaff button clicks
+        this.chaffButton.addEventListener('click', () => {
+            if (this.game.getBomber().canLaunchChaff() && this.game.hasDefenseMissilesInbound()) {
+                this.inputManager.triggerChaffKeyPress();
+            }
+        });
+
+        // The jammer can always be switched off, but only switched on with enough charge
+        this.ecmButton.addEventListener('click', () => {
+            const bomber = this.game.getBomber();
+            if (bomber.isEcmActive() || bomber.canActivateEcm()) {
+                this.inputManager.triggerEcmKeyPress();
+            }
+        });
+
         // Listen for camera toggle button clicks
         this.cameraToggleButton.addEventListener('click', () => {
             this.game.getCameraController().toggleLockMode();
@@ -90,12 +161,16 @@ export class UIManager {
             <div id="bomb-icon"></div>
             <div id="bomb-cooldown"></div>
             <div id="bomb-bay-status"></div>
+            <div id="bomb-type"></div>
+            <div id="bomb-rounds" class="weapon-rounds"></div>
         `;
         document.body.appendChild(this.bombButton);
+        this.roundCounters.set('bomb', { button: this.bombButton, text: document.getElementById('bomb-rounds')! });
 
         this.bombButtonIcon = document.getElementById('bomb-icon')!;
         this.bombButtonCooldown = document.getElementById('bomb-cooldown')!;
         this.bombBayStatus = document.getElementById('bomb-bay-status')!;
+        this.bombTypeLabel = document.getElementById('bomb-type')!;
 
         // Add some basic styling
         this.addStyles();
@@ -107,8 +182,10 @@ export class UIManager {
         this.missileButton.innerHTML = `
             <div id="missile-icon"></div>
             <div id="missile-cooldown"></div>
+            <div id="missile-rounds" class="weapon-rounds"></div>
         `;
         document.body.appendChild(this.missileButton);
+        this.roundCounters.set('tomahawk', { button: this.missileButton, text: document.getElementById('missile-rounds')! });
 
         this.missileButtonIcon = document.getElementById('missile-icon')!;
         this.missileButtonCooldown = document.getElementById('missile-cooldown')!;
@@ -120,13 +197,44 @@ export class UIManager {
         this.countermeasureButton.innerHTML = `
             <div id="countermeasure-icon"></div>
             <div id="countermeasure-cooldown"></div>
+            <div id="countermeasure-rounds" class="weapon-rounds"></div>
         `;
         document.body.appendChild(this.countermeasureButton);
+        this.roundCounters.set('flare', { button: this.countermeasureButton, text: document.getElementById('countermeasure-rounds')! });
 
         this.countermeasureButtonIcon = document.getElementById('countermeasure-icon')!;
         this.countermeasureButtonCooldown = document.getElementById('countermeasure-cooldown')!;
     }
 
+    private createChaffButton(): void {
+        this.chaffButton = document.createElement('div');
+        this.chaffButton.id = 'chaff-button';
+        this.chaffButton.innerHTML = `
+            <div id="chaff-icon"></div>
+            <div id="chaff-cooldown"></div>
+            <div id="chaff-rounds" class="weapon-rounds"></div>
+        `;
+        document.body.appendChild(this.chaffButton);
+        this.roundCounters.set('chaff', { button: this.chaffButton, text: document.getElementById('chaff-rounds')! });
+
+        this.chaffButtonCooldown = document.getElementById('chaff-cooldown')!;
+    }
+
+    private createEcmButton(): void {
+        this.ecmButton = document.createElement('div');
+        this.ecmButton.id = 'ecm-button';
+        this.ecmButton.innerHTML = `
+            <div id="ecm-icon"></div>
+            <div id="ecm-charge"></div>
+            <div id="ecm-status" class="weapon-rounds"></div>
+        `;
+        document.body.appendChild(this.ecmButton);
+
+        this.ecmButtonCharge = document.getElementById('ecm-charge')!;
+        this.ecmStatus = document.getElementById('ecm-status')!;
+        this.addCountermeasureStyles();
+    }
+
     private createCameraToggleButton(): void {
         this.cameraToggleButton = document.createElement('div');
         this.cameraToggleButton.id = 'camera-toggle-button';
@@ -155,6 +263,20 @@ export class UIManager {
         this.addHealthBarStyles();
     }
 
+    private createSignatureMeter(): void {
+        this.signatureMeter = document.createElement('div');
+        this.signatureMeter.id = 'signature-meter';
+        this.signatureMeter.innerHTML = `
+            <div id="signature-fill"></div>
+            <span id="signature-text"></span>
+        `;
+        document.body.appendChild(this.signatureMeter);
+
+        this.signatureFill = document.getElementById('signature-fill')!;
+        this.signatureText = document.getElementById('signature-text')!;
+        this.addSignatureMeterStyles();
+    }
+
     private createAlertSystem(): void {
         this.alertContainer = document.createElement('div');
         this.alertContainer.id = 'alert-container';
@@ -162,6 +284,610 @@ export class UIManager {
         this.addAlertStyles();
     }
 
+    private createPauseMenu(): void {
+        this.pauseMenu = document.createElement('div');
+        this.pauseMenu.id = 'pause-menu';
+        this.pauseMenu.innerHTML = `
+            <div id="pause-menu-panel">
+                <div id="pause-menu-title">PAUSED</div>
+                <button id="pause-resume-button" class="pause-menu-button">RESUME</button>
+                <div id="pause-time-scale-label">TIME SCALE</div>
+                <div id="pause-time-scale-options"></div>
+                <div id="pause-recording-options">
+                    <button id="pause-export-button" class="pause-menu-button">EXPORT RECORDING</button>
+                    <button id="pause-import-button" class="pause-menu-button">IMPORT RECORDING</button>
+                </div>
+                <div id="pause-menu-hint">ESC to resume &middot; - / = to change speed</div>
+            </div>
+        `;
+        document.body.appendChild(this.pauseMenu);
+
+        document.getElementById('pause-resume-button')!.addEventListener('click', () => {
+            this.game.resume();
+        });
+        document.getElementById('pause-export-button')!.addEventListener('click', () => {
+            this.exportRecording();
+        });
+        document.getElementById('pause-import-button')!.addEventListener('click', () => {
+            this.recordingFileInput.click();
+        });
+
+        const optionsContainer = document.getElementById('pause-time-scale-options')!;
+        this.game.getTimeScaleSteps().forEach(scale => {
+            const button = document.createElement('button');
+            button.className = 'pause-menu-button pause-time-scale-button';
+            button.textContent = this.formatTimeScale(scale);
+            button.addEventListener('click', () => {
+                this.game.setTimeScale(scale);
+            });
+            optionsContainer.appendChild(button);
+            this.pauseTimeScaleButtons.set(scale, button);
+        });
+
+        this.addPauseMenuStyles();
+        this.updateTimeScaleDisplay(this.game.getTimeScale());
+    }
+
+    private createMainMenu(): void {
+        this.mainMenu = document.createElement('div');
+        this.mainMenu.id = 'main-menu';
+        this.mainMenu.innerHTML = `
+            <div id="main-menu-panel">
+                <div id="main-menu-title">MANICURE BOMBER</div>
+                <div id="main-menu-seed"></div>
+                <div id="main-menu-difficulty">
+                    <div id="main-menu-difficulty-label">DIFFICULTY</div>
+                    <div id="main-menu-difficulty-options"></div>
+                    <div id="main-menu-difficulty-summary"></div>
+                </div>
+                <div id="main-menu-loadout">
+                    <div id="main-menu-loadout-label">LOADOUT</div>
+                    <div id="main-menu-stations"></div>
+                    <div id="main-menu-loadout-summary"></div>
+                </div>
+                <button id="main-menu-start-button" class="pause-menu-button">START MISSION</button>
+                <button id="main-menu-import-button" class="pause-menu-button">LOAD REPLAY</button>
+            </div>
+        `;
+        document.body.appendChild(this.mainMenu);
+        this.createDifficultyPicker();
+        this.createLoadoutPicker();
+
+        document.getElementById('main-menu-start-button')!.addEventListener('click', () => {
+            this.game.setLoadoutSelection(this.selectedLoadout);
+            this.game.startMission();
+        });
+        document.getElementById('main-menu-import-button')!.addEventListener('click', () => {
+            this.recordingFileInput.click();
+        });
+    }
+
+    // Presets apply at once; Custom asks for a tuning file and keeps the current difficulty if it is rejected
+    private createDifficultyPicker(): void {
+        const options = document.getElementById('main-menu-difficulty-options')!;
+        this.difficultySummary = document.getElementById('main-menu-difficulty-summary')!;
+
+        DIFFICULTIES.forEach(difficulty => {
+            const button = document.createElement('button');
+            button.className = 'pause-menu-button difficulty-button';
+            button.textContent = difficulty.toUpperCase();
+            button.addEventListener('click', () => {
+                if (difficulty === 'custom') {
+                    this.tuningFileInput.click();
+                    return;
+                }
+                this.game.setDifficulty(difficulty, getDifficultyTuning(difficulty));
+                this.updateDifficultyPicker();
+            });
+            options.appendChild(button);
+            this.difficultyButtons.set(difficulty, button);
+        });
+
+        this.tuningFileInput = document.createElement('input');
+        this.tuningFileInput.type = 'file';
+        this.tuningFileInput.accept = '.json,application/json';
+        this.tuningFileInput.style.display = 'none';
+        this.tuningFileInput.addEventListener('change', () => {
+            const file = this.tuningFileInput.files?.[0];
+            this.tuningFileInput.value = '';
+            if (file) {
+                this.importTuning(file);
+            }
+        });
+        document.body.appendChild(this.tuningFileInput);
+    }
+
+    private importTuning(file: File): void {
+        file.text().then(text => {
+            let tuning: GameTuning;
+            try {
+                tuning = parseTuning(text);
+            } catch (error) {
+                // Alerts have room for one line: show the first problem
+                const message = error instanceof Error ? error.message.split('; ')[0] : 'NOT JSON';
+                this.showAlert(`INVALID TUNING FILE: ${message}`, 'tuning', 5000);
+                return;
+            }
+            this.game.setDifficulty('custom', tuning);
+            this.updateDifficultyPicker();
+        }).catch(() => {
+            this.showAlert('COULD NOT READ TUNING FILE', 'tuning', 3000);
+        });
+    }
+
+    private updateDifficultyPicker(): void {
+        const difficulty = this.game.getDifficulty();
+        this.difficultyButtons.forEach((button, option) => {
+            button.classList.toggle('active', option === difficulty);
+        });
+
+        const tuning = this.game.getTuning();
+        this.difficultySummary.textContent = `HULL ${tuning.bomber.maxHealth} / ISKANDER HIT ${tuning.iskanderDamage.directHitDamage}` +
+            ` / SAM RELOAD ${tuning.samRadar.launchInterval}S`;
+    }
+
+    // One row per weapon station with a button for each weapon it can mount
+    private createLoadoutPicker(): void {
+        const stationList = document.getElementById('main-menu-stations')!;
+        this.loadoutSummary = document.getElementById('main-menu-loadout-summary')!;
+
+        BOMBER_STATIONS.forEach(station => {
+            const row = document.createElement('div');
+            row.className = 'loadout-station';
+            row.innerHTML = `<span class="loadout-station-label">${station.label}</span>`;
+
+            const buttons: Map<WeaponType, HTMLElement> = new Map();
+            station.allowedWeapons.forEach(weapon => {
+                const button = document.createElement('button');
+                button.className = 'pause-menu-button loadout-weapon-button';
+                button.textContent = WEAPON_SPECS[weapon].label;
+                button.addEventListener('click', () => {
+                    this.selectedLoadout[station.id] = weapon;
+                    this.updateLoadoutPicker();
+                });
+                row.appendChild(button);
+                buttons.set(weapon, button);
+            });
+
+            stationList.appendChild(row);
+            this.loadoutButtons.set(station.id, buttons);
+        });
+    }
+
+    private updateLoadoutPicker(): void {
+        this.loadoutButtons.forEach((buttons, stationId) => {
+            buttons.forEach((button, weapon) => {
+                button.classList.toggle('active', this.selectedLoadout[stationId] === weapon);
+            });
+        });
+
+        // Total rounds per weapon for the current picks
+        const totals: Map<WeaponType, number> = new Map();
+        Object.values(this.selectedLoadout).forEach(weapon => {
+            totals.set(weapon, (totals.get(weapon) ?? 0) + WEAPON_SPECS[weapon].roundsPerStation);
+        });
+        this.loadoutSummary.textContent = Array.from(totals.entries())
+            .map(([weapon, rounds]) => `${rounds} ${WEAPON_SPECS[weapon].label}`)
+            .join(' / ');
+    }
+
+    private createReplayControls(): void {
+        this.replayControls = document.createElement('div');
+        this.replayControls.id = 'replay-controls';
+        this.replayControls.innerHTML = `
+            <div id="replay-label">REPLAY</div>
+            <button id="replay-play-button" class="replay-button"></button>
+            <input id="replay-scrubber" type="range" min="0" max="0" value="0" step="1">
+            <div id="replay-time"></div>
+            <div id="replay-speed-options"></div>
+            <button id="replay-export-button" class="replay-button">SAVE</button>
+            <button id="replay-exit-button" class="replay-button">EXIT</button>
+        `;
+        document.body.appendChild(this.replayControls);
+
+        this.replayPlayButton = document.getElementById('replay-play-button')!;
+        this.replayScrubber = document.getElementById('replay-scrubber') as HTMLInputElement;
+        this.replayTimeText = document.getElementById('replay-time')!;
+
+        this.replayPlayButton.addEventListener('click', () => {
+            this.game.setReplayPlaying(this.game.isPaused());
+            this.updateReplayControls();
+        });
+
+        // Seek on release only: seeking backwards rebuilds the world and re-simulates from the start
+        this.replayScrubber.addEventListener('pointerdown', () => {
+            this.isScrubbing = true;
+        });
+        this.replayScrubber.addEventListener('input', () => {
+            this.replayTimeText.textContent = this.formatReplayTime(Number(this.replayScrubber.value), Number(this.replayScrubber.max));
+        });
+        this.replayScrubber.addEventListener('change', () => {
+            this.isScrubbing = false;
+            this.game.seekReplay(Number(this.replayScrubber.value));
+        });
+
+        const speedContainer = document.getElementById('replay-speed-options')!;
+        this.game.getTimeScaleSteps().forEach(scale => {
+            const button = document.createElement('button');
+            button.className = 'replay-button replay-speed-button';
+            button.textContent = this.formatTimeScale(scale);
+            button.addEventListener('click', () => {
+                this.game.setTimeScale(scale);
+            });
+            speedContainer.appendChild(button);
+            this.replaySpeedButtons.set(scale, button);
+        });
+
+        document.getElementById('replay-export-button')!.addEventListener('click', () => {
+            this.exportRecording();
+        });
+        document.getElementById('replay-exit-button')!.addEventListener('click', () => {
+            this.game.stopReplay();
+        });
+
+        // Shared hidden file picker for importing recordings
+        this.recordingFileInput = document.createElement('input');
+        this.recordingFileInput.type = 'file';
+        this.recordingFileInput.accept = '.json,application/json';
+        this.recordingFileInput.style.display = 'none';
+        this.recordingFileInput.addEventListener('change', () => {
+            const file = this.recordingFileInput.files?.[0];
+            this.recordingFileInput.value = '';
+            if (file) {
+                this.importRecording(file);
+            }
+        });
+        document.body.appendChild(this.recordingFileInput);
+
+        this.addReplayStyles();
+        this.updateTimeScaleDisplay(this.game.getTimeScale());
+    }
+
+    private formatReplayTime(tick: number, tickCount: number): string {
+        const step = this.game.getGameClock().getFixedTimeStep();
+        const format = (seconds: number): string => {
+            const wholeSeconds = Math.floor(seconds);
+            return `${Math.floor(wholeSeconds / 60)}:${(wholeSeconds % 60).toString().padStart(2, '0')}`;
+        };
+        return `${format(tick * step)} / ${format(tickCount * step)}`;
+    }
+
+    private addReplayStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #replay-controls {
+                position: fixed;
+                bottom: 20px;
+                left: 50%;
+                transform: translateX(-50%);
+                display: none;
+                align-items: center;
+                gap: 8px;
+                padding: 8px 12px;
+                background-color: rgba(0, 0, 0, 0.7);
+                border: 2px solid rgba(0, 255, 255, 0.5);
+                border-radius: 10px;
+                color: #00ffff;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                z-index: 2500;
+            }
+            #replay-controls.visible {
+                display: flex;
+            }
+            #replay-label {
+                letter-spacing: 2px;
+            }
+            #replay-scrubber {
+                width: 260px;
+                accent-color: #00ffff;
+            }
+            #replay-time {
+                min-width: 90px;
+                text-align: center;
+            }
+            #replay-speed-options {
+                display: flex;
+                gap: 4px;
+            }
+            .replay-button {
+                background-color: rgba(0, 0, 0, 0.5);
+                color: #00ffff;
+                border: 1px solid rgba(0, 255, 255, 0.5);
+                border-radius: 4px;
+                padding: 4px 8px;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                cursor: pointer;
+            }
+            .replay-button:hover {
+                background-color: rgba(0, 255, 255, 0.2);
+            }
+            .replay-speed-button.active {
+                background-color: rgba(0, 255, 255, 0.35);
+                border-color: #00ffff;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+
+    public showReplayControls(): void {
+        this.replayControls.classList.add('visible');
+        this.updateReplayControls();
+    }
+
+    public hideReplayControls(): void {
+        this.replayControls.classList.remove('visible');
+    }
+
+    private updateReplayControls(): void {
+        if (!this.game.isReplayActive()) return;
+
+        const tick = this.game.getReplayTick();
+        const tickCount = this.game.getReplayTickCount();
+        this.replayPlayButton.textContent = this.game.isPaused() ? 'PLAY' : 'PAUSE';
+
+        // Leave the slider alone while the user is dragging it
+        if (!this.isScrubbing) {
+            this.replayScrubber.max = tickCount.toString();
+            this.replayScrubber.value = tick.toString();
+            this.replayTimeText.textContent = this.formatReplayTime(tick, tickCount);
+        }
+    }
+
+    public exportRecording(): void {
+        const json = this.game.exportRecording();
+        if (!json) {
+            this.showAlert('NO RECORDING AVAILABLE', 'recording', 3000);
+            return;
+        }
+
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `manicure-bomber-${this.game.getWorldSeed()}-${Date.now()}.json`;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    }
+
+    private importRecording(file: File): void {
+        file.text().then(text => {
+            try {
+                this.game.startReplay(FlightRecorder.parse(text));
+            } catch (error) {
+                this.showAlert('INVALID RECORDING FILE', 'recording', 3000);
+            }
+        }).catch(() => {
+            this.showAlert('COULD NOT READ RECORDING FILE', 'recording', 3000);
+        });
+    }
+
+    private createTimeScaleIndicator(): void {
+        this.timeScaleIndicator = document.createElement('div');
+        this.timeScaleIndicator.id = 'time-scale-indicator';
+        document.body.appendChild(this.timeScaleIndicator);
+        this.updateTimeScaleDisplay(this.game.getTimeScale());
+    }
+
+    private formatTimeScale(scale: number): string {
+        return `${scale}x`;
+    }
+
+    private addPauseMenuStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #pause-menu, #main-menu {
+                position: fixed;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                display: none;
+                align-items: center;
+                justify-content: center;
+                background-color: rgba(0, 0, 0, 0.6);
+                z-index: 3000;
+                font-family: 'Courier New', monospace;
+            }
+            #pause-menu.visible, #main-menu.visible {
+                display: flex;
+            }
+            #main-menu {
+                background-color: rgba(0, 0, 0, 0.85);
+            }
+            #pause-menu-panel, #main-menu-panel {
+                min-width: 320px;
+                padding: 24px 32px;
+                background-color: rgba(0, 20, 0, 0.85);
+                border: 2px solid rgba(0, 255, 0, 0.6);
+                border-radius: 10px;
+                box-shadow: 0 4px 20px rgba(0, 255, 0, 0.2);
+                text-align: center;
+                color: #00ff00;
+            }
+            #pause-menu-title, #main-menu-title {
+                font-size: 28px;
+                font-weight: bold;
+                letter-spacing: 6px;
+                margin-bottom: 20px;
+            }
+            #main-menu-seed {
+                margin-bottom: 20px;
+                font-size: 12px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            #pause-recording-options {
+                display: flex;
+                justify-content: center;
+                gap: 6px;
+                margin-top: 20px;
+            }
+            #pause-recording-options .pause-menu-button {
+                padding: 6px 10px;
+                font-size: 11px;
+            }
+            #main-menu-import-button {
+                margin-left: 8px;
+            }
+            #main-menu-difficulty {
+                margin-bottom: 20px;
+            }
+            #main-menu-difficulty-label {
+                margin-bottom: 10px;
+                font-size: 12px;
+                letter-spacing: 2px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            #main-menu-difficulty-options {
+                display: flex;
+                justify-content: center;
+                gap: 6px;
+            }
+            .difficulty-button {
+                padding: 4px 10px;
+                font-size: 11px;
+            }
+            .difficulty-button.active {
+                background-color: rgba(0, 255, 0, 0.35);
+                border-color: #00ff00;
+            }
+            #main-menu-difficulty-summary {
+                margin-top: 10px;
+                font-size: 11px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            #main-menu-loadout {
+                margin-bottom: 20px;
+            }
+            #main-menu-loadout-label {
+                margin-bottom: 10px;
+                font-size: 12px;
+                letter-spacing: 2px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            .loadout-station {
+                display: flex;
+                align-items: center;
+                justify-content: flex-end;
+                gap: 6px;
+                margin-bottom: 6px;
+            }
+            .loadout-station-label {
+                flex: 1;
+                text-align: left;
+                font-size: 12px;
+            }
+            .loadout-weapon-button {
+                padding: 4px 10px;
+                font-size: 11px;
+            }
+            .loadout-weapon-button.active {
+                background-color: rgba(0, 255, 0, 0.35);
+                border-color: #00ff00;
+            }
+            #main-menu-loadout-summary {
+                margin-top: 10px;
+                font-size: 11px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            #pause-time-scale-label {
+                margin: 20px 0 10px;
+                font-size: 12px;
+                letter-spacing: 2px;
+                color: rgba(0, 255, 0, 0.7);
+            }
+            #pause-time-scale-options {
+                display: flex;
+                justify-content: center;
+                gap: 6px;
+            }
+            .pause-menu-button {
+                background-color: rgba(0, 0, 0, 0.5);
+                color: #00ff00;
+                border: 2px solid rgba(0, 255, 0, 0.5);
+                border-radius: 6px;
+                padding: 8px 20px;
+                font-family: 'Courier New', monospace;
+                font-weight: bold;
+                font-size: 14px;
+                cursor: pointer;
+                transition: background-color 0.2s, border-color 0.2s;
+            }
+            .pause-menu-button:hover {
+                background-color: rgba(0, 255, 0, 0.2);
+                border-color: rgba(0, 255, 0, 0.9);
+            }
+            .pause-time-scale-button {
+                padding: 6px 10px;
+                font-size: 12px;
+            }
+            .pause-time-scale-button.active {
+                background-color: rgba(0, 255, 0, 0.35);
+                border-color: #00ff00;
+            }
+            #pause-menu-hint {
+                margin-top: 20px;
+                font-size: 11px;
+                color: rgba(0, 255, 0, 0.5);
+            }
+            #time-scale-indicator {
+                position: fixed;
+                top: 50px;
+                left: 240px; /* Below the health bar */
+                padding: 2px 8px;
+                background-color: rgba(0, 0, 0, 0.5);
+                border: 2px solid rgba(255, 255, 0, 0.5);
+                border-radius: 6px;
+                color: #ffff00;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                display: none;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+
+    public showPauseMenu(): void {
+        this.pauseMenu.classList.add('visible');
+    }
+
+    public hidePauseMenu(): void {
+        this.pauseMenu.classList.remove('visible');
+    }
+
+    public showMainMenu(): void {
+        document.getElementById('main-menu-seed')!.textContent = `WORLD SEED ${this.game.getWorldSeed()}`;
+        this.selectedLoadout = this.game.getLoadoutSelection();
+        this.updateDifficultyPicker();
+        this.updateLoadoutPicker();
+        this.mainMenu.classList.add('visible');
+    }
+
+    public hideMainMenu(): void {
+        this.mainMenu.classList.remove('visible');
+    }
+
+    public updateTimeScaleDisplay(timeScale: number): void {
+        this.pauseTimeScaleButtons.forEach((button, scale) => {
+            button.classList.toggle('active', scale === timeScale);
+        });
+        this.replaySpeedButtons.forEach((button, scale) => {
+            button.classList.toggle('active', scale === timeScale);
+        });
+
+        // Only show the HUD indicator when running at non-standard speed
+        if (this.timeScaleIndicator) {
+            this.timeScaleIndicator.textContent = `TIME ${this.formatTimeScale(timeScale)}`;
+            this.timeScaleIndicator.style.display = timeScale === 1 ? 'none' : 'block';
+        }
+    }
+
     private addAlertStyles(): void {
         const style = document.createElement('style');
         style.textContent = `
@@ -286,6 +1012,20 @@ export class UIManager {
                 z-index: 1;
                 transition: height 0.1s linear;
             }
+            #bomb-type {
+                position: absolute;
+                top: 8px;
+                left: 50%;
+                transform: translateX(-50%);
+                color: #ffcc00;
+                font-family: 'Courier New', monospace;
+                font-size: 9px;
+                font-weight: bold;
+                white-space: nowrap;
+                text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+                z-index: 3;
+                cursor: pointer;
+            }
             #bomb-button.unavailable {
                 cursor: not-allowed;
             }
@@ -456,6 +1196,27 @@ export class UIManager {
             #camera-toggle-button[data-mode="ground"] {
                 border-color: #00ff00;
             }
+            .weapon-rounds {
+                position: absolute;
+                bottom: 6px;
+                left: 50%;
+                transform: translateX(-50%);
+                color: #fff;
+                font-family: 'Courier New', monospace;
+                font-size: 11px;
+                font-weight: bold;
+                text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+                z-index: 3;
+                pointer-events: none;
+            }
+            #bomb-button.empty #bomb-icon,
+            #missile-button.empty #missile-icon,
+            #countermeasure-button.empty #countermeasure-icon {
+                opacity: 0.2;
+            }
+            .empty .weapon-rounds {
+                color: #ff4444;
+            }
         `;
         document.head.appendChild(style);
     }
@@ -502,14 +1263,172 @@ export class UIManager {
         document.head.appendChild(style);
     }
 
+    private addCountermeasureStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #chaff-button,
+            #ecm-button {
+                position: fixed;
+                bottom: 20px;
+                width: 80px;
+                height: 80px;
+                background-color: rgba(0, 0, 0, 0.5);
+                border-radius: 50%;
+                cursor: pointer;
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                overflow: hidden;
+                transition: border-color 0.3s ease, box-shadow 0.3s ease;
+            }
+            #chaff-button {
+                right: 320px; /* Left of the flare button */
+                border: 2px solid #c0c0d0;
+            }
+            #ecm-button {
+                right: 420px;
+                border: 2px solid #aa66ff;
+            }
+            #chaff-button.has-sam {
+                border-color: #ff0000;
+                box-shadow: 0 0 15px rgba(255, 0, 0, 0.6);
+            }
+            #ecm-button.active {
+                border-color: #dd99ff;
+                box-shadow: 0 0 15px rgba(170, 102, 255, 0.8);
+            }
+            #chaff-icon,
+            #ecm-icon {
+                width: 50px;
+                height: 50px;
+                background-size: contain;
+                background-repeat: no-repeat;
+                background-position: center;
+                z-index: 2;
+            }
+            #chaff-icon {
+                background-image: url('data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512"><path fill="%23c0c0d0" d="M96 64h32v160H96zM208 32h32v128h-32zM320 96h32v160h-32zM160 256h32v160h-32zM272 288h32v192h-32zM384 256h32v128h-32z"/></svg>');
+            }
+            #ecm-icon {
+                background-image: url('data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512"><path fill="%23aa66ff" d="M16 256h64l48-128 64 256 64-320 64 352 48-160h128v32H392l-72 224-64-352-64 320-64-256-32 96H16z"/></svg>');
+            }
+            #chaff-cooldown,
+            #ecm-charge {
+                position: absolute;
+                bottom: 0;
+                left: 0;
+                width: 100%;
+                height: 0;
+                z-index: 1;
+                transition: height 0.1s linear;
+            }
+            #chaff-cooldown {
+                background-color: rgba(192, 192, 208, 0.4);
+            }
+            #ecm-charge {
+                background-color: rgba(170, 102, 255, 0.4);
+            }
+            #chaff-button.unavailable,
+            #ecm-button.unavailable {
+                cursor: not-allowed;
+            }
+            #chaff-button.unavailable #chaff-icon,
+            #ecm-button.unavailable #ecm-icon,
+            #chaff-button.empty #chaff-icon {
+                opacity: 0.5;
+            }
+        `;
+        document.head.appendChild(style);
+    }
+
+    private addSignatureMeterStyles(): void {
+        const style = document.createElement('style');
+        style.textContent = `
+            #signature-meter {
+                position: fixed;
+                top: 20px;
+                left: 460px; /* Right of the health bar */
+                width: 140px;
+                height: 20px;
+                background-color: rgba(0, 0, 0, 0.5);
+                border-radius: 10px;
+                overflow: hidden;
+                border: 2px solid rgba(255, 255, 255, 0.3);
+                box-shadow: 0 4px 12px rgba(0, 0, 0, 0.5);
+            }
+            #signature-fill {
+                position: absolute;
+                top: 0;
+                left: 0;
+                width: 0;
+                height: 100%;
+                transition: width 0.1s linear;
+            }
+            .signature-low #signature-fill {
+                background-color: rgba(0, 255, 0, 0.5);
+            }
+            .signature-medium #signature-fill {
+                background-color: rgba(255, 255, 0, 0.6);
+            }
+            .signature-high #signature-fill {
+                background-color: rgba(255, 0, 0, 0.7);
+            }
+            #signature-text {
+                position: absolute;
+                top: 0;
+                left: 0;
+                width: 100%;
+                height: 100%;
+                text-align: center;
+                line-height: 20px;
+                color: #fff;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+                font-weight: bold;
+                text-shadow: 1px 1px 2px rgba(0, 0, 0, 0.8);
+            }
+        `;
+        document.head.appendChild(style);
+    }
+
+    // Drop alerts and cached button state so the HUD redraws cleanly after an in-place restart
+    public reset(): void {
+        this.activeAlerts.forEach(alertElement => alertElement.remove());
+        this.activeAlerts.clear();
+        this.persistentAlerts.clear();
+
+        this.cachedHasValidTarget = false;
+        this.lastTargetCheckTime = 0;
+        this.lastBombCooldown = -1;
+        this.lastMissileCooldown = -1;
+        this.lastCountermeasureCooldown = -1;
+        this.lastChaffCooldown = -1;
+        this.lastEcmCharge = -1;
+        this.lastEcmActive = null;
+        this.lastHasTarget = false;
+        this.lastHealth = -1;
+        this.lastSignatureText = '';
+        this.lastRounds.clear();
+        this.lastBombWeapon = null;
+
+        this.hidePauseMenu();
+        this.updateCameraToggleIcon();
+        this.update();
+    }
+
     public update(): void {
         // Schedule updates for batching
         this.scheduleUpdate('bomb');
         this.scheduleUpdate('missile');
         this.scheduleUpdate('countermeasure');
+        this.scheduleUpdate('chaff');
+        this.scheduleUpdate('ecm');
         this.scheduleUpdate('camera');
         this.scheduleUpdate('health');
+        this.scheduleUpdate('signature');
+        this.scheduleUpdate('rounds');
         this.scheduleUpdate('iskander-alert');
+        this.scheduleUpdate('replay');
     }
 
     private scheduleUpdate(type: string): void {
@@ -534,15 +1453,30 @@ export class UIManager {
         if (this.pendingUpdates.has('countermeasure')) {
             this.updateCountermeasureButton();
         }
+        if (this.pendingUpdates.has('chaff')) {
+            this.updateChaffButton();
+        }
+        if (this.pendingUpdates.has('ecm')) {
+            this.updateEcmButton();
+        }
         if (this.pendingUpdates.has('camera')) {
             this.updateCameraButton();
         }
         if (this.pendingUpdates.has('health')) {
             this.updateHealthBar();
         }
+        if (this.pendingUpdates.has('signature')) {
+            this.updateSignatureMeter();
+        }
+        if (this.pendingUpdates.has('rounds')) {
+            this.updateRoundCounters();
+        }
         if (this.pendingUpdates.has('iskander-alert')) {
             this.updateIskanderAlert();
         }
+        if (this.pendingUpdates.has('replay')) {
+            this.updateReplayControls();
+        }
         
         this.pendingUpdates.clear();
     }
@@ -564,6 +1498,13 @@ export class UIManager {
             this.lastBombCooldown = cooldownStatus;
         }
 
+        // Label the variant the next run will drop
+        const bombWeapon = this.game.getSelectedBombWeapon();
+        if (bombWeapon !== this.lastBombWeapon) {
+            this.bombTypeLabel.textContent = WEAPON_SPECS[bombWeapon].label;
+            this.lastBombWeapon = bombWeapon;
+        }
+
         // Update bomb bay status
         const bomber = this.game.getBomber();
         const isBombingRun = this.game.isBombingRunActive();
@@ -639,9 +1580,9 @@ export class UIManager {
             this.lastCountermeasureCooldown = countermeasureCooldownStatus;
         }
 
-        // Check if there are Iskander missiles with lock detected to enable countermeasures
-        // Use the same conditions as the alert system - missiles that are locked on OR have started locking
-        const hasIskanderLockDetected = this.game.hasIskanderMissilesForAlert();
+        // Check if there are Iskander missiles with lock detected, or air-to-air missiles inbound, to enable countermeasures
+        // Iskanders use the same conditions as the alert system - missiles that are locked on OR have started locking
+        const hasIskanderLockDetected = this.game.hasFlareThreats();
         
         if (countermeasureCooldownStatus >= 1 && hasIskanderLockDetected) {
             this.countermeasureButton.classList.add('has-iskander');
@@ -650,6 +1591,53 @@ export class UIManager {
         }
     }
 
+    private updateChaffButton(): void {
+        const chaffCooldownStatus = this.game.getBomber().getChaffCooldownStatus();
+
+        // Only update cooldown if changed
+        if (Math.abs(chaffCooldownStatus - this.lastChaffCooldown) > 0.01) {
+            this.chaffButtonCooldown.style.height = `${chaffCooldownStatus * 100}%`;
+            this.chaffButton.classList.toggle('unavailable', chaffCooldownStatus < 1);
+            this.lastChaffCooldown = chaffCooldownStatus;
+        }
+
+        // Light up while SAMs are in the air
+        this.chaffButton.classList.toggle('has-sam', chaffCooldownStatus >= 1 && this.game.hasDefenseMissilesInbound());
+    }
+
+    private updateEcmButton(): void {
+        const bomber = this.game.getBomber();
+        const charge = bomber.getEcmCharge();
+        const active = bomber.isEcmActive();
+
+        // Only update if changed
+        if (Math.abs(charge - this.lastEcmCharge) > 0.01 || active !== this.lastEcmActive) {
+            this.ecmButtonCharge.style.height = `${charge * 100}%`;
+            this.ecmButton.classList.toggle('active', active);
+            this.ecmButton.classList.toggle('unavailable', !active && !bomber.canActivateEcm());
+            this.ecmStatus.textContent = active ? 'ECM ON' : 'ECM';
+            this.lastEcmCharge = charge;
+            this.lastEcmActive = active;
+        }
+    }
+
+    private updateRoundCounters(): void {
+        const loadout = this.game.getLoadout();
+
+        this.roundCounters.forEach(({ button, text }, slot) => {
+            // The bomb button counts whichever bomb variant is selected
+            const weapon = slot === 'bomb' ? this.game.getSelectedBombWeapon() : slot;
+            const rounds = loadout.getRounds(weapon);
+
+            // Only update if changed
+            if (rounds !== this.lastRounds.get(slot)) {
+                text.textContent = `${rounds}`;
+                button.classList.toggle('empty', rounds === 0);
+                this.lastRounds.set(slot, rounds);
+            }
+        });
+    }
+
     private updateCameraButton(): void {
         const lockMode = this.game.getCameraController().getLockMode();
         
@@ -682,6 +1670,21 @@ export class UIManager {
         }
     }
 
+    // Shown as the share of a radar's full range the bomber can be seen from
+    private updateSignatureMeter(): void {
+        const signature = this.game.getBomberSignature();
+        const level = signature === null ? null : getSignatureLevel(signature);
+        const text = signature === null ? 'SIG --' : `SIG ${level!.toUpperCase()} ${Math.round(signature * 100)}%`;
+
+        // Only update if changed
+        if (text !== this.lastSignatureText) {
+            this.signatureText.textContent = text;
+            this.signatureFill.style.width = `${signature === null ? 0 : Math.min(100, signature * 100)}%`;
+            this.signatureMeter.className = level ? `signature-${level}` : '';
+            this.lastSignatureText = text;
+        }
+    }
+
     public showAlert(message: string, type: string = 'default', duration: number = 5000): void {
         const alertId = `${type}-${Date.now()}`;
         
@@ -0,0 +1,68 @@
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+import { SAM_RADAR_PROFILE, SamRadarProfile } from './SamFireControl';
+
+export interface AirDefenseNetworkProfile {
+    sectorRange: number; // Launchers this close to a radar site take its tracks
+    surveillanceRadar: SamRadarProfile; // Dedicated radar sites see farther than any launcher
+    networkedRadar: SamRadarProfile; // A launcher's own radar while a radar site covers its sector...
+    autonomousRadar: SamRadarProfile; // ...and once none is left, searching on its own at short range
+}
+
+// The network's radars are variations on the launchers' own, so tuning the SAM radar tunes them all
+export function createAirDefenseNetworkProfile(samRadar: SamRadarProfile): AirDefenseNetworkProfile {
+    return {
+        sectorRange: 500,
+        surveillanceRadar: { ...samRadar, searchRange: 550, clutterAltitude: 80 },
+        networkedRadar: samRadar,
+        autonomousRadar: { ...samRadar, searchRange: 160 }
+    };
+}
+
+export const AIR_DEFENSE_NETWORK_PROFILE: AirDefenseNetworkProfile = createAirDefenseNetworkProfile(SAM_RADAR_PROFILE);
+
+export type LauncherMode = 'networked' | 'autonomous';
+
+export interface RadarSiteNode {
+    position: Vector3;
+    tracking: boolean; // Sees the bomber this tick
+}
+
+export interface AirDefenseLink {
+    radar: number; // Index into the radar sites
+    launcher: number; // Index into the launchers
+}
+
+export interface LauncherNetworkStatus {
+    mode: LauncherMode;
+    cued: boolean; // A linked radar site holds the bomber, so the launcher can engage without seeing it
+}
+
+export interface AirDefenseNetworkState {
+    links: AirDefenseLink[];
+    launchers: LauncherNetworkStatus[]; // Same order as the launchers passed in
+}
+
+// Links each launcher to every live radar site covering its sector; pass only sites still standing
+export function resolveAirDefenseNetwork(
+    radars: RadarSiteNode[],
+    launchers: Vector3[],
+    profile: AirDefenseNetworkProfile = AIR_DEFENSE_NETWORK_PROFILE
+): AirDefenseNetworkState {
+    const links: AirDefenseLink[] = [];
+    const statuses = launchers.map((launcher, launcherIndex): LauncherNetworkStatus => {
+        let linked = false;
+        let cued = false;
+        radars.forEach((radar, radarIndex) => {
+            if (vector3Distance(radar.position, launcher) > profile.sectorRange) return;
+            links.push({ radar: radarIndex, launcher: launcherIndex });
+            linked = true;
+            cued = cued || radar.tracking;
+        });
+        return { mode: linked ? 'networked' : 'autonomous', cued };
+    });
+    return { links, launchers: statuses };
+}
+
+export function getLauncherRadarProfile(mode: LauncherMode, profile: AirDefenseNetworkProfile = AIR_DEFENSE_NETWORK_PROFILE): SamRadarProfile {
+    return mode === 'networked' ? profile.networkedRadar : profile.autonomousRadar;
+}
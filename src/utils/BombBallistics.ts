@@ -0,0 +1,90 @@
+import { Vector3 } from '../workers/worker-utils';
+import { SeededRandom } from './SeededRandom';
+
+// Free-fall tuning shared by live bombs and impact prediction
+export interface BallisticsEnvironment {
+    gravity: number; // Units per second squared
+    dragCoefficient: number; // Quadratic drag per unit of airspeed
+    wind: Vector3; // Air velocity; drag pulls bombs toward it
+}
+
+export const DEFAULT_BALLISTICS: BallisticsEnvironment = {
+    gravity: 9.81,
+    dragCoefficient: 0.0015, // Terminal velocity around 80 units per second
+    wind: { x: 0, y: 0, z: 0 }
+};
+
+export const BOMB_EJECTION_SPEED = 5; // Downward push from the bomb bay on release
+
+const MIN_WIND_SPEED = 3;
+const MAX_WIND_SPEED = 10;
+
+// Steady horizontal wind picked from the world seed, so a map always has the same weather
+export function createSeededWind(worldSeed: number): Vector3 {
+    const random = new SeededRandom(worldSeed ^ 0x57A1D5EE);
+    const heading = random.range(0, Math.PI * 2);
+    const speed = random.range(MIN_WIND_SPEED, MAX_WIND_SPEED);
+    return { x: Math.sin(heading) * speed, y: 0, z: Math.cos(heading) * speed };
+}
+
+export interface BallisticState {
+    position: Vector3;
+    velocity: Vector3;
+}
+
+// Advance one step in place (semi-implicit Euler, so the same inputs always give the same arc)
+export function stepBallistic(state: BallisticState, environment: BallisticsEnvironment, deltaTime: number): void {
+    const airX = state.velocity.x - environment.wind.x;
+    const airY = state.velocity.y - environment.wind.y;
+    const airZ = state.velocity.z - environment.wind.z;
+    const airspeed = Math.sqrt(airX * airX + airY * airY + airZ * airZ);
+    const drag = environment.dragCoefficient * airspeed;
+
+    state.velocity.x -= airX * drag * deltaTime;
+    state.velocity.y -= (environment.gravity + airY * drag) * deltaTime;
+    state.velocity.z -= airZ * drag * deltaTime;
+
+    state.position.x += state.velocity.x * deltaTime;
+    state.position.y += state.velocity.y * deltaTime;
+    state.position.z += state.velocity.z * deltaTime;
+}
+
+export interface PredictedImpact {
+    point: Vector3;
+    timeOfFlight: number;
+}
+
+// Fly a bomb forward until it meets the ground; null if it hasn't landed within maxTime
+export function predictBombImpact(
+    release: BallisticState,
+    environment: BallisticsEnvironment,
+    getGroundHeight: (x: number, z: number) => number,
+    deltaTime: number,
+    maxTime: number = 30
+): PredictedImpact | null {
+    const state: BallisticState = { position: { ...release.position }, velocity: { ...release.velocity } };
+    let time = 0;
+
+    while (time < maxTime) {
+        const previous = { ...state.position };
+        stepBallistic(state, environment, deltaTime);
+        time += deltaTime;
+
+        const groundHeight = getGroundHeight(state.position.x, state.position.z);
+        if (state.position.y <= groundHeight) {
+            // Interpolate back to where the step crossed the ground
+            const drop = previous.y - state.position.y;
+            const fraction = drop > 0 ? Math.min(1, Math.max(0, (previous.y - groundHeight) / drop)) : 1;
+            return {
+                point: {
+                    x: previous.x + (state.position.x - previous.x) * fraction,
+                    y: groundHeight,
+                    z: previous.z + (state.position.z - previous.z) * fraction
+                },
+                timeOfFlight: time - deltaTime * (1 - fraction)
+            };
+        }
+    }
+
+    return null;
+}
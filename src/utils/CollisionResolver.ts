@@ -0,0 +1,121 @@
+import type {
+    BombDamageProfile,
+    BoundingBox,
+    CollisionSnapshot,
+    CollisionSnapshotResult,
+    MissileDamageProfile,
+    SnapshotBomb,
+    SnapshotBuilding,
+    SnapshotMissile
+} from '../workers/worker-protocol';
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+import { getFlakDamage } from './Flak';
+import { SpatialGrid } from './SpatialGrid';
+
+// Normal difficulty; snapshots carry the profiles of the sortie being flown
+export const MISSILE_DAMAGE_PROFILES: Record<SnapshotMissile['kind'], MissileDamageProfile> = {
+    defense: { directHitRadius: 8, directHitDamage: 25, proximityRadius: 20, proximityBase: 20, proximityMinimum: 5 },
+    iskander: { directHitRadius: 8, directHitDamage: 50, proximityRadius: 20, proximityBase: 40, proximityMinimum: 10 },
+    'air-to-air': { directHitRadius: 6, directHitDamage: 30, proximityRadius: 15, proximityBase: 20, proximityMinimum: 5 }
+};
+
+// Normal difficulty, like the missile profiles
+export const BOMB_DAMAGE_PROFILES: Record<SnapshotBomb['kind'], BombDamageProfile> = {
+    standard: { blastRadius: 50, maxDamage: 50, minDamage: 10, hardenedMultiplier: 1 },
+    cluster: { blastRadius: 10, maxDamage: 10, minDamage: 5, hardenedMultiplier: 0.25 }, // Canister hit before it opened
+    submunition: { blastRadius: 15, maxDamage: 25, minDamage: 10, hardenedMultiplier: 0.25 },
+    'bunker-buster': { blastRadius: 15, maxDamage: 150, minDamage: 80, hardenedMultiplier: 1 } // Penetrates hardened sites
+};
+
+export const BOMB_BLAST_RADIUS = BOMB_DAMAGE_PROFILES.standard.blastRadius;
+const FLARE_DECOY_RADIUS = 6; // Heat seekers this close to a flare detonate on it
+const TOMAHAWK_TARGET_RANGE = 300; // Same range as defense buildings
+
+// Pure function of the snapshot, run by the collision worker and by CollisionManager's synchronous fallback
+export function resolveCollisionSnapshot(snapshot: CollisionSnapshot): CollisionSnapshotResult {
+    const result: CollisionSnapshotResult = {
+        tick: snapshot.tick,
+        bombImpacts: [],
+        missileHits: [],
+        flareDecoys: [],
+        flakHits: [],
+        closestDefenseBuildingId: null
+    };
+
+    const buildingGrid = new SpatialGrid<SnapshotBuilding>();
+    snapshot.buildings.forEach(building => buildingGrid.insert(building));
+    const maxBlastRadius = Math.max(...Object.values(snapshot.bombDamage).map(profile => profile.blastRadius));
+
+    // Bombs detonate on the first building or terrain they touch and damage every building in their variant's blast radius
+    snapshot.bombs.forEach(bomb => {
+        const struckBuilding = buildingGrid.getNearbyObjects(bomb.position, maxBlastRadius)
+            .find(building => isInsideBounds(bomb.position, building.bounds)) || null;
+        if (!struckBuilding && bomb.position.y > bomb.groundHeight) return;
+
+        const profile = snapshot.bombDamage[bomb.kind];
+        const point = struckBuilding
+            ? { ...bomb.position }
+            : { x: bomb.position.x, y: bomb.groundHeight, z: bomb.position.z };
+        const buildingHits: Array<{ buildingId: string; distance: number; damage: number }> = [];
+        buildingGrid.getNearbyObjects(point, profile.blastRadius).forEach(building => {
+            const distance = building === struckBuilding ? 0 : vector3Distance(point, building.position); // Direct hits take full damage
+            if (distance <= profile.blastRadius) {
+                const damage = Math.max(profile.minDamage, profile.maxDamage - distance);
+                buildingHits.push({
+                    buildingId: building.id,
+                    distance,
+                    damage: building.isDefenseLauncher ? damage * profile.hardenedMultiplier : damage
+                });
+            }
+        });
+
+        result.bombImpacts.push({ bombId: bomb.id, point, struckBuildingId: struckBuilding ? struckBuilding.id : null, buildingHits });
+    });
+
+    snapshot.missiles.forEach(missile => {
+        // Flares soak up Iskanders and air-to-air missiles before they reach the bomber
+        if (missile.kind === 'iskander' || missile.kind === 'air-to-air') {
+            const decoy = snapshot.flares.find(flare => vector3Distance(missile.position, flare.position) <= FLARE_DECOY_RADIUS);
+            if (decoy) {
+                result.flareDecoys.push({ missileId: missile.id, flareId: decoy.id });
+                return;
+            }
+        }
+
+        const profile = snapshot.missileDamage[missile.kind];
+        const distance = vector3Distance(snapshot.bomberPosition, missile.position);
+        if (distance <= profile.directHitRadius) {
+            result.missileHits.push({ missileId: missile.id, distance, damage: profile.directHitDamage, directHit: true });
+        } else if (distance <= profile.proximityRadius) {
+            const damage = Math.max(profile.proximityMinimum, profile.proximityBase - distance);
+            result.missileHits.push({ missileId: missile.id, distance, damage, directHit: false });
+        }
+    });
+
+    // Shrapnel falls off with distance from the burst
+    snapshot.flakBursts.forEach(burst => {
+        const distance = vector3Distance(snapshot.bomberPosition, burst.position);
+        const damage = getFlakDamage(distance, snapshot.flak);
+        if (damage > 0) {
+            result.flakHits.push({ burstId: burst.id, distance, damage });
+        }
+    });
+
+    let closestDistance = Infinity;
+    buildingGrid.getNearbyObjects(snapshot.bomberPosition, TOMAHAWK_TARGET_RANGE).forEach(building => {
+        if (!building.isDefenseLauncher) return;
+        const distance = vector3Distance(snapshot.bomberPosition, building.position);
+        if (distance <= TOMAHAWK_TARGET_RANGE && distance < closestDistance) {
+            closestDistance = distance;
+            result.closestDefenseBuildingId = building.id;
+        }
+    });
+
+    return result;
+}
+
+function isInsideBounds(point: Vector3, bounds: BoundingBox): boolean {
+    return point.x >= bounds.min.x && point.x <= bounds.max.x &&
+        point.y >= bounds.min.y && point.y <= bounds.max.y &&
+        point.z >= bounds.min.z && point.z <= bounds.max.z;
+}
@@ -0,0 +1,66 @@
+export interface EcmProfile {
+    endurance: number; // Seconds of jamming on a full charge
+    rechargeTime: number; // Seconds to recharge from empty while switched off
+    restartCharge: number; // Fraction of a full charge needed to switch back on
+    seekerLockFactor: number; // Iskander seekers build their lock at this fraction of the usual rate...
+    seekerUpdateFactor: number; // ...and refresh the bomber's position this many times less often
+    signatureFactor: number; // Detection range multiplier from the jammer's own emissions
+}
+
+export const ECM_PROFILE: EcmProfile = {
+    endurance: 15,
+    rechargeTime: 30,
+    restartCharge: 0.25,
+    seekerLockFactor: 0.4,
+    seekerUpdateFactor: 4,
+    signatureFactor: 1.5
+};
+
+// Toggleable jammer running off a charge that drains while on and recharges while off; shuts itself down when flat
+export class EcmJammer {
+    private profile: EcmProfile;
+    private active: boolean = false;
+    private charge: number = 1; // 0 = flat, 1 = full
+
+    constructor(profile: EcmProfile = ECM_PROFILE) {
+        this.profile = profile;
+    }
+
+    public getProfile(): EcmProfile {
+        return this.profile;
+    }
+
+    public isActive(): boolean {
+        return this.active;
+    }
+
+    public getCharge(): number {
+        return this.charge;
+    }
+
+    public canActivate(): boolean {
+        return this.charge >= this.profile.restartCharge;
+    }
+
+    // Switch on or off; returns whether the jammer is now on
+    public toggle(): boolean {
+        this.active = this.active ? false : this.canActivate();
+        return this.active;
+    }
+
+    public update(deltaTime: number): void {
+        if (this.active) {
+            this.charge = Math.max(0, this.charge - deltaTime / this.profile.endurance);
+            if (this.charge === 0) {
+                this.active = false;
+            }
+        } else {
+            this.charge = Math.min(1, this.charge + deltaTime / this.profile.rechargeTime);
+        }
+    }
+
+    public reset(): void {
+        this.active = false;
+        this.charge = 1;
+    }
+}
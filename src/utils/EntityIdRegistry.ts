@@ -0,0 +1,19 @@
+// Stable string ids for live objects sent to workers, so replies can be mapped back to them
+export class EntityIdRegistry {
+    private entityIds: WeakMap<object, string> = new WeakMap();
+    private idCounter: number = 0;
+
+    public getId(entity: object, prefix: string): string {
+        let id = this.entityIds.get(entity);
+        if (!id) {
+            id = `${prefix}_${this.idCounter++}`;
+            this.entityIds.set(entity, id);
+        }
+        return id;
+    }
+
+    public reset(): void {
+        this.entityIds = new WeakMap();
+        this.idCounter = 0;
+    }
+}
@@ -0,0 +1,86 @@
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+
+export interface FlakProfile {
+    range: number; // Slant range the guns engage out to
+    ceiling: number; // Targets higher than this above the gun are left alone
+    shellSpeed: number;
+    fireInterval: number; // Seconds between bursts from one emplacement
+    baseDispersion: number; // Miss distance against a slow target at the gun's own height...
+    speedDispersion: number; // ...plus this much per unit of target speed...
+    altitudeDispersion: number; // ...and this much per unit of height above the gun
+    burstRadius: number; // Shrapnel reach
+    maxDamage: number; // At the centre of the burst, falling off linearly to nothing at its edge
+}
+
+export const FLAK_PROFILE: FlakProfile = {
+    range: 350,
+    ceiling: 150,
+    shellSpeed: 300,
+    fireInterval: 1.2,
+    baseDispersion: 6,
+    speedDispersion: 0.4,
+    altitudeDispersion: 0.15,
+    burstRadius: 25,
+    maxDamage: 12
+};
+
+const INTERCEPT_ITERATIONS = 4; // Fixed-point refinements of the time of flight
+
+export interface FlakTarget {
+    position: Vector3;
+    velocity: Vector3;
+}
+
+export interface FlakSolution {
+    point: Vector3; // Where the shell is fused to burst
+    timeOfFlight: number;
+}
+
+// Low enough and close enough for the guns to reach
+export function canFlakEngage(gun: Vector3, target: Vector3, profile: FlakProfile = FLAK_PROFILE): boolean {
+    const heightAboveGun = target.y - gun.y;
+    return heightAboveGun > 0 && heightAboveGun <= profile.ceiling && vector3Distance(gun, target) <= profile.range;
+}
+
+// Where a shell fired now meets a target holding its course
+export function predictFlakIntercept(gun: Vector3, target: FlakTarget, profile: FlakProfile = FLAK_PROFILE): FlakSolution {
+    let timeOfFlight = vector3Distance(gun, target.position) / profile.shellSpeed;
+    let point = { ...target.position };
+    for (let i = 0; i < INTERCEPT_ITERATIONS; i++) {
+        point = {
+            x: target.position.x + target.velocity.x * timeOfFlight,
+            y: target.position.y + target.velocity.y * timeOfFlight,
+            z: target.position.z + target.velocity.z * timeOfFlight
+        };
+        timeOfFlight = vector3Distance(gun, point) / profile.shellSpeed;
+    }
+    return { point, timeOfFlight };
+}
+
+// Gunners miss fast, high targets by more
+export function getFlakDispersion(targetSpeed: number, heightAboveGun: number, profile: FlakProfile = FLAK_PROFILE): number {
+    return profile.baseDispersion + profile.speedDispersion * targetSpeed + profile.altitudeDispersion * Math.max(0, heightAboveGun);
+}
+
+// Predicted burst point scattered by the dispersion; random draws uniformly from [0, 1)
+export function aimFlakBurst(gun: Vector3, target: FlakTarget, random: () => number, profile: FlakProfile = FLAK_PROFILE): Vector3 {
+    const { point } = predictFlakIntercept(gun, target, profile);
+    const velocity = target.velocity;
+    const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y + velocity.z * velocity.z);
+    const dispersion = getFlakDispersion(speed, target.position.y - gun.y, profile);
+    return {
+        x: point.x + (random() * 2 - 1) * dispersion,
+        y: point.y + (random() * 2 - 1) * dispersion,
+        z: point.z + (random() * 2 - 1) * dispersion
+    };
+}
+
+// Seconds from firing to the burst at that point
+export function getFlakFuseTime(gun: Vector3, burstPoint: Vector3, profile: FlakProfile = FLAK_PROFILE): number {
+    return vector3Distance(gun, burstPoint) / profile.shellSpeed;
+}
+
+export function getFlakDamage(distance: number, profile: FlakProfile = FLAK_PROFILE): number {
+    if (distance >= profile.burstRadius) return 0;
+    return profile.maxDamage * (1 - distance / profile.burstRadius);
+}
@@ -0,0 +1,227 @@
+import { DEFAULT_LOADOUT, LoadoutSelection, WeaponLoadout } from './WeaponLoadout';
+import { MissionPlan, cloneMissionPlan, isValidMissionPlan } from './MissionPlan';
+import { GameTuning, applyTuningOverrides, validateTuning } from './GameTuning';
+
+// Bump on every change to the recording format, with a step in RECORDING_MIGRATIONS that upgrades the version before it
+export const FLIGHT_RECORDING_VERSION = 10;
+
+// Upgrades an exported recording by one version, keyed by the version it upgrades from. Most formats only added
+// optional fields, event types or input keys (appended, so older bitmasks keep their meaning), which need no change
+const RECORDING_MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+    1: data => data, // 2: bomb wind
+    2: data => data, // 3: weapon loadout
+    3: data => data, // 4: bomb variant select key
+    4: data => data, // 5: target designation events and keys
+    5: data => data, // 6: Tomahawk mission plans
+    6: data => data.loadout === undefined // 7: chaff dispenser station, chaff and ECM keys
+        ? data
+        : { ...data, loadout: { ...data.loadout, 'chaff-dispensers': DEFAULT_LOADOUT['chaff-dispensers'] } },
+    7: data => data, // 8: interceptor scrambles
+    8: data => data, // 9: flak bursts
+    9: data => data // 10: difficulty tuning
+};
+
+// Keys that influence the simulation; everything else (camera toggle, pause, time scale) stays live during playback
+export const SIMULATION_INPUT_KEYS: string[] = [
+    'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown',
+    'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight',
+    'Slash', 'Period', 'Comma', 'KeyB', 'KeyT', 'KeyG', 'KeyC', 'KeyE'
+];
+
+export interface RecordedVector {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export type FlightEventType = 'iskander-launch' | 'defense-missile-launch' | 'building-destroyed' | 'target-designated' | 'mission-planned' | 'interceptor-scramble' | 'flak-burst';
+
+export interface FlightEvent {
+    tick: number;
+    type: FlightEventType;
+    position: RecordedVector; // Launch point, or the building's position (the airbase for scrambles, flak gun for bursts, clicked target for designations)
+    target?: RecordedVector; // Aim point for defense missile launches, burst point for flak
+    plan?: MissionPlan; // Tomahawk route for mission-planned events; absent clears the plan
+}
+
+// Inputs are stored as a bitmask over SIMULATION_INPUT_KEYS, only on ticks where they change
+export interface InputChange {
+    tick: number;
+    keys: number;
+}
+
+export interface FlightRecording {
+    version: number;
+    worldSeed: number;
+    fixedTimeStep: number;
+    tickCount: number;
+    recordedAt: string;
+    wind?: RecordedVector; // Bomb ballistics wind; absent means calm
+    loadout?: LoadoutSelection; // Weapon stations; absent means the default loadout
+    tuning?: GameTuning; // Difficulty the sortie was flown at; absent means Normal
+    inputs: InputChange[];
+    events: FlightEvent[];
+}
+
+const FLIGHT_EVENT_TYPES: FlightEventType[] = ['iskander-launch', 'defense-missile-launch', 'building-destroyed', 'target-designated', 'mission-planned', 'interceptor-scramble', 'flak-burst'];
+
+// Captures one sortie: world seed, per-tick inputs and spawn/destruction events
+export class FlightRecorder {
+    private recording: FlightRecording | null = null;
+    private lastKeys: number = -1;
+
+    public start(worldSeed: number, fixedTimeStep: number, wind?: RecordedVector, loadout?: LoadoutSelection, tuning?: GameTuning): void {
+        this.recording = {
+            version: FLIGHT_RECORDING_VERSION,
+            worldSeed: worldSeed >>> 0,
+            fixedTimeStep,
+            tickCount: 0,
+            recordedAt: new Date().toISOString(),
+            inputs: [],
+            events: []
+        };
+        if (wind) {
+            this.recording.wind = FlightRecorder.toRecordedVector(wind);
+        }
+        if (loadout) {
+            this.recording.loadout = { ...loadout };
+        }
+        if (tuning) {
+            this.recording.tuning = applyTuningOverrides(tuning);
+        }
+        this.lastKeys = -1;
+    }
+
+    public stop(): void {
+        this.recording = null;
+    }
+
+    public isRecording(): boolean {
+        return this.recording !== null;
+    }
+
+    public recordTick(tick: number, keys: number): void {
+        if (!this.recording) return;
+
+        if (keys !== this.lastKeys) {
+            this.recording.inputs.push({ tick, keys });
+            this.lastKeys = keys;
+        }
+        this.recording.tickCount = Math.max(this.recording.tickCount, tick);
+    }
+
+    public recordEvent(event: FlightEvent): void {
+        if (!this.recording) return;
+        this.recording.events.push(event);
+    }
+
+    // Snapshot of everything recorded so far; safe to keep after recording continues
+    public getRecording(): FlightRecording | null {
+        if (!this.recording) return null;
+        return {
+            ...this.recording,
+            inputs: this.recording.inputs.slice(),
+            events: this.recording.events.slice()
+        };
+    }
+
+    public static encodeInputs(isKeyPressed: (key: string) => boolean): number {
+        let keys = 0;
+        SIMULATION_INPUT_KEYS.forEach((key, index) => {
+            if (isKeyPressed(key)) {
+                keys |= 1 << index;
+            }
+        });
+        return keys;
+    }
+
+    public static isKeyInMask(keys: number, key: string): boolean {
+        const index = SIMULATION_INPUT_KEYS.indexOf(key);
+        return index !== -1 && (keys & (1 << index)) !== 0;
+    }
+
+    public static toRecordedVector(vector: RecordedVector): RecordedVector {
+        return { x: vector.x, y: vector.y, z: vector.z };
+    }
+
+    public static serialize(recording: FlightRecording): string {
+        return JSON.stringify(recording);
+    }
+
+    // Parse and validate an exported recording; throws on anything this build can't replay
+    public static parse(json: string): FlightRecording {
+        let data = JSON.parse(json);
+
+        if (!data || typeof data !== 'object') {
+            throw new Error('Recording is not an object');
+        }
+        if (!Number.isInteger(data.version) || data.version < 1 || data.version > FLIGHT_RECORDING_VERSION) {
+            throw new Error(`Unsupported recording version: ${data.version}`);
+        }
+        for (let version = data.version; version < FLIGHT_RECORDING_VERSION; version++) {
+            data = RECORDING_MIGRATIONS[version](data);
+        }
+        if (typeof data.worldSeed !== 'number' || typeof data.fixedTimeStep !== 'number' || typeof data.tickCount !== 'number') {
+            throw new Error('Recording is missing seed, time step or tick count');
+        }
+        if (!Array.isArray(data.inputs) || !Array.isArray(data.events)) {
+            throw new Error('Recording is missing inputs or events');
+        }
+
+        const isVector = (value: any): boolean =>
+            value && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+
+        const inputs: InputChange[] = data.inputs.map((input: any) => {
+            if (typeof input.tick !== 'number' || typeof input.keys !== 'number') {
+                throw new Error('Malformed input entry');
+            }
+            return { tick: input.tick, keys: input.keys };
+        });
+
+        const events: FlightEvent[] = data.events.map((event: any) => {
+            if (typeof event.tick !== 'number' || !FLIGHT_EVENT_TYPES.includes(event.type) || !isVector(event.position)) {
+                throw new Error('Malformed event entry');
+            }
+            const parsed: FlightEvent = { tick: event.tick, type: event.type, position: FlightRecorder.toRecordedVector(event.position) };
+            if (isVector(event.target)) {
+                parsed.target = FlightRecorder.toRecordedVector(event.target);
+            }
+            if (event.plan !== undefined) {
+                if (!isValidMissionPlan(event.plan)) {
+                    throw new Error('Malformed mission plan');
+                }
+                parsed.plan = cloneMissionPlan(event.plan);
+            }
+            return parsed;
+        });
+
+        const recording: FlightRecording = {
+            version: FLIGHT_RECORDING_VERSION,
+            worldSeed: data.worldSeed >>> 0,
+            fixedTimeStep: data.fixedTimeStep,
+            tickCount: data.tickCount,
+            recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+            inputs: inputs.sort((a, b) => a.tick - b.tick),
+            events: events.sort((a, b) => a.tick - b.tick)
+        };
+        if (data.wind !== undefined) {
+            if (!isVector(data.wind)) {
+                throw new Error('Malformed wind');
+            }
+            recording.wind = FlightRecorder.toRecordedVector(data.wind);
+        }
+        if (data.loadout !== undefined) {
+            if (!WeaponLoadout.isValidSelection(data.loadout)) {
+                throw new Error('Malformed loadout');
+            }
+            recording.loadout = { ...data.loadout };
+        }
+        if (data.tuning !== undefined) {
+            if (validateTuning(data.tuning).length > 0) {
+                throw new Error('Malformed tuning');
+            }
+            recording.tuning = applyTuningOverrides(data.tuning);
+        }
+        return recording;
+    }
+}
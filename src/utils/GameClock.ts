@@ -0,0 +1,144 @@
+interface ScheduledTask {
+    time: number;
+    order: number;
+    callback: () => void;
+}
+
+// Fixed-step simulation clock: all gameplay timing reads this instead of wall time
+export class GameClock {
+    private fixedTimeStep: number;
+    private maxFrameTime: number = 0.25; // Cap catch-up after stalls (tab switch, breakpoints)
+    private accumulator: number = 0;
+    private simulationTime: number = 0;
+    private tick: number = 0;
+    private scheduledTasks: ScheduledTask[] = [];
+    private taskCounter: number = 0;
+    private paused: boolean = false;
+    private timeScale: number = 1;
+    private minTimeScale: number = 0.25;
+    private maxTimeScale: number = 4;
+
+    constructor(fixedTimeStep: number = 1 / 60) {
+        this.fixedTimeStep = fixedTimeStep;
+    }
+
+    // Feed real elapsed frame time (seconds) into the accumulator, scaled; nothing accumulates while paused
+    public advance(frameTime: number): void {
+        if (this.paused) return;
+        this.accumulator += Math.min(Math.max(frameTime, 0), this.maxFrameTime) * this.timeScale;
+    }
+
+    // Consume one fixed step if enough time has accumulated; runs tasks that became due
+    public consumeStep(): boolean {
+        if (this.accumulator < this.fixedTimeStep) {
+            return false;
+        }
+
+        this.accumulator -= this.fixedTimeStep;
+        this.step();
+        return true;
+    }
+
+    // Advance exactly one fixed step regardless of the accumulator
+    public step(): void {
+        this.tick++;
+        this.simulationTime = this.tick * this.fixedTimeStep; // Derived from tick count to avoid float drift
+        this.runDueTasks();
+    }
+
+    // Run a callback once the simulation reaches now() + delay (replaces setTimeout for gameplay)
+    public schedule(delay: number, callback: () => void): void {
+        this.scheduledTasks.push({
+            time: this.simulationTime + delay,
+            order: this.taskCounter++,
+            callback
+        });
+    }
+
+    private runDueTasks(): void {
+        if (this.scheduledTasks.length === 0) return;
+
+        const dueTasks = this.scheduledTasks.filter(task => task.time <= this.simulationTime);
+        if (dueTasks.length === 0) return;
+
+        this.scheduledTasks = this.scheduledTasks.filter(task => task.time > this.simulationTime);
+        dueTasks.sort((a, b) => a.time - b.time || a.order - b.order);
+        dueTasks.forEach(task => {
+            try {
+                task.callback();
+            } catch (error) {
+                // Silent error handling - no console logging
+            }
+        });
+    }
+
+    // Run every pending task now regardless of due time, so deferred cleanup isn't lost on reset
+    public flushScheduledTasks(): void {
+        let passes = 0;
+        while (this.scheduledTasks.length > 0 && passes < 10) { // Tasks may schedule follow-ups
+            const pendingTasks = this.scheduledTasks;
+            this.scheduledTasks = [];
+            pendingTasks.sort((a, b) => a.time - b.time || a.order - b.order);
+            pendingTasks.forEach(task => {
+                try {
+                    task.callback();
+                } catch (error) {
+                    // Silent error handling - no console logging
+                }
+            });
+            passes++;
+        }
+        this.scheduledTasks = [];
+    }
+
+    public pause(): void {
+        this.paused = true;
+    }
+
+    public resume(): void {
+        this.paused = false;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public setTimeScale(scale: number): void {
+        this.timeScale = Math.max(this.minTimeScale, Math.min(this.maxTimeScale, scale));
+    }
+
+    public getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    // Rate at which presentation effects (particles, animations) should run: 0 while paused
+    public getEffectiveTimeScale(): number {
+        return this.paused ? 0 : this.timeScale;
+    }
+
+    public now(): number {
+        return this.simulationTime;
+    }
+
+    public getTick(): number {
+        return this.tick;
+    }
+
+    public getFixedTimeStep(): number {
+        return this.fixedTimeStep;
+    }
+
+    // How far (0-1) rendering sits between the previous and current simulation step
+    public getInterpolationAlpha(): number {
+        return this.accumulator / this.fixedTimeStep;
+    }
+
+    public reset(): void {
+        this.accumulator = 0;
+        this.simulationTime = 0;
+        this.tick = 0;
+        this.scheduledTasks = [];
+        this.taskCounter = 0;
+        this.paused = false;
+    }
+}
@@ -0,0 +1,454 @@
+import type { BombDamageProfile, MissileDamageProfile, SnapshotBomb, SnapshotMissile } from '../workers/worker-protocol';
+import { BOMB_DAMAGE_PROFILES, MISSILE_DAMAGE_PROFILES } from './CollisionResolver';
+import { ECM_PROFILE, EcmProfile } from './EcmJammer';
+import { FLAK_PROFILE, FlakProfile } from './Flak';
+import { INTERCEPTOR_PROFILE, InterceptorProfile } from './InterceptorAI';
+import { BOMBER_RCS_PROFILE, RcsProfile } from './RadarCrossSection';
+import { SAM_RADAR_PROFILE, SamRadarProfile } from './SamFireControl';
+import { TAIL_GUN_PROFILE, TailGunProfile } from './TailGun';
+import { THREAT_DIRECTOR_PROFILE, ThreatDirectorProfile } from './ThreatDirector';
+import { WEAPON_SPECS, WeaponSpec, WeaponType } from './WeaponLoadout';
+
+export interface BomberTuning {
+    maxHealth: number;
+    speed: number; // Units per second
+    turnSpeed: number; // Radians per second
+    climbRate: number; // Units per second
+    flareLifetime: number; // Seconds
+    flareDetectionRange: number; // Iskanders this close to a flare go for it instead
+    chaffLifetime: number; // Seconds
+}
+
+export interface IskanderTuning {
+    speed: number;
+    turnRate: number;
+    lockOnDuration: number; // Seconds to lock on to the bomber or a flare
+}
+
+export interface DefenseMissileTuning {
+    speed: number;
+    turnRate: number;
+    maxLifeTime: number; // Self-destructs after this many seconds
+    chaffDetectionRange: number; // Chaff clouds this close break the missile away from the bomber
+    launchInaccuracy: number; // Launchers aim up to half this far off the bomber on each axis
+}
+
+export interface BuildingTuning {
+    maxHealth: number;
+}
+
+// Seconds before each weapon can fire again, and to restock one round in flight
+export interface WeaponTuning {
+    bombReloadTime: number;
+    clusterReloadTime: number;
+    bunkerBusterReloadTime: number;
+    tomahawkReloadTime: number;
+    flareReloadTime: number;
+    chaffReloadTime: number;
+    flareRearmInterval: number;
+    chaffRearmInterval: number;
+}
+
+export interface InterceptorScrambleTuning {
+    scrambleInterval: number; // Seconds between scrambles
+    scrambleRange: number; // Airbases this close to the bomber can launch
+    maxAirborne: number;
+    egressRange: number; // Fighters heading home are gone once this far out
+}
+
+// Every gameplay number a designer can change without a rebuild, one section per system
+export interface GameTuning {
+    bomber: BomberTuning;
+    weapons: WeaponTuning;
+    ecm: EcmProfile;
+    radarCrossSection: RcsProfile;
+    tailGun: TailGunProfile;
+    standardBombDamage: BombDamageProfile;
+    clusterBombDamage: BombDamageProfile;
+    submunitionDamage: BombDamageProfile;
+    bunkerBusterDamage: BombDamageProfile;
+    iskander: IskanderTuning;
+    iskanderDamage: MissileDamageProfile;
+    defenseMissile: DefenseMissileTuning;
+    defenseMissileDamage: MissileDamageProfile;
+    airToAirDamage: MissileDamageProfile;
+    samRadar: SamRadarProfile;
+    flak: FlakProfile;
+    interceptor: InterceptorProfile;
+    interceptorScramble: InterceptorScrambleTuning;
+    building: BuildingTuning;
+    threatDirector: ThreatDirectorProfile;
+}
+
+// What a preset or tuning file holds: any subset of sections and values, applied over Normal
+export type TuningOverrides = { [Section in keyof GameTuning]?: Partial<GameTuning[Section]> };
+
+export interface TuningLimit {
+    min: number;
+    max: number;
+    integer?: boolean;
+}
+
+type TuningLimits = { [Section in keyof GameTuning]: { [Key in keyof GameTuning[Section]]: TuningLimit } };
+
+export const DEFAULT_TUNING: GameTuning = {
+    bomber: {
+        maxHealth: 100,
+        speed: 25,
+        turnSpeed: 0.5,
+        climbRate: 20,
+        flareLifetime: 5,
+        flareDetectionRange: 80,
+        chaffLifetime: 4
+    },
+    weapons: {
+        bombReloadTime: WEAPON_SPECS.bomb.reloadTime,
+        clusterReloadTime: WEAPON_SPECS.cluster.reloadTime,
+        bunkerBusterReloadTime: WEAPON_SPECS['bunker-buster'].reloadTime,
+        tomahawkReloadTime: WEAPON_SPECS.tomahawk.reloadTime,
+        flareReloadTime: WEAPON_SPECS.flare.reloadTime,
+        chaffReloadTime: WEAPON_SPECS.chaff.reloadTime,
+        flareRearmInterval: WEAPON_SPECS.flare.rearmInterval!,
+        chaffRearmInterval: WEAPON_SPECS.chaff.rearmInterval!
+    },
+    ecm: { ...ECM_PROFILE },
+    radarCrossSection: { ...BOMBER_RCS_PROFILE },
+    tailGun: { ...TAIL_GUN_PROFILE },
+    standardBombDamage: { ...BOMB_DAMAGE_PROFILES.standard },
+    clusterBombDamage: { ...BOMB_DAMAGE_PROFILES.cluster },
+    submunitionDamage: { ...BOMB_DAMAGE_PROFILES.submunition },
+    bunkerBusterDamage: { ...BOMB_DAMAGE_PROFILES['bunker-buster'] },
+    iskander: {
+        speed: 120,
+        turnRate: 1.25,
+        lockOnDuration: 1
+    },
+    iskanderDamage: { ...MISSILE_DAMAGE_PROFILES.iskander },
+    defenseMissile: {
+        speed: 80,
+        turnRate: 0.5,
+        maxLifeTime: 10,
+        chaffDetectionRange: 60,
+        launchInaccuracy: 20
+    },
+    defenseMissileDamage: { ...MISSILE_DAMAGE_PROFILES.defense },
+    airToAirDamage: { ...MISSILE_DAMAGE_PROFILES['air-to-air'] },
+    samRadar: { ...SAM_RADAR_PROFILE },
+    flak: { ...FLAK_PROFILE },
+    interceptor: { ...INTERCEPTOR_PROFILE },
+    interceptorScramble: {
+        scrambleInterval: 25,
+        scrambleRange: 1200,
+        maxAirborne: 2,
+        egressRange: 1500
+    },
+    building: {
+        maxHealth: 100
+    },
+    threatDirector: { ...THREAT_DIRECTOR_PROFILE }
+};
+
+const DAMAGE_LIMITS: { [Key in keyof MissileDamageProfile]: TuningLimit } = {
+    directHitRadius: { min: 0, max: 50 },
+    directHitDamage: { min: 0, max: 1000 },
+    proximityRadius: { min: 0, max: 100 },
+    proximityBase: { min: 0, max: 1000 },
+    proximityMinimum: { min: 0, max: 1000 }
+};
+
+const BOMB_DAMAGE_LIMITS: { [Key in keyof BombDamageProfile]: TuningLimit } = {
+    blastRadius: { min: 1, max: 200 },
+    maxDamage: { min: 0, max: 1000 },
+    minDamage: { min: 0, max: 1000 },
+    hardenedMultiplier: { min: 0, max: 2 }
+};
+
+// Anything outside these is rejected rather than clamped, so a typo never reaches a sortie
+export const TUNING_LIMITS: TuningLimits = {
+    bomber: {
+        maxHealth: { min: 10, max: 1000 },
+        speed: { min: 5, max: 100 },
+        turnSpeed: { min: 0.1, max: 2 },
+        climbRate: { min: 1, max: 100 },
+        flareLifetime: { min: 0.5, max: 30 },
+        flareDetectionRange: { min: 0, max: 500 },
+        chaffLifetime: { min: 0.5, max: 30 }
+    },
+    weapons: {
+        bombReloadTime: { min: 0.5, max: 120 },
+        clusterReloadTime: { min: 0.5, max: 120 },
+        bunkerBusterReloadTime: { min: 0.5, max: 120 },
+        tomahawkReloadTime: { min: 0.5, max: 120 },
+        flareReloadTime: { min: 0.5, max: 120 },
+        chaffReloadTime: { min: 0.5, max: 120 },
+        flareRearmInterval: { min: 1, max: 600 },
+        chaffRearmInterval: { min: 1, max: 600 }
+    },
+    ecm: {
+        endurance: { min: 1, max: 120 },
+        rechargeTime: { min: 1, max: 600 },
+        restartCharge: { min: 0, max: 1 },
+        seekerLockFactor: { min: 0, max: 1 },
+        seekerUpdateFactor: { min: 1, max: 20 },
+        signatureFactor: { min: 1, max: 5 }
+    },
+    radarCrossSection: {
+        noseRcs: { min: 0.001, max: 10 },
+        beamRcs: { min: 0.001, max: 10 },
+        tailRcs: { min: 0.001, max: 10 },
+        bombBayRcs: { min: 0, max: 10 },
+        damageRcs: { min: 0, max: 10 }
+    },
+    tailGun: {
+        range: { min: 0, max: 1000 },
+        arc: { min: 0, max: Math.PI },
+        damagePerSecond: { min: 0, max: 500 },
+        rangeFalloff: { min: 0, max: 1 }
+    },
+    standardBombDamage: BOMB_DAMAGE_LIMITS,
+    clusterBombDamage: BOMB_DAMAGE_LIMITS,
+    submunitionDamage: BOMB_DAMAGE_LIMITS,
+    bunkerBusterDamage: BOMB_DAMAGE_LIMITS,
+    iskander: {
+        speed: { min: 20, max: 400 },
+        turnRate: { min: 0.1, max: 5 },
+        lockOnDuration: { min: 0, max: 10 }
+    },
+    iskanderDamage: DAMAGE_LIMITS,
+    defenseMissile: {
+        speed: { min: 20, max: 300 },
+        turnRate: { min: 0.05, max: 5 },
+        maxLifeTime: { min: 1, max: 60 },
+        chaffDetectionRange: { min: 0, max: 300 },
+        launchInaccuracy: { min: 0, max: 200 }
+    },
+    defenseMissileDamage: DAMAGE_LIMITS,
+    airToAirDamage: DAMAGE_LIMITS,
+    samRadar: {
+        searchRange: { min: 50, max: 2000 },
+        clutterAltitude: { min: 1, max: 500 },
+        minClutterFactor: { min: 0, max: 1 },
+        trackTime: { min: 0, max: 30 },
+        lockTime: { min: 0, max: 30 },
+        trackMemory: { min: 0, max: 30 },
+        launchInterval: { min: 0.5, max: 120 },
+        jammedTimeFactor: { min: 1, max: 10 }
+    },
+    flak: {
+        range: { min: 50, max: 2000 },
+        ceiling: { min: 10, max: 1000 },
+        shellSpeed: { min: 50, max: 2000 },
+        fireInterval: { min: 0.1, max: 30 },
+        baseDispersion: { min: 0, max: 100 },
+        speedDispersion: { min: 0, max: 5 },
+        altitudeDispersion: { min: 0, max: 2 },
+        burstRadius: { min: 1, max: 200 },
+        maxDamage: { min: 0, max: 200 }
+    },
+    interceptor: {
+        maxSpeed: { min: 10, max: 300 },
+        minSpeed: { min: 5, max: 300 },
+        acceleration: { min: 0, max: 100 },
+        maxTurnRate: { min: 0.05, max: 5 },
+        cornerSpeed: { min: 5, max: 300 },
+        turnDrag: { min: 0, max: 100 },
+        maxClimbAngle: { min: 0, max: Math.PI / 2 },
+        pitchRate: { min: 0.05, max: 5 },
+        minAltitude: { min: 0, max: 200 },
+        leadTimeLimit: { min: 0, max: 20 },
+        missileRange: { min: 0, max: 2000 },
+        minMissileRange: { min: 0, max: 500 },
+        missileConeAngle: { min: 0, max: Math.PI / 2 },
+        missileInterval: { min: 0.5, max: 120 },
+        missiles: { min: 0, max: 10, integer: true }
+    },
+    interceptorScramble: {
+        scrambleInterval: { min: 1, max: 600 },
+        scrambleRange: { min: 100, max: 5000 },
+        maxAirborne: { min: 0, max: 10, integer: true },
+        egressRange: { min: 100, max: 10000 }
+    },
+    building: {
+        maxHealth: { min: 1, max: 10000 }
+    },
+    threatDirector: {
+        firstSalvoDelay: { min: 0, max: 600 },
+        minInterval: { min: 1, max: 600 },
+        maxInterval: { min: 1, max: 600 },
+        intervalJitter: { min: 0, max: 5 },
+        basePressure: { min: 0, max: 1 },
+        pressurePerTarget: { min: 0, max: 1 },
+        maxTargetPressure: { min: 0, max: 1 },
+        pressurePerMinute: { min: 0, max: 1 },
+        maxTimePressure: { min: 0, max: 1 },
+        healthPressure: { min: 0, max: 1 },
+        pressurePerDefense: { min: 0, max: 1 },
+        maxDefensePressure: { min: 0, max: 1 },
+        minSalvo: { min: 0, max: 10, integer: true },
+        maxSalvo: { min: 1, max: 10, integer: true },
+        salvoSpacing: { min: 0, max: 10 },
+        bigHitDamage: { min: 0.01, max: 1 },
+        bigHitWindow: { min: 0, max: 60 },
+        reliefTime: { min: 0, max: 600 },
+        retryDelay: { min: 0.1, max: 60 },
+        minLaunchRange: { min: 0, max: 5000 },
+        maxLaunchRange: { min: 100, max: 5000 }
+    }
+};
+
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'custom';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'custom'];
+
+// Custom has no preset: it is whatever tuning file was loaded last
+export const DIFFICULTY_PRESETS: Record<Exclude<Difficulty, 'custom'>, TuningOverrides> = {
+    easy: {
+        bomber: { maxHealth: 150, flareDetectionRange: 100 },
+        weapons: { flareReloadTime: 6, chaffReloadTime: 5, flareRearmInterval: 20, chaffRearmInterval: 20 },
+        ecm: { endurance: 20, rechargeTime: 25 },
+        tailGun: { damagePerSecond: 40 },
+        iskanderDamage: { directHitDamage: 35, proximityBase: 28, proximityMinimum: 7 },
+        defenseMissile: { chaffDetectionRange: 75, launchInaccuracy: 30 },
+        defenseMissileDamage: { directHitDamage: 18, proximityBase: 14 },
+        airToAirDamage: { directHitDamage: 20, proximityBase: 14 },
+        samRadar: { trackTime: 2, lockTime: 2, launchInterval: 11 },
+        flak: { fireInterval: 1.5, maxDamage: 9 },
+        interceptor: { missileInterval: 8 },
+        interceptorScramble: { scrambleInterval: 35, maxAirborne: 1 },
+        threatDirector: { firstSalvoDelay: 20, minInterval: 25, maxInterval: 50, maxSalvo: 2, reliefTime: 20 }
+    },
+    normal: {},
+    hard: {
+        bomber: { maxHealth: 80, flareDetectionRange: 65 },
+        weapons: { flareReloadTime: 10, chaffReloadTime: 8, flareRearmInterval: 40, chaffRearmInterval: 40 },
+        ecm: { endurance: 12, rechargeTime: 40 },
+        radarCrossSection: { bombBayRcs: 1.5 },
+        tailGun: { damagePerSecond: 25 },
+        iskander: { lockOnDuration: 0.75 },
+        iskanderDamage: { directHitDamage: 65, proximityBase: 50, proximityMinimum: 15 },
+        defenseMissile: { speed: 90, chaffDetectionRange: 50, launchInaccuracy: 12 },
+        defenseMissileDamage: { directHitDamage: 30, proximityBase: 25 },
+        airToAirDamage: { directHitDamage: 35, proximityBase: 25 },
+        samRadar: { searchRange: 360, trackTime: 1, lockTime: 1, launchInterval: 6 },
+        flak: { fireInterval: 1, baseDispersion: 4, maxDamage: 15 },
+        interceptor: { maxSpeed: 80, missileInterval: 5 },
+        interceptorScramble: { scrambleInterval: 20, maxAirborne: 3 },
+        building: { maxHealth: 130 },
+        threatDirector: { firstSalvoDelay: 6, minInterval: 10, maxInterval: 30, maxSalvo: 4, reliefTime: 8 }
+    }
+};
+
+// Values from overrides replace those in base; unknown sections and keys are left out
+export function applyTuningOverrides(overrides: TuningOverrides, base: GameTuning = DEFAULT_TUNING): GameTuning {
+    const tuning = {} as Record<string, Record<string, number>>;
+    (Object.keys(base) as Array<keyof GameTuning>).forEach(section => {
+        const values: Record<string, number> = { ...base[section] };
+        const sectionOverrides = (overrides[section] ?? {}) as Record<string, number>;
+        Object.keys(values).forEach(key => {
+            if (sectionOverrides[key] !== undefined) {
+                values[key] = sectionOverrides[key];
+            }
+        });
+        tuning[section] = values;
+    });
+    return tuning as unknown as GameTuning;
+}
+
+export function getDifficultyTuning(difficulty: Exclude<Difficulty, 'custom'>): GameTuning {
+    return applyTuningOverrides(DIFFICULTY_PRESETS[difficulty]);
+}
+
+// The loadout's weapon table with the tuned reload and rearm times; rounds and salvos stay as built
+export function getWeaponSpecs(weapons: WeaponTuning): Record<WeaponType, WeaponSpec> {
+    return {
+        bomb: { ...WEAPON_SPECS.bomb, reloadTime: weapons.bombReloadTime },
+        cluster: { ...WEAPON_SPECS.cluster, reloadTime: weapons.clusterReloadTime },
+        'bunker-buster': { ...WEAPON_SPECS['bunker-buster'], reloadTime: weapons.bunkerBusterReloadTime },
+        tomahawk: { ...WEAPON_SPECS.tomahawk, reloadTime: weapons.tomahawkReloadTime },
+        flare: { ...WEAPON_SPECS.flare, reloadTime: weapons.flareReloadTime, rearmInterval: weapons.flareRearmInterval },
+        chaff: { ...WEAPON_SPECS.chaff, reloadTime: weapons.chaffReloadTime, rearmInterval: weapons.chaffRearmInterval }
+    };
+}
+
+// Per-kind damage tables in the shape collision snapshots carry
+export function getBombDamageProfiles(tuning: GameTuning): Record<SnapshotBomb['kind'], BombDamageProfile> {
+    return {
+        standard: tuning.standardBombDamage,
+        cluster: tuning.clusterBombDamage,
+        submunition: tuning.submunitionDamage,
+        'bunker-buster': tuning.bunkerBusterDamage
+    };
+}
+
+export function getMissileDamageProfiles(tuning: GameTuning): Record<SnapshotMissile['kind'], MissileDamageProfile> {
+    return {
+        iskander: tuning.iskanderDamage,
+        defense: tuning.defenseMissileDamage,
+        'air-to-air': tuning.airToAirDamage
+    };
+}
+
+// Every problem with a set of overrides, as readable messages; empty when they can be applied over base
+export function validateTuning(data: unknown, base: GameTuning = DEFAULT_TUNING): string[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return ['Tuning is not an object'];
+    }
+
+    const problems: string[] = [];
+    Object.entries(data as Record<string, unknown>).forEach(([section, values]) => {
+        if (!(section in TUNING_LIMITS)) {
+            problems.push(`Unknown section "${section}"`);
+            return;
+        }
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            problems.push(`Section "${section}" is not an object`);
+            return;
+        }
+        const limits = TUNING_LIMITS[section as keyof GameTuning] as Record<string, TuningLimit>;
+        Object.entries(values as Record<string, unknown>).forEach(([key, value]) => {
+            const limit = limits[key];
+            const name = `${section}.${key}`;
+            if (!limit) {
+                problems.push(`Unknown value "${name}"`);
+            } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+                problems.push(`${name} is not a number`);
+            } else if (value < limit.min || value > limit.max) {
+                problems.push(`${name} is ${value}, outside ${limit.min}-${limit.max}`);
+            } else if (limit.integer && !Number.isInteger(value)) {
+                problems.push(`${name} must be a whole number`);
+            }
+        });
+    });
+    if (problems.length > 0) return problems;
+
+    // Values that are fine alone but not together
+    const merged = applyTuningOverrides(data as TuningOverrides, base);
+    const director = merged.threatDirector;
+    if (director.minInterval > director.maxInterval) {
+        problems.push('threatDirector.minInterval is above maxInterval');
+    }
+    if (director.minSalvo > director.maxSalvo) {
+        problems.push('threatDirector.minSalvo is above maxSalvo');
+    }
+    if (director.minLaunchRange > director.maxLaunchRange) {
+        problems.push('threatDirector.minLaunchRange is above maxLaunchRange');
+    }
+    const interceptor = merged.interceptor;
+    if (interceptor.minSpeed > interceptor.maxSpeed) {
+        problems.push('interceptor.minSpeed is above maxSpeed');
+    }
+    if (interceptor.minMissileRange > interceptor.missileRange) {
+        problems.push('interceptor.minMissileRange is above missileRange');
+    }
+    return problems;
+}
+
+// Parse a tuning file; throws with every problem found so a designer can fix them in one go
+export function parseTuning(json: string, base: GameTuning = DEFAULT_TUNING): GameTuning {
+    const data = JSON.parse(json);
+    const problems = validateTuning(data, base);
+    if (problems.length > 0) {
+        throw new Error(problems.join('; '));
+    }
+    return applyTuningOverrides(data, base);
+}
@@ -0,0 +1,165 @@
+import { Vector3 } from '../workers/worker-utils';
+
+export interface InterceptorProfile {
+    maxSpeed: number;
+    minSpeed: number; // Never slower than this; stalled fighters are still flying
+    acceleration: number; // Full throttle, in level flight with no turn
+    maxTurnRate: number; // Radians per second at corner speed...
+    cornerSpeed: number; // ...falling off above it (g-limited) and below it (lift-limited)
+    turnDrag: number; // Speed lost per second per radian per second of turn
+    maxClimbAngle: number;
+    pitchRate: number; // Radians per second
+    minAltitude: number; // Pulls up when closer than this to the ground
+    leadTimeLimit: number; // Longest lead the pursuit aims ahead of the target
+    missileRange: number;
+    minMissileRange: number; // Too close for the seeker to be launched
+    missileConeAngle: number; // Target must be within this angle of the nose
+    missileInterval: number; // Seconds between shots
+    missiles: number;
+}
+
+export const INTERCEPTOR_PROFILE: InterceptorProfile = {
+    maxSpeed: 70,
+    minSpeed: 35,
+    acceleration: 12,
+    maxTurnRate: 0.8,
+    cornerSpeed: 50,
+    turnDrag: 20,
+    maxClimbAngle: Math.PI / 6,
+    pitchRate: 0.6,
+    minAltitude: 25,
+    leadTimeLimit: 3,
+    missileRange: 250,
+    minMissileRange: 40,
+    missileConeAngle: Math.PI / 8,
+    missileInterval: 6,
+    missiles: 2
+};
+
+const GRAVITY = 9.81; // Climbing bleeds speed and diving gains it
+
+// Pursuing the bomber until the missiles are gone, then heading home
+export type InterceptorMode = 'pursuit' | 'egress';
+
+export interface InterceptorState {
+    position: Vector3;
+    heading: number; // Yaw, 0 along +z like the bomber
+    pitch: number; // Positive climbs
+    speed: number;
+    missilesLeft: number;
+    lastMissileTime: number;
+    mode: InterceptorMode;
+}
+
+export interface InterceptorTarget {
+    position: Vector3;
+    velocity: Vector3;
+}
+
+export interface InterceptorStep {
+    state: InterceptorState;
+    fireMissile: boolean; // A missile left the rail during this step
+}
+
+// Turn rate peaks at corner speed: slower runs out of lift, faster runs into the g limit
+export function getMaxTurnRate(speed: number, profile: InterceptorProfile = INTERCEPTOR_PROFILE): number {
+    return profile.maxTurnRate * Math.min(speed / profile.cornerSpeed, profile.cornerSpeed / speed);
+}
+
+export function getInterceptorVelocity(state: InterceptorState): Vector3 {
+    const horizontalSpeed = Math.cos(state.pitch) * state.speed;
+    return {
+        x: Math.sin(state.heading) * horizontalSpeed,
+        y: Math.sin(state.pitch) * state.speed,
+        z: Math.cos(state.heading) * horizontalSpeed
+    };
+}
+
+// Angle between the nose and the line to a point
+export function getOffBoresightAngle(state: InterceptorState, point: Vector3): number {
+    const velocity = getInterceptorVelocity(state);
+    const dx = point.x - state.position.x;
+    const dy = point.y - state.position.y;
+    const dz = point.z - state.position.z;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (distance < 1e-6 || state.speed < 1e-6) return 0;
+
+    const cosine = (velocity.x * dx + velocity.y * dy + velocity.z * dz) / (distance * state.speed);
+    return Math.acos(Math.max(-1, Math.min(1, cosine)));
+}
+
+// One tick of lead pursuit: turn and pitch toward where the target will be, limited by the energy the fighter has.
+// Launches when the target sits inside the missile envelope; with the rails empty it turns away and egresses.
+export function stepInterceptor(
+    current: InterceptorState,
+    target: InterceptorTarget,
+    groundHeight: number,
+    currentTime: number,
+    deltaTime: number,
+    profile: InterceptorProfile = INTERCEPTOR_PROFILE
+): InterceptorStep {
+    const state: InterceptorState = { ...current, position: { ...current.position } };
+
+    const toTarget = {
+        x: target.position.x - state.position.x,
+        y: target.position.y - state.position.y,
+        z: target.position.z - state.position.z
+    };
+    const distance = Math.sqrt(toTarget.x * toTarget.x + toTarget.y * toTarget.y + toTarget.z * toTarget.z);
+
+    let desiredHeading: number;
+    let desiredPitch: number;
+    if (state.mode === 'pursuit') {
+        const leadTime = Math.min(profile.leadTimeLimit, distance / Math.max(state.speed, 1));
+        const aimX = toTarget.x + target.velocity.x * leadTime;
+        const aimY = toTarget.y + target.velocity.y * leadTime;
+        const aimZ = toTarget.z + target.velocity.z * leadTime;
+        desiredHeading = Math.atan2(aimX, aimZ);
+        desiredPitch = Math.atan2(aimY, Math.sqrt(aimX * aimX + aimZ * aimZ));
+    } else {
+        desiredHeading = Math.atan2(-toTarget.x, -toTarget.z); // Straight away from the bomber
+        desiredPitch = 0;
+    }
+
+    // Terrain always wins over the chase
+    if (state.position.y - groundHeight < profile.minAltitude) {
+        desiredPitch = profile.maxClimbAngle;
+    }
+    desiredPitch = Math.max(-profile.maxClimbAngle, Math.min(profile.maxClimbAngle, desiredPitch));
+
+    const headingError = Math.atan2(Math.sin(desiredHeading - state.heading), Math.cos(desiredHeading - state.heading));
+    const maxTurn = getMaxTurnRate(state.speed, profile) * deltaTime;
+    const turn = Math.max(-maxTurn, Math.min(maxTurn, headingError));
+    state.heading = Math.atan2(Math.sin(state.heading + turn), Math.cos(state.heading + turn));
+
+    const maxPitchChange = profile.pitchRate * deltaTime;
+    state.pitch += Math.max(-maxPitchChange, Math.min(maxPitchChange, desiredPitch - state.pitch));
+
+    // Energy: throttle against the drag of turning and the pull of gravity
+    const turnRate = deltaTime > 0 ? Math.abs(turn) / deltaTime : 0;
+    const speedChange = profile.acceleration - profile.turnDrag * turnRate - GRAVITY * Math.sin(state.pitch);
+    state.speed = Math.max(profile.minSpeed, Math.min(profile.maxSpeed, state.speed + speedChange * deltaTime));
+
+    const velocity = getInterceptorVelocity(state);
+    state.position.x += velocity.x * deltaTime;
+    state.position.y = Math.max(groundHeight, state.position.y + velocity.y * deltaTime);
+    state.position.z += velocity.z * deltaTime;
+
+    let fireMissile = false;
+    if (state.mode === 'pursuit' &&
+        state.missilesLeft > 0 &&
+        currentTime - state.lastMissileTime >= profile.missileInterval &&
+        distance <= profile.missileRange &&
+        distance >= profile.minMissileRange &&
+        getOffBoresightAngle(state, target.position) <= profile.missileConeAngle) {
+        fireMissile = true;
+        state.missilesLeft--;
+        state.lastMissileTime = currentTime;
+    }
+
+    if (state.missilesLeft === 0) {
+        state.mode = 'egress';
+    }
+
+    return { state, fireMissile };
+}
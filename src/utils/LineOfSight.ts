@@ -0,0 +1,122 @@
+import type { BoundingBox, LineOfSightBatch, LineOfSightResult } from '../workers/worker-protocol';
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+import { TerrainGenerator } from './TerrainGenerator';
+
+export const LINE_OF_SIGHT_SAMPLE_SPACING = 5; // Terrain is sampled this often along a ray (a tenth of a heightmap cell)
+const REFINE_STEPS = 8; // Bisections that pin a terrain hit down between two samples
+
+const VISIBLE: LineOfSightResult = { visible: true, occludingPoint: null, occluder: null };
+
+// Ray-march from one point to another over the terrain and through building boxes; the nearest blocker wins.
+// Boxes holding either end are ignored so a radar on a roof or a point on a building's top can still be seen.
+export function traceLineOfSight(
+    from: Vector3,
+    to: Vector3,
+    getGroundHeight: (x: number, z: number) => number,
+    buildings: BoundingBox[] = [],
+    sampleSpacing: number = LINE_OF_SIGHT_SAMPLE_SPACING
+): LineOfSightResult {
+    let hitFraction = Infinity;
+    let occluder: LineOfSightResult['occluder'] = null;
+
+    const terrainFraction = findTerrainHit(from, to, getGroundHeight, sampleSpacing);
+    if (terrainFraction !== null) {
+        hitFraction = terrainFraction;
+        occluder = 'terrain';
+    }
+
+    for (const bounds of buildings) {
+        if (containsPoint(bounds, from) || containsPoint(bounds, to)) continue;
+        const entryFraction = intersectSegment(from, to, bounds);
+        if (entryFraction !== null && entryFraction < hitFraction) {
+            hitFraction = entryFraction;
+            occluder = 'building';
+        }
+    }
+
+    if (occluder === null) return { ...VISIBLE };
+
+    const occludingPoint = pointAlong(from, to, hitFraction);
+    if (occluder === 'terrain') {
+        occludingPoint.y = getGroundHeight(occludingPoint.x, occludingPoint.z);
+    }
+    return { visible: false, occludingPoint, occluder };
+}
+
+// Worker entry point: rebuild the terrain the batch carries and trace every query against it
+export function traceLineOfSightBatch(batch: LineOfSightBatch): LineOfSightResult[] {
+    const generator = new TerrainGenerator(batch.seed, batch.chunkSize, batch.subdivisions);
+    const heightmaps = new Map<string, Float32Array>();
+    batch.heightmaps.forEach(heightmap => heightmaps.set(`${heightmap.chunkX}_${heightmap.chunkZ}`, heightmap.heights));
+    const getGroundHeight = (x: number, z: number) => generator.sampleHeight(heightmaps, x, z);
+
+    return batch.queries.map(query => traceLineOfSight(query.from, query.to, getGroundHeight, batch.buildings));
+}
+
+// Fraction along the ray where the ground first rises above it, or null when it stays clear
+function findTerrainHit(
+    from: Vector3,
+    to: Vector3,
+    getGroundHeight: (x: number, z: number) => number,
+    sampleSpacing: number
+): number | null {
+    const isBelowGround = (fraction: number) => {
+        const point = pointAlong(from, to, fraction);
+        return getGroundHeight(point.x, point.z) > point.y;
+    };
+
+    const samples = Math.ceil(vector3Distance(from, to) / sampleSpacing);
+    for (let sample = 1; sample < samples; sample++) {
+        const fraction = sample / samples;
+        if (!isBelowGround(fraction)) continue;
+
+        let clear = (sample - 1) / samples;
+        let blocked = fraction;
+        for (let step = 0; step < REFINE_STEPS; step++) {
+            const middle = (clear + blocked) / 2;
+            if (isBelowGround(middle)) {
+                blocked = middle;
+            } else {
+                clear = middle;
+            }
+        }
+        return blocked;
+    }
+    return null;
+}
+
+// Slab test: fraction along the segment where it enters the box, or null when it misses
+function intersectSegment(from: Vector3, to: Vector3, bounds: BoundingBox): number | null {
+    let entry = 0;
+    let exit = 1;
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+        const delta = to[axis] - from[axis];
+        if (Math.abs(delta) < 1e-9) {
+            if (from[axis] < bounds.min[axis] || from[axis] > bounds.max[axis]) return null;
+            continue;
+        }
+
+        let near = (bounds.min[axis] - from[axis]) / delta;
+        let far = (bounds.max[axis] - from[axis]) / delta;
+        if (near > far) [near, far] = [far, near];
+        entry = Math.max(entry, near);
+        exit = Math.min(exit, far);
+        if (entry > exit) return null;
+    }
+    return entry;
+}
+
+function containsPoint(bounds: BoundingBox, point: Vector3): boolean {
+    return point.x >= bounds.min.x && point.x <= bounds.max.x &&
+        point.y >= bounds.min.y && point.y <= bounds.max.y &&
+        point.z >= bounds.min.z && point.z <= bounds.max.z;
+}
+
+function pointAlong(from: Vector3, to: Vector3, fraction: number): Vector3 {
+    return {
+        x: from.x + (to.x - from.x) * fraction,
+        y: from.y + (to.y - from.y) * fraction,
+        z: from.z + (to.z - from.z) * fraction
+    };
+}
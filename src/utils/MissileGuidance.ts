@@ -0,0 +1,275 @@
+import type {
+    AirToAirGuidanceState,
+    DefenseGuidanceState,
+    IskanderGuidanceState,
+    MissileGuidanceBatch,
+    MissileGuidanceBatchResult,
+    MissileGuidanceResult,
+    TomahawkGuidanceState
+} from '../workers/worker-protocol';
+import { Vector3, vector3Distance, vector3Lerp, vector3Normalize, vector3Scale, vector3Subtract } from '../workers/worker-utils';
+import { getRoutePosition } from './MissionPlan';
+
+const DETONATION_DISTANCE = 5; // Missiles this close to their aim point detonate
+
+// Tomahawk curved path tuning
+const TOMAHAWK_LAUNCH_DURATION = 1; // Seconds after release before guided flight begins
+const TOMAHAWK_CURVE_AMPLITUDE = 0.15; // Fraction of the path length
+const TOMAHAWK_MAX_HEIGHT_VARIATION = 15;
+const TOMAHAWK_MAX_CLIMB = 10; // Never more than this above the launch altitude
+const TOMAHAWK_ALTITUDE_CEILING = 90; // Stay well below the bomber
+const TOMAHAWK_SEGMENT_SIZE = 0.2; // Orientation is refreshed around each fifth of the path
+const TOMAHAWK_ORIENTATION_THRESHOLD = 0.15;
+const TOMAHAWK_ORIENTATION_INTERVAL = 0.2;
+const TOMAHAWK_LOOK_AHEAD = 0.4;
+
+// Pure function of the batch, run by the missile physics worker and by MissileGuidanceManager's synchronous fallback
+export function stepMissileGuidance(batch: MissileGuidanceBatch): MissileGuidanceBatchResult {
+    return {
+        tick: batch.tick,
+        results: batch.missiles.map(missile => {
+            switch (missile.missileType) {
+                case 'tomahawk':
+                    return stepTomahawk(missile, batch.deltaTime);
+                case 'defense':
+                    return stepDefenseMissile(missile, batch);
+                case 'iskander':
+                    return stepIskander(missile, batch);
+                case 'air-to-air':
+                    return stepAirToAir(missile, batch);
+            }
+        })
+    };
+}
+
+export function getTomahawkPathPosition(waypoints: Vector3[], t: number): Vector3 {
+    if (waypoints.length < 2) return waypoints[0] || { x: 0, y: 0, z: 0 };
+
+    // Planned routes are already shaped and terrain-following; fly them as laid out
+    if (waypoints.length > 2) return getRoutePosition(waypoints, t);
+
+    const startPos = waypoints[0];
+    const endPos = waypoints[1];
+    const basePos = vector3Lerp(startPos, endPos, t);
+
+    // Winding curve that stays low to the ground
+    const curveAmplitude = vector3Distance(startPos, endPos) * TOMAHAWK_CURVE_AMPLITUDE;
+    const curveX = Math.sin(t * Math.PI * 2) * curveAmplitude;
+    const curveZ = Math.cos(t * Math.PI * 1.5) * curveAmplitude;
+    const curveY = Math.sin(t * Math.PI) * TOMAHAWK_MAX_HEIGHT_VARIATION;
+
+    return {
+        x: basePos.x + curveX,
+        y: Math.min(basePos.y + curveY, startPos.y + TOMAHAWK_MAX_CLIMB, TOMAHAWK_ALTITUDE_CEILING),
+        z: basePos.z + curveZ
+    };
+}
+
+function stepTomahawk(missile: TomahawkGuidanceState, deltaTime: number): MissileGuidanceResult {
+    const state: TomahawkGuidanceState = { ...missile, position: { ...missile.position }, velocity: { ...missile.velocity }, rotation: { ...missile.rotation } };
+    state.flightTime += deltaTime;
+
+    // Guided flight restarts the path from wherever the launch left the missile
+    let orientedThisStep = false;
+    if (!state.guidedFlightStarted && state.flightTime >= TOMAHAWK_LAUNCH_DURATION) {
+        state.guidedFlightStarted = true;
+        state.pathTime = 0;
+        state.lastOrientationUpdateTime = state.flightTime;
+        const firstCurvePoint = getTomahawkPathPosition(state.waypoints, 0.1);
+        state.velocity = vector3Scale(vector3Normalize(vector3Subtract(firstCurvePoint, state.position)), state.speed);
+        orientTomahawkToLookAhead(state);
+        orientedThisStep = true;
+    }
+
+    state.pathTime += deltaTime * state.pathSpeed;
+
+    // Look ahead along the curve around segment boundaries instead of following the velocity
+    const segmentProgress = (state.pathTime % TOMAHAWK_SEGMENT_SIZE) / TOMAHAWK_SEGMENT_SIZE;
+    if ((segmentProgress <= TOMAHAWK_ORIENTATION_THRESHOLD || segmentProgress >= 0.9) &&
+        state.flightTime - state.lastOrientationUpdateTime > TOMAHAWK_ORIENTATION_INTERVAL) {
+        orientTomahawkToLookAhead(state);
+        state.lastOrientationUpdateTime = state.flightTime;
+        orientedThisStep = true;
+    }
+
+    if (state.pathTime <= 1.0) {
+        const pathPosition = getTomahawkPathPosition(state.waypoints, state.pathTime);
+        const desiredVelocity = vector3Scale(vector3Normalize(vector3Subtract(pathPosition, state.position)), state.speed);
+        steerToward(state.velocity, desiredVelocity, state.turnRate * deltaTime);
+    } else {
+        // Head straight for the target once the curve is complete
+        state.velocity = vector3Scale(vector3Normalize(vector3Subtract(state.targetPosition, state.position)), state.speed);
+    }
+
+    if (!orientedThisStep) {
+        faceDirection(state.rotation, state.velocity, false);
+    }
+
+    advance(state.position, state.velocity, deltaTime);
+
+    return {
+        state,
+        shouldExplode: vector3Distance(state.position, state.targetPosition) <= DETONATION_DISTANCE || state.position.y <= 0,
+        lockEstablished: false
+    };
+}
+
+function orientTomahawkToLookAhead(state: TomahawkGuidanceState): void {
+    const lookAheadPosition = getTomahawkPathPosition(state.waypoints, Math.min(state.pathTime + TOMAHAWK_LOOK_AHEAD, 1.0));
+    faceDirection(state.rotation, vector3Subtract(lookAheadPosition, state.position), false);
+}
+
+// Defense missiles fly straight: one correction after launch, then a fixed heading until they burn out.
+// A chaff cloud in range seduces them for good; they steer into it and detonate there.
+function stepDefenseMissile(missile: DefenseGuidanceState, batch: MissileGuidanceBatch): MissileGuidanceResult {
+    const deltaTime = batch.deltaTime;
+    const state: DefenseGuidanceState = { ...missile, position: { ...missile.position }, velocity: { ...missile.velocity }, rotation: { ...missile.rotation } };
+    state.lifeTime += deltaTime;
+    advance(state.position, state.velocity, deltaTime);
+
+    const chaff = findClosest(state.position, batch.chaff, state.chaffDetectionRange);
+    if (chaff) {
+        state.targetPosition = { ...chaff };
+        state.isTargetingChaff = true;
+    }
+
+    if (!state.targetSet) {
+        state.velocity = vector3Scale(vector3Normalize(vector3Subtract(state.targetPosition, state.position)), state.speed);
+        faceDirection(state.rotation, state.velocity, true);
+        state.targetSet = true;
+    } else if (state.commandGuided || state.isTargetingChaff) {
+        // Steered toward the radar's latest fix or the chaff; without either the missile holds its heading
+        const desiredVelocity = vector3Scale(vector3Normalize(vector3Subtract(state.targetPosition, state.position)), state.speed);
+        steerToward(state.velocity, desiredVelocity, state.turnRate * deltaTime);
+        faceDirection(state.rotation, state.velocity, true);
+    }
+
+    return {
+        state,
+        shouldExplode: vector3Distance(state.position, state.targetPosition) < DETONATION_DISTANCE || state.lifeTime > state.maxLifeTime,
+        lockEstablished: false
+    };
+}
+
+// Iskanders chase the bomber, refreshing its position periodically, unless a flare is closer.
+// Without line of sight the seeker flies on to where it last saw the bomber and can't lock; a small signature locks slowly.
+// Jamming slows the lock further and leaves the seeker with staler fixes.
+function stepIskander(missile: IskanderGuidanceState, batch: MissileGuidanceBatch): MissileGuidanceResult {
+    const deltaTime = batch.deltaTime;
+    const state: IskanderGuidanceState = { ...missile, position: { ...missile.position }, velocity: { ...missile.velocity }, rotation: { ...missile.rotation } };
+
+    const targetUpdateInterval = state.targetUpdateInterval * (state.bomberJamming ? batch.ecm.seekerUpdateFactor : 1);
+    if (batch.currentTime - state.lastTargetUpdateTime > targetUpdateInterval) {
+        if (!state.isTargetingFlare && state.bomberVisible) {
+            state.targetPosition = { ...batch.bomberPosition };
+        }
+        state.lastTargetUpdateTime = batch.currentTime;
+    }
+
+    const closestFlare = findClosest(state.position, batch.flares, state.flareDetectionRange);
+    if (closestFlare) {
+        state.targetPosition = { ...closestFlare };
+        state.isTargetingFlare = true;
+    } else if (state.isTargetingFlare) {
+        state.targetPosition = { ...batch.bomberPosition };
+        state.isTargetingFlare = false;
+    }
+
+    const directionToTarget = vector3Normalize(vector3Subtract(state.targetPosition, state.position));
+    steerToward(state.velocity, vector3Scale(directionToTarget, state.speed), state.turnRate * deltaTime);
+
+    // Never stall
+    const velocity = state.velocity;
+    if (velocity.x * velocity.x + velocity.y * velocity.y + velocity.z * velocity.z < state.speed * 0.1) {
+        state.velocity = vector3Scale(directionToTarget, state.speed * 0.5);
+    }
+
+    faceDirection(state.rotation, state.velocity, false);
+    advance(state.position, state.velocity, deltaTime);
+
+    let lockEstablished = false;
+    if (!state.isLockedOn && state.bomberVisible) {
+        const jammingFactor = state.bomberJamming ? batch.ecm.seekerLockFactor : 1;
+        state.lockOnTime += deltaTime * state.bomberSignature * jammingFactor; // A stealthier aspect takes longer to lock
+        if (state.lockOnTime >= state.lockOnDuration) {
+            state.isLockedOn = true;
+            lockEstablished = true;
+        }
+    }
+
+    return {
+        state,
+        shouldExplode: vector3Distance(state.position, state.targetPosition) <= DETONATION_DISTANCE || state.position.y <= 0,
+        lockEstablished
+    };
+}
+
+// Interceptor-launched heat seekers chase the bomber every tick until they burn out.
+// A flare in range pulls the seeker off for good: unlike an Iskander it never reacquires the bomber.
+function stepAirToAir(missile: AirToAirGuidanceState, batch: MissileGuidanceBatch): MissileGuidanceResult {
+    const deltaTime = batch.deltaTime;
+    const state: AirToAirGuidanceState = { ...missile, position: { ...missile.position }, velocity: { ...missile.velocity }, rotation: { ...missile.rotation } };
+    state.lifeTime += deltaTime;
+
+    const flare = findClosest(state.position, batch.flares, state.flareDetectionRange);
+    if (flare) {
+        state.targetPosition = { ...flare };
+        state.isTargetingFlare = true;
+    } else if (!state.isTargetingFlare) {
+        state.targetPosition = { ...batch.bomberPosition };
+    }
+
+    const desiredVelocity = vector3Scale(vector3Normalize(vector3Subtract(state.targetPosition, state.position)), state.speed);
+    steerToward(state.velocity, desiredVelocity, state.turnRate * deltaTime);
+    faceDirection(state.rotation, state.velocity, false);
+    advance(state.position, state.velocity, deltaTime);
+
+    return {
+        state,
+        shouldExplode: vector3Distance(state.position, state.targetPosition) <= DETONATION_DISTANCE ||
+            state.lifeTime > state.maxLifeTime || state.position.y <= 0,
+        lockEstablished: false
+    };
+}
+
+// Nearest decoy within range of the missile, or null
+function findClosest(position: Vector3, decoys: Vector3[], range: number): Vector3 | null {
+    let closest: Vector3 | null = null;
+    let closestDistance = Infinity;
+    for (const decoy of decoys) {
+        const distance = vector3Distance(position, decoy);
+        if (distance <= range && distance < closestDistance) {
+            closest = decoy;
+            closestDistance = distance;
+        }
+    }
+    return closest;
+}
+
+function steerToward(velocity: Vector3, desiredVelocity: Vector3, blend: number): void {
+    velocity.x += (desiredVelocity.x - velocity.x) * blend;
+    velocity.y += (desiredVelocity.y - velocity.y) * blend;
+    velocity.z += (desiredVelocity.z - velocity.z) * blend;
+}
+
+function advance(position: Vector3, velocity: Vector3, deltaTime: number): void {
+    position.x += velocity.x * deltaTime;
+    position.y += velocity.y * deltaTime;
+    position.z += velocity.z * deltaTime;
+}
+
+// Yaw and pitch that point the missile along direction; defense missile models are built facing backwards
+function faceDirection(rotation: Vector3, direction: Vector3, flipped: boolean): void {
+    const lengthSquared = direction.x * direction.x + direction.y * direction.y + direction.z * direction.z;
+    if (lengthSquared <= 0.01) return;
+
+    const horizontalSpeed = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+    if (flipped) {
+        rotation.y = Math.atan2(direction.x, direction.z) + Math.PI;
+        rotation.x = Math.atan2(direction.y, horizontalSpeed) + Math.PI;
+        return;
+    }
+
+    rotation.y = Math.atan2(direction.x, direction.z);
+    rotation.x = horizontalSpeed > 0.001 ? Math.atan2(-direction.y, horizontalSpeed) : 0;
+}
@@ -0,0 +1,115 @@
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+
+export const MAX_PLAN_WAYPOINTS = 8;
+export const MIN_PLAN_ALTITUDE = 15;
+export const MAX_PLAN_ALTITUDE = 80;
+export const PLAN_APPROACH_DISTANCE = 120; // Length of the final run-in along the approach heading
+const ROUTE_SAMPLE_SPACING = 25; // Terrain is sampled this often along a planned route
+
+export interface PlanWaypoint {
+    x: number;
+    z: number;
+}
+
+// Player-built Tomahawk route; the target is whatever is designated at launch
+export interface MissionPlan {
+    waypoints: PlanWaypoint[]; // Ground positions the route passes over, in order
+    altitude: number; // Height above the terrain the missile holds between waypoints
+    approachHeading: number | null; // Direction of the final run-in in radians (0 flies toward +Z); null goes straight in
+}
+
+export const DEFAULT_MISSION_PLAN: MissionPlan = { waypoints: [], altitude: 30, approachHeading: null };
+
+export function isValidMissionPlan(value: unknown): value is MissionPlan {
+    if (!value || typeof value !== 'object') return false;
+    const plan = value as Record<string, any>;
+    return Array.isArray(plan.waypoints) &&
+        plan.waypoints.length <= MAX_PLAN_WAYPOINTS &&
+        plan.waypoints.every((waypoint: any) => waypoint && Number.isFinite(waypoint.x) && Number.isFinite(waypoint.z)) &&
+        Number.isFinite(plan.altitude) && plan.altitude >= MIN_PLAN_ALTITUDE && plan.altitude <= MAX_PLAN_ALTITUDE &&
+        (plan.approachHeading === null || Number.isFinite(plan.approachHeading));
+}
+
+export function cloneMissionPlan(plan: MissionPlan): MissionPlan {
+    return { ...plan, waypoints: plan.waypoints.map(waypoint => ({ x: waypoint.x, z: waypoint.z })) };
+}
+
+// Where the run-in starts, or null when the plan goes straight in
+export function getApproachPoint(target: PlanWaypoint, plan: MissionPlan): PlanWaypoint | null {
+    if (plan.approachHeading === null) return null;
+    return {
+        x: target.x - Math.sin(plan.approachHeading) * PLAN_APPROACH_DISTANCE,
+        z: target.z - Math.cos(plan.approachHeading) * PLAN_APPROACH_DISTANCE
+    };
+}
+
+// Ground track from the start through every waypoint and the run-in to the target, for maps and the radar
+export function getPlanOutline(start: PlanWaypoint, target: PlanWaypoint | null, plan: MissionPlan): PlanWaypoint[] {
+    const outline: PlanWaypoint[] = [{ x: start.x, z: start.z }, ...plan.waypoints.map(waypoint => ({ x: waypoint.x, z: waypoint.z }))];
+    if (target) {
+        const approachPoint = getApproachPoint(target, plan);
+        if (approachPoint) {
+            outline.push(approachPoint);
+        }
+        outline.push({ x: target.x, z: target.z });
+    }
+    return outline;
+}
+
+// Densified 3D route a Tomahawk flies: launch, terrain-following legs at the plan altitude, then down onto the target
+export function buildPlannedRoute(
+    launch: Vector3,
+    target: Vector3,
+    plan: MissionPlan,
+    getGroundHeight: (x: number, z: number) => number
+): Vector3[] {
+    const outline = getPlanOutline(launch, target, plan);
+    const route: Vector3[] = [{ x: launch.x, y: launch.y, z: launch.z }];
+
+    for (let i = 1; i < outline.length; i++) {
+        const from = outline[i - 1];
+        const to = outline[i];
+        const legLength = Math.sqrt((to.x - from.x) ** 2 + (to.z - from.z) ** 2);
+        const samples = Math.max(1, Math.ceil(legLength / ROUTE_SAMPLE_SPACING));
+        const isFinalLeg = i === outline.length - 1;
+
+        for (let sample = 1; sample <= samples; sample++) {
+            if (isFinalLeg && sample === samples) break; // The target itself is added below
+            const fraction = sample / samples;
+            const x = from.x + (to.x - from.x) * fraction;
+            const z = from.z + (to.z - from.z) * fraction;
+            route.push({ x, y: getGroundHeight(x, z) + plan.altitude, z });
+        }
+    }
+
+    route.push({ x: target.x, y: target.y, z: target.z });
+    return route;
+}
+
+export function getRouteLength(route: Vector3[]): number {
+    let length = 0;
+    for (let i = 1; i < route.length; i++) {
+        length += vector3Distance(route[i - 1], route[i]);
+    }
+    return length;
+}
+
+// Point a fraction t of the way along a route, measured by distance
+export function getRoutePosition(route: Vector3[], t: number): Vector3 {
+    if (route.length === 0) return { x: 0, y: 0, z: 0 };
+
+    let remaining = Math.max(0, Math.min(1, t)) * getRouteLength(route);
+    for (let i = 1; i < route.length; i++) {
+        const segmentLength = vector3Distance(route[i - 1], route[i]);
+        if (remaining <= segmentLength && segmentLength > 0) {
+            const fraction = remaining / segmentLength;
+            return {
+                x: route[i - 1].x + (route[i].x - route[i - 1].x) * fraction,
+                y: route[i - 1].y + (route[i].y - route[i - 1].y) * fraction,
+                z: route[i - 1].z + (route[i].z - route[i - 1].z) * fraction
+            };
+        }
+        remaining -= segmentLength;
+    }
+    return { ...route[route.length - 1] };
+}
@@ -0,0 +1,54 @@
+// Radar cross-sections are relative to the clean bomber seen side-on
+export interface RcsProfile {
+    noseRcs: number; // Head-on
+    beamRcs: number; // Side-on
+    tailRcs: number; // From behind
+    bombBayRcs: number; // Added with the bomb bay doors fully open, from any aspect
+    damageRcs: number; // Added at zero health; torn skin and panels scatter from every angle
+}
+
+export const BOMBER_RCS_PROFILE: RcsProfile = {
+    noseRcs: 0.05,
+    beamRcs: 1,
+    tailRcs: 0.3,
+    bombBayRcs: 1,
+    damageRcs: 0.5
+};
+
+export type SignatureLevel = 'low' | 'medium' | 'high';
+
+// Signature bands for the HUD, by detection range multiplier
+export const SIGNATURE_LEVELS: Array<{ level: SignatureLevel; below: number }> = [
+    { level: 'low', below: 0.6 },
+    { level: 'medium', below: 0.9 },
+    { level: 'high', below: Infinity }
+];
+
+// Angle between the nose and the direction to the observer: 0 head-on, PI tail-on
+export function getAspectAngle(position: { x: number; z: number }, heading: number, observer: { x: number; z: number }): number {
+    const bearing = Math.atan2(observer.x - position.x, observer.z - position.z) - heading;
+    return Math.abs(Math.atan2(Math.sin(bearing), Math.cos(bearing)));
+}
+
+// Blends from the nose or tail value to the beam value as the aspect swings side-on
+export function getRadarCrossSection(
+    aspectAngle: number,
+    bombBayOpen: number,
+    damage: number,
+    profile: RcsProfile = BOMBER_RCS_PROFILE
+): number {
+    const endOnRcs = Math.cos(aspectAngle) >= 0 ? profile.noseRcs : profile.tailRcs;
+    const aspectRcs = endOnRcs + (profile.beamRcs - endOnRcs) * Math.sin(aspectAngle) ** 2;
+    return aspectRcs +
+        profile.bombBayRcs * Math.max(0, Math.min(1, bombBayOpen)) +
+        profile.damageRcs * Math.max(0, Math.min(1, damage));
+}
+
+// Radar range goes with the fourth root of the cross-section
+export function getSignatureRangeFactor(rcs: number): number {
+    return Math.pow(Math.max(0, rcs), 0.25);
+}
+
+export function getSignatureLevel(rangeFactor: number): SignatureLevel {
+    return SIGNATURE_LEVELS.find(band => rangeFactor < band.below)!.level;
+}
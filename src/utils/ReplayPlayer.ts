@@ -0,0 +1,52 @@
+import { FlightEvent, FlightRecording } from './FlightRecorder';
+
+// Walks a recording tick by tick; ticks must be requested in increasing order until rewind()
+export class ReplayPlayer {
+    private recording: FlightRecording;
+    private inputIndex: number = 0;
+    private eventIndex: number = 0;
+    private currentKeys: number = 0;
+
+    constructor(recording: FlightRecording) {
+        this.recording = recording;
+    }
+
+    public getRecording(): FlightRecording {
+        return this.recording;
+    }
+
+    public getTickCount(): number {
+        return this.recording.tickCount;
+    }
+
+    public rewind(): void {
+        this.inputIndex = 0;
+        this.eventIndex = 0;
+        this.currentKeys = 0;
+    }
+
+    // Input bitmask held during the given tick
+    public getInputsForTick(tick: number): number {
+        const inputs = this.recording.inputs;
+        while (this.inputIndex < inputs.length && inputs[this.inputIndex].tick <= tick) {
+            this.currentKeys = inputs[this.inputIndex].keys;
+            this.inputIndex++;
+        }
+        return this.currentKeys;
+    }
+
+    // Events recorded up to and including the given tick that haven't been handed out yet
+    public takeEventsForTick(tick: number): FlightEvent[] {
+        const events = this.recording.events;
+        const dueEvents: FlightEvent[] = [];
+        while (this.eventIndex < events.length && events[this.eventIndex].tick <= tick) {
+            dueEvents.push(events[this.eventIndex]);
+            this.eventIndex++;
+        }
+        return dueEvents;
+    }
+
+    public isFinished(tick: number): boolean {
+        return tick >= this.recording.tickCount;
+    }
+}
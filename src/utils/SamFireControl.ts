@@ -0,0 +1,136 @@
+import { Vector3, vector3Distance } from '../workers/worker-utils';
+
+// Fire control states in order of threat; launch lasts a single tick
+export type SamState = 'search' | 'track' | 'lock' | 'launch' | 'guide';
+
+export const SAM_STATES: SamState[] = ['search', 'track', 'lock', 'launch', 'guide'];
+
+export interface SamRadarProfile {
+    searchRange: number; // Detection range against a target well clear of the ground with a side-on clean bomber's signature
+    clutterAltitude: number; // Below this height above the ground, clutter shrinks the detection range...
+    minClutterFactor: number; // ...down to this fraction of the search range at ground level
+    trackTime: number; // Seconds of tracking before the radar locks
+    lockTime: number; // Seconds locked before the first launch
+    trackMemory: number; // Seconds a lost target is coasted before the radar drops back to search
+    launchInterval: number; // Minimum seconds between launches
+    jammedTimeFactor: number; // Track and lock take this many times longer against a jamming target
+}
+
+export const SAM_RADAR_PROFILE: SamRadarProfile = {
+    searchRange: 300,
+    clutterAltitude: 60,
+    minClutterFactor: 0.3,
+    trackTime: 1.5,
+    lockTime: 1.5,
+    trackMemory: 1,
+    launchInterval: 8,
+    jammedTimeFactor: 2
+};
+
+// Low flying targets hide in ground clutter
+export function getDetectionRange(altitudeAboveGround: number, profile: SamRadarProfile = SAM_RADAR_PROFILE): number {
+    const clutterFactor = profile.minClutterFactor + (1 - profile.minClutterFactor) * altitudeAboveGround / profile.clutterAltitude;
+    return profile.searchRange * Math.max(profile.minClutterFactor, Math.min(1, clutterFactor));
+}
+
+// Terrain and buildings between the radar and its target; TerrainManager.hasLineOfSight in play
+export type LineOfSightTest = (from: Vector3, to: Vector3) => boolean;
+
+// What a radar needs to know about the world and its target
+export interface RadarEnvironment {
+    getGroundHeight: (x: number, z: number) => number;
+    hasLineOfSight: LineOfSightTest;
+    getTargetSignature: (radar: Vector3) => number; // Detection range multiplier for the target's cross-section seen from the radar
+    isTargetJamming: boolean; // The target's ECM is on
+}
+
+// Whether a radar at the given antenna position sees the target this tick
+export function canRadarDetect(
+    radar: Vector3,
+    target: Vector3,
+    environment: RadarEnvironment,
+    profile: SamRadarProfile = SAM_RADAR_PROFILE
+): boolean {
+    const altitudeAboveGround = target.y - environment.getGroundHeight(target.x, target.z);
+    const detectionRange = getDetectionRange(altitudeAboveGround, profile) * environment.getTargetSignature(radar);
+    if (vector3Distance(radar, target) > detectionRange) return false;
+    return environment.hasLineOfSight(radar, target);
+}
+
+// Search -> track -> lock -> launch -> guide, dropping back to search whenever the track is lost
+export class SamFireControl {
+    private profile: SamRadarProfile;
+    private state: SamState = 'search';
+    private stateEnteredTime: number = 0;
+    private lastDetectedTime: number = -Infinity;
+    private lastLaunchTime: number = 0; // No launch in the first interval of a sortie
+
+    constructor(profile: SamRadarProfile = SAM_RADAR_PROFILE) {
+        this.profile = profile;
+    }
+
+    public getState(): SamState {
+        return this.state;
+    }
+
+    // Advance one tick; true when the site should fire now (it only fires when allowed to launch)
+    public update(currentTime: number, detected: boolean, missileInFlight: boolean, canLaunch: boolean, jammed: boolean = false): boolean {
+        if (detected) {
+            this.lastDetectedTime = currentTime;
+        }
+        const tracking = currentTime - this.lastDetectedTime <= this.profile.trackMemory;
+        const timeInState = (currentTime - this.stateEnteredTime) / (jammed ? this.profile.jammedTimeFactor : 1);
+
+        switch (this.state) {
+            case 'search':
+                if (detected) this.enterState('track', currentTime);
+                break;
+            case 'track':
+                if (!tracking) {
+                    this.enterState('search', currentTime);
+                } else if (detected && timeInState >= this.profile.trackTime) {
+                    this.enterState('lock', currentTime);
+                }
+                break;
+            case 'lock':
+                if (!tracking) {
+                    this.enterState('search', currentTime);
+                } else if (canLaunch && detected && timeInState >= this.profile.lockTime &&
+                    currentTime - this.lastLaunchTime >= this.profile.launchInterval) {
+                    return true;
+                }
+                break;
+            case 'launch':
+                // Held for the launch tick so live play and replays guide from the same tick
+                if (currentTime > this.lastLaunchTime) {
+                    this.enterState(tracking ? 'guide' : 'search', currentTime);
+                }
+                break;
+            case 'guide':
+                if (!tracking) {
+                    this.enterState('search', currentTime);
+                } else if (!missileInFlight) {
+                    this.enterState('lock', currentTime);
+                }
+                break;
+        }
+        return false;
+    }
+
+    // Called for every launch, live or replayed from a recording
+    public notifyLaunch(currentTime: number): void {
+        this.lastLaunchTime = currentTime;
+        this.enterState('launch', currentTime);
+    }
+
+    // The site went idle (out of play or destroyed)
+    public reset(currentTime: number): void {
+        this.lastDetectedTime = -Infinity;
+        this.enterState('search', currentTime);
+    }
+
+    private enterState(state: SamState, currentTime: number): void {
+        this.state = state;
+        this.stateEnteredTime = currentTime;
+    }
+}
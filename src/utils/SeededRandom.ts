@@ -0,0 +1,53 @@
+// Deterministic pseudo-random generator (mulberry32) used for reproducible worlds
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    // Returns values in range [0, 1)
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    public nextInt(maxExclusive: number): number {
+        return Math.floor(this.next() * maxExclusive);
+    }
+
+    // Independent stream per chunk so generation order doesn't affect the result
+    public static forChunk(worldSeed: number, chunkX: number, chunkZ: number): SeededRandom {
+        let hash = worldSeed >>> 0;
+        hash = Math.imul(hash ^ (chunkX | 0), 0x85EBCA6B);
+        hash = Math.imul(hash ^ (hash >>> 13) ^ (chunkZ | 0), 0xC2B2AE35);
+        hash ^= hash >>> 16;
+        return new SeededRandom(hash);
+    }
+
+    // Accepts numeric seeds as-is and hashes anything else (FNV-1a)
+    public static parseSeed(value: string): number {
+        const trimmed = value.trim();
+        if (/^\d+$/.test(trimmed)) {
+            return Number(trimmed) >>> 0;
+        }
+
+        let hash = 0x811C9DC5;
+        for (let i = 0; i < trimmed.length; i++) {
+            hash ^= trimmed.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+
+    public static generateSeed(): number {
+        return Math.floor(Math.random() * 4294967296) >>> 0;
+    }
+}
@@ -0,0 +1,49 @@
+import type { Vector3 } from '../workers/worker-utils';
+
+// Spatial partitioning on the XZ plane; shared by the collision worker and its synchronous fallback
+export class SpatialGrid<T extends { position: Vector3 }> {
+    private grid: Map<string, T[]> = new Map();
+    private cellSize: number;
+
+    constructor(cellSize: number = 50) {
+        this.cellSize = cellSize;
+    }
+
+    clear(): void {
+        this.grid.clear();
+    }
+
+    private getCellKey(position: Vector3): string {
+        const cellX = Math.floor(position.x / this.cellSize);
+        const cellZ = Math.floor(position.z / this.cellSize);
+        return `${cellX}_${cellZ}`;
+    }
+
+    insert(object: T): void {
+        const cellKey = this.getCellKey(object.position);
+        if (!this.grid.has(cellKey)) {
+            this.grid.set(cellKey, []);
+        }
+        this.grid.get(cellKey)!.push(object);
+    }
+
+    // Candidates in the cells overlapping the radius; callers still check exact distance
+    getNearbyObjects(position: Vector3, radius: number): T[] {
+        const nearby: T[] = [];
+        const cellRadius = Math.ceil(radius / this.cellSize);
+        const centerX = Math.floor(position.x / this.cellSize);
+        const centerZ = Math.floor(position.z / this.cellSize);
+
+        for (let dx = -cellRadius; dx <= cellRadius; dx++) {
+            for (let dz = -cellRadius; dz <= cellRadius; dz++) {
+                const cellKey = `${centerX + dx}_${centerZ + dz}`;
+                const cellObjects = this.grid.get(cellKey);
+                if (cellObjects) {
+                    nearby.push(...cellObjects);
+                }
+            }
+        }
+
+        return nearby;
+    }
+}
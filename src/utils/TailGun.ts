@@ -0,0 +1,37 @@
+import { Vector3 } from '../workers/worker-utils';
+import { getAspectAngle } from './RadarCrossSection';
+
+export interface TailGunProfile {
+    range: number;
+    arc: number; // Half-angle either side of dead astern the turret can traverse
+    damagePerSecond: number; // At point-blank range...
+    rangeFalloff: number; // ...down to this fraction of it at the edge of the range
+}
+
+export const TAIL_GUN_PROFILE: TailGunProfile = {
+    range: 150,
+    arc: Math.PI / 3,
+    damagePerSecond: 30,
+    rangeFalloff: 0.4
+};
+
+// The bomber's automatic tail turret: damage dealt to a target this tick, or 0 when it's out of range or arc
+export function getTailGunDamage(
+    bomberPosition: Vector3,
+    bomberHeading: number,
+    targetPosition: Vector3,
+    deltaTime: number,
+    profile: TailGunProfile = TAIL_GUN_PROFILE
+): number {
+    const dx = targetPosition.x - bomberPosition.x;
+    const dy = targetPosition.y - bomberPosition.y;
+    const dz = targetPosition.z - bomberPosition.z;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (distance > profile.range) return 0;
+
+    const angleOffTail = Math.PI - getAspectAngle(bomberPosition, bomberHeading, targetPosition);
+    if (angleOffTail > profile.arc) return 0;
+
+    const falloff = 1 - (1 - profile.rangeFalloff) * (distance / profile.range);
+    return profile.damagePerSecond * falloff * deltaTime;
+}
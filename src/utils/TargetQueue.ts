@@ -0,0 +1,78 @@
+export const MAX_QUEUED_TARGETS = 4;
+
+// Tomahawk targeting: a designation cursor the player cycles or clicks, plus an ordered strike queue
+export class TargetQueue<T extends { getIsDestroyed(): boolean }> {
+    private capacity: number;
+    private designated: T | null = null;
+    private queue: T[] = [];
+
+    constructor(capacity: number = MAX_QUEUED_TARGETS) {
+        this.capacity = capacity;
+    }
+
+    public getDesignated(): T | null {
+        return this.designated;
+    }
+
+    public getQueue(): T[] {
+        return [...this.queue];
+    }
+
+    public isQueued(target: T): boolean {
+        return this.queue.includes(target);
+    }
+
+    public isFull(): boolean {
+        return this.queue.length >= this.capacity;
+    }
+
+    public designate(target: T | null): void {
+        this.designated = target;
+    }
+
+    // Step the cursor to the candidate after the current one (candidates come nearest first)
+    public cycle(candidates: T[]): T | null {
+        if (candidates.length === 0) return this.designated;
+
+        const index = this.designated ? candidates.indexOf(this.designated) : -1;
+        this.designated = candidates[(index + 1) % candidates.length];
+        return this.designated;
+    }
+
+    // Queue the target, or take it off the queue if it is already there; false when the queue is full
+    public toggleQueued(target: T): boolean {
+        const index = this.queue.indexOf(target);
+        if (index > -1) {
+            this.queue.splice(index, 1);
+            return true;
+        }
+        if (this.isFull()) return false;
+
+        this.queue.push(target);
+        return true;
+    }
+
+    // Drop destroyed targets; a destroyed designation advances to the next queued target
+    public prune(): void {
+        this.queue = this.queue.filter(target => !target.getIsDestroyed());
+        if (this.designated && this.designated.getIsDestroyed()) {
+            this.designated = this.queue[0] ?? null;
+        }
+    }
+
+    // First queued target no Tomahawk is flying at yet, else the head of the queue, else the designation
+    public selectStrikeTarget(isEligible: (target: T) => boolean, isEngaged: (target: T) => boolean): T | null {
+        const eligible = this.queue.filter(target => !target.getIsDestroyed() && isEligible(target));
+        const unengaged = eligible.find(target => !isEngaged(target));
+        if (unengaged) return unengaged;
+        if (eligible.length > 0) return eligible[0];
+
+        const designated = this.designated;
+        return designated && !designated.getIsDestroyed() && isEligible(designated) ? designated : null;
+    }
+
+    public clear(): void {
+        this.designated = null;
+        this.queue = [];
+    }
+}
@@ -0,0 +1,223 @@
+import type { BuildingConfig, BuildingType } from '../entities/Building';
+import { NoiseGenerator } from './NoiseGenerator';
+import { SeededRandom } from './SeededRandom';
+
+const BUILDING_TYPES = ['residential', 'commercial', 'industrial', 'skyscraper'] as BuildingType[];
+
+// Shared by terrain.worker and TerrainManager's synchronous fallback so both produce identical chunks
+export class TerrainGenerator {
+    private worldSeed: number;
+    private chunkSize: number;
+    private subdivisions: number;
+    private noiseGenerator: NoiseGenerator;
+
+    constructor(worldSeed: number, chunkSize: number, subdivisions: number) {
+        this.worldSeed = worldSeed >>> 0;
+        this.chunkSize = chunkSize;
+        this.subdivisions = subdivisions;
+        // Mixed first so adjacent seeds land far apart in the noise instead of a fraction of a unit
+        this.noiseGenerator = new NoiseGenerator(new SeededRandom(this.worldSeed).next() * 1000);
+    }
+
+    public getWorldSeed(): number {
+        return this.worldSeed;
+    }
+
+    public calculateHeightFromNoise(x: number, z: number): number {
+        let height = 0;
+        height += this.noiseGenerator.fractalNoise(x * 0.005, z * 0.005, 4) * 25;
+        height += this.noiseGenerator.fractalNoise(x * 0.015, z * 0.015, 3) * 15;
+        height += this.noiseGenerator.fractalNoise(x * 0.03, z * 0.03, 2) * 8;
+        height += this.noiseGenerator.fractalNoise(x * 0.08, z * 0.08, 1) * 3;
+        return Math.max(0, Math.min(height, 60));
+    }
+
+    // Chunks are centred on chunkX * chunkSize, so each one spans half a chunk either side of that
+    public getChunkIndex(coordinate: number): number {
+        return Math.floor((coordinate + this.chunkSize / 2) / this.chunkSize);
+    }
+
+    // Bilinear height from loaded chunk heightmaps keyed `${chunkX}_${chunkZ}`, or the noise where there's no data
+    public sampleHeight(heightmaps: Map<string, Float32Array>, x: number, z: number): number {
+        const chunkX = this.getChunkIndex(x);
+        const chunkZ = this.getChunkIndex(z);
+        const heights = heightmaps.get(`${chunkX}_${chunkZ}`);
+
+        if (!heights) {
+            return this.calculateHeightFromNoise(x, z);
+        }
+
+        const localX = x - chunkX * this.chunkSize;
+        const localZ = z - chunkZ * this.chunkSize;
+
+        const gridX = (localX + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
+        const gridZ = (localZ + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
+
+        const gridX0 = Math.floor(gridX);
+        const gridZ0 = Math.floor(gridZ);
+
+        if (gridX0 < 0 || gridX0 >= this.subdivisions || gridZ0 < 0 || gridZ0 >= this.subdivisions) {
+            return this.calculateHeightFromNoise(x, z);
+        }
+
+        const tx = gridX - gridX0;
+        const tz = gridZ - gridZ0;
+
+        const h00 = heights[gridZ0 * (this.subdivisions + 1) + gridX0];
+        const h10 = heights[gridZ0 * (this.subdivisions + 1) + (gridX0 + 1)];
+        const h01 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + gridX0];
+        const h11 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + (gridX0 + 1)];
+
+        if (h00 === undefined || h10 === undefined || h01 === undefined || h11 === undefined) {
+            return this.calculateHeightFromNoise(x, z);
+        }
+
+        const h_x1 = h00 * (1 - tx) + h10 * tx;
+        const h_x2 = h01 * (1 - tx) + h11 * tx;
+
+        return h_x1 * (1 - tz) + h_x2 * tz;
+    }
+
+    public generateHeightmap(chunkX: number, chunkZ: number): Float32Array {
+        const worldX = chunkX * this.chunkSize;
+        const worldZ = chunkZ * this.chunkSize;
+        const heights = new Float32Array((this.subdivisions + 1) * (this.subdivisions + 1));
+
+        for (let i = 0; i <= this.subdivisions; i++) {
+            for (let j = 0; j <= this.subdivisions; j++) {
+                const localX = (j / this.subdivisions - 0.5) * this.chunkSize;
+                const localZ = (i / this.subdivisions - 0.5) * this.chunkSize;
+                const x = localX + worldX;
+                const z = localZ + worldZ;
+
+                const height = this.calculateHeightFromNoise(x, z);
+                const index = i * (this.subdivisions + 1) + j;
+                heights[index] = height;
+            }
+        }
+        return heights;
+    }
+
+    public generateBuildings(chunkX: number, chunkZ: number, heightmap: Float32Array): BuildingConfig[] {
+        const random = SeededRandom.forChunk(this.worldSeed, chunkX, chunkZ);
+        const worldX = chunkX * this.chunkSize;
+        const worldZ = chunkZ * this.chunkSize;
+        const buildingConfigs: BuildingConfig[] = [];
+        const buildingDensity = 0.00005;
+        const chunkArea = this.chunkSize * this.chunkSize;
+        const numBuildings = Math.floor(chunkArea * buildingDensity * (0.5 + random.next() * 0.8));
+
+        for (let i = 0; i < numBuildings; i++) {
+            const localX = (random.next() - 0.5) * this.chunkSize * 0.8;
+            const localZ = (random.next() - 0.5) * this.chunkSize * 0.8;
+            const buildingX = worldX + localX;
+            const buildingZ = worldZ + localZ;
+
+            const terrainHeight = this.getHeightFromHeightmap(localX, localZ, heightmap);
+
+            const sampleDistance = 5;
+            const heightNorth = this.getHeightFromHeightmap(localX, localZ - sampleDistance, heightmap);
+            const heightSouth = this.getHeightFromHeightmap(localX, localZ + sampleDistance, heightmap);
+            const heightEast = this.getHeightFromHeightmap(localX + sampleDistance, localZ, heightmap);
+            const heightWest = this.getHeightFromHeightmap(localX - sampleDistance, localZ, heightmap);
+
+            const maxSlope = Math.max(
+                Math.abs(heightNorth - terrainHeight),
+                Math.abs(heightSouth - terrainHeight),
+                Math.abs(heightEast - terrainHeight),
+                Math.abs(heightWest - terrainHeight)
+            );
+
+            if (maxSlope > 8) {
+                continue;
+            }
+
+            const buildingConfig = this.generateRandomBuildingConfig(random, buildingX, buildingZ, terrainHeight);
+            buildingConfig.isTarget = random.next() < 0.1;
+            buildingConfigs.push(buildingConfig);
+        }
+        return buildingConfigs;
+    }
+
+    public getHeightFromHeightmap(localX: number, localZ: number, heights: Float32Array): number {
+        const gridX = (localX + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
+        const gridZ = (localZ + this.chunkSize / 2) / this.chunkSize * this.subdivisions;
+
+        const gridX0 = Math.floor(gridX);
+        const gridZ0 = Math.floor(gridZ);
+
+        if (gridX0 < 0 || gridX0 >= this.subdivisions || gridZ0 < 0 || gridZ0 >= this.subdivisions) {
+            return 0;
+        }
+
+        const tx = gridX - gridX0;
+        const tz = gridZ - gridZ0;
+
+        const h00 = heights[gridZ0 * (this.subdivisions + 1) + gridX0];
+        const h10 = heights[gridZ0 * (this.subdivisions + 1) + (gridX0 + 1)];
+        const h01 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + gridX0];
+        const h11 = heights[(gridZ0 + 1) * (this.subdivisions + 1) + (gridX0 + 1)];
+
+        if (h00 === undefined || h10 === undefined || h01 === undefined || h11 === undefined) {
+            return 0;
+        }
+
+        const h_x1 = h00 * (1 - tx) + h10 * tx;
+        const h_x2 = h01 * (1 - tx) + h11 * tx;
+
+        return h_x1 * (1 - tz) + h_x2 * tz;
+    }
+
+    private generateRandomBuildingConfig(random: SeededRandom, x: number, z: number, terrainHeight: number): BuildingConfig {
+        const type = BUILDING_TYPES[random.nextInt(BUILDING_TYPES.length)];
+
+        let width: number, height: number, depth: number;
+
+        switch (type) {
+            case 'residential':
+                width = 8 + random.next() * 8;
+                height = 8 + random.next() * 12;
+                depth = 8 + random.next() * 8;
+                break;
+            case 'commercial':
+                width = 12 + random.next() * 15;
+                height = 12 + random.next() * 18;
+                depth = 12 + random.next() * 15;
+                break;
+            case 'industrial':
+                width = 15 + random.next() * 20;
+                height = 10 + random.next() * 15;
+                depth = 15 + random.next() * 20;
+                break;
+            case 'skyscraper':
+                width = 10 + random.next() * 12;
+                height = 25 + random.next() * 35;
+                depth = 10 + random.next() * 12;
+                break;
+            default:
+                width = 8 + random.next() * 10;
+                height = 8 + random.next() * 15;
+                depth = 8 + random.next() * 10;
+        }
+
+        const isDefenseLauncher = random.next() < 0.15;
+        const detailSeed = random.nextInt(4294967296);
+        // Taken from the detail seed rather than a fresh draw so existing seeded worlds keep their layout
+        const isAirbase = !isDefenseLauncher && type === 'industrial' && detailSeed % 6 === 0;
+        const isAntiAircraft = !isDefenseLauncher && !isAirbase && Math.floor(detailSeed / 6) % 10 === 0;
+        const isRadarSite = !isDefenseLauncher && !isAirbase && !isAntiAircraft && Math.floor(detailSeed / 60) % 12 === 0;
+
+        return {
+            position: { x: x, y: terrainHeight, z: z },
+            type: type,
+            width: width,
+            height: height,
+            depth: depth,
+            isDefenseLauncher: isDefenseLauncher,
+            isAirbase: isAirbase,
+            isAntiAircraft: isAntiAircraft,
+            isRadarSite: isRadarSite,
+            detailSeed: detailSeed
+        };
+    }
+}
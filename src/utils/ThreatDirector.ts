@@ -0,0 +1,180 @@
+import { Vector3 } from '../workers/worker-utils';
+
+// Every knob of the Iskander threat director; pressure terms add up and are clamped to 0..1
+export interface ThreatDirectorProfile {
+    firstSalvoDelay: number; // Seconds of quiet at the start of a sortie
+    minInterval: number; // Seconds between salvos at full pressure...
+    maxInterval: number; // ...and with no pressure at all
+    intervalJitter: number; // Up to this share of the interval is added at random
+    basePressure: number;
+    pressurePerTarget: number; // Each destroyed mission target raises the pressure...
+    maxTargetPressure: number; // ...up to this much
+    pressurePerMinute: number; // Sortie time raises it steadily...
+    maxTimePressure: number; // ...up to this much
+    healthPressure: number; // Scaled by the bomber's remaining health, so a damaged bomber gets room to breathe
+    pressurePerDefense: number; // Each live launcher near the bomber...
+    maxDefensePressure: number; // ...up to this much
+    minSalvo: number;
+    maxSalvo: number; // Reached at full pressure
+    salvoSpacing: number; // Seconds between the missiles of one salvo
+    bigHitDamage: number; // Share of the bomber's health lost within bigHitWindow seconds that counts as a big hit...
+    bigHitWindow: number;
+    reliefTime: number; // ...after which the director calls off its salvo and holds fire this long
+    retryDelay: number; // No launch site can see the bomber: look again after this long
+    minLaunchRange: number; // Launchers closer than this are left to their SAMs
+    maxLaunchRange: number;
+}
+
+export const THREAT_DIRECTOR_PROFILE: ThreatDirectorProfile = {
+    firstSalvoDelay: 10,
+    minInterval: 15,
+    maxInterval: 40,
+    intervalJitter: 0.3,
+    basePressure: 0.1,
+    pressurePerTarget: 0.1,
+    maxTargetPressure: 0.3,
+    pressurePerMinute: 0.05,
+    maxTimePressure: 0.2,
+    healthPressure: 0.2,
+    pressurePerDefense: 0.04,
+    maxDefensePressure: 0.2,
+    minSalvo: 1,
+    maxSalvo: 3,
+    salvoSpacing: 0.75,
+    bigHitDamage: 0.25,
+    bigHitWindow: 3,
+    reliefTime: 15,
+    retryDelay: 2,
+    minLaunchRange: 250,
+    maxLaunchRange: 1000
+};
+
+// What the director sees of the sortie each tick
+export interface ThreatContext {
+    destroyedTargets: number;
+    healthFraction: number; // 0..1
+    nearbyDefenses: number; // Live launchers around the bomber
+}
+
+export interface LaunchSiteCandidate {
+    position: Vector3;
+    distance: number; // From the bomber
+    hasLineOfSight: boolean; // To the bomber
+}
+
+export function getThreatPressure(
+    elapsedTime: number,
+    context: ThreatContext,
+    profile: ThreatDirectorProfile = THREAT_DIRECTOR_PROFILE
+): number {
+    const pressure = profile.basePressure +
+        Math.min(profile.maxTargetPressure, context.destroyedTargets * profile.pressurePerTarget) +
+        Math.min(profile.maxTimePressure, elapsedTime / 60 * profile.pressurePerMinute) +
+        profile.healthPressure * context.healthFraction +
+        Math.min(profile.maxDefensePressure, context.nearbyDefenses * profile.pressurePerDefense);
+    return Math.max(0, Math.min(1, pressure));
+}
+
+export function getSalvoInterval(pressure: number, random: () => number, profile: ThreatDirectorProfile = THREAT_DIRECTOR_PROFILE): number {
+    const interval = profile.maxInterval - (profile.maxInterval - profile.minInterval) * pressure;
+    return interval * (1 + profile.intervalJitter * random());
+}
+
+export function getSalvoSize(pressure: number, profile: ThreatDirectorProfile = THREAT_DIRECTOR_PROFILE): number {
+    const extra = Math.floor(pressure * (profile.maxSalvo - profile.minSalvo + 1));
+    return Math.min(profile.maxSalvo, profile.minSalvo + extra);
+}
+
+// Sites in range that can see the bomber, farthest first, reused in turn when the salvo outnumbers them
+export function chooseLaunchSites(
+    candidates: LaunchSiteCandidate[],
+    count: number,
+    profile: ThreatDirectorProfile = THREAT_DIRECTOR_PROFILE
+): Vector3[] {
+    const sites = candidates
+        .filter(candidate => candidate.hasLineOfSight &&
+            candidate.distance >= profile.minLaunchRange && candidate.distance <= profile.maxLaunchRange)
+        .sort((a, b) => b.distance - a.distance);
+    if (sites.length === 0) return [];
+    return Array.from({ length: count }, (_, index) => sites[index % sites.length].position);
+}
+
+// Paces Iskander salvos to the player: more pressure as they do well, less when they are hurting
+export class ThreatDirector {
+    private profile: ThreatDirectorProfile;
+    private nextSalvoTime: number;
+    private pendingLaunches: Array<{ time: number; position: Vector3 }> = [];
+    private lastHealthFraction: number = 1;
+    private recentDamage: Array<{ time: number; amount: number }> = [];
+    private reliefUntil: number = -Infinity;
+    private pressure: number = 0;
+
+    constructor(profile: ThreatDirectorProfile = THREAT_DIRECTOR_PROFILE) {
+        this.profile = profile;
+        this.nextSalvoTime = profile.firstSalvoDelay;
+    }
+
+    public getPressure(): number {
+        return this.pressure;
+    }
+
+    public isInRelief(currentTime: number): boolean {
+        return currentTime < this.reliefUntil;
+    }
+
+    // Advance one tick; returns the positions to launch from now. chooseSites is only asked when a salvo is due
+    public update(
+        currentTime: number,
+        context: ThreatContext,
+        chooseSites: (count: number) => Vector3[],
+        random: () => number
+    ): Vector3[] {
+        this.trackDamage(currentTime, context.healthFraction);
+        this.pressure = getThreatPressure(currentTime, context, this.profile);
+
+        if (this.pendingLaunches.length === 0 && currentTime >= this.nextSalvoTime) {
+            this.planSalvo(currentTime, chooseSites(getSalvoSize(this.pressure, this.profile)), random);
+        }
+
+        const due = this.pendingLaunches.filter(launch => launch.time <= currentTime);
+        this.pendingLaunches = this.pendingLaunches.filter(launch => launch.time > currentTime);
+        return due.map(launch => launch.position);
+    }
+
+    public reset(): void {
+        this.nextSalvoTime = this.profile.firstSalvoDelay;
+        this.pendingLaunches = [];
+        this.lastHealthFraction = 1;
+        this.recentDamage = [];
+        this.reliefUntil = -Infinity;
+        this.pressure = 0;
+    }
+
+    private planSalvo(currentTime: number, sites: Vector3[], random: () => number): void {
+        if (sites.length === 0) {
+            this.nextSalvoTime = currentTime + this.profile.retryDelay;
+            return;
+        }
+        this.pendingLaunches = sites.map((position, index) => ({ time: currentTime + index * this.profile.salvoSpacing, position }));
+        const salvoDuration = (sites.length - 1) * this.profile.salvoSpacing;
+        this.nextSalvoTime = currentTime + salvoDuration + getSalvoInterval(this.pressure, random, this.profile);
+    }
+
+    // A big hit calls off the rest of the salvo and buys the player some quiet
+    private trackDamage(currentTime: number, healthFraction: number): void {
+        const damage = this.lastHealthFraction - healthFraction;
+        this.lastHealthFraction = healthFraction;
+        if (damage > 0) {
+            this.recentDamage.push({ time: currentTime, amount: damage });
+        }
+        this.recentDamage = this.recentDamage.filter(hit => currentTime - hit.time <= this.profile.bigHitWindow);
+
+        const windowDamage = this.recentDamage.reduce((total, hit) => total + hit.amount, 0);
+        if (windowDamage >= this.profile.bigHitDamage && !this.isInRelief(currentTime)) {
+            this.reliefUntil = currentTime + this.profile.reliefTime;
+            this.pendingLaunches = [];
+            this.nextSalvoTime = Math.max(this.nextSalvoTime, this.reliefUntil);
+            this.recentDamage = [];
+        }
+    }
+}
@@ -0,0 +1,167 @@
+import { GameClock } from './GameClock';
+
+export type BombWeaponType = 'bomb' | 'cluster' | 'bunker-buster';
+export type WeaponType = BombWeaponType | 'tomahawk' | 'flare' | 'chaff';
+
+export const BOMB_WEAPONS: BombWeaponType[] = ['bomb', 'cluster', 'bunker-buster'];
+
+export interface WeaponSpec {
+    label: string;
+    roundsPerStation: number; // Rounds a station holds when it mounts this weapon
+    salvoSize: number; // Rounds released per trigger pull; bombs go one per second
+    reloadTime: number; // Seconds after firing before the weapon is ready again
+    rearmInterval: number | null; // Seconds to restock one round in flight; null never restocks
+}
+
+export const WEAPON_SPECS: Record<WeaponType, WeaponSpec> = {
+    bomb: { label: 'BOMBS', roundsPerStation: 9, salvoSize: 9, reloadTime: 15, rearmInterval: null },
+    cluster: { label: 'CLUSTER', roundsPerStation: 4, salvoSize: 2, reloadTime: 15, rearmInterval: null },
+    'bunker-buster': { label: 'BUNKER BUSTER', roundsPerStation: 2, salvoSize: 1, reloadTime: 15, rearmInterval: null },
+    tomahawk: { label: 'TOMAHAWK', roundsPerStation: 2, salvoSize: 1, reloadTime: 10, rearmInterval: null },
+    flare: { label: 'FLARES', roundsPerStation: 4, salvoSize: 1, reloadTime: 8, rearmInterval: 30 }, // One round is a full flare salvo
+    chaff: { label: 'CHAFF', roundsPerStation: 4, salvoSize: 1, reloadTime: 6, rearmInterval: 30 } // One round is a full chaff salvo
+};
+
+export interface WeaponStation {
+    id: string;
+    label: string;
+    allowedWeapons: WeaponType[];
+}
+
+export const BOMBER_STATIONS: WeaponStation[] = [
+    { id: 'bay-forward', label: 'FWD BAY', allowedWeapons: [...BOMB_WEAPONS, 'tomahawk'] },
+    { id: 'bay-center', label: 'CTR BAY', allowedWeapons: [...BOMB_WEAPONS, 'tomahawk'] },
+    { id: 'bay-aft', label: 'AFT BAY', allowedWeapons: [...BOMB_WEAPONS, 'tomahawk'] },
+    { id: 'dispensers', label: 'DISPENSERS', allowedWeapons: ['flare'] },
+    { id: 'chaff-dispensers', label: 'CHAFF', allowedWeapons: ['chaff'] }
+];
+
+// Station id -> mounted weapon, picked on the pre-sortie screen and stored with flight recordings
+export type LoadoutSelection = Record<string, WeaponType>;
+
+export const DEFAULT_LOADOUT: LoadoutSelection = {
+    'bay-forward': 'bomb',
+    'bay-center': 'bomb',
+    'bay-aft': 'tomahawk',
+    'dispensers': 'flare',
+    'chaff-dispensers': 'chaff'
+};
+
+// Finite ammo per station, per-weapon reload after firing, and slow in-flight restocking where allowed
+export class WeaponLoadout {
+    private gameClock: GameClock;
+    private specs: Record<WeaponType, WeaponSpec>; // Reload and rearm times come from the sortie's difficulty
+    private selection: LoadoutSelection = {};
+    private stationRounds: Map<string, number> = new Map(); // Station id -> rounds left
+    private reloadStartTimes: Map<WeaponType, number> = new Map();
+    private rearmStartTimes: Map<WeaponType, number> = new Map(); // Set while a weapon is below capacity
+
+    constructor(selection: LoadoutSelection, gameClock: GameClock, specs: Record<WeaponType, WeaponSpec> = WEAPON_SPECS) {
+        this.gameClock = gameClock;
+        this.specs = specs;
+        this.configure(selection);
+    }
+
+    // Every station must be present and mount one of its allowed weapons
+    public static isValidSelection(value: unknown): value is LoadoutSelection {
+        if (!value || typeof value !== 'object') return false;
+        const selection = value as Record<string, unknown>;
+        return Object.keys(selection).length === BOMBER_STATIONS.length &&
+            BOMBER_STATIONS.every(station => station.allowedWeapons.includes(selection[station.id] as WeaponType));
+    }
+
+    // Mount a selection with every station full and nothing reloading
+    public configure(selection: LoadoutSelection): void {
+        if (!WeaponLoadout.isValidSelection(selection)) {
+            throw new Error('Invalid weapon loadout');
+        }
+
+        this.selection = { ...selection };
+        this.stationRounds.clear();
+        BOMBER_STATIONS.forEach(station => {
+            this.stationRounds.set(station.id, this.specs[selection[station.id]].roundsPerStation);
+        });
+        this.reloadStartTimes.clear();
+        this.rearmStartTimes.clear();
+    }
+
+    public getSelection(): LoadoutSelection {
+        return { ...this.selection };
+    }
+
+    // Each mounted weapon once, in station order
+    public getMountedWeapons(): WeaponType[] {
+        const weapons: WeaponType[] = [];
+        BOMBER_STATIONS.forEach(station => {
+            const weapon = this.selection[station.id];
+            if (!weapons.includes(weapon)) {
+                weapons.push(weapon);
+            }
+        });
+        return weapons;
+    }
+
+    public getRounds(weapon: WeaponType): number {
+        return this.getStations(weapon).reduce((total, station) => total + this.stationRounds.get(station.id)!, 0);
+    }
+
+    public getCapacity(weapon: WeaponType): number {
+        return this.getStations(weapon).length * this.specs[weapon].roundsPerStation;
+    }
+
+    public isReloaded(weapon: WeaponType): boolean {
+        return this.getReloadStatus(weapon) >= 1;
+    }
+
+    // 0 right after firing, 1 once ready
+    public getReloadStatus(weapon: WeaponType): number {
+        const reloadStartTime = this.reloadStartTimes.get(weapon) ?? -Infinity;
+        return Math.min((this.gameClock.now() - reloadStartTime) / this.specs[weapon].reloadTime, 1);
+    }
+
+    public canFire(weapon: WeaponType): boolean {
+        return this.getRounds(weapon) > 0 && this.isReloaded(weapon);
+    }
+
+    // Take one round from the first station that still has some
+    public consume(weapon: WeaponType): boolean {
+        const station = this.getStations(weapon).find(candidate => this.stationRounds.get(candidate.id)! > 0);
+        if (!station) return false;
+
+        this.stationRounds.set(station.id, this.stationRounds.get(station.id)! - 1);
+        return true;
+    }
+
+    public startReload(weapon: WeaponType): void {
+        this.reloadStartTimes.set(weapon, this.gameClock.now());
+    }
+
+    // Once per tick: restock weapons that rearm in flight, one round per interval
+    public update(): void {
+        const currentTime = this.gameClock.now();
+
+        (Object.keys(this.specs) as WeaponType[]).forEach(weapon => {
+            const rearmInterval = this.specs[weapon].rearmInterval;
+            if (rearmInterval === null) return;
+
+            const station = this.getStations(weapon).find(candidate =>
+                this.stationRounds.get(candidate.id)! < this.specs[weapon].roundsPerStation);
+            if (!station) {
+                this.rearmStartTimes.delete(weapon);
+                return;
+            }
+
+            const rearmStartTime = this.rearmStartTimes.get(weapon);
+            if (rearmStartTime === undefined) {
+                this.rearmStartTimes.set(weapon, currentTime);
+            } else if (currentTime - rearmStartTime >= rearmInterval) {
+                this.stationRounds.set(station.id, this.stationRounds.get(station.id)! + 1);
+                this.rearmStartTimes.set(weapon, currentTime);
+            }
+        });
+    }
+
+    private getStations(weapon: WeaponType): WeaponStation[] {
+        return BOMBER_STATIONS.filter(station => this.selection[station.id] === weapon);
+    }
+}
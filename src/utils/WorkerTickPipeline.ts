@@ -0,0 +1,105 @@
+interface SubmittedRequest<TRequest, TResult, TContext> {
+    request: TRequest;
+    context: TContext;
+    workerResult: TResult | null;
+    taken: boolean;
+}
+
+export interface PipelineResult<TResult, TContext> {
+    result: TResult;
+    context: TContext;
+    fromWorker: boolean;
+}
+
+// Submits one request per tick and hands back last tick's result one tick later.
+// The worker's answer is used when it has arrived; otherwise the same request is resolved synchronously,
+// so the outcome never depends on worker timing (replays and headless runs stay deterministic).
+// All the ticks of a frame run back to back, so only a request still waiting when the frame's ticks are done
+// can be answered in time: sending waits until then, and the worker gets exactly the requests it can help with.
+export class WorkerTickPipeline<TRequest, TResult, TContext> {
+    private sendToWorker: (request: TRequest) => Promise<TResult>;
+    private resolveLocally: (request: TRequest) => TResult;
+    private pending: SubmittedRequest<TRequest, TResult, TContext> | null = null;
+    private sendQueued: boolean = false;
+    private requestsInFlight: number = 0;
+    private maxRequestsInFlight: number = 3; // More would only queue up behind a slow worker
+    private generation: number = 0; // Bumped on reset so late replies from a previous sortie are ignored
+    private workerResultCount: number = 0;
+    private fallbackResultCount: number = 0;
+
+    constructor(sendToWorker: (request: TRequest) => Promise<TResult>, resolveLocally: (request: TRequest) => TResult) {
+        this.sendToWorker = sendToWorker;
+        this.resolveLocally = resolveLocally;
+    }
+
+    // Context travels with the request (e.g. id -> entity maps) and comes back with its result
+    public submit(request: TRequest, context: TContext): void {
+        this.pending = { request, context, workerResult: null, taken: false };
+
+        if (this.sendQueued) return;
+        this.sendQueued = true;
+        const generation = this.generation;
+        // Runs once the current frame's ticks have finished
+        Promise.resolve().then(() => {
+            if (generation === this.generation) {
+                this.sendQueued = false;
+                this.sendPending();
+            }
+        });
+    }
+
+    // Result for the request submitted last tick: the worker's if it has replied, otherwise resolved here
+    public take(): PipelineResult<TResult, TContext> | null {
+        const submitted = this.pending;
+        if (!submitted) return null;
+        this.pending = null;
+        submitted.taken = true;
+
+        if (submitted.workerResult) {
+            this.workerResultCount++;
+            return { result: submitted.workerResult, context: submitted.context, fromWorker: true };
+        }
+
+        this.fallbackResultCount++;
+        return { result: this.resolveLocally(submitted.request), context: submitted.context, fromWorker: false };
+    }
+
+    public getWorkerResultCount(): number {
+        return this.workerResultCount;
+    }
+
+    public getFallbackResultCount(): number {
+        return this.fallbackResultCount;
+    }
+
+    public reset(): void {
+        this.generation++;
+        this.pending = null;
+        this.sendQueued = false;
+        this.requestsInFlight = 0;
+        this.workerResultCount = 0;
+        this.fallbackResultCount = 0;
+    }
+
+    private sendPending(): void {
+        const submitted = this.pending;
+        if (!submitted || submitted.taken || this.requestsInFlight >= this.maxRequestsInFlight) return;
+
+        this.requestsInFlight++;
+        const generation = this.generation;
+        this.sendToWorker(submitted.request)
+            .then(result => {
+                if (generation === this.generation) {
+                    submitted.workerResult = result;
+                }
+            })
+            .catch(() => {
+                // Silent error handling - the synchronous fallback covers failed requests
+            })
+            .finally(() => {
+                if (generation === this.generation) {
+                    this.requestsInFlight--;
+                }
+            });
+    }
+}
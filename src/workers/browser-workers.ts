@@ -0,0 +1,15 @@
+import type { WorkerFactory, WorkerLike, WorkerName } from '../managers/WorkerManager';
+
+// Real Web Workers for the browser build; the URLs must stay literal so webpack can bundle each worker
+export const createBrowserWorker: WorkerFactory = (name: WorkerName): WorkerLike => {
+    switch (name) {
+        case 'terrain':
+            return new Worker(new URL('./terrain.worker.ts', import.meta.url), { type: 'module' });
+        case 'missilePhysics':
+            return new Worker(new URL('./missile-physics.worker.ts', import.meta.url), { type: 'module' });
+        case 'collisionDetection':
+            return new Worker(new URL('./collision-detection.worker.ts', import.meta.url), { type: 'module' });
+        case 'particlePhysics':
+            return new Worker(new URL('./particle-physics.worker.ts', import.meta.url), { type: 'module' });
+    }
+};
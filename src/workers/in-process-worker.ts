@@ -0,0 +1,52 @@
+import type { WorkerFactory, WorkerLike, WorkerName } from '../managers/WorkerManager';
+import { WorkerReply } from './worker-utils';
+import { handleTerrainMessage } from './terrain.handler';
+import { handleMissilePhysicsMessage } from './missile-physics.handler';
+import { handleCollisionDetectionMessage } from './collision-detection.handler';
+import { handleParticlePhysicsMessage } from './particle-physics.handler';
+
+type WorkerMessageHandler = (message: any, reply: WorkerReply) => void;
+
+const HANDLERS: Record<WorkerName, WorkerMessageHandler> = {
+    terrain: handleTerrainMessage,
+    missilePhysics: handleMissilePhysicsMessage,
+    collisionDetection: handleCollisionDetectionMessage,
+    particlePhysics: handleParticlePhysicsMessage
+};
+
+// Runs a worker's message handler on the main thread; replies are still delivered asynchronously
+export class InProcessWorker implements WorkerLike {
+    public onmessage: ((event: MessageEvent) => any) | null = null;
+    public onerror: ((event: ErrorEvent) => any) | null = null;
+    private handler: WorkerMessageHandler;
+    private terminated: boolean = false;
+
+    constructor(handler: WorkerMessageHandler) {
+        this.handler = handler;
+    }
+
+    public postMessage(message: any): void {
+        Promise.resolve().then(() => {
+            if (this.terminated) return;
+            try {
+                this.handler(message, (reply: any) => {
+                    if (!this.terminated && this.onmessage) {
+                        this.onmessage({ data: reply } as MessageEvent);
+                    }
+                });
+            } catch (error) {
+                if (this.onerror) {
+                    this.onerror({ error, message: String(error) } as ErrorEvent);
+                }
+            }
+        });
+    }
+
+    public terminate(): void {
+        this.terminated = true;
+    }
+}
+
+export const createInProcessWorker: WorkerFactory = (name: WorkerName): WorkerLike => {
+    return new InProcessWorker(HANDLERS[name]);
+};
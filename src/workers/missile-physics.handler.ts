@@ -0,0 +1,21 @@
+import { stepMissileGuidance } from '../utils/MissileGuidance';
+import { WorkerReply } from './worker-utils';
+import { respondToWorkerRequest } from './worker-protocol';
+
+// Handle worker messages (runs inside the worker, or in-process for headless mode)
+export function handleMissilePhysicsMessage(message: any, reply: WorkerReply): void {
+    respondToWorkerRequest(message, reply, request => {
+        switch (request.type) {
+            case 'BATCH_UPDATE_MISSILES':
+                return {
+                    response: {
+                        type: 'BATCH_MISSILE_PHYSICS_RESULT',
+                        data: stepMissileGuidance(request.data)
+                    }
+                };
+
+            default:
+                return null;
+        }
+    });
+}
@@ -0,0 +1,42 @@
+import { traceLineOfSightBatch } from '../utils/LineOfSight';
+import { TerrainGenerator } from '../utils/TerrainGenerator';
+import { WorkerReply } from './worker-utils';
+import { respondToWorkerRequest } from './worker-protocol';
+
+// Handle worker messages (runs inside the worker, or in-process for headless mode)
+export function handleTerrainMessage(message: any, reply: WorkerReply): void {
+    respondToWorkerRequest(message, reply, request => {
+        switch (request.type) {
+            case 'GENERATE_TERRAIN_CHUNK': {
+                const { chunkX, chunkZ, chunkSize, subdivisions, seed } = request.data;
+                const generator = new TerrainGenerator(seed, chunkSize, subdivisions);
+                const heightmap = generator.generateHeightmap(chunkX, chunkZ);
+                const buildingConfigs = generator.generateBuildings(chunkX, chunkZ, heightmap);
+
+                return {
+                    response: {
+                        type: 'TERRAIN_CHUNK_READY',
+                        data: {
+                            chunkX,
+                            chunkZ,
+                            heightmap,
+                            buildingConfigs
+                        }
+                    },
+                    transfer: [heightmap.buffer]
+                };
+            }
+
+            case 'TRACE_LINE_OF_SIGHT':
+                return {
+                    response: {
+                        type: 'LINE_OF_SIGHT_RESULT',
+                        data: { results: traceLineOfSightBatch(request.data) }
+                    }
+                };
+
+            default:
+                return null;
+        }
+    });
+}
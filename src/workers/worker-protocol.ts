@@ -0,0 +1,396 @@
+import type { BuildingConfig } from '../entities/Building';
+import type { EcmProfile } from '../utils/EcmJammer';
+import type { FlakProfile } from '../utils/Flak';
+import { Vector3, WorkerReply } from './worker-utils';
+
+// Shared message schema for WorkerManager and every worker; bump the version on any breaking change
+export const WORKER_PROTOCOL_VERSION = 12;
+
+// Terrain
+export interface TerrainChunkRequest {
+    chunkX: number;
+    chunkZ: number;
+    chunkSize: number;
+    subdivisions: number;
+    seed: number;
+}
+
+export interface TerrainChunkResult {
+    chunkX: number;
+    chunkZ: number;
+    heightmap: Float32Array;
+    buildingConfigs: BuildingConfig[];
+}
+
+// Missile guidance: every live missile is stepped once per tick in a single batch
+interface MissileGuidanceBase {
+    id: string;
+    position: Vector3;
+    velocity: Vector3;
+    rotation: Vector3;
+    targetPosition: Vector3;
+    speed: number;
+}
+
+export interface TomahawkGuidanceState extends MissileGuidanceBase {
+    missileType: 'tomahawk';
+    turnRate: number;
+    waypoints: Vector3[]; // Launch point and target the curved path runs between, or a planned route through more points
+    pathTime: number;
+    pathSpeed: number;
+    flightTime: number;
+    guidedFlightStarted: boolean; // False during the launch drop
+    lastOrientationUpdateTime: number; // Flight time of the last look-ahead orientation
+}
+
+export interface DefenseGuidanceState extends MissileGuidanceBase {
+    missileType: 'defense';
+    lifeTime: number;
+    maxLifeTime: number;
+    targetSet: boolean;
+    commandGuided: boolean; // The launching SAM still tracks the bomber and updates targetPosition each tick
+    turnRate: number;
+    isTargetingChaff: boolean; // Seduced by a chaff cloud; stays on it and ignores the SAM's commands from then on
+    chaffDetectionRange: number;
+}
+
+export interface IskanderGuidanceState extends MissileGuidanceBase {
+    missileType: 'iskander';
+    turnRate: number;
+    isTargetingFlare: boolean;
+    flareDetectionRange: number;
+    isLockedOn: boolean;
+    lockOnTime: number;
+    lockOnDuration: number;
+    lastTargetUpdateTime: number;
+    targetUpdateInterval: number;
+    bomberVisible: boolean; // Line of sight to the bomber; the seeker only locks and re-targets while it can see it
+    bomberSignature: number; // Detection range multiplier of the bomber seen from the seeker; lock builds up at this rate
+    bomberJamming: boolean; // The bomber's ECM is on: the seeker locks slower and refreshes the bomber's position less often
+}
+
+export interface AirToAirGuidanceState extends MissileGuidanceBase {
+    missileType: 'air-to-air';
+    turnRate: number;
+    lifeTime: number;
+    maxLifeTime: number;
+    isTargetingFlare: boolean; // Heat seeker spoofed by a flare; stays on it once it has looked away from the bomber
+    flareDetectionRange: number;
+}
+
+export type MissileGuidanceState = TomahawkGuidanceState | DefenseGuidanceState | IskanderGuidanceState | AirToAirGuidanceState;
+
+export interface MissileGuidanceBatch {
+    tick: number;
+    deltaTime: number;
+    currentTime: number;
+    bomberPosition: Vector3; // Iskander and air-to-air target
+    flares: Vector3[]; // Active flares Iskanders and air-to-air missiles may be decoyed by
+    chaff: Vector3[]; // Active chaff clouds defense missiles may be decoyed by
+    ecm: EcmProfile; // How much the bomber's jammer hampers Iskander seekers
+    missiles: MissileGuidanceState[];
+}
+
+export interface MissileGuidanceResult {
+    state: MissileGuidanceState; // State after the step, same id and type
+    shouldExplode: boolean;
+    lockEstablished: boolean; // Iskander lock completed during this step
+}
+
+export interface MissileGuidanceBatchResult {
+    tick: number;
+    results: MissileGuidanceResult[]; // In batch order
+}
+
+// Collision detection
+export interface BoundingBox {
+    min: Vector3;
+    max: Vector3;
+}
+
+export interface CollisionObject {
+    id: string;
+    position: Vector3;
+    bounds: BoundingBox;
+    type: 'building' | 'missile' | 'bomber' | 'bomb';
+    radius?: number;
+}
+
+export interface GenericCollisionResult {
+    objectId: string;
+    collidedWith: string[];
+    collisionPoints: Vector3[];
+    penetrationDepth: number;
+}
+
+export interface BuildingData {
+    id: string;
+    position: Vector3;
+    width: number;
+    height: number;
+    depth: number;
+    isTarget: boolean;
+    isDefenseLauncher: boolean;
+    isDestroyed: boolean;
+}
+
+export interface BuildingInRadius {
+    buildingId: string;
+    distance: number;
+}
+
+// Per-tick collision snapshot: the main loop submits one, the collision worker (or its fallback) resolves it
+export interface SnapshotEntity {
+    id: string;
+    position: Vector3;
+}
+
+export interface SnapshotBomb extends SnapshotEntity {
+    kind: 'standard' | 'cluster' | 'submunition' | 'bunker-buster'; // Picks the damage profile
+    groundHeight: number; // Terrain height under the bomb
+}
+
+export interface SnapshotMissile extends SnapshotEntity {
+    kind: 'defense' | 'iskander' | 'air-to-air';
+}
+
+export interface SnapshotBuilding extends SnapshotEntity {
+    bounds: BoundingBox;
+    isDefenseLauncher: boolean;
+    isTarget: boolean;
+}
+
+// Damage tuning for each bomb variant detonating near buildings
+export interface BombDamageProfile {
+    blastRadius: number;
+    maxDamage: number; // Damage is maxDamage - distance...
+    minDamage: number; // ...but never less than this inside the blast radius
+    hardenedMultiplier: number; // Scale against hardened buildings (defense launchers)
+}
+
+// Damage tuning for missiles detonating near the bomber
+export interface MissileDamageProfile {
+    directHitRadius: number;
+    directHitDamage: number;
+    proximityRadius: number;
+    proximityBase: number; // Proximity damage is proximityBase - distance...
+    proximityMinimum: number; // ...but never less than this
+}
+
+export interface CollisionSnapshot {
+    tick: number;
+    bomberPosition: Vector3;
+    bombs: SnapshotBomb[];
+    missiles: SnapshotMissile[];
+    flares: SnapshotEntity[];
+    flakBursts: SnapshotEntity[]; // AAA shells that burst since the last snapshot
+    buildings: SnapshotBuilding[]; // Live buildings only
+    // Damage tuning from the sortie's difficulty
+    bombDamage: Record<SnapshotBomb['kind'], BombDamageProfile>;
+    missileDamage: Record<SnapshotMissile['kind'], MissileDamageProfile>;
+    flak: FlakProfile;
+}
+
+export interface BombImpact {
+    bombId: string;
+    point: Vector3;
+    struckBuildingId: string | null; // Null for ground impacts
+    buildingHits: Array<{ buildingId: string; distance: number; damage: number }>;
+}
+
+export interface MissileHit {
+    missileId: string;
+    distance: number;
+    damage: number;
+    directHit: boolean;
+}
+
+export interface FlareDecoy {
+    missileId: string;
+    flareId: string;
+}
+
+export interface FlakHit {
+    burstId: string;
+    distance: number;
+    damage: number;
+}
+
+export interface CollisionSnapshotResult {
+    tick: number;
+    bombImpacts: BombImpact[];
+    missileHits: MissileHit[]; // Missiles close enough to the bomber to detonate
+    flareDecoys: FlareDecoy[]; // Heat-seeking missiles that detonate on a flare instead
+    flakHits: FlakHit[]; // Flak bursts close enough to the bomber to hurt it
+    closestDefenseBuildingId: string | null; // Tomahawk target candidate
+}
+
+// Line of sight
+export interface LineOfSightQuery {
+    from: Vector3;
+    to: Vector3;
+}
+
+export interface LineOfSightResult {
+    visible: boolean;
+    occludingPoint: Vector3 | null; // First point where the ray is blocked
+    occluder: 'terrain' | 'building' | null;
+}
+
+// Bulk queries carry the terrain and buildings they're traced against, so the worker needs no world state
+export interface LineOfSightBatch {
+    chunkSize: number;
+    subdivisions: number;
+    seed: number; // Heights come from the noise where no heightmap is sent
+    heightmaps: Array<{ chunkX: number; chunkZ: number; heights: Float32Array }>;
+    buildings: BoundingBox[]; // Live buildings only
+    queries: LineOfSightQuery[];
+}
+
+// Particle physics
+export interface Particle {
+    id: string;
+    position: Vector3;
+    velocity: Vector3;
+    color: { r: number; g: number; b: number; a: number };
+    size: number;
+    life: number;
+    maxLife: number;
+    type: 'fire' | 'smoke' | 'spark' | 'exhaust' | 'trail';
+}
+
+export interface ParticleSystemData {
+    particles: Particle[];
+    gravity: Vector3;
+    wind: Vector3;
+    turbulence: number;
+    deltaTime: number;
+    maxParticles: number;
+}
+
+export interface ParticlePhysicsResult {
+    particles: Particle[];
+    newParticles: Particle[];
+    expiredParticles: string[];
+}
+
+export interface CreateParticlesRequest {
+    emitterPosition: Vector3;
+    emitterVelocity: Vector3;
+    particleType: Particle['type'];
+    count: number;
+    spread: number;
+    speed: number;
+}
+
+// Errors
+export type WorkerErrorCode = 'PROTOCOL_VERSION_MISMATCH' | 'UNSUPPORTED_REQUEST' | 'HANDLER_FAILED';
+
+export interface WorkerErrorData {
+    code: WorkerErrorCode;
+    message: string;
+    requestType: string | null;
+}
+
+// Request type -> payload
+export interface WorkerRequestMap {
+    GENERATE_TERRAIN_CHUNK: TerrainChunkRequest;
+    TRACE_LINE_OF_SIGHT: LineOfSightBatch;
+    BATCH_UPDATE_MISSILES: MissileGuidanceBatch;
+    DETECT_COLLISIONS: { objects: CollisionObject[] };
+    CHECK_SPECIFIC_COLLISION: { object1: CollisionObject; object2: CollisionObject };
+    GET_BUILDINGS_IN_RADIUS: { bomberPosition: Vector3; buildings: BuildingData[]; radius: number };
+    RESOLVE_COLLISIONS: CollisionSnapshot;
+    UPDATE_PARTICLE_PHYSICS: ParticleSystemData;
+    CREATE_PARTICLES: CreateParticlesRequest;
+}
+
+// Response type -> payload
+export interface WorkerResponseMap {
+    TERRAIN_CHUNK_READY: TerrainChunkResult;
+    LINE_OF_SIGHT_RESULT: { results: LineOfSightResult[] };
+    BATCH_MISSILE_PHYSICS_RESULT: MissileGuidanceBatchResult;
+    COLLISION_RESULTS: { results: GenericCollisionResult[] };
+    SPECIFIC_COLLISION_RESULT: { collision: GenericCollisionResult | null };
+    BUILDINGS_IN_RADIUS_RESULT: { buildingsInRadius: BuildingInRadius[] };
+    COLLISION_SNAPSHOT_RESULT: CollisionSnapshotResult;
+    PARTICLE_PHYSICS_RESULT: ParticlePhysicsResult;
+    PARTICLES_CREATED: { particles: Particle[] };
+    WORKER_ERROR: WorkerErrorData;
+}
+
+// Which response answers each request
+export interface WorkerResponseTypeMap {
+    GENERATE_TERRAIN_CHUNK: 'TERRAIN_CHUNK_READY';
+    TRACE_LINE_OF_SIGHT: 'LINE_OF_SIGHT_RESULT';
+    BATCH_UPDATE_MISSILES: 'BATCH_MISSILE_PHYSICS_RESULT';
+    DETECT_COLLISIONS: 'COLLISION_RESULTS';
+    CHECK_SPECIFIC_COLLISION: 'SPECIFIC_COLLISION_RESULT';
+    GET_BUILDINGS_IN_RADIUS: 'BUILDINGS_IN_RADIUS_RESULT';
+    RESOLVE_COLLISIONS: 'COLLISION_SNAPSHOT_RESULT';
+    UPDATE_PARTICLE_PHYSICS: 'PARTICLE_PHYSICS_RESULT';
+    CREATE_PARTICLES: 'PARTICLES_CREATED';
+}
+
+export const WORKER_RESPONSE_TYPES: WorkerResponseTypeMap = {
+    GENERATE_TERRAIN_CHUNK: 'TERRAIN_CHUNK_READY',
+    TRACE_LINE_OF_SIGHT: 'LINE_OF_SIGHT_RESULT',
+    BATCH_UPDATE_MISSILES: 'BATCH_MISSILE_PHYSICS_RESULT',
+    DETECT_COLLISIONS: 'COLLISION_RESULTS',
+    CHECK_SPECIFIC_COLLISION: 'SPECIFIC_COLLISION_RESULT',
+    GET_BUILDINGS_IN_RADIUS: 'BUILDINGS_IN_RADIUS_RESULT',
+    RESOLVE_COLLISIONS: 'COLLISION_SNAPSHOT_RESULT',
+    UPDATE_PARTICLE_PHYSICS: 'PARTICLE_PHYSICS_RESULT',
+    CREATE_PARTICLES: 'PARTICLES_CREATED'
+};
+
+export type WorkerRequestType = keyof WorkerRequestMap;
+export type WorkerResponseType = keyof WorkerResponseMap;
+export type WorkerResultFor<K extends WorkerRequestType> = WorkerResponseMap[WorkerResponseTypeMap[K]];
+
+// Discriminated unions over every message type
+export type WorkerRequest = { [K in WorkerRequestType]: { type: K; data: WorkerRequestMap[K] } }[WorkerRequestType];
+export type WorkerResponse = { [K in WorkerResponseType]: { type: K; data: WorkerResponseMap[K] } }[WorkerResponseType];
+
+// Envelopes carry the protocol version and the id used to correlate a reply with its request
+export type WorkerRequestEnvelope = WorkerRequest & { protocolVersion: number; messageId: string };
+export type WorkerResponseEnvelope = WorkerResponse & { protocolVersion: number; messageId: string | null };
+
+export interface WorkerHandlerResult {
+    response: WorkerResponse;
+    transfer?: Transferable[];
+}
+
+// Returns null for request types the worker doesn't serve
+export type WorkerRequestHandler = (request: WorkerRequest) => WorkerHandlerResult | null;
+
+export function createWorkerError(code: WorkerErrorCode, message: string, requestType: string | null): WorkerResponse {
+    return { type: 'WORKER_ERROR', data: { code, message, requestType } };
+}
+
+// Validate the envelope, run the handler and always reply once: with its result or a WORKER_ERROR
+export function respondToWorkerRequest(message: any, reply: WorkerReply, handler: WorkerRequestHandler): void {
+    const messageId = message && typeof message.messageId === 'string' ? message.messageId : null;
+    const requestType = message && typeof message.type === 'string' ? message.type : null;
+    const send = (response: WorkerResponse, transfer?: Transferable[]) => {
+        const envelope: WorkerResponseEnvelope = { ...response, protocolVersion: WORKER_PROTOCOL_VERSION, messageId };
+        reply(envelope, transfer);
+    };
+
+    if (!message || message.protocolVersion !== WORKER_PROTOCOL_VERSION) {
+        send(createWorkerError('PROTOCOL_VERSION_MISMATCH',
+            `Expected protocol version ${WORKER_PROTOCOL_VERSION}, got ${message ? message.protocolVersion : undefined}`, requestType));
+        return;
+    }
+
+    try {
+        const result = handler({ type: message.type, data: message.data } as WorkerRequest);
+        if (!result) {
+            send(createWorkerError('UNSUPPORTED_REQUEST', `Unsupported request type: ${requestType}`, requestType));
+            return;
+        }
+        send(result.response, result.transfer);
+    } catch (error) {
+        send(createWorkerError('HANDLER_FAILED', error instanceof Error ? error.message : String(error), requestType));
+    }
+}
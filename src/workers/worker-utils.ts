@@ -6,6 +6,9 @@ export interface Vector3 {
     z: number;
 }
 
+// Posts a reply back to the main thread (self.postMessage in a worker, a direct callback in-process)
+export type WorkerReply = (message: any, transfer?: Transferable[]) => void;
+
 // Vector utility functions
 export function vector3Add(a: Vector3, b: Vector3): Vector3 {
     return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
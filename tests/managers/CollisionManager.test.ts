@@ -0,0 +1,141 @@
+import { Vector3 } from '@babylonjs/core';
+import { describe, expect, it, vi } from 'vitest';
+import { Bomb } from '../../src/entities/Bomb';
+import { Building } from '../../src/entities/Building';
+import { DefenseMissile } from '../../src/entities/DefenseMissile';
+import { IskanderMissile } from '../../src/entities/IskanderMissile';
+import { CollisionManager, CollisionWorld } from '../../src/managers/CollisionManager';
+import { WorkerManager } from '../../src/managers/WorkerManager';
+import { BOMB_DAMAGE_PROFILES, MISSILE_DAMAGE_PROFILES } from '../../src/utils/CollisionResolver';
+import { FLAK_PROFILE } from '../../src/utils/Flak';
+import { createInProcessWorker } from '../../src/workers/in-process-worker';
+
+// Test doubles carry only the members a test reaches, checked against the class they stand in for
+function stub<T>(members: Partial<T>): T {
+    return members as T;
+}
+
+function createMissile(position: Vector3) {
+    return { isLaunched: () => true, hasExploded: () => false, getPosition: () => position };
+}
+
+function createBuilding(position: Vector3, isDefenseLauncher: boolean): Building {
+    return stub<Building>({
+        getPosition: () => position,
+        getBounds: () => ({ min: position.subtract(new Vector3(5, 5, 5)), max: position.add(new Vector3(5, 5, 5)) }),
+        getIsDestroyed: () => false,
+        isDefenseLauncher: () => isDefenseLauncher,
+        isTarget: () => false
+    });
+}
+
+function createWorld(): CollisionWorld {
+    return {
+        bomberPosition: new Vector3(0, 100, 0),
+        bombs: [stub<Bomb>({ getKind: () => 'standard', getPosition: () => new Vector3(5, -1, 0) })],
+        iskanderMissiles: [stub<IskanderMissile>(createMissile(new Vector3(0, 110, 0)))],
+        defenseMissiles: [stub<DefenseMissile>(createMissile(new Vector3(0, 95, 0)))],
+        airToAirMissiles: [],
+        flares: [],
+        flakBursts: [],
+        buildings: [createBuilding(new Vector3(0, 0, 0), true), createBuilding(new Vector3(30, 0, 0), false)],
+        missileDamage: MISSILE_DAMAGE_PROFILES,
+        bombDamage: BOMB_DAMAGE_PROFILES,
+        flak: FLAK_PROFILE,
+        getGroundHeight: () => 0
+    };
+}
+
+// Lets queued in-process worker replies land
+function flushWorkers(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('CollisionManager', () => {
+    it('uses the worker result once it has arrived', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const manager = new CollisionManager(workerManager);
+
+        const world = createWorld();
+        manager.submit(1, world);
+        await flushWorkers();
+        const resolved = manager.takeResults()!;
+
+        expect(resolved.fromWorker).toBe(true);
+        expect(resolved.result.tick).toBe(1);
+        expect(resolved.result.bombImpacts).toHaveLength(1);
+        expect(resolved.result.missileHits).toHaveLength(2);
+        expect(resolved.entities.buildings.get(resolved.result.closestDefenseBuildingId!)).toBe(world.buildings[0]);
+        expect(manager.takeResults()).toBeNull(); // Each snapshot is handed out once
+        workerManager.dispose();
+    });
+
+    it('falls back to resolving synchronously with identical results when the worker is late', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const late = new CollisionManager(workerManager);
+        const punctual = new CollisionManager(workerManager);
+
+        late.submit(7, createWorld());
+        const fallback = late.takeResults()!;
+
+        punctual.submit(7, createWorld());
+        await flushWorkers();
+        const fromWorker = punctual.takeResults()!;
+
+        expect(fallback.fromWorker).toBe(false);
+        expect(fromWorker.fromWorker).toBe(true);
+        expect(fallback.result).toEqual(fromWorker.result);
+        expect(late.getFallbackResultCount()).toBe(1);
+        expect(punctual.getWorkerResultCount()).toBe(1);
+        workerManager.dispose();
+    });
+
+    it('sends only the snapshot still waiting once the frame is done, and stops sending to a stalled worker', async () => {
+        const resolveCollisions = vi.fn(() => new Promise<never>(() => {}));
+        const manager = new CollisionManager(stub<WorkerManager>({ resolveCollisions }));
+
+        manager.submit(1, createWorld());
+        manager.submit(2, createWorld());
+        manager.submit(3, createWorld());
+        await flushWorkers();
+
+        expect(resolveCollisions).toHaveBeenCalledTimes(1);
+        expect(resolveCollisions.mock.calls[0]).toEqual([expect.objectContaining({ tick: 3 })]);
+        expect(manager.takeResults()!.result.tick).toBe(3); // Only the latest snapshot is pending
+
+        for (let tick = 4; tick <= 8; tick++) {
+            manager.takeResults();
+            manager.submit(tick, createWorld());
+            await flushWorkers();
+        }
+        expect(resolveCollisions).toHaveBeenCalledTimes(3); // None of them has replied
+    });
+
+    it('keeps entity ids stable across snapshots and maps results back to entities', () => {
+        const manager = new CollisionManager(stub<WorkerManager>({ resolveCollisions: () => new Promise<never>(() => {}) }));
+        const world = createWorld();
+
+        manager.submit(1, world);
+        const first = manager.takeResults()!;
+        manager.submit(2, world);
+        const second = manager.takeResults()!;
+
+        expect(Array.from(first.entities.missiles.keys())).toEqual(Array.from(second.entities.missiles.keys()));
+        const hitMissiles = second.result.missileHits.map(hit => second.entities.missiles.get(hit.missileId));
+        expect(hitMissiles).toEqual([world.iskanderMissiles[0], world.defenseMissiles[0]]);
+        expect(second.entities.bombs.get(second.result.bombImpacts[0].bombId)).toBe(world.bombs[0]);
+    });
+
+    it('ignores replies that arrive after a reset', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const manager = new CollisionManager(workerManager);
+
+        manager.submit(1, createWorld());
+        manager.reset();
+        manager.submit(1, createWorld());
+        await flushWorkers();
+
+        expect(manager.takeResults()!.fromWorker).toBe(true); // The new sortie's request was sent despite the old one in flight
+        workerManager.dispose();
+    });
+});
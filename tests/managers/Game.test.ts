@@ -0,0 +1,694 @@
+import { Vector3 } from '@babylonjs/core';
+import { describe, expect, it, vi } from 'vitest';
+import { Bomb } from '../../src/entities/Bomb';
+import { Bomber } from '../../src/entities/Bomber';
+import { Building } from '../../src/entities/Building';
+import { IskanderMissile } from '../../src/entities/IskanderMissile';
+import { TomahawkMissile } from '../../src/entities/TomahawkMissile';
+import { CameraController } from '../../src/managers/CameraController';
+import { CollisionManager } from '../../src/managers/CollisionManager';
+import { Game } from '../../src/managers/Game';
+import { InputManager } from '../../src/managers/InputManager';
+import { TerrainManager } from '../../src/managers/TerrainManager';
+import { UIManager } from '../../src/ui/UIManager';
+import { GameClock } from '../../src/utils/GameClock';
+import { DEFAULT_TUNING } from '../../src/utils/GameTuning';
+import { BallisticState, DEFAULT_BALLISTICS, stepBallistic } from '../../src/utils/BombBallistics';
+import { BOMB_BLAST_RADIUS } from '../../src/utils/CollisionResolver';
+import { DEFAULT_LOADOUT, WeaponLoadout } from '../../src/utils/WeaponLoadout';
+import { TargetQueue } from '../../src/utils/TargetQueue';
+import { FlightRecorder } from '../../src/utils/FlightRecorder';
+import { ReplayPlayer } from '../../src/utils/ReplayPlayer';
+import type { CollisionEntities, ResolvedCollisions } from '../../src/managers/CollisionManager';
+import type { CollisionSnapshotResult } from '../../src/workers/worker-protocol';
+
+// Test doubles carry only the members a test reaches, checked against the class they stand in for
+function stub<T>(members: Partial<T>): T {
+    return members as T;
+}
+
+// Private Game state the tests set up. Each type is looked up on Game, so renaming a field breaks the tests
+// at compile time; the tests reach the same members as game['field'], which TypeScript also checks
+interface GameInternals {
+    gameOver: Game['gameOver'];
+    inMainMenu: Game['inMainMenu'];
+    gameClock: Game['gameClock'];
+    bomber: Game['bomber'];
+    bombs: Game['bombs'];
+    loadout: Game['loadout'];
+    tuning: Game['tuning'];
+    ballistics: Game['ballistics'];
+    terrainManager: Game['terrainManager'];
+    collisionManager: Game['collisionManager'];
+    inputManager: Game['inputManager'];
+    cameraController: Game['cameraController'];
+    uiManager: Game['uiManager'];
+    flightRecorder: Game['flightRecorder'];
+    replayPlayer: Game['replayPlayer'];
+    replaySeekTargetTick: Game['replaySeekTargetTick'];
+    destroyedBuildings: Game['destroyedBuildings'];
+    destroyedTargets: Game['destroyedTargets'];
+    isBombingRun: Game['isBombingRun'];
+    bombsToDrop: Game['bombsToDrop'];
+    lastBombDropTime: Game['lastBombDropTime'];
+    selectedBombWeapon: Game['selectedBombWeapon'];
+    bombSelectKeyHeld: Game['bombSelectKeyHeld'];
+    bombSightMaxTimeOfFlight: Game['bombSightMaxTimeOfFlight'];
+    dropBomb: Game['dropBomb'];
+    lastCameraToggleTime: Game['lastCameraToggleTime'];
+    cameraToggleCooldown: Game['cameraToggleCooldown'];
+    pendingTargetDesignations: Game['pendingTargetDesignations'];
+    targetCycleKeyHeld: Game['targetCycleKeyHeld'];
+    targetQueueKeyHeld: Game['targetQueueKeyHeld'];
+    targetPickRadius: Game['targetPickRadius'];
+    pendingMissionPlans: Game['pendingMissionPlans'];
+    radarWarnings: Game['radarWarnings'];
+}
+
+// Game logic is exercised on prototype instances with only the fields each method reads, so no scene is needed
+function createGame(fields: Partial<GameInternals>): Game {
+    return Object.assign(Object.create(Game.prototype), fields);
+}
+
+// Private Bomber state for the same treatment
+interface BomberInternals {
+    gameClock: Bomber['gameClock'];
+    loadout: Bomber['loadout'];
+    position: Bomber['position'];
+    bombBayState: Bomber['bombBayState'];
+    missileLaunchPending: Bomber['missileLaunchPending'];
+    isBombingRunActiveCallback: Bomber['isBombingRunActiveCallback'];
+    targetQueue: Bomber['targetQueue'];
+    missiles: Bomber['missiles'];
+}
+
+function createBomberState(fields: Partial<BomberInternals> & Partial<Bomber>): Bomber {
+    return Object.assign(Object.create(Bomber.prototype), fields);
+}
+
+function createBomber(members: Partial<Bomber> = {}): Bomber {
+    const position = new Vector3(0, 100, 0);
+    return stub<Bomber>({
+        getPosition: () => position,
+        takeDamage: vi.fn(),
+        isBomberDestroyed: () => false,
+        isWeaponSystemActive: () => false,
+        isBombBayOpen: () => true,
+        openBombBay: vi.fn(),
+        closeBombBay: vi.fn(),
+        getBombBayPosition: () => position.clone(),
+        ...members
+    });
+}
+
+function createMissile(position: Vector3): IskanderMissile {
+    let exploded = false;
+    return stub<IskanderMissile>({
+        isLaunched: () => true,
+        hasExploded: () => exploded,
+        getPosition: () => position,
+        explode: vi.fn(() => { exploded = true; })
+    });
+}
+
+function createBuilding(position: Vector3, options: { destroyAt?: number; isTarget?: boolean } = {}): Building {
+    let damage = 0;
+    return stub<Building>({
+        getPosition: () => position,
+        isTarget: () => options.isTarget ?? false,
+        takeDamage: vi.fn((amount: number) => {
+            damage += amount;
+            return options.destroyAt !== undefined && damage >= options.destroyAt;
+        })
+    });
+}
+
+function createBomb(position: Vector3): Bomb {
+    return stub<Bomb>({
+        update: vi.fn(),
+        getPosition: () => position,
+        explode: vi.fn()
+    });
+}
+
+// Game wired to a collision manager that hands back a prepared result
+function createGameWithResult(result: Partial<CollisionSnapshotResult>, entities: Partial<CollisionEntities>, fields: Partial<GameInternals> = {}) {
+    const bomber = createBomber({ setClosestDefenseBuilding: vi.fn() });
+    const resolved: ResolvedCollisions = {
+        result: { tick: 1, bombImpacts: [], missileHits: [], flareDecoys: [], flakHits: [], closestDefenseBuildingId: null, ...result },
+        entities: { bombs: new Map(), missiles: new Map(), buildings: new Map(), ...entities },
+        fromWorker: false
+    };
+    const collisionManager = stub<CollisionManager>({ takeResults: vi.fn(() => resolved) });
+    return createGame({ gameOver: false, bomber, bombs: [], destroyedBuildings: 0, destroyedTargets: 0, collisionManager, ...fields });
+}
+
+describe('Game collision results', () => {
+    it('applies bomb impacts to buildings and removes the bomb', () => {
+        const bomb = createBomb(new Vector3(0, -0.5, 0));
+        const target = createBuilding(new Vector3(0, 0, 0), { destroyAt: 45, isTarget: true });
+        const building = createBuilding(new Vector3(40, 0, 0), { destroyAt: 5 });
+        const survivor = createBuilding(new Vector3(45, 0, 0));
+        const game = createGameWithResult({
+            bombImpacts: [{
+                bombId: 'bomb_0',
+                point: { x: 0, y: 0, z: 0 },
+                struckBuildingId: null,
+                buildingHits: [
+                    { buildingId: 'building_0', distance: 5, damage: 45 },
+                    { buildingId: 'building_1', distance: 40, damage: 10 },
+                    { buildingId: 'building_2', distance: 45, damage: 10 }
+                ]
+            }]
+        }, {
+            bombs: new Map([['bomb_0', bomb]]),
+            buildings: new Map([['building_0', target], ['building_1', building], ['building_2', survivor]])
+        }, { bombs: [bomb] });
+
+        game['applyCollisionResults']();
+
+        expect(target.takeDamage).toHaveBeenCalledWith(45, true);
+        expect(survivor.takeDamage).toHaveBeenCalledWith(10, true);
+        expect(game['destroyedBuildings']).toBe(2);
+        expect(game['destroyedTargets']).toBe(1);
+        expect(bomb.explode).toHaveBeenCalledWith(expect.objectContaining({ x: 0, y: 0, z: 0 }));
+        expect(game['bombs']).toHaveLength(0);
+    });
+
+    it('skips impacts for bombs that are already gone', () => {
+        const bomb = createBomb(new Vector3(0, 0, 0));
+        const building = createBuilding(new Vector3(0, 0, 0));
+        const game = createGameWithResult({
+            bombImpacts: [{ bombId: 'bomb_0', point: { x: 0, y: 0, z: 0 }, struckBuildingId: 'building_0', buildingHits: [{ buildingId: 'building_0', distance: 0, damage: 50 }] }]
+        }, {
+            bombs: new Map([['bomb_0', bomb]]),
+            buildings: new Map([['building_0', building]])
+        });
+
+        game['applyCollisionResults']();
+
+        expect(building.takeDamage).not.toHaveBeenCalled();
+        expect(bomb.explode).not.toHaveBeenCalled();
+    });
+
+    it('damages the bomber for missile hits and detonates the missiles', () => {
+        const directHit = createMissile(new Vector3(0, 105, 0));
+        const proximity = createMissile(new Vector3(0, 115, 0));
+        const game = createGameWithResult({
+            missileHits: [
+                { missileId: 'iskander_0', distance: 5, damage: 50, directHit: true },
+                { missileId: 'iskander_1', distance: 15, damage: 25, directHit: false }
+            ]
+        }, {
+            missiles: new Map([['iskander_0', directHit], ['iskander_1', proximity]])
+        });
+
+        game['applyCollisionResults']();
+
+        expect(game['bomber'].takeDamage).toHaveBeenNthCalledWith(1, 50);
+        expect(game['bomber'].takeDamage).toHaveBeenNthCalledWith(2, 25);
+        expect(directHit.explode).toHaveBeenCalled();
+        expect(proximity.explode).toHaveBeenCalled();
+    });
+
+    it('ignores hits from missiles that detonated since the snapshot and after game over', () => {
+        const missile = createMissile(new Vector3(0, 100, 0));
+        missile.explode();
+        const game = createGameWithResult({
+            missileHits: [{ missileId: 'defense_0', distance: 0, damage: 25, directHit: true }]
+        }, {
+            missiles: new Map([['defense_0', missile]])
+        });
+
+        game['applyCollisionResults']();
+        expect(game['bomber'].takeDamage).not.toHaveBeenCalled();
+
+        const live = createMissile(new Vector3(0, 100, 0));
+        const finished = createGameWithResult({
+            missileHits: [{ missileId: 'defense_0', distance: 0, damage: 25, directHit: true }]
+        }, {
+            missiles: new Map([['defense_0', live]])
+        }, { gameOver: true });
+
+        finished['applyCollisionResults']();
+        expect(finished['bomber'].takeDamage).not.toHaveBeenCalled();
+    });
+
+    it('detonates decoyed Iskanders without damaging the bomber', () => {
+        const missile = createMissile(new Vector3(10, 95, 10));
+        const game = createGameWithResult({
+            flareDecoys: [{ missileId: 'iskander_0', flareId: 'flare_0' }],
+            missileHits: [{ missileId: 'iskander_0', distance: 15, damage: 25, directHit: false }]
+        }, {
+            missiles: new Map([['iskander_0', missile]])
+        });
+
+        game['applyCollisionResults']();
+
+        expect(missile.explode).toHaveBeenCalledTimes(1);
+        expect(game['bomber'].takeDamage).not.toHaveBeenCalled();
+    });
+
+    it('hands the closest launcher to the bomber as its Tomahawk target', () => {
+        const launcher = createBuilding(new Vector3(100, 0, 0));
+        const game = createGameWithResult({ closestDefenseBuildingId: 'building_3' }, {
+            buildings: new Map([['building_3', launcher]])
+        });
+
+        game['applyCollisionResults']();
+
+        expect(game['bomber'].setClosestDefenseBuilding).toHaveBeenCalledWith(launcher);
+    });
+});
+
+describe('Game cooldowns', () => {
+    function stepSeconds(gameClock: GameClock, seconds: number): void {
+        const steps = Math.round(seconds / gameClock.getFixedTimeStep());
+        for (let i = 0; i < steps; i++) {
+            gameClock.step();
+        }
+    }
+
+    it('runs a bombing run and then holds the bomb bay for the cooldown', () => {
+        const gameClock = new GameClock();
+        const bomber = createBomber();
+        const dropBomb = vi.fn();
+        const game = createGame({
+            gameClock,
+            bomber,
+            bombs: [],
+            isBombingRun: false,
+            loadout: new WeaponLoadout(DEFAULT_LOADOUT, gameClock),
+            bombsToDrop: 0,
+            lastBombDropTime: 0,
+            inputManager: stub<InputManager>({ isBombKeyPressed: () => false }),
+            dropBomb
+        });
+
+        expect(game.isBombingAvailable()).toBe(true);
+        game.startBombingRun();
+        expect(game.isBombingAvailable()).toBe(false);
+        expect(game.getBombCooldownStatus()).toBe(0);
+
+        // One bomb per second until all nine are away
+        for (let second = 0; second < 9; second++) {
+            stepSeconds(gameClock, 1);
+            game['handleBombing'](gameClock.now());
+        }
+        expect(dropBomb).toHaveBeenCalledTimes(9);
+        expect(game.isBombingRunActive()).toBe(false);
+        expect(bomber.closeBombBay).toHaveBeenCalled();
+
+        stepSeconds(gameClock, 10);
+        expect(game.isBombingAvailable()).toBe(false);
+        expect(game.getBombCooldownStatus()).toBeCloseTo(10 / 15, 5);
+
+        stepSeconds(gameClock, 5.5);
+        expect(game.isBombingAvailable()).toBe(true);
+        expect(game.getBombCooldownStatus()).toBe(1);
+    });
+
+    it('ends runs early and refuses new ones once the bomb stations are empty', () => {
+        const gameClock = new GameClock();
+        const loadout = new WeaponLoadout({ ...DEFAULT_LOADOUT, 'bay-center': 'tomahawk' }, gameClock);
+        const dropBomb = vi.fn();
+        const game = createGame({
+            gameClock,
+            bomber: createBomber(),
+            bombs: [],
+            isBombingRun: false,
+            loadout,
+            bombsToDrop: 0,
+            lastBombDropTime: 0,
+            inputManager: stub<InputManager>({ isBombKeyPressed: () => false }),
+            dropBomb
+        });
+
+        // Drain all but four bombs before the run
+        for (let i = 0; i < 5; i++) {
+            loadout.consume('bomb');
+        }
+        game.startBombingRun();
+        for (let second = 0; second < 9; second++) {
+            stepSeconds(gameClock, 1);
+            game['handleBombing'](gameClock.now());
+        }
+
+        expect(dropBomb).toHaveBeenCalledTimes(4);
+        expect(game.isBombingRunActive()).toBe(false);
+        expect(loadout.getRounds('bomb')).toBe(0);
+
+        stepSeconds(gameClock, 20);
+        expect(game.isBombingAvailable()).toBe(false);
+    });
+
+    it('cycles the mounted bomb variants once per key press and drops the selected salvo', () => {
+        const gameClock = new GameClock();
+        let selectKeyDown = false;
+        const dropBomb = vi.fn();
+        const game = createGame({
+            gameClock,
+            bomber: createBomber(),
+            bombs: [],
+            isBombingRun: false,
+            loadout: new WeaponLoadout({ ...DEFAULT_LOADOUT, 'bay-center': 'cluster' }, gameClock),
+            bombsToDrop: 0,
+            lastBombDropTime: 0,
+            selectedBombWeapon: null,
+            bombSelectKeyHeld: false,
+            inputManager: stub<InputManager>({ isBombKeyPressed: () => false, isBombSelectKeyPressed: () => selectKeyDown }),
+            dropBomb
+        });
+
+        expect(game.getSelectedBombWeapon()).toBe('bomb');
+
+        // Holding the key only cycles once
+        selectKeyDown = true;
+        game['handleBombSelection']();
+        game['handleBombSelection']();
+        expect(game.getSelectedBombWeapon()).toBe('cluster');
+
+        game.startBombingRun();
+        selectKeyDown = false;
+        game['handleBombSelection']();
+        selectKeyDown = true;
+        game['handleBombSelection']();
+        expect(game.getSelectedBombWeapon()).toBe('cluster'); // Locked during the run
+
+        for (let second = 0; second < 3; second++) {
+            stepSeconds(gameClock, 1);
+            game['handleBombing'](gameClock.now());
+        }
+        expect(dropBomb).toHaveBeenCalledTimes(2);
+        expect(dropBomb).toHaveBeenCalledWith('cluster');
+        expect(game.getLoadout().getRounds('cluster')).toBe(2);
+        expect(game.getLoadout().getRounds('bomb')).toBe(9);
+        expect(game.isBombingAvailable()).toBe(false);
+
+        // The bomb variant has its own reload and is ready straight away
+        selectKeyDown = false;
+        game['handleBombSelection']();
+        selectKeyDown = true;
+        game['handleBombSelection']();
+        expect(game.getSelectedBombWeapon()).toBe('bomb');
+        expect(game.isBombingAvailable()).toBe(true);
+    });
+
+    it('rate limits camera toggles', () => {
+        const gameClock = new GameClock();
+        const cameraController = stub<CameraController>({ toggleLockMode: vi.fn() });
+        const game = createGame({
+            gameClock,
+            cameraController,
+            uiManager: null,
+            lastCameraToggleTime: 0,
+            cameraToggleCooldown: 0.3,
+            inputManager: stub<InputManager>({ isCameraTogglePressed: () => true })
+        });
+
+        for (let i = 0; i < 60; i++) {
+            gameClock.step();
+            game['handleCameraToggle'](gameClock.now());
+        }
+
+        // One second of held key: toggles at ~0.32s, ~0.63s and ~0.95s
+        expect(cameraController.toggleLockMode).toHaveBeenCalledTimes(3);
+    });
+
+    it('gates Tomahawk launches and flares on their cooldowns', () => {
+        const gameClock = new GameClock();
+        const loadout = new WeaponLoadout(DEFAULT_LOADOUT, gameClock);
+        const bomber = createBomberState({
+            gameClock,
+            loadout,
+            bombBayState: 'closed',
+            missileLaunchPending: false,
+            isBombingRunActiveCallback: () => false
+        });
+
+        expect(bomber.canLaunchMissile()).toBe(true);
+        expect(bomber.canLaunchFlares()).toBe(true);
+
+        loadout.startReload('tomahawk');
+        loadout.startReload('flare');
+        stepSeconds(gameClock, 5);
+        expect(bomber.canLaunchMissile()).toBe(false);
+        expect(bomber.getMissileCooldownStatus()).toBeCloseTo(0.5, 5);
+        expect(bomber.canLaunchFlares()).toBe(false);
+
+        stepSeconds(gameClock, 3);
+        expect(bomber.canLaunchFlares()).toBe(true);
+        expect(bomber.canLaunchMissile()).toBe(false);
+
+        stepSeconds(gameClock, 2);
+        expect(bomber.canLaunchMissile()).toBe(true);
+
+        // A bombing run blocks Tomahawks even with the cooldown ready
+        bomber.setBombingRunActiveCallback(() => true);
+        expect(bomber.canLaunchMissile()).toBe(false);
+    });
+});
+
+describe('Game bomb sight', () => {
+    it('predicts the impact point real bombs reach and the live buildings in its blast', () => {
+        const bomber = createBomber({ getVelocity: () => new Vector3(0, 0, 25) });
+        const live = stub<Building>({ getIsDestroyed: () => false });
+        const destroyed = stub<Building>({ getIsDestroyed: () => true });
+        const terrainManager = stub<TerrainManager>({
+            getHeightAtPosition: () => 0,
+            getBuildingsInRadius: vi.fn(() => [live, destroyed])
+        });
+        const gameClock = new GameClock();
+        const game = createGame({
+            bomber,
+            terrainManager,
+            gameClock,
+            loadout: new WeaponLoadout(DEFAULT_LOADOUT, gameClock),
+            ballistics: DEFAULT_BALLISTICS,
+            bombSightMaxTimeOfFlight: 30,
+            tuning: DEFAULT_TUNING
+        });
+
+        const solution = game.getBombSightSolution()!;
+
+        // Fly a bomb from the same release, tick by tick, until it reaches the ground
+        const bomb: BallisticState = { position: { x: 0, y: 100, z: 0 }, velocity: { x: 0, y: -5, z: 25 } };
+        let ticks = 0;
+        while (bomb.position.y > 0) {
+            stepBallistic(bomb, DEFAULT_BALLISTICS, 1 / 60);
+            ticks++;
+        }
+
+        expect(solution.impactPoint.y).toBe(0);
+        expect(solution.impactPoint.z).toBeGreaterThan(80);
+        expect(Math.abs(solution.impactPoint.z - bomb.position.z)).toBeLessThan(1);
+        expect(Math.abs(solution.timeToImpact - ticks / 60)).toBeLessThanOrEqual(1 / 60);
+        expect(solution.blastRadius).toBe(BOMB_BLAST_RADIUS);
+        expect(terrainManager.getBuildingsInRadius).toHaveBeenCalledWith(solution.impactPoint, BOMB_BLAST_RADIUS);
+        expect(solution.buildingsInBlast).toEqual([live]);
+    });
+});
+
+describe('Game Tomahawk targeting', () => {
+    function createCandidate(x: number, options: { isTarget?: boolean; isDefenseLauncher?: boolean; isRadarSite?: boolean } = {}): Building {
+        let destroyed = false;
+        return stub<Building>({
+            getPosition: () => new Vector3(x, 0, 0),
+            getBounds: () => ({ min: new Vector3(x - 5, 0, -5), max: new Vector3(x + 5, 20, 5) }),
+            isTarget: () => options.isTarget ?? false,
+            isDefenseLauncher: () => options.isDefenseLauncher ?? !options.isTarget,
+            isRadarSite: () => options.isRadarSite ?? false,
+            getIsDestroyed: () => destroyed,
+            forceDestroy: () => {
+                destroyed = true;
+                return true;
+            }
+        });
+    }
+
+    it('cycles, queues and click-designates targets, advancing past destroyed ones', () => {
+        const near = createCandidate(100);
+        const mission = createCandidate(200, { isTarget: true, isDefenseLauncher: false });
+        const far = createCandidate(400);
+        const house = createCandidate(150, { isDefenseLauncher: false });
+        const targetQueue = new TargetQueue<Building>();
+        const keys = { cycle: false, queue: false };
+        const flightRecorder = new FlightRecorder();
+        flightRecorder.start(1, 1 / 60);
+        const masked = new Set<number>(); // x of roofs hidden from the bomber
+        const game = createGame({
+            bomber: stub<Bomber>({ getPosition: () => new Vector3(0, 100, 0), getTargetQueue: () => targetQueue }),
+            terrainManager: stub<TerrainManager>({
+                getBuildingsInRadius: () => [far, house, mission, near],
+                hasLineOfSight: (_from: Vector3, to: Vector3) => !masked.has(to.x)
+            }),
+            inputManager: stub<InputManager>({ isTargetCycleKeyPressed: () => keys.cycle, isTargetQueueKeyPressed: () => keys.queue }),
+            gameClock: new GameClock(),
+            flightRecorder,
+            replayPlayer: null,
+            inMainMenu: false,
+            gameOver: false,
+            pendingTargetDesignations: [],
+            targetCycleKeyHeld: false,
+            targetQueueKeyHeld: false,
+            targetPickRadius: 30
+        });
+        const press = (key: 'cycle' | 'queue') => {
+            keys[key] = true;
+            game['handleTargeting']();
+            game['handleTargeting'](); // Held: no repeat
+            keys[key] = false;
+            game['handleTargeting']();
+        };
+
+        expect(game.getTargetCandidates()).toEqual([near, mission, far]);
+
+        press('cycle');
+        press('cycle');
+        expect(targetQueue.getDesignated()).toBe(mission);
+        press('queue');
+        expect(targetQueue.getQueue()).toEqual([mission]);
+
+        // Clicks land on the candidate nearest the clicked point and are recorded for replay
+        expect(game.designateTargetNear(new Vector3(410, 0, 10))).toBe(true);
+        expect(game.designateTargetNear(new Vector3(150, 0, 0))).toBe(false); // Only a plain building there
+        game['handleTargeting']();
+        expect(targetQueue.getDesignated()).toBe(far);
+        expect(targetQueue.getQueue()).toEqual([mission, far]);
+        expect(flightRecorder.getRecording()!.events).toEqual([
+            { tick: 0, type: 'target-designated', position: { x: 400, y: 0, z: 0 } }
+        ]);
+
+        far.forceDestroy();
+        game['handleTargeting']();
+        expect(targetQueue.getQueue()).toEqual([mission]);
+        expect(targetQueue.getDesignated()).toBe(mission);
+
+        // Roofs behind terrain or buildings can't be designated
+        masked.add(100);
+        expect(game.getTargetCandidates()).toEqual([mission]);
+    });
+
+    it('aims Tomahawks at queued targets before falling back to the closest launcher', () => {
+        const first = createCandidate(200, { isTarget: true });
+        const second = createCandidate(250);
+        const outOfRange = createCandidate(900);
+        const closestLauncher = createCandidate(50);
+        const targetQueue = new TargetQueue<Building>();
+        const missiles: TomahawkMissile[] = [];
+        const bomber = createBomberState({
+            position: new Vector3(0, 100, 0),
+            targetQueue,
+            missiles,
+            findClosestDefenseBuilding: () => closestLauncher
+        });
+
+        expect(bomber.getMissileTarget()).toBe(closestLauncher);
+
+        targetQueue.toggleQueued(outOfRange);
+        targetQueue.toggleQueued(first);
+        targetQueue.toggleQueued(second);
+        expect(bomber.getMissileTarget()).toBe(first);
+
+        missiles.push(stub<TomahawkMissile>({ hasExploded: () => false, getTargetBuilding: () => first }));
+        expect(bomber.getMissileTarget()).toBe(second);
+    });
+});
+
+describe('Game Tomahawk mission planning', () => {
+    it('applies plans on the next tick and records them for replay', () => {
+        const setMissionPlan = vi.fn();
+        const flightRecorder = new FlightRecorder();
+        flightRecorder.start(1, 1 / 60);
+        const game = createGame({
+            bomber: stub<Bomber>({ getPosition: () => new Vector3(5, 100, 0), setMissionPlan, getMissionPlan: () => null }),
+            gameClock: new GameClock(),
+            flightRecorder,
+            replayPlayer: null,
+            inMainMenu: false,
+            gameOver: false,
+            pendingMissionPlans: []
+        });
+        const plan = { waypoints: [{ x: 100, z: 200 }], altitude: 40, approachHeading: null };
+
+        game.setMissionPlan(plan);
+        plan.waypoints.push({ x: 0, z: 0 }); // The planner keeps editing its own copy
+        expect(game.getMissionPlan()!.waypoints).toEqual([{ x: 100, z: 200 }]);
+        expect(setMissionPlan).not.toHaveBeenCalled();
+
+        game['handleMissionPlanning']();
+        game.setMissionPlan(null);
+        game['handleMissionPlanning']();
+        expect(setMissionPlan.mock.calls).toEqual([[{ waypoints: [{ x: 100, z: 200 }], altitude: 40, approachHeading: null }], [null]]);
+        expect(flightRecorder.getRecording()!.events).toEqual([
+            { tick: 0, type: 'mission-planned', position: { x: 5, y: 100, z: 0 }, plan: { waypoints: [{ x: 100, z: 200 }], altitude: 40, approachHeading: null } },
+            { tick: 0, type: 'mission-planned', position: { x: 5, y: 100, z: 0 } }
+        ]);
+
+        expect(() => game.setMissionPlan({ waypoints: [], altitude: 500, approachHeading: null })).toThrow('Invalid mission plan');
+
+        // Replays take their plans from the recording
+        game['replayPlayer'] = stub<ReplayPlayer>({});
+        game.setMissionPlan(plan);
+        expect(game['pendingMissionPlans']).toEqual([]);
+    });
+});
+
+describe('Game radar warnings', () => {
+    it('lists SAM sites tracking the bomber by threat with bearings off the nose', () => {
+        const site = (x: number, z: number) => stub<Building>({ getPosition: () => new Vector3(x, 0, z), getIsDestroyed: () => false });
+        const ahead = site(0, 200);
+        const right = site(150, 0);
+        const behind = site(0, -100);
+        const showAlert = vi.fn();
+        const game = createGame({
+            bomber: stub<Bomber>({ getPosition: () => new Vector3(0, 100, 0), getRotation: () => new Vector3(0, 0, 0) }),
+            radarWarnings: new Map(),
+            replaySeekTargetTick: -1,
+            uiManager: stub<UIManager>({ showAlert })
+        });
+
+        game['handleSamStateChange'](ahead, 'track');
+        game['handleSamStateChange'](right, 'lock');
+        game['handleSamStateChange'](behind, 'track');
+        game['handleSamStateChange'](behind, 'search'); // Lost the track again
+
+        const warnings = game.getRadarWarnings();
+        expect(warnings.map(warning => warning.state)).toEqual(['lock', 'track']);
+        expect(warnings[0].bearing).toBeCloseTo(Math.PI / 2);
+        expect(warnings[0].distance).toBeCloseTo(150);
+        expect(warnings[1].bearing).toBeCloseTo(0);
+        expect(showAlert).toHaveBeenCalledWith('SAM LOCK', 'sam-warning', 2000);
+    });
+});
+
+
+describe('Game restart', () => {
+    it('holds the restarted sortie until its terrain has loaded, even if loading fails', async () => {
+        let finishLoading!: () => void;
+        const terrainManager = stub<TerrainManager>({ generateInitialTerrain: vi.fn(() => new Promise<void>(resolve => { finishLoading = resolve; })) });
+        const game = createGame({ bomber: createBomber(), terrainManager });
+
+        game['loadSortieTerrain']();
+        expect(game['terrainLoading']).toBe(true);
+        finishLoading();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(game['terrainLoading']).toBe(false);
+
+        game['terrainManager'] = stub<TerrainManager>({ generateInitialTerrain: vi.fn(() => Promise.reject(new Error('Worker timed out'))) });
+        game['loadSortieTerrain']();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(game['terrainLoading']).toBe(false);
+    });
+
+    it('leaves the hold to a newer restart', async () => {
+        const game = createGame({ bomber: createBomber(), terrainManager: stub<TerrainManager>({ generateInitialTerrain: () => Promise.resolve() }) });
+
+        game['loadSortieTerrain']();
+        game['terrainManager'] = stub<TerrainManager>({ generateInitialTerrain: () => new Promise<void>(() => {}) });
+        game['loadSortieTerrain']();
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(game['terrainLoading']).toBe(true);
+    });
+});
@@ -0,0 +1,145 @@
+import { Vector3 } from '@babylonjs/core';
+import { describe, expect, it, vi } from 'vitest';
+import { DefenseMissile } from '../../src/entities/DefenseMissile';
+import { GuidanceWorld, MissileGuidanceManager } from '../../src/managers/MissileGuidanceManager';
+import { WorkerManager } from '../../src/managers/WorkerManager';
+import { ECM_PROFILE } from '../../src/utils/EcmJammer';
+import { createInProcessWorker } from '../../src/workers/in-process-worker';
+import type { MissileGuidanceResult } from '../../src/workers/worker-protocol';
+
+// Test doubles carry only the members a test reaches, checked against the class they stand in for
+function stub<T>(members: Partial<T>): T {
+    return members as T;
+}
+
+// Stands in for a missile entity: hands out a defense guidance state and records what gets applied
+function createMissile(z: number) {
+    const missile = {
+        exploded: false,
+        applied: [] as MissileGuidanceResult[],
+        isLaunched: () => true,
+        hasExploded: () => missile.exploded,
+        getGuidanceState: (id: string) => ({
+            id,
+            missileType: 'defense' as const,
+            position: { x: 0, y: 10, z },
+            velocity: { x: 0, y: 0, z: 80 },
+            rotation: { x: 0, y: 0, z: 0 },
+            targetPosition: { x: 0, y: 10, z: z + 400 },
+            speed: 80,
+            lifeTime: 0,
+            maxLifeTime: 10,
+            targetSet: true,
+            commandGuided: false,
+            turnRate: 0.5,
+            isTargetingChaff: false,
+            chaffDetectionRange: 60
+        }),
+        applyGuidance: (result: MissileGuidanceResult) => missile.applied.push(result)
+    };
+    return missile;
+}
+
+function createWorld(count: number) {
+    const defenseMissiles = Array.from({ length: count }, (_, index) => createMissile(index * 10));
+    const world: GuidanceWorld = {
+        bomberPosition: new Vector3(0, 100, 0),
+        flares: [],
+        chaff: [],
+        tomahawkMissiles: [],
+        defenseMissiles: defenseMissiles.map(missile => stub<DefenseMissile>(missile)),
+        iskanderMissiles: [],
+        airToAirMissiles: [],
+        hasLineOfSight: () => true,
+        getBomberSignature: () => 1,
+        isBomberJamming: false,
+        ecm: ECM_PROFILE
+    };
+    return { world, defenseMissiles };
+}
+
+// Lets queued in-process worker replies land
+function flushWorkers(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('MissileGuidanceManager', () => {
+    it('steps every live missile in one batched worker request', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const batchUpdateMissiles = vi.spyOn(workerManager, 'batchUpdateMissiles');
+        const manager = new MissileGuidanceManager(workerManager);
+        const { world, defenseMissiles } = createWorld(60);
+
+        manager.submit(4, 1 / 60, 0, world);
+        await flushWorkers();
+        const result = manager.applyResults()!;
+
+        expect(batchUpdateMissiles).toHaveBeenCalledTimes(1);
+        expect(batchUpdateMissiles.mock.calls[0][0].missiles).toHaveLength(60);
+        expect(result.tick).toBe(4);
+        expect(manager.getWorkerResultCount()).toBe(1);
+        defenseMissiles.forEach((missile, index) => {
+            expect(missile.applied).toHaveLength(1);
+            expect(missile.applied[0].state.position.z).toBeCloseTo(index * 10 + 80 / 60);
+        });
+        workerManager.dispose();
+    });
+
+    it('falls back to stepping synchronously with identical results when the worker is late', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const late = new MissileGuidanceManager(workerManager);
+        const punctual = new MissileGuidanceManager(workerManager);
+
+        late.submit(2, 1 / 60, 0, createWorld(3).world);
+        const fallback = late.applyResults();
+
+        punctual.submit(2, 1 / 60, 0, createWorld(3).world);
+        await flushWorkers();
+        const fromWorker = punctual.applyResults();
+
+        expect(fallback).toEqual(fromWorker);
+        expect(late.getFallbackResultCount()).toBe(1);
+        expect(punctual.getWorkerResultCount()).toBe(1);
+        workerManager.dispose();
+    });
+
+    it('skips missiles that are not in flight', () => {
+        const manager = new MissileGuidanceManager(stub<WorkerManager>({ batchUpdateMissiles: () => new Promise<never>(() => {}) }));
+        const { world, defenseMissiles } = createWorld(2);
+        defenseMissiles[1].exploded = true;
+
+        manager.submit(1, 1 / 60, 0, world);
+        expect(manager.applyResults()!.results).toHaveLength(1);
+        expect(defenseMissiles[0].applied).toHaveLength(1);
+        expect(defenseMissiles[1].applied).toHaveLength(0);
+    });
+
+    it('has the worker answer every frame when several ticks run per frame', async () => {
+        const workerManager = new WorkerManager(createInProcessWorker);
+        const batchUpdateMissiles = vi.spyOn(workerManager, 'batchUpdateMissiles');
+        const manager = new MissileGuidanceManager(workerManager);
+        const { world } = createWorld(1);
+        const appliedTicks: Array<[number, boolean]> = [];
+
+        // Three frames of four ticks, as at 4x time scale
+        let tick = 0;
+        for (let frame = 0; frame < 3; frame++) {
+            for (let step = 0; step < 4; step++) {
+                const workerResults = manager.getWorkerResultCount();
+                const result = manager.applyResults();
+                if (result) appliedTicks.push([result.tick, manager.getWorkerResultCount() > workerResults]);
+                tick++;
+                manager.submit(tick, 1 / 60, tick / 60, world);
+            }
+            await flushWorkers();
+        }
+        manager.applyResults();
+
+        // The last tick of each frame is answered by the worker in time for the next frame; the rest can't be
+        expect(batchUpdateMissiles.mock.calls.map(call => call[0].tick)).toEqual([4, 8, 12]);
+        expect(appliedTicks.filter(([, fromWorker]) => fromWorker).map(([appliedTick]) => appliedTick)).toEqual([4, 8]);
+        expect(manager.getWorkerResultCount()).toBe(3);
+        expect(manager.getFallbackResultCount()).toBe(9);
+        workerManager.dispose();
+    });
+});
@@ -0,0 +1,143 @@
+import { Vector3 } from '@babylonjs/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WorkerLike, WorkerManager, WorkerName, WorkerRequestError } from '../../src/managers/WorkerManager';
+import { ECM_PROFILE } from '../../src/utils/EcmJammer';
+import { createInProcessWorker } from '../../src/workers/in-process-worker';
+import { MissileGuidanceBatch, WORKER_PROTOCOL_VERSION, WorkerRequestEnvelope } from '../../src/workers/worker-protocol';
+
+// Worker that records requests and lets the test decide how (and whether) to answer
+class ScriptedWorker implements WorkerLike {
+    public onmessage: ((event: MessageEvent) => any) | null = null;
+    public onerror: ((event: ErrorEvent) => any) | null = null;
+    public requests: WorkerRequestEnvelope[] = [];
+    public terminated: boolean = false;
+
+    public postMessage(message: WorkerRequestEnvelope): void {
+        this.requests.push(message);
+    }
+
+    public terminate(): void {
+        this.terminated = true;
+    }
+
+    // Replies are left untyped so tests can send malformed ones
+    public respond(message: unknown): void {
+        this.onmessage!({ data: message } as MessageEvent);
+    }
+}
+
+function createGuidanceBatch(tick: number): MissileGuidanceBatch {
+    return { tick, deltaTime: 1 / 60, currentTime: 0, bomberPosition: { x: 0, y: 0, z: 0 }, flares: [], chaff: [], ecm: ECM_PROFILE, missiles: [] };
+}
+
+function createScriptedManager() {
+    const workers = new Map<WorkerName, ScriptedWorker>();
+    const manager = new WorkerManager(name => {
+        const worker = new ScriptedWorker();
+        workers.set(name, worker);
+        return worker;
+    });
+    return { manager, workers };
+}
+
+describe('WorkerManager', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('round-trips typed requests through in-process workers', async () => {
+        const manager = new WorkerManager(createInProcessWorker);
+
+        const chunk = await manager.generateTerrainChunk(1, 2, 500, 16, 42);
+        expect(chunk.chunkX).toBe(1);
+        expect(chunk.chunkZ).toBe(2);
+        expect(chunk.heightmap).toHaveLength(17 * 17);
+
+        const guidance = await manager.batchUpdateMissiles(createGuidanceBatch(3));
+        expect(guidance).toEqual({ tick: 3, results: [] });
+
+        const buildings = await manager.getBuildingsInRadius(new Vector3(0, 0, 0), [
+            { id: 'b1', position: { x: 10, y: 0, z: 0 }, width: 1, height: 1, depth: 1, isTarget: false, isDefenseLauncher: true, isDestroyed: false }
+        ], 50);
+        expect(buildings).toEqual([{ buildingId: 'b1', distance: 10 }]);
+
+        manager.dispose();
+    });
+
+    it('correlates out-of-order replies by message id', async () => {
+        const { manager, workers } = createScriptedManager();
+        const collisionWorker = workers.get('collisionDetection')!;
+
+        const first = manager.detectCollisions([]);
+        const second = manager.detectCollisions([]);
+        const [firstRequest, secondRequest] = collisionWorker.requests;
+
+        expect(firstRequest.protocolVersion).toBe(WORKER_PROTOCOL_VERSION);
+        expect(firstRequest.messageId).not.toBe(secondRequest.messageId);
+
+        const collision = { objectId: 'a', collidedWith: ['b'], collisionPoints: [], penetrationDepth: 1 };
+        collisionWorker.respond({ type: 'COLLISION_RESULTS', data: { results: [collision] }, protocolVersion: WORKER_PROTOCOL_VERSION, messageId: secondRequest.messageId });
+        collisionWorker.respond({ type: 'COLLISION_RESULTS', data: { results: [] }, protocolVersion: WORKER_PROTOCOL_VERSION, messageId: firstRequest.messageId });
+
+        await expect(first).resolves.toEqual([]);
+        await expect(second).resolves.toEqual([collision]);
+        manager.dispose();
+    });
+
+    it('rejects with the worker error code on error replies', async () => {
+        const { manager, workers } = createScriptedManager();
+        const missileWorker = workers.get('missilePhysics')!;
+
+        const failure = manager.batchUpdateMissiles(createGuidanceBatch(1));
+        missileWorker.respond({
+            type: 'WORKER_ERROR',
+            data: { code: 'HANDLER_FAILED', message: 'Cannot read properties of undefined', requestType: 'BATCH_UPDATE_MISSILES' },
+            protocolVersion: WORKER_PROTOCOL_VERSION,
+            messageId: missileWorker.requests[0].messageId
+        });
+        await expect(failure).rejects.toBeInstanceOf(WorkerRequestError);
+        await expect(failure).rejects.toMatchObject({ code: 'HANDLER_FAILED', requestType: 'BATCH_UPDATE_MISSILES' });
+        manager.dispose();
+    });
+
+    it('rejects replies from another protocol version or of the wrong type', async () => {
+        const { manager, workers } = createScriptedManager();
+        const terrainWorker = workers.get('terrain')!;
+
+        const mismatched = manager.generateTerrainChunk(0, 0, 500, 8, 1);
+        const wrongType = manager.generateTerrainChunk(1, 0, 500, 8, 1);
+        const [firstRequest, secondRequest] = terrainWorker.requests;
+
+        terrainWorker.respond({ type: 'TERRAIN_CHUNK_READY', data: {}, protocolVersion: WORKER_PROTOCOL_VERSION + 1, messageId: firstRequest.messageId });
+        terrainWorker.respond({ type: 'COLLISION_RESULTS', data: { results: [] }, protocolVersion: WORKER_PROTOCOL_VERSION, messageId: secondRequest.messageId });
+
+        await expect(mismatched).rejects.toMatchObject({ code: 'PROTOCOL_VERSION_MISMATCH' });
+        await expect(wrongType).rejects.toMatchObject({ code: 'UNEXPECTED_RESPONSE' });
+        manager.dispose();
+    });
+
+    it('times out requests that never get a reply', async () => {
+        vi.useFakeTimers();
+        const { manager } = createScriptedManager();
+
+        const request = manager.createParticles({ emitterPosition: { x: 0, y: 0, z: 0 }, emitterVelocity: { x: 0, y: 0, z: 0 }, particleType: 'fire', count: 1, spread: 0, speed: 1 });
+        const assertion = expect(request).rejects.toMatchObject({ code: 'TIMEOUT', requestType: 'CREATE_PARTICLES' });
+        vi.advanceTimersByTime(2000);
+
+        await assertion;
+        manager.dispose();
+    });
+
+    it('rejects outstanding requests when a worker crashes or the manager is disposed', async () => {
+        const { manager, workers } = createScriptedManager();
+
+        const crashed = manager.batchUpdateMissiles(createGuidanceBatch(1));
+        const pending = manager.detectCollisions([]);
+        workers.get('missilePhysics')!.onerror!({ message: 'boom' } as ErrorEvent);
+        await expect(crashed).rejects.toMatchObject({ code: 'WORKER_CRASHED' });
+
+        manager.dispose();
+        await expect(pending).rejects.toMatchObject({ code: 'DISPOSED' });
+        workers.forEach(worker => expect(worker.terminated).toBe(true));
+    });
+});
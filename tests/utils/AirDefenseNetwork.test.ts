@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+    AIR_DEFENSE_NETWORK_PROFILE,
+    getLauncherRadarProfile,
+    resolveAirDefenseNetwork
+} from '../../src/utils/AirDefenseNetwork';
+import { getDetectionRange } from '../../src/utils/SamFireControl';
+
+const RADAR = { x: 0, y: 20, z: 0 };
+const NEAR_LAUNCHER = { x: 300, y: 10, z: 0 };
+const FAR_LAUNCHER = { x: AIR_DEFENSE_NETWORK_PROFILE.sectorRange + 100, y: 10, z: 0 };
+
+describe('resolveAirDefenseNetwork', () => {
+    it('links launchers inside a radar sector and leaves the rest autonomous', () => {
+        const state = resolveAirDefenseNetwork([{ position: RADAR, tracking: false }], [NEAR_LAUNCHER, FAR_LAUNCHER]);
+
+        expect(state.links).toEqual([{ radar: 0, launcher: 0 }]);
+        expect(state.launchers[0].mode).toBe('networked');
+        expect(state.launchers[1].mode).toBe('autonomous');
+    });
+
+    it('falls back to autonomous mode once no radar site is left', () => {
+        const state = resolveAirDefenseNetwork([], [NEAR_LAUNCHER]);
+
+        expect(state.links).toEqual([]);
+        expect(state.launchers[0]).toEqual({ mode: 'autonomous', cued: false });
+    });
+
+    it('cues a launcher only while one of its linked radars is tracking', () => {
+        const otherRadar = { x: 600, y: 20, z: 0 };
+        const idle = resolveAirDefenseNetwork([{ position: RADAR, tracking: false }], [NEAR_LAUNCHER]);
+        const tracking = resolveAirDefenseNetwork(
+            [{ position: RADAR, tracking: false }, { position: otherRadar, tracking: true }],
+            [NEAR_LAUNCHER]
+        );
+        const outOfSector = resolveAirDefenseNetwork([{ position: FAR_LAUNCHER, tracking: true }], [{ x: -300, y: 10, z: 0 }]);
+
+        expect(idle.launchers[0].cued).toBe(false);
+        expect(tracking.links).toHaveLength(2);
+        expect(tracking.launchers[0].cued).toBe(true);
+        expect(outOfSector.launchers[0].cued).toBe(false);
+    });
+});
+
+describe('getLauncherRadarProfile', () => {
+    it('shrinks an autonomous launcher search range below the networked one', () => {
+        const networked = getDetectionRange(200, getLauncherRadarProfile('networked'));
+        const autonomous = getDetectionRange(200, getLauncherRadarProfile('autonomous'));
+
+        expect(autonomous).toBe(AIR_DEFENSE_NETWORK_PROFILE.autonomousRadar.searchRange);
+        expect(networked).toBeGreaterThan(autonomous);
+        expect(getDetectionRange(200, AIR_DEFENSE_NETWORK_PROFILE.surveillanceRadar)).toBeGreaterThan(networked);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BallisticsEnvironment, DEFAULT_BALLISTICS, createSeededWind, predictBombImpact, stepBallistic } from '../../src/utils/BombBallistics';
+
+const DELTA_TIME = 1 / 60;
+const VACUUM: BallisticsEnvironment = { gravity: 9.81, dragCoefficient: 0, wind: { x: 0, y: 0, z: 0 } };
+
+function release(forwardSpeed: number = 25) {
+    return { position: { x: 0, y: 100, z: 0 }, velocity: { x: 0, y: 0, z: forwardSpeed } };
+}
+
+describe('bomb ballistics', () => {
+    it('follows a free-fall arc in a vacuum', () => {
+        const state = release();
+        for (let i = 0; i < 120; i++) {
+            stepBallistic(state, VACUUM, DELTA_TIME);
+        }
+
+        expect(state.velocity.z).toBe(25); // No drag, no horizontal slowdown
+        expect(state.velocity.y).toBeCloseTo(-9.81 * 2);
+        expect(state.position.z).toBeCloseTo(50);
+        expect(state.position.y).toBeCloseTo(100 - 0.5 * 9.81 * 4, 0);
+    });
+
+    it('slows bombs with drag toward a terminal velocity', () => {
+        const state = release(0);
+        for (let i = 0; i < 60 * 60; i++) {
+            stepBallistic(state, DEFAULT_BALLISTICS, DELTA_TIME);
+        }
+
+        const terminalVelocity = Math.sqrt(DEFAULT_BALLISTICS.gravity / DEFAULT_BALLISTICS.dragCoefficient);
+        expect(-state.velocity.y).toBeCloseTo(terminalVelocity, 0);
+    });
+
+    it('lands bombs ahead of the release point, so targets must be led', () => {
+        const impact = predictBombImpact(release(), DEFAULT_BALLISTICS, () => 0, DELTA_TIME)!;
+
+        expect(impact.point.y).toBe(0);
+        expect(impact.point.z).toBeGreaterThan(80);
+        expect(impact.point.x).toBeCloseTo(0);
+        expect(impact.timeOfFlight).toBeGreaterThan(4);
+    });
+
+    it('lands sooner on raised terrain', () => {
+        const flat = predictBombImpact(release(), DEFAULT_BALLISTICS, () => 0, DELTA_TIME)!;
+        const hill = predictBombImpact(release(), DEFAULT_BALLISTICS, () => 60, DELTA_TIME)!;
+
+        expect(hill.point.y).toBe(60);
+        expect(hill.timeOfFlight).toBeLessThan(flat.timeOfFlight);
+        expect(hill.point.z).toBeLessThan(flat.point.z);
+    });
+
+    it('drifts bombs downwind', () => {
+        const crosswind: BallisticsEnvironment = { ...DEFAULT_BALLISTICS, wind: { x: 10, y: 0, z: 0 } };
+        const impact = predictBombImpact(release(), crosswind, () => 0, DELTA_TIME)!;
+
+        expect(impact.point.x).toBeGreaterThan(1);
+    });
+
+    it('returns null when the bomb has not landed in time', () => {
+        expect(predictBombImpact(release(), DEFAULT_BALLISTICS, () => -10000, DELTA_TIME, 2)).toBeNull();
+    });
+
+    it('derives the same horizontal wind from the same world seed', () => {
+        const wind = createSeededWind(42);
+
+        expect(createSeededWind(42)).toEqual(wind);
+        expect(createSeededWind(43)).not.toEqual(wind);
+        expect(wind.y).toBe(0);
+        const speed = Math.sqrt(wind.x * wind.x + wind.z * wind.z);
+        expect(speed).toBeGreaterThanOrEqual(3);
+        expect(speed).toBeLessThanOrEqual(10);
+    });
+});
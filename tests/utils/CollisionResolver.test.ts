@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+import { BOMB_DAMAGE_PROFILES, MISSILE_DAMAGE_PROFILES, resolveCollisionSnapshot } from '../../src/utils/CollisionResolver';
+import { FLAK_PROFILE } from '../../src/utils/Flak';
+import type { CollisionSnapshot, SnapshotBuilding } from '../../src/workers/worker-protocol';
+
+function building(id: string, x: number, z: number, isDefenseLauncher: boolean = false): SnapshotBuilding {
+    return {
+        id,
+        position: { x, y: 0, z },
+        bounds: { min: { x: x - 5, y: -5, z: z - 5 }, max: { x: x + 5, y: 5, z: z + 5 } },
+        isDefenseLauncher,
+        isTarget: false
+    };
+}
+
+function createSnapshot(overrides: Partial<CollisionSnapshot> = {}): CollisionSnapshot {
+    return {
+        tick: 10,
+        bomberPosition: { x: 0, y: 100, z: 0 },
+        bombs: [],
+        missiles: [],
+        flares: [],
+        flakBursts: [],
+        buildings: [],
+        missileDamage: MISSILE_DAMAGE_PROFILES,
+        bombDamage: BOMB_DAMAGE_PROFILES,
+        flak: FLAK_PROFILE,
+        ...overrides
+    };
+}
+
+describe('resolveCollisionSnapshot', () => {
+    it('detonates grounded bombs with distance falloff inside the blast radius', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [
+                { id: 'bomb_0', kind: 'standard', position: { x: 0, y: -0.5, z: 0 }, groundHeight: 0 },
+                { id: 'bomb_1', kind: 'standard', position: { x: 0, y: 30, z: 0 }, groundHeight: 0 }
+            ],
+            buildings: [building('near', 0, -6), building('edge', 45, 0), building('outside', 60, 0)]
+        }));
+
+        expect(result.tick).toBe(10);
+        expect(result.bombImpacts).toHaveLength(1);
+        const impact = result.bombImpacts[0];
+        expect(impact.bombId).toBe('bomb_0');
+        expect(impact.point).toEqual({ x: 0, y: 0, z: 0 });
+        expect(impact.struckBuildingId).toBeNull();
+        expect(impact.buildingHits).toEqual(expect.arrayContaining([
+            { buildingId: 'near', distance: 6, damage: 44 },
+            { buildingId: 'edge', distance: 45, damage: 10 } // Minimum damage at the edge of the blast
+        ]));
+        expect(impact.buildingHits).toHaveLength(2);
+    });
+
+    it('detonates bombs on raised terrain instead of at sea level', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [
+                { id: 'hillside', kind: 'standard', position: { x: 100, y: 39.5, z: 0 }, groundHeight: 40 },
+                { id: 'airborne', kind: 'standard', position: { x: 200, y: 10, z: 0 }, groundHeight: -5 }
+            ]
+        }));
+
+        expect(result.bombImpacts.map(impact => impact.bombId)).toEqual(['hillside']);
+        expect(result.bombImpacts[0].point).toEqual({ x: 100, y: 40, z: 0 });
+    });
+
+    it('detonates bombs that strike a building before reaching the ground', () => {
+        const tower = building('tower', 0, 0);
+        tower.position.y = 30;
+        tower.bounds = { min: { x: -5, y: 0, z: -5 }, max: { x: 5, y: 60, z: 5 } };
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [{ id: 'bomb_0', kind: 'standard', position: { x: 1, y: 58, z: 2 }, groundHeight: 0 }],
+            buildings: [tower]
+        }));
+
+        const impact = result.bombImpacts[0];
+        expect(impact.struckBuildingId).toBe('tower');
+        expect(impact.point).toEqual({ x: 1, y: 58, z: 2 });
+        expect(impact.buildingHits).toEqual([{ buildingId: 'tower', distance: 0, damage: 50 }]);
+    });
+
+    it('damages defense launchers with standard bombs like any other building', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [{ id: 'bomb_0', kind: 'standard', position: { x: 0, y: -0.5, z: 0 }, groundHeight: 0 }],
+            buildings: [building('launcher', 0, 10, true), building('far-launcher', 45, 0, true)]
+        }));
+
+        // max(10, 50 - distance), as before bomb variants
+        expect(result.bombImpacts[0].buildingHits).toEqual([
+            { buildingId: 'launcher', distance: 10, damage: 40 },
+            { buildingId: 'far-launcher', distance: 45, damage: 10 }
+        ]);
+    });
+
+    it('gives bunker busters a small blast that penetrates hardened targets', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [{ id: 'penetrator', kind: 'bunker-buster', position: { x: 0, y: -0.5, z: 0 }, groundHeight: 0 }],
+            buildings: [building('launcher', 0, 10, true), building('outside', 20, 0)]
+        }));
+
+        expect(result.bombImpacts[0].buildingHits).toEqual([{ buildingId: 'launcher', distance: 10, damage: 140 }]);
+    });
+
+    it('damages buildings with each submunition profile', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [
+                { id: 'bomblet_0', kind: 'submunition', position: { x: 0, y: -0.5, z: 0 }, groundHeight: 0 },
+                { id: 'bomblet_1', kind: 'submunition', position: { x: 100, y: -0.5, z: 0 }, groundHeight: 0 }
+            ],
+            buildings: [building('house', 12, 0), building('launcher', 100, 8, true), building('outside', 0, 20)]
+        }));
+
+        expect(result.bombImpacts[0].buildingHits).toEqual([{ buildingId: 'house', distance: 12, damage: 13 }]);
+        expect(result.bombImpacts[1].buildingHits).toEqual([{ buildingId: 'launcher', distance: 8, damage: 4.25 }]);
+    });
+
+    it('applies Iskander direct hit and proximity damage', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            missiles: [
+                { id: 'direct', kind: 'iskander', position: { x: 0, y: 105, z: 0 } },
+                { id: 'proximity', kind: 'iskander', position: { x: 0, y: 115, z: 0 } },
+                { id: 'miss', kind: 'iskander', position: { x: 0, y: 130, z: 0 } }
+            ]
+        }));
+
+        expect(result.missileHits).toEqual([
+            { missileId: 'direct', distance: 5, damage: 50, directHit: true },
+            { missileId: 'proximity', distance: 15, damage: 25, directHit: false }
+        ]);
+    });
+
+    it('takes missile damage from the snapshot, so each sortie can be tuned', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            missiles: [{ id: 'direct', kind: 'iskander', position: { x: 0, y: 105, z: 0 } }],
+            missileDamage: { ...MISSILE_DAMAGE_PROFILES, iskander: { ...MISSILE_DAMAGE_PROFILES.iskander, directHitDamage: 70 } }
+        }));
+
+        expect(result.missileHits).toEqual([{ missileId: 'direct', distance: 5, damage: 70, directHit: true }]);
+    });
+
+    it('applies defense missile direct hit and proximity damage', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            missiles: [
+                { id: 'direct', kind: 'defense', position: { x: 3, y: 100, z: 0 } },
+                { id: 'proximity', kind: 'defense', position: { x: 19, y: 100, z: 0 } },
+                { id: 'miss', kind: 'defense', position: { x: 21, y: 100, z: 0 } }
+            ]
+        }));
+
+        expect(result.missileHits).toEqual([
+            { missileId: 'direct', distance: 3, damage: 25, directHit: true },
+            { missileId: 'proximity', distance: 19, damage: 5, directHit: false } // Minimum proximity damage
+        ]);
+    });
+
+    it('applies air-to-air missile direct hit and proximity damage', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            missiles: [
+                { id: 'direct', kind: 'air-to-air', position: { x: 0, y: 100, z: -4 } },
+                { id: 'proximity', kind: 'air-to-air', position: { x: 0, y: 100, z: -10 } },
+                { id: 'miss', kind: 'air-to-air', position: { x: 0, y: 100, z: -16 } }
+            ]
+        }));
+
+        expect(result.missileHits).toEqual([
+            { missileId: 'direct', distance: 4, damage: 30, directHit: true },
+            { missileId: 'proximity', distance: 10, damage: 10, directHit: false }
+        ]);
+    });
+
+    it('lets flares decoy Iskanders and air-to-air missiles but not defense missiles', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            flares: [{ id: 'flare_0', position: { x: 10, y: 95, z: 0 } }],
+            missiles: [
+                { id: 'iskander', kind: 'iskander', position: { x: 12, y: 95, z: 0 } },
+                { id: 'air-to-air', kind: 'air-to-air', position: { x: 8, y: 95, z: 0 } },
+                { id: 'defense', kind: 'defense', position: { x: 12, y: 95, z: 0 } }
+            ]
+        }));
+
+        expect(result.flareDecoys).toEqual([
+            { missileId: 'iskander', flareId: 'flare_0' },
+            { missileId: 'air-to-air', flareId: 'flare_0' }
+        ]);
+        expect(result.missileHits.map(hit => hit.missileId)).toEqual(['defense']);
+    });
+
+    it('damages the bomber with flak bursts inside the burst radius, falling off with distance', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            flakBursts: [
+                { id: 'flak_0', position: { x: 0, y: 100, z: 0 } },
+                { id: 'flak_1', position: { x: 0, y: 110, z: 0 } },
+                { id: 'flak_2', position: { x: 0, y: 130, z: 0 } }
+            ]
+        }));
+
+        expect(result.flakHits).toEqual([
+            { burstId: 'flak_0', distance: 0, damage: FLAK_PROFILE.maxDamage },
+            { burstId: 'flak_1', distance: 10, damage: FLAK_PROFILE.maxDamage * (1 - 10 / FLAK_PROFILE.burstRadius) }
+        ]);
+    });
+
+    it('takes bomb and flak damage from the snapshot too', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bombs: [{ id: 'bomb_0', kind: 'standard', position: { x: 0, y: -0.5, z: 0 }, groundHeight: 0 }],
+            flakBursts: [{ id: 'flak_0', position: { x: 0, y: 100, z: 0 } }],
+            buildings: [building('outside', 60, 0)],
+            bombDamage: { ...BOMB_DAMAGE_PROFILES, standard: { ...BOMB_DAMAGE_PROFILES.standard, blastRadius: 80 } },
+            flak: { ...FLAK_PROFILE, maxDamage: 20 }
+        }));
+
+        expect(result.bombImpacts[0].buildingHits.map(hit => hit.buildingId)).toEqual(['outside']);
+        expect(result.flakHits).toEqual([{ burstId: 'flak_0', distance: 0, damage: 20 }]);
+    });
+
+    it('picks the closest defense launcher within Tomahawk range', () => {
+        const result = resolveCollisionSnapshot(createSnapshot({
+            bomberPosition: { x: 0, y: 0, z: 0 },
+            buildings: [
+                building('house', 10, 0),
+                building('far-launcher', 250, 0, true),
+                building('near-launcher', 0, 120, true),
+                building('out-of-range', 310, 0, true)
+            ]
+        }));
+
+        expect(result.closestDefenseBuildingId).toBe('near-launcher');
+        expect(resolveCollisionSnapshot(createSnapshot({ buildings: [building('house', 0, 0)] })).closestDefenseBuildingId).toBeNull();
+    });
+
+    it('is a pure function of the snapshot', () => {
+        const snapshot = createSnapshot({
+            bombs: [{ id: 'bomb_0', kind: 'standard', position: { x: 3, y: 0, z: 4 }, groundHeight: 0 }],
+            missiles: [{ id: 'm', kind: 'defense', position: { x: 0, y: 110, z: 0 } }],
+            buildings: [building('a', 0, 0, true), building('b', 20, 20)]
+        });
+        const copy = JSON.parse(JSON.stringify(snapshot));
+
+        expect(resolveCollisionSnapshot(snapshot)).toEqual(resolveCollisionSnapshot(copy));
+        expect(snapshot).toEqual(copy);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ECM_PROFILE, EcmJammer } from '../../src/utils/EcmJammer';
+
+const TICK = 1 / 60;
+
+function runFor(jammer: EcmJammer, seconds: number): void {
+    for (let i = 0; i < Math.round(seconds / TICK); i++) {
+        jammer.update(TICK);
+    }
+}
+
+describe('ECM jammer', () => {
+    it('drains while on and shuts itself down when flat', () => {
+        const jammer = new EcmJammer();
+        expect(jammer.toggle()).toBe(true);
+
+        runFor(jammer, ECM_PROFILE.endurance / 2);
+        expect(jammer.isActive()).toBe(true);
+        expect(jammer.getCharge()).toBeCloseTo(0.5);
+
+        runFor(jammer, ECM_PROFILE.endurance / 2 + 0.1);
+        expect(jammer.isActive()).toBe(false);
+        expect(jammer.getCharge()).toBeLessThan(0.01); // Recharging again
+    });
+
+    it('recharges while off and only restarts with enough charge', () => {
+        const jammer = new EcmJammer();
+        jammer.toggle();
+        runFor(jammer, ECM_PROFILE.endurance + 0.1);
+
+        expect(jammer.toggle()).toBe(false);
+        runFor(jammer, ECM_PROFILE.rechargeTime * ECM_PROFILE.restartCharge + 0.1);
+        expect(jammer.canActivate()).toBe(true);
+        expect(jammer.toggle()).toBe(true);
+
+        expect(jammer.toggle()).toBe(false); // Switched off by hand
+        runFor(jammer, ECM_PROFILE.rechargeTime);
+        expect(jammer.getCharge()).toBe(1);
+    });
+});
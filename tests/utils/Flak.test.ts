@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+    FLAK_PROFILE,
+    aimFlakBurst,
+    canFlakEngage,
+    getFlakDamage,
+    getFlakDispersion,
+    getFlakFuseTime,
+    predictFlakIntercept
+} from '../../src/utils/Flak';
+
+const GUN = { x: 0, y: 10, z: 0 };
+
+describe('canFlakEngage', () => {
+    it('only engages low targets inside the gun range', () => {
+        expect(canFlakEngage(GUN, { x: 0, y: 100, z: 200 })).toBe(true);
+        expect(canFlakEngage(GUN, { x: 0, y: GUN.y + FLAK_PROFILE.ceiling + 1, z: 50 })).toBe(false); // Above the ceiling
+        expect(canFlakEngage(GUN, { x: 0, y: 100, z: FLAK_PROFILE.range + 1 })).toBe(false);
+        expect(canFlakEngage(GUN, { x: 0, y: 5, z: 100 })).toBe(false); // Below the gun
+    });
+});
+
+describe('predictFlakIntercept', () => {
+    it('leads a moving target so the shell arrives where the target will be', () => {
+        const target = { position: { x: 0, y: 100, z: 200 }, velocity: { x: 25, y: 0, z: 0 } };
+        const { point, timeOfFlight } = predictFlakIntercept(GUN, target);
+
+        expect(point.x).toBeCloseTo(25 * timeOfFlight, 3);
+        expect(getFlakFuseTime(GUN, point)).toBeCloseTo(timeOfFlight, 3);
+    });
+
+    it('aims straight at a stationary target', () => {
+        const target = { position: { x: 0, y: 100, z: 200 }, velocity: { x: 0, y: 0, z: 0 } };
+        expect(predictFlakIntercept(GUN, target).point).toEqual(target.position);
+    });
+});
+
+describe('aimFlakBurst', () => {
+    it('grows less accurate against faster and higher targets', () => {
+        const base = getFlakDispersion(0, 0);
+        expect(base).toBe(FLAK_PROFILE.baseDispersion);
+        expect(getFlakDispersion(50, 0)).toBeGreaterThan(getFlakDispersion(25, 0));
+        expect(getFlakDispersion(25, 140)).toBeGreaterThan(getFlakDispersion(25, 40));
+    });
+
+    it('scatters bursts around the predicted point by the dispersion', () => {
+        const target = { position: { x: 0, y: 60, z: 200 }, velocity: { x: 0, y: 0, z: 25 } };
+        const predicted = predictFlakIntercept(GUN, target).point;
+        const dispersion = getFlakDispersion(25, target.position.y - GUN.y);
+
+        expect(aimFlakBurst(GUN, target, () => 0.5)).toEqual(predicted);
+        const scattered = aimFlakBurst(GUN, target, () => 0);
+        expect(scattered.x).toBeCloseTo(predicted.x - dispersion);
+        expect(scattered.y).toBeCloseTo(predicted.y - dispersion);
+        expect(scattered.z).toBeCloseTo(predicted.z - dispersion);
+    });
+});
+
+describe('getFlakDamage', () => {
+    it('falls off linearly to nothing at the edge of the burst', () => {
+        expect(getFlakDamage(0)).toBe(FLAK_PROFILE.maxDamage);
+        expect(getFlakDamage(FLAK_PROFILE.burstRadius / 2)).toBeCloseTo(FLAK_PROFILE.maxDamage / 2);
+        expect(getFlakDamage(FLAK_PROFILE.burstRadius)).toBe(0);
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { FLIGHT_RECORDING_VERSION, FlightRecorder } from '../../src/utils/FlightRecorder';
+import { getDifficultyTuning } from '../../src/utils/GameTuning';
+import { DEFAULT_LOADOUT } from '../../src/utils/WeaponLoadout';
+
+function recordingJson(version: unknown, fields: Record<string, unknown> = {}): string {
+    return JSON.stringify({ version, worldSeed: 7, fixedTimeStep: 1 / 60, tickCount: 120, inputs: [], events: [], ...fields });
+}
+
+describe('flight recording files', () => {
+    it('round-trip at the current version', () => {
+        const recorder = new FlightRecorder();
+        recorder.start(7, 1 / 60, { x: 1, y: 0, z: -2 }, DEFAULT_LOADOUT, getDifficultyTuning('hard'));
+        recorder.recordTick(1, 3);
+        recorder.recordEvent({ tick: 1, type: 'flak-burst', position: { x: 0, y: 0, z: 0 }, target: { x: 5, y: 90, z: 5 } });
+        const recording = recorder.getRecording()!;
+
+        expect(recording.version).toBe(FLIGHT_RECORDING_VERSION);
+        expect(FlightRecorder.parse(FlightRecorder.serialize(recording))).toEqual(recording);
+    });
+
+    it('upgrades older versions to the current one', () => {
+        const recording = FlightRecorder.parse(recordingJson(1));
+
+        expect(recording.version).toBe(FLIGHT_RECORDING_VERSION);
+        expect(recording.worldSeed).toBe(7);
+        expect(recording.loadout).toBeUndefined();
+        expect(recording.tuning).toBeUndefined();
+    });
+
+    it('rejects versions this build does not know', () => {
+        expect(() => FlightRecorder.parse(recordingJson(FLIGHT_RECORDING_VERSION + 1))).toThrow('Unsupported recording version');
+        expect(() => FlightRecorder.parse(recordingJson(0))).toThrow('Unsupported recording version');
+        expect(() => FlightRecorder.parse(recordingJson(2.5))).toThrow('Unsupported recording version');
+        expect(() => FlightRecorder.parse(recordingJson('10'))).toThrow('Unsupported recording version');
+        expect(() => FlightRecorder.parse(recordingJson(undefined))).toThrow('Unsupported recording version');
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_TUNING,
+    DIFFICULTY_PRESETS,
+    getDifficultyTuning,
+    parseTuning,
+    validateTuning
+} from '../../src/utils/GameTuning';
+
+describe('difficulty presets', () => {
+    it('stay inside the tuning limits, with Normal matching the built-in values', () => {
+        expect(validateTuning(DIFFICULTY_PRESETS.easy)).toEqual([]);
+        expect(validateTuning(DIFFICULTY_PRESETS.hard)).toEqual([]);
+        expect(getDifficultyTuning('normal')).toEqual(DEFAULT_TUNING);
+    });
+
+    it('make Easy more forgiving than Hard', () => {
+        const easy = getDifficultyTuning('easy');
+        const hard = getDifficultyTuning('hard');
+
+        expect(easy.bomber.maxHealth).toBeGreaterThan(hard.bomber.maxHealth);
+        expect(easy.iskanderDamage.directHitDamage).toBeLessThan(hard.iskanderDamage.directHitDamage);
+        expect(easy.samRadar.launchInterval).toBeGreaterThan(hard.samRadar.launchInterval);
+        expect(easy.threatDirector.maxSalvo).toBeLessThan(hard.threatDirector.maxSalvo);
+        expect(easy.weapons.flareRearmInterval).toBeLessThan(hard.weapons.flareRearmInterval);
+        expect(easy.ecm.endurance).toBeGreaterThan(hard.ecm.endurance);
+        expect(easy.flak.maxDamage).toBeLessThan(hard.flak.maxDamage);
+        expect(easy.defenseMissile.launchInaccuracy).toBeGreaterThan(hard.defenseMissile.launchInaccuracy);
+        expect(easy.interceptorScramble.maxAirborne).toBeLessThan(hard.interceptorScramble.maxAirborne);
+        expect(easy.tailGun.damagePerSecond).toBeGreaterThan(hard.tailGun.damagePerSecond);
+    });
+});
+
+describe('validateTuning', () => {
+    it('reports unknown names, bad types and out-of-range values', () => {
+        expect(validateTuning([])).toEqual(['Tuning is not an object']);
+        expect(validateTuning({
+            radar: {},
+            bomber: { maxHealth: 5, wings: 2, speed: 'fast' },
+            iskander: 3,
+            threatDirector: { maxSalvo: 2.5 }
+        })).toEqual([
+            'Unknown section "radar"',
+            'bomber.maxHealth is 5, outside 10-1000',
+            'Unknown value "bomber.wings"',
+            'bomber.speed is not a number',
+            'Section "iskander" is not an object',
+            'threatDirector.maxSalvo must be a whole number'
+        ]);
+    });
+
+    it('checks values that depend on each other against the base they are applied over', () => {
+        expect(validateTuning({ threatDirector: { minInterval: 50 } })).toEqual(['threatDirector.minInterval is above maxInterval']);
+        expect(validateTuning({ threatDirector: { minInterval: 50, maxInterval: 60 } })).toEqual([]);
+        expect(validateTuning({ threatDirector: { minSalvo: 4 } }, getDifficultyTuning('hard'))).toEqual([]);
+        expect(validateTuning({ interceptor: { minSpeed: 80, minMissileRange: 500 } })).toEqual([
+            'interceptor.minSpeed is above maxSpeed',
+            'interceptor.minMissileRange is above missileRange'
+        ]);
+        expect(validateTuning({ interceptor: { minSpeed: 75 } }, getDifficultyTuning('hard'))).toEqual([]);
+    });
+});
+
+describe('parseTuning', () => {
+    it('applies a partial file over its base', () => {
+        const tuning = parseTuning('{ "bomber": { "speed": 30 } }', getDifficultyTuning('hard'));
+
+        expect(tuning.bomber.speed).toBe(30);
+        expect(tuning.bomber.maxHealth).toBe(getDifficultyTuning('hard').bomber.maxHealth);
+        expect(tuning.samRadar).toEqual(getDifficultyTuning('hard').samRadar);
+    });
+
+    it('throws with every problem in the file', () => {
+        expect(() => parseTuning('{ "bomber": { "speed": 0, "turnSpeed": 9 } }'))
+            .toThrow('bomber.speed is 0, outside 5-100; bomber.turnSpeed is 9, outside 0.1-2');
+        expect(() => parseTuning('not json')).toThrow();
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+    INTERCEPTOR_PROFILE,
+    InterceptorState,
+    InterceptorTarget,
+    getMaxTurnRate,
+    getOffBoresightAngle,
+    stepInterceptor
+} from '../../src/utils/InterceptorAI';
+
+const TICK = 1 / 60;
+
+function interceptor(overrides: Partial<InterceptorState> = {}): InterceptorState {
+    return {
+        position: { x: 0, y: 100, z: 0 },
+        heading: 0,
+        pitch: 0,
+        speed: INTERCEPTOR_PROFILE.cornerSpeed,
+        missilesLeft: INTERCEPTOR_PROFILE.missiles,
+        lastMissileTime: -Infinity,
+        mode: 'pursuit',
+        ...overrides
+    };
+}
+
+function target(x: number, z: number, velocity = { x: 0, y: 0, z: 25 }): InterceptorTarget {
+    return { position: { x, y: 100, z }, velocity };
+}
+
+describe('stepInterceptor', () => {
+    it('turns fastest at corner speed', () => {
+        const corner = getMaxTurnRate(INTERCEPTOR_PROFILE.cornerSpeed);
+        expect(corner).toBeCloseTo(INTERCEPTOR_PROFILE.maxTurnRate);
+        expect(getMaxTurnRate(INTERCEPTOR_PROFILE.minSpeed)).toBeLessThan(corner);
+        expect(getMaxTurnRate(INTERCEPTOR_PROFILE.maxSpeed)).toBeLessThan(corner);
+    });
+
+    it('turns toward the target no faster than its turn rate and pays for it in speed', () => {
+        const turning = stepInterceptor(interceptor(), target(1000, 0), 0, 0, TICK).state;
+        expect(turning.heading).toBeCloseTo(getMaxTurnRate(INTERCEPTOR_PROFILE.cornerSpeed) * TICK);
+        expect(turning.speed).toBeLessThan(INTERCEPTOR_PROFILE.cornerSpeed);
+
+        const straight = stepInterceptor(interceptor(), target(0, 1000, { x: 0, y: 0, z: 0 }), 0, 0, TICK).state;
+        expect(straight.heading).toBe(0);
+        expect(straight.speed).toBeGreaterThan(INTERCEPTOR_PROFILE.cornerSpeed);
+    });
+
+    it('leads a crossing target', () => {
+        const crossing = stepInterceptor(interceptor(), target(0, 500, { x: 25, y: 0, z: 0 }), 0, 0, TICK).state;
+        expect(crossing.heading).toBeGreaterThan(0); // Turns ahead of where the target is now
+    });
+
+    it('pulls up near the ground even when the target is below', () => {
+        const low = interceptor({ position: { x: 0, y: 60, z: 0 } });
+        const step = stepInterceptor(low, { position: { x: 0, y: 0, z: 500 }, velocity: { x: 0, y: 0, z: 0 } }, 50, 0, TICK).state;
+        expect(step.pitch).toBeGreaterThan(0);
+    });
+
+    it('fires only inside the missile envelope and no more often than its interval', () => {
+        const ahead = target(0, 200);
+        const first = stepInterceptor(interceptor(), ahead, 0, 10, TICK);
+        expect(first.fireMissile).toBe(true);
+        expect(first.state.missilesLeft).toBe(INTERCEPTOR_PROFILE.missiles - 1);
+
+        expect(stepInterceptor(first.state, ahead, 0, 11, TICK).fireMissile).toBe(false); // Still reloading
+        expect(stepInterceptor(interceptor(), target(0, 20), 0, 10, TICK).fireMissile).toBe(false); // Too close
+        expect(stepInterceptor(interceptor(), target(0, 600), 0, 10, TICK).fireMissile).toBe(false); // Out of range
+        expect(stepInterceptor(interceptor(), target(200, 0), 0, 10, TICK).fireMissile).toBe(false); // Off the nose
+    });
+
+    it('egresses away from the bomber once its missiles are gone', () => {
+        const lastShot = stepInterceptor(interceptor({ missilesLeft: 1 }), target(0, 200), 0, 10, TICK);
+        expect(lastShot.fireMissile).toBe(true);
+        expect(lastShot.state.mode).toBe('egress');
+
+        let state = lastShot.state;
+        for (let i = 0; i < 600; i++) {
+            state = stepInterceptor(state, target(0, 200), 0, 10 + i * TICK, TICK).state;
+        }
+        expect(getOffBoresightAngle(state, target(0, 200).position)).toBeGreaterThan(Math.PI / 2);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { traceLineOfSight, traceLineOfSightBatch } from '../../src/utils/LineOfSight';
+import { TerrainGenerator } from '../../src/utils/TerrainGenerator';
+
+const flat = () => 0;
+// A 60 unit ridge across x = 100..120
+const ridge = (x: number) => (x >= 100 && x <= 120 ? 60 : 0);
+
+describe('line of sight', () => {
+    it('finds where the terrain first blocks the ray', () => {
+        const from = { x: 0, y: 10, z: 0 };
+        const hidden = traceLineOfSight(from, { x: 200, y: 40, z: 0 }, ridge);
+        expect(hidden.visible).toBe(false);
+        expect(hidden.occluder).toBe('terrain');
+        expect(hidden.occludingPoint!.x).toBeCloseTo(100, 1);
+        expect(hidden.occludingPoint!.y).toBe(60);
+
+        expect(traceLineOfSight(from, { x: 200, y: 200, z: 0 }, ridge)).toEqual({ visible: true, occludingPoint: null, occluder: null });
+        expect(traceLineOfSight(from, { x: 90, y: 40, z: 0 }, ridge).visible).toBe(true); // Short of the ridge
+    });
+
+    it('stops at the nearest building and ignores the ones the ends sit in', () => {
+        const tower = { min: { x: 40, y: 0, z: -10 }, max: { x: 60, y: 80, z: 10 } };
+        const roof = { min: { x: -5, y: 0, z: -5 }, max: { x: 5, y: 10, z: 5 } };
+
+        const blocked = traceLineOfSight({ x: 0, y: 10, z: 0 }, { x: 200, y: 40, z: 0 }, ridge, [roof, tower]);
+        expect(blocked.occluder).toBe('building');
+        expect(blocked.occludingPoint!.x).toBeCloseTo(40);
+        expect(blocked.occludingPoint!.y).toBeCloseTo(16);
+
+        // A ray that misses the tower sideways is only stopped by the ridge
+        const beside = traceLineOfSight({ x: 0, y: 10, z: 30 }, { x: 200, y: 40, z: 30 }, ridge, [roof, tower]);
+        expect(beside.occluder).toBe('terrain');
+
+        // Looking from the tower's own roof down onto the flat
+        expect(traceLineOfSight({ x: 50, y: 80, z: 0 }, { x: 300, y: 0.5, z: 0 }, flat, [tower]).visible).toBe(true);
+    });
+
+    it('traces batches over the heightmaps they carry and the noise elsewhere', () => {
+        const generator = new TerrainGenerator(7, 500, 64);
+        const heights = generator.generateHeightmap(0, 0).fill(0);
+        const heightmaps = new Map([['0_0', heights]]);
+        const queries = [
+            { from: { x: 10, y: 5, z: 10 }, to: { x: 240, y: 5, z: 240 } }, // Flattened chunk
+            { from: { x: 510, y: 1, z: 10 }, to: { x: 900, y: 1, z: 300 } } // Unloaded: starts down among the noise hills
+        ];
+
+        const results = traceLineOfSightBatch({
+            chunkSize: 500,
+            subdivisions: 64,
+            seed: 7,
+            heightmaps: [{ chunkX: 0, chunkZ: 0, heights }],
+            buildings: [],
+            queries
+        });
+
+        expect(results[0].visible).toBe(true);
+        expect(results[1].visible).toBe(false);
+        expect(results).toEqual(queries.map(query =>
+            traceLineOfSight(query.from, query.to, (x, z) => generator.sampleHeight(heightmaps, x, z))));
+    });
+});
@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'vitest';
+import { ECM_PROFILE } from '../../src/utils/EcmJammer';
+import { getTomahawkPathPosition, stepMissileGuidance } from '../../src/utils/MissileGuidance';
+import { buildPlannedRoute, getRouteLength } from '../../src/utils/MissionPlan';
+import type {
+    AirToAirGuidanceState,
+    DefenseGuidanceState,
+    IskanderGuidanceState,
+    MissileGuidanceBatch,
+    MissileGuidanceResult,
+    MissileGuidanceState,
+    TomahawkGuidanceState
+} from '../../src/workers/worker-protocol';
+
+const DELTA_TIME = 1 / 60;
+
+function tomahawk(overrides: Partial<TomahawkGuidanceState> = {}): TomahawkGuidanceState {
+    return {
+        id: 'tomahawk_0',
+        missileType: 'tomahawk',
+        position: { x: 0, y: 80, z: 0 },
+        velocity: { x: 0, y: 0, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        targetPosition: { x: 0, y: 0, z: 300 },
+        speed: 150,
+        turnRate: 2,
+        waypoints: [{ x: 0, y: 80, z: 0 }, { x: 0, y: 0, z: 300 }],
+        pathTime: 0,
+        pathSpeed: 0.5,
+        flightTime: 0,
+        guidedFlightStarted: false,
+        lastOrientationUpdateTime: 0,
+        ...overrides
+    };
+}
+
+function defense(overrides: Partial<DefenseGuidanceState> = {}): DefenseGuidanceState {
+    return {
+        id: 'defense_0',
+        missileType: 'defense',
+        position: { x: 0, y: 10, z: 0 },
+        velocity: { x: 0, y: 80, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        targetPosition: { x: 0, y: 10, z: 400 },
+        speed: 80,
+        lifeTime: 0,
+        maxLifeTime: 10,
+        targetSet: false,
+        commandGuided: false,
+        turnRate: 0.5,
+        isTargetingChaff: false,
+        chaffDetectionRange: 60,
+        ...overrides
+    };
+}
+
+function iskander(overrides: Partial<IskanderGuidanceState> = {}): IskanderGuidanceState {
+    return {
+        id: 'iskander_0',
+        missileType: 'iskander',
+        position: { x: 0, y: 100, z: 0 },
+        velocity: { x: 0, y: 0, z: 60 },
+        rotation: { x: 0, y: 0, z: 0 },
+        targetPosition: { x: 0, y: 100, z: 1000 },
+        speed: 120,
+        turnRate: 1.25,
+        isTargetingFlare: false,
+        flareDetectionRange: 80,
+        isLockedOn: false,
+        lockOnTime: 0,
+        lockOnDuration: 1,
+        lastTargetUpdateTime: 0,
+        targetUpdateInterval: 0.1,
+        bomberVisible: true,
+        bomberSignature: 1,
+        bomberJamming: false,
+        ...overrides
+    };
+}
+
+function airToAir(overrides: Partial<AirToAirGuidanceState> = {}): AirToAirGuidanceState {
+    return {
+        id: 'air-to-air_0',
+        missileType: 'air-to-air',
+        position: { x: 0, y: 100, z: 600 },
+        velocity: { x: 110, y: 0, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        targetPosition: { x: 0, y: 100, z: 1000 },
+        speed: 110,
+        turnRate: 2.5,
+        lifeTime: 0,
+        maxLifeTime: 6,
+        isTargetingFlare: false,
+        flareDetectionRange: 60,
+        ...overrides
+    };
+}
+
+function batch(missiles: MissileGuidanceState[], overrides: Partial<MissileGuidanceBatch> = {}): MissileGuidanceBatch {
+    return { tick: 1, deltaTime: DELTA_TIME, currentTime: 0, bomberPosition: { x: 0, y: 100, z: 1000 }, flares: [], chaff: [], ecm: ECM_PROFILE, missiles, ...overrides };
+}
+
+// Runs a single missile for the given number of ticks
+function fly<T extends MissileGuidanceState>(missile: T, ticks: number, overrides: Partial<MissileGuidanceBatch> = {}) {
+    let state: MissileGuidanceState = missile;
+    let result = stepMissileGuidance(batch([state], overrides)).results[0];
+    for (let i = 1; i < ticks && !result.shouldExplode; i++) {
+        state = result.state;
+        result = stepMissileGuidance(batch([state], overrides)).results[0];
+    }
+    return result;
+}
+
+describe('stepMissileGuidance', () => {
+    it('is a pure function of the batch', () => {
+        const missiles = [tomahawk(), defense(), iskander(), airToAir()];
+        const input = JSON.parse(JSON.stringify(batch(missiles)));
+
+        const first = stepMissileGuidance(input);
+        const second = stepMissileGuidance(input);
+
+        expect(first).toEqual(second);
+        expect(input).toEqual(batch(missiles)); // Input left untouched
+        expect(first.results.map(result => result.state.id)).toEqual(['tomahawk_0', 'defense_0', 'iskander_0', 'air-to-air_0']);
+    });
+
+    it('restarts the Tomahawk path when guided flight begins after the launch drop', () => {
+        const launching = fly(tomahawk(), 59);
+        expect((launching.state as TomahawkGuidanceState).guidedFlightStarted).toBe(false);
+
+        const guided = fly(tomahawk(), 60);
+        const state = guided.state as TomahawkGuidanceState;
+        expect(state.guidedFlightStarted).toBe(true);
+        expect(state.pathTime).toBeCloseTo(DELTA_TIME * state.pathSpeed);
+    });
+
+    it('keeps the Tomahawk path below its altitude ceiling', () => {
+        const waypoints = [{ x: 0, y: 95, z: 0 }, { x: 0, y: 95, z: 1000 }];
+        for (let t = 0; t <= 1; t += 0.1) {
+            expect(getTomahawkPathPosition(waypoints, t).y).toBeLessThanOrEqual(90);
+        }
+    });
+
+    it('flies Tomahawks into their target', () => {
+        const result = fly(tomahawk(), 600);
+        expect(result.shouldExplode).toBe(true);
+    });
+
+    it('flies Tomahawks along a planned route before striking', () => {
+        const plan = { waypoints: [{ x: 250, z: 150 }], altitude: 30, approachHeading: null };
+        const waypoints = buildPlannedRoute({ x: 0, y: 80, z: 0 }, { x: 0, y: 0, z: 300 }, plan, () => 0);
+        let state: MissileGuidanceState = tomahawk({ waypoints, pathSpeed: 150 / getRouteLength(waypoints) });
+        let furthestEast = 0;
+        let exploded = false;
+
+        for (let i = 0; i < 900 && !exploded; i++) {
+            const result: MissileGuidanceResult = stepMissileGuidance(batch([state])).results[0];
+            state = result.state;
+            furthestEast = Math.max(furthestEast, state.position.x);
+            exploded = result.shouldExplode;
+        }
+
+        expect(furthestEast).toBeGreaterThan(200); // Doglegged out to the waypoint instead of flying straight in
+        expect(exploded).toBe(true);
+    });
+
+    it('corrects defense missiles once and then holds their heading', () => {
+        const first = stepMissileGuidance(batch([defense()])).results[0].state as DefenseGuidanceState;
+        expect(first.targetSet).toBe(true);
+        expect(first.velocity.z).toBeCloseTo(80, 0);
+        expect(first.rotation.y).toBeCloseTo(Math.PI); // Models face backwards
+
+        const second = stepMissileGuidance(batch([first])).results[0].state as DefenseGuidanceState;
+        expect(second.velocity).toEqual(first.velocity);
+    });
+
+    it('steers command-guided defense missiles toward the radar fix', () => {
+        const flying = { lifeTime: 1, targetSet: true, velocity: { x: 0, y: 0, z: 80 }, targetPosition: { x: 400, y: 10, z: 0 } };
+        const unguided = stepMissileGuidance(batch([defense(flying)])).results[0].state as DefenseGuidanceState;
+        const guided = stepMissileGuidance(batch([defense({ ...flying, commandGuided: true })])).results[0].state as DefenseGuidanceState;
+
+        expect(unguided.velocity).toEqual(flying.velocity);
+        expect(guided.velocity.x).toBeCloseTo(80 * 0.5 * DELTA_TIME);
+        expect(guided.velocity.z).toBeLessThan(80);
+    });
+
+    it('seduces defense missiles with chaff and keeps them on it once the cloud has gone', () => {
+        const chaff = { x: 0, y: 10, z: 40 };
+        const flying = { lifeTime: 1, targetSet: true, commandGuided: true, velocity: { x: 0, y: 0, z: 80 }, targetPosition: { x: 400, y: 10, z: 0 } };
+        const decoyed = stepMissileGuidance(batch([defense(flying)], { chaff: [chaff] })).results[0].state as DefenseGuidanceState;
+        expect(decoyed.isTargetingChaff).toBe(true);
+        expect(decoyed.targetPosition).toEqual(chaff);
+
+        const stillDecoyed = stepMissileGuidance(batch([decoyed])).results[0].state as DefenseGuidanceState;
+        expect(stillDecoyed.targetPosition).toEqual(chaff);
+        expect(fly(defense(flying), 120, { chaff: [chaff] }).shouldExplode).toBe(true);
+
+        const outOfRange = stepMissileGuidance(batch([defense(flying)], { chaff: [{ x: 0, y: 10, z: 200 }] })).results[0].state as DefenseGuidanceState;
+        expect(outOfRange.isTargetingChaff).toBe(false);
+    });
+
+    it('self-destructs defense missiles at the end of their lifetime', () => {
+        const result = stepMissileGuidance(batch([defense({ lifeTime: 10, targetSet: true, velocity: { x: 80, y: 0, z: 0 } })])).results[0];
+        expect(result.shouldExplode).toBe(true);
+    });
+
+    it('refreshes the Iskander target from the bomber and reports the lock once', () => {
+        const refreshed = stepMissileGuidance(batch([iskander()], { currentTime: 0.2, bomberPosition: { x: 50, y: 90, z: 900 } })).results[0];
+        expect(refreshed.state.targetPosition).toEqual({ x: 50, y: 90, z: 900 });
+
+        const locked = fly(iskander({ lockOnTime: 1 - DELTA_TIME / 2 }), 1);
+        expect(locked.lockEstablished).toBe(true);
+        expect(fly(locked.state, 1).lockEstablished).toBe(false);
+    });
+
+    it('keeps Iskanders on the last seen position without locking while the bomber is masked', () => {
+        const masked = stepMissileGuidance(batch([iskander({ bomberVisible: false, lockOnTime: 1 - DELTA_TIME / 2 })],
+            { currentTime: 0.2, bomberPosition: { x: 50, y: 90, z: 900 } })).results[0];
+        expect(masked.state.targetPosition).toEqual({ x: 0, y: 100, z: 1000 });
+        expect(masked.lockEstablished).toBe(false);
+        expect((masked.state as IskanderGuidanceState).lockOnTime).toBe(1 - DELTA_TIME / 2);
+    });
+
+    it('locks onto a stealthier bomber more slowly', () => {
+        const clean = stepMissileGuidance(batch([iskander()])).results[0].state as IskanderGuidanceState;
+        const stealthy = stepMissileGuidance(batch([iskander({ bomberSignature: 0.5 })])).results[0].state as IskanderGuidanceState;
+        expect(clean.lockOnTime).toBeCloseTo(DELTA_TIME);
+        expect(stealthy.lockOnTime).toBeCloseTo(DELTA_TIME / 2);
+    });
+
+    it('locks onto a jamming bomber more slowly and refreshes its position less often', () => {
+        const jammed = stepMissileGuidance(batch([iskander({ bomberJamming: true })])).results[0].state as IskanderGuidanceState;
+        expect(jammed.lockOnTime).toBeCloseTo(DELTA_TIME * ECM_PROFILE.seekerLockFactor);
+        const weakJammer = { ...ECM_PROFILE, seekerLockFactor: 0.8 };
+        const weaklyJammed = stepMissileGuidance(batch([iskander({ bomberJamming: true })], { ecm: weakJammer })).results[0].state as IskanderGuidanceState;
+        expect(weaklyJammed.lockOnTime).toBeCloseTo(DELTA_TIME * 0.8);
+
+        const bomberPosition = { x: 50, y: 90, z: 900 };
+        const stale = stepMissileGuidance(batch([iskander({ bomberJamming: true })], { currentTime: 0.2, bomberPosition })).results[0];
+        expect(stale.state.targetPosition).toEqual({ x: 0, y: 100, z: 1000 });
+        const fresh = stepMissileGuidance(batch([iskander({ bomberJamming: true })], { currentTime: 0.5, bomberPosition })).results[0];
+        expect(fresh.state.targetPosition).toEqual(bomberPosition);
+    });
+
+    it('diverts Iskanders to flares in range and back to the bomber once they are gone', () => {
+        const flare = { x: 0, y: 100, z: 50 };
+        const decoyed = stepMissileGuidance(batch([iskander()], { flares: [flare] })).results[0].state as IskanderGuidanceState;
+        expect(decoyed.isTargetingFlare).toBe(true);
+        expect(decoyed.targetPosition).toEqual(flare);
+
+        const recovered = stepMissileGuidance(batch([decoyed], { bomberPosition: { x: 10, y: 100, z: 800 } })).results[0].state as IskanderGuidanceState;
+        expect(recovered.isTargetingFlare).toBe(false);
+        expect(recovered.targetPosition).toEqual({ x: 10, y: 100, z: 800 });
+    });
+
+    it('chases the bomber with air-to-air missiles every tick until they burn out', () => {
+        const bomberPosition = { x: 40, y: 100, z: 1000 };
+        const chasing = stepMissileGuidance(batch([airToAir()], { bomberPosition })).results[0].state as AirToAirGuidanceState;
+        expect(chasing.targetPosition).toEqual(bomberPosition);
+        expect(chasing.velocity.z).toBeGreaterThan(0); // Turning off the launch heading toward the bomber
+        expect(fly(airToAir(), 600, { bomberPosition }).shouldExplode).toBe(true);
+
+        const burntOut = stepMissileGuidance(batch([airToAir({ lifeTime: 6 })])).results[0];
+        expect(burntOut.shouldExplode).toBe(true);
+    });
+
+    it('spoofs air-to-air missiles with a flare for good', () => {
+        const flare = { x: 30, y: 100, z: 620 };
+        const spoofed = stepMissileGuidance(batch([airToAir()], { flares: [flare] })).results[0].state as AirToAirGuidanceState;
+        expect(spoofed.isTargetingFlare).toBe(true);
+        expect(spoofed.targetPosition).toEqual(flare);
+
+        // Unlike an Iskander it doesn't go back to the bomber once the flare has burnt out
+        const stillSpoofed = stepMissileGuidance(batch([spoofed])).results[0].state as AirToAirGuidanceState;
+        expect(stillSpoofed.isTargetingFlare).toBe(true);
+        expect(stillSpoofed.targetPosition).toEqual(flare);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_MISSION_PLAN,
+    MAX_PLAN_WAYPOINTS,
+    PLAN_APPROACH_DISTANCE,
+    buildPlannedRoute,
+    getPlanOutline,
+    getRouteLength,
+    getRoutePosition,
+    isValidMissionPlan
+} from '../../src/utils/MissionPlan';
+
+// Ground rising towards +X, so terrain following shows up in the route heights
+const slope = (x: number) => x * 0.1;
+
+describe('mission plan', () => {
+    it('validates waypoint count, altitude band and heading', () => {
+        expect(isValidMissionPlan(DEFAULT_MISSION_PLAN)).toBe(true);
+        expect(isValidMissionPlan({ waypoints: [{ x: 10, z: 20 }], altitude: 40, approachHeading: Math.PI })).toBe(true);
+
+        expect(isValidMissionPlan(null)).toBe(false);
+        expect(isValidMissionPlan({ ...DEFAULT_MISSION_PLAN, altitude: 5 })).toBe(false);
+        expect(isValidMissionPlan({ ...DEFAULT_MISSION_PLAN, approachHeading: 'north' })).toBe(false);
+        expect(isValidMissionPlan({ ...DEFAULT_MISSION_PLAN, waypoints: [{ x: 1 }] })).toBe(false);
+        const tooMany = Array.from({ length: MAX_PLAN_WAYPOINTS + 1 }, (_, i) => ({ x: i, z: i }));
+        expect(isValidMissionPlan({ ...DEFAULT_MISSION_PLAN, waypoints: tooMany })).toBe(false);
+    });
+
+    it('outlines the route through the waypoints and the run-in to the target', () => {
+        const plan = { waypoints: [{ x: 100, z: 0 }], altitude: 30, approachHeading: 0 }; // Run in heading +Z
+        const outline = getPlanOutline({ x: 0, z: 0 }, { x: 100, z: 400 }, plan);
+
+        expect(outline).toHaveLength(4);
+        expect(outline[2].x).toBeCloseTo(100);
+        expect(outline[2].z).toBeCloseTo(400 - PLAN_APPROACH_DISTANCE);
+        expect(outline[3]).toEqual({ x: 100, z: 400 });
+
+        // Without a target the outline stops at the last waypoint
+        expect(getPlanOutline({ x: 0, z: 0 }, null, plan)).toEqual([{ x: 0, z: 0 }, { x: 100, z: 0 }]);
+    });
+
+    it('builds a terrain-following route from the launch point onto the target', () => {
+        const plan = { waypoints: [{ x: 200, z: 0 }], altitude: 30, approachHeading: null };
+        const route = buildPlannedRoute({ x: 0, y: 90, z: 0 }, { x: 200, y: 20, z: 200 }, plan, slope);
+
+        expect(route[0]).toEqual({ x: 0, y: 90, z: 0 });
+        expect(route[route.length - 1]).toEqual({ x: 200, y: 20, z: 200 });
+        expect(route.length).toBeGreaterThan(10); // Densified between waypoints
+        route.slice(1, -1).forEach(point => {
+            expect(point.y).toBeCloseTo(slope(point.x) + plan.altitude);
+        });
+        expect(route).toContainEqual({ x: 200, y: slope(200) + plan.altitude, z: 0 });
+    });
+
+    it('measures positions along a route by distance', () => {
+        const route = [{ x: 0, y: 0, z: 0 }, { x: 30, y: 0, z: 0 }, { x: 30, y: 0, z: 10 }];
+
+        expect(getRouteLength(route)).toBe(40);
+        expect(getRoutePosition(route, 0)).toEqual({ x: 0, y: 0, z: 0 });
+        expect(getRoutePosition(route, 0.5)).toEqual({ x: 20, y: 0, z: 0 });
+        expect(getRoutePosition(route, 0.875)).toEqual({ x: 30, y: 0, z: 5 });
+        expect(getRoutePosition(route, 2)).toEqual({ x: 30, y: 0, z: 10 });
+    });
+});
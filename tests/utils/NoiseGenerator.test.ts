@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { NoiseGenerator } from '../../src/utils/NoiseGenerator';
+
+const SAMPLE_POINTS: Array<[number, number]> = [];
+for (let i = 0; i < 200; i++) {
+    SAMPLE_POINTS.push([(i * 37.13) % 500 - 250, (i * 91.7) % 500 - 250]);
+}
+
+describe('NoiseGenerator', () => {
+    it('returns identical values for the same seed', () => {
+        const a = new NoiseGenerator(0.42);
+        const b = new NoiseGenerator(0.42);
+        SAMPLE_POINTS.forEach(([x, y]) => {
+            expect(a.noise(x, y)).toBe(b.noise(x, y));
+            expect(a.fractalNoise(x * 0.01, y * 0.01, 4)).toBe(b.fractalNoise(x * 0.01, y * 0.01, 4));
+        });
+    });
+
+    it('produces different fields for different seeds', () => {
+        const a = new NoiseGenerator(0.1);
+        const b = new NoiseGenerator(0.9);
+        const differing = SAMPLE_POINTS.filter(([x, y]) => a.noise(x, y) !== b.noise(x, y));
+        expect(differing.length).toBeGreaterThan(SAMPLE_POINTS.length * 0.9);
+    });
+
+    it('keeps noise and fractal noise within [0, 1]', () => {
+        const generator = new NoiseGenerator(0.1234);
+        SAMPLE_POINTS.forEach(([x, y]) => {
+            const value = generator.noise(x * 0.1, y * 0.1);
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThanOrEqual(1);
+
+            const fractal = generator.fractalNoise(x * 0.01, y * 0.01, 4);
+            expect(fractal).toBeGreaterThanOrEqual(0);
+            expect(fractal).toBeLessThanOrEqual(1);
+        });
+    });
+
+    it('keeps signed noise within [-1, 1]', () => {
+        const generator = new NoiseGenerator(0.5);
+        SAMPLE_POINTS.forEach(([x, y]) => {
+            const value = generator.signedNoise(x * 0.1, y * 0.1);
+            expect(value).toBeGreaterThanOrEqual(-1);
+            expect(value).toBeLessThanOrEqual(1);
+        });
+    });
+
+    it('is continuous between lattice points', () => {
+        const generator = new NoiseGenerator(0.77);
+        for (let x = 0; x < 10; x += 0.01) {
+            expect(Math.abs(generator.noise(x + 0.001, 3.5) - generator.noise(x, 3.5))).toBeLessThan(0.02);
+        }
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BOMBER_RCS_PROFILE,
+    getAspectAngle,
+    getRadarCrossSection,
+    getSignatureLevel,
+    getSignatureRangeFactor
+} from '../../src/utils/RadarCrossSection';
+
+describe('radar cross-section', () => {
+    it('measures the aspect from the nose whichever side the observer is on', () => {
+        const bomber = { x: 0, z: 0 };
+        expect(getAspectAngle(bomber, 0, { x: 0, z: 100 })).toBeCloseTo(0);
+        expect(getAspectAngle(bomber, 0, { x: 100, z: 0 })).toBeCloseTo(Math.PI / 2);
+        expect(getAspectAngle(bomber, 0, { x: -100, z: 0 })).toBeCloseTo(Math.PI / 2);
+        expect(getAspectAngle(bomber, Math.PI / 2, { x: -100, z: 0 })).toBeCloseTo(Math.PI); // Turned away
+    });
+
+    it('is smallest nose-on and largest side-on', () => {
+        expect(getRadarCrossSection(0, 0, 0)).toBeCloseTo(BOMBER_RCS_PROFILE.noseRcs);
+        expect(getRadarCrossSection(Math.PI / 2, 0, 0)).toBeCloseTo(BOMBER_RCS_PROFILE.beamRcs);
+        expect(getRadarCrossSection(Math.PI, 0, 0)).toBeCloseTo(BOMBER_RCS_PROFILE.tailRcs);
+        expect(getRadarCrossSection(Math.PI / 4, 0, 0)).toBeGreaterThan(BOMBER_RCS_PROFILE.noseRcs);
+        expect(getRadarCrossSection(Math.PI / 4, 0, 0)).toBeLessThan(BOMBER_RCS_PROFILE.beamRcs);
+    });
+
+    it('grows with the bomb bay doors and battle damage', () => {
+        const clean = getRadarCrossSection(0, 0, 0);
+        expect(getRadarCrossSection(0, 0.5, 0)).toBeCloseTo(clean + BOMBER_RCS_PROFILE.bombBayRcs / 2);
+        expect(getRadarCrossSection(0, 1, 1)).toBeCloseTo(clean + BOMBER_RCS_PROFILE.bombBayRcs + BOMBER_RCS_PROFILE.damageRcs);
+        expect(getRadarCrossSection(0, 2, -1)).toBeCloseTo(clean + BOMBER_RCS_PROFILE.bombBayRcs); // Clamped
+    });
+
+    it('scales detection range with the fourth root of the cross-section', () => {
+        expect(getSignatureRangeFactor(1)).toBe(1);
+        expect(getSignatureRangeFactor(1 / 16)).toBeCloseTo(0.5);
+        expect(getSignatureLevel(getSignatureRangeFactor(BOMBER_RCS_PROFILE.noseRcs))).toBe('low');
+        expect(getSignatureLevel(0.75)).toBe('medium');
+        expect(getSignatureLevel(getSignatureRangeFactor(BOMBER_RCS_PROFILE.beamRcs))).toBe('high');
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+    SAM_RADAR_PROFILE,
+    RadarEnvironment,
+    SamFireControl,
+    canRadarDetect,
+    getDetectionRange
+} from '../../src/utils/SamFireControl';
+import { traceLineOfSight } from '../../src/utils/LineOfSight';
+
+const TICK = 1 / 60;
+const flat = () => 0;
+// A 60 unit ridge across x = 100..120
+const ridge = (x: number) => (x >= 100 && x <= 120 ? 60 : 0);
+// Radar surroundings over the given ground, against a target with the given signature
+const environment = (ground: (x: number, z: number) => number, signature = 1): RadarEnvironment => ({
+    getGroundHeight: ground,
+    hasLineOfSight: (from, to) => traceLineOfSight(from, to, ground).visible,
+    getTargetSignature: () => signature,
+    isTargetJamming: false
+});
+
+// Runs the fire control for a span of game time, returning the ticks it asked to launch on
+function run(fireControl: SamFireControl, from: number, to: number, detected: boolean, missileInFlight = false, canLaunch = true, jammed = false): number[] {
+    const launches: number[] = [];
+    for (let time = from; time < to; time += TICK) {
+        if (fireControl.update(time, detected, missileInFlight, canLaunch, jammed)) {
+            launches.push(time);
+            fireControl.notifyLaunch(time);
+        }
+    }
+    return launches;
+}
+
+describe('SAM radar detection', () => {
+    it('shrinks detection range in ground clutter', () => {
+        expect(getDetectionRange(200)).toBe(SAM_RADAR_PROFILE.searchRange);
+        expect(getDetectionRange(0)).toBeCloseTo(SAM_RADAR_PROFILE.searchRange * SAM_RADAR_PROFILE.minClutterFactor);
+        expect(getDetectionRange(SAM_RADAR_PROFILE.clutterAltitude / 2)).toBeLessThan(getDetectionRange(SAM_RADAR_PROFILE.clutterAltitude));
+
+        const radar = { x: 0, y: 10, z: 0 };
+        expect(canRadarDetect(radar, { x: 0, y: 100, z: 250 }, environment(flat))).toBe(true);
+        expect(canRadarDetect(radar, { x: 0, y: 20, z: 250 }, environment(flat))).toBe(false); // Same range, down in the clutter
+        expect(canRadarDetect(radar, { x: 0, y: 100, z: 350 }, environment(flat))).toBe(false);
+
+        // A smaller signature has to come closer before it shows up
+        expect(canRadarDetect(radar, { x: 0, y: 100, z: 250 }, environment(flat, 0.5))).toBe(false);
+        expect(canRadarDetect(radar, { x: 0, y: 100, z: 100 }, environment(flat, 0.5))).toBe(true);
+    });
+
+    it('needs a line of sight to the target', () => {
+        const radar = { x: 0, y: 10, z: 0 };
+        expect(canRadarDetect(radar, { x: 200, y: 100, z: 0 }, environment(ridge))).toBe(false);
+        expect(canRadarDetect(radar, { x: 200, y: 200, z: 0 }, environment(ridge))).toBe(true); // High enough to be seen over it
+        expect(canRadarDetect(radar, { x: 90, y: 100, z: 0 }, environment(ridge))).toBe(true); // Short of the ridge
+    });
+});
+
+describe('SAM fire control', () => {
+    it('tracks, locks, launches once per interval and guides while the missile flies', () => {
+        const fireControl = new SamFireControl();
+        expect(fireControl.getState()).toBe('search');
+
+        run(fireControl, 0, 1, true);
+        expect(fireControl.getState()).toBe('track');
+        run(fireControl, 1, 3, true);
+        expect(fireControl.getState()).toBe('lock');
+
+        // Nothing launches in the first interval of the sortie
+        expect(run(fireControl, 3, 7.9, true)).toEqual([]);
+        expect(run(fireControl, 7.9, 8.1, true, true)).toHaveLength(1);
+        expect(fireControl.getState()).toBe('guide');
+
+        // Missile gone: back to lock for the next shot
+        run(fireControl, 8.1, 10, true, false);
+        expect(fireControl.getState()).toBe('lock');
+        expect(run(fireControl, 10, 15.9, true)).toEqual([]);
+        expect(run(fireControl, 15.9, 16.2, true)).toHaveLength(1);
+    });
+
+    it('takes longer to track and lock a jamming target', () => {
+        const fireControl = new SamFireControl();
+        const trackTime = SAM_RADAR_PROFILE.trackTime * SAM_RADAR_PROFILE.jammedTimeFactor;
+
+        run(fireControl, 0, SAM_RADAR_PROFILE.trackTime + 0.1, true, false, true, true);
+        expect(fireControl.getState()).toBe('track');
+        run(fireControl, SAM_RADAR_PROFILE.trackTime + 0.1, trackTime + 0.1, true, false, true, true);
+        expect(fireControl.getState()).toBe('lock');
+    });
+
+    it('drops back to search once the track has been lost for a while', () => {
+        const fireControl = new SamFireControl();
+        run(fireControl, 0, 3, true);
+        expect(fireControl.getState()).toBe('lock');
+
+        run(fireControl, 3, 3 + SAM_RADAR_PROFILE.trackMemory * 0.5, false);
+        expect(fireControl.getState()).toBe('lock'); // Coasting on the last fix
+        run(fireControl, 3.5, 5, false);
+        expect(fireControl.getState()).toBe('search');
+    });
+
+    it('waits for recorded launches when it may not fire itself', () => {
+        const fireControl = new SamFireControl();
+        expect(run(fireControl, 0, 10, true, false, false)).toEqual([]);
+        expect(fireControl.getState()).toBe('lock');
+
+        fireControl.notifyLaunch(10);
+        expect(fireControl.update(10, true, true, false)).toBe(false);
+        expect(fireControl.getState()).toBe('launch'); // Held for the launch tick
+        fireControl.update(10 + TICK, true, true, false);
+        expect(fireControl.getState()).toBe('guide');
+
+        fireControl.reset(11);
+        expect(fireControl.getState()).toBe('search');
+    });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { TAIL_GUN_PROFILE, getTailGunDamage } from '../../src/utils/TailGun';
+
+const BOMBER = { x: 0, y: 100, z: 0 };
+
+describe('getTailGunDamage', () => {
+    it('only fires at targets behind the bomber', () => {
+        expect(getTailGunDamage(BOMBER, 0, { x: 0, y: 100, z: -50 }, 1)).toBeGreaterThan(0);
+        expect(getTailGunDamage(BOMBER, 0, { x: 0, y: 100, z: 50 }, 1)).toBe(0);
+        expect(getTailGunDamage(BOMBER, 0, { x: 50, y: 100, z: 0 }, 1)).toBe(0); // Beam is outside the arc
+        expect(getTailGunDamage(BOMBER, Math.PI / 2, { x: -50, y: 100, z: 0 }, 1)).toBeGreaterThan(0); // Follows the heading
+    });
+
+    it('falls off with range and stops beyond it', () => {
+        const close = getTailGunDamage(BOMBER, 0, { x: 0, y: 100, z: -1 }, 1);
+        const edge = getTailGunDamage(BOMBER, 0, { x: 0, y: 100, z: -TAIL_GUN_PROFILE.range }, 1);
+        expect(close).toBeCloseTo(TAIL_GUN_PROFILE.damagePerSecond, 0);
+        expect(edge).toBeCloseTo(TAIL_GUN_PROFILE.damagePerSecond * TAIL_GUN_PROFILE.rangeFalloff);
+        expect(getTailGunDamage(BOMBER, 0, { x: 0, y: 100, z: -TAIL_GUN_PROFILE.range - 1 }, 1)).toBe(0);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { TargetQueue } from '../../src/utils/TargetQueue';
+
+interface FakeTarget {
+    name: string;
+    destroyed: boolean;
+    getIsDestroyed(): boolean;
+}
+
+function target(name: string): FakeTarget {
+    return { name, destroyed: false, getIsDestroyed() { return this.destroyed; } };
+}
+
+describe('target queue', () => {
+    it('cycles the designation through candidates and wraps around', () => {
+        const queue = new TargetQueue<FakeTarget>();
+        const [a, b, c] = [target('a'), target('b'), target('c')];
+
+        expect(queue.cycle([])).toBeNull();
+        expect(queue.cycle([a, b, c])).toBe(a);
+        expect(queue.cycle([a, b, c])).toBe(b);
+        expect(queue.cycle([a, b, c])).toBe(c);
+        expect(queue.cycle([a, b, c])).toBe(a);
+
+        // A designation that left the candidate list restarts from the nearest
+        queue.designate(target('far'));
+        expect(queue.cycle([b, c])).toBe(b);
+    });
+
+    it('toggles targets on and off a queue of limited size', () => {
+        const queue = new TargetQueue<FakeTarget>(2);
+        const [a, b, c] = [target('a'), target('b'), target('c')];
+
+        expect(queue.toggleQueued(a)).toBe(true);
+        expect(queue.toggleQueued(b)).toBe(true);
+        expect(queue.isFull()).toBe(true);
+        expect(queue.toggleQueued(c)).toBe(false);
+        expect(queue.getQueue()).toEqual([a, b]);
+
+        expect(queue.toggleQueued(a)).toBe(true);
+        expect(queue.isQueued(a)).toBe(false);
+        expect(queue.toggleQueued(c)).toBe(true);
+        expect(queue.getQueue()).toEqual([b, c]);
+    });
+
+    it('advances a destroyed designation to the next queued target', () => {
+        const queue = new TargetQueue<FakeTarget>();
+        const [a, b, c] = [target('a'), target('b'), target('c')];
+        queue.toggleQueued(a);
+        queue.toggleQueued(b);
+        queue.toggleQueued(c);
+        queue.designate(a);
+
+        a.destroyed = true;
+        queue.prune();
+        expect(queue.getQueue()).toEqual([b, c]);
+        expect(queue.getDesignated()).toBe(b);
+
+        // Destroying a queued target that isn't designated leaves the designation alone
+        c.destroyed = true;
+        queue.prune();
+        expect(queue.getDesignated()).toBe(b);
+
+        b.destroyed = true;
+        queue.prune();
+        expect(queue.getQueue()).toEqual([]);
+        expect(queue.getDesignated()).toBeNull();
+    });
+
+    it('strikes queued targets in order, skipping ones already engaged', () => {
+        const queue = new TargetQueue<FakeTarget>();
+        const [a, b, c, designated] = [target('a'), target('b'), target('c'), target('designated')];
+        const inRange = (candidate: FakeTarget) => candidate !== c;
+        const engaged = new Set<FakeTarget>();
+        const isEngaged = (candidate: FakeTarget) => engaged.has(candidate);
+
+        queue.designate(designated);
+        expect(queue.selectStrikeTarget(inRange, isEngaged)).toBe(designated);
+
+        queue.toggleQueued(c);
+        queue.toggleQueued(a);
+        queue.toggleQueued(b);
+        expect(queue.selectStrikeTarget(inRange, isEngaged)).toBe(a); // c is out of range
+
+        engaged.add(a);
+        expect(queue.selectStrikeTarget(inRange, isEngaged)).toBe(b);
+
+        // Every eligible target has a missile on the way: double up on the first
+        engaged.add(b);
+        expect(queue.selectStrikeTarget(inRange, isEngaged)).toBe(a);
+
+        queue.clear();
+        expect(queue.selectStrikeTarget(inRange, isEngaged)).toBeNull();
+    });
+});
@@ -0,0 +1,134 @@
+import { Vector3 } from '@babylonjs/core';
+import { describe, expect, it } from 'vitest';
+import { TerrainManager } from '../../src/managers/TerrainManager';
+import { TerrainGenerator } from '../../src/utils/TerrainGenerator';
+import { getHeightAtPosition as getWorkerHeightAtPosition } from '../../src/workers/collision-detection.handler';
+
+const WORLD_SEED = 123456789;
+const CHUNK_SIZE = 500;
+const SUBDIVISIONS = 64;
+
+// TerrainManager.getHeightAtPosition only reads these fields, so it can run without a scene.
+// Their types are looked up on TerrainManager, so renaming one breaks the test at compile time
+interface TerrainManagerInternals {
+    chunkSize: TerrainManager['chunkSize'];
+    subdivisions: TerrainManager['subdivisions'];
+    heightmapCache: TerrainManager['heightmapCache'];
+    terrainGenerator: TerrainManager['terrainGenerator'];
+    chunks: TerrainManager['chunks'];
+}
+
+function createTerrainContext(chunks: Array<[number, number]>) {
+    const terrainGenerator = new TerrainGenerator(WORLD_SEED, CHUNK_SIZE, SUBDIVISIONS);
+    const heightmapCache = new Map<string, Float32Array>();
+    const workerHeightmap: { [chunkKey: string]: Float32Array } = {};
+
+    chunks.forEach(([chunkX, chunkZ]) => {
+        const heights = terrainGenerator.generateHeightmap(chunkX, chunkZ);
+        heightmapCache.set(`${chunkX}_${chunkZ}`, heights);
+        workerHeightmap[`${chunkX}_${chunkZ}`] = heights;
+    });
+
+    const terrainChunks: TerrainManagerInternals['chunks'] = new Map();
+    const fields: TerrainManagerInternals = { chunkSize: CHUNK_SIZE, subdivisions: SUBDIVISIONS, heightmapCache, terrainGenerator, chunks: terrainChunks };
+    const manager: TerrainManager = Object.assign(Object.create(TerrainManager.prototype), fields);
+    const getManagerHeight = (x: number, z: number): number => manager.getHeightAtPosition(x, z);
+
+    return { manager, terrainGenerator, heightmapCache, terrainChunks, workerHeightmap, getManagerHeight };
+}
+
+describe('terrain height queries', () => {
+    it('matches the collision worker on loaded chunks', () => {
+        const { workerHeightmap, getManagerHeight } = createTerrainContext([[0, 0], [1, 0], [0, -1], [-1, -1]]);
+
+        // Chunks are centred on chunkX * chunkSize, so offsets run from -250 to 250 around each chunk origin
+        const samples: Array<[number, number]> = [];
+        for (let i = 0; i < 400; i++) {
+            samples.push([(i * 7.31) % 498 - 249, (i * 13.7) % 498 - 249]);
+            samples.push([500 + (i * 3.77) % 498 - 249, (i * 5.13) % 498 - 249]);
+            samples.push([(i * 11.1) % 498 - 249, -500 + (i * 2.9) % 498 - 249]);
+            samples.push([-500 + (i * 4.3) % 498 - 249, -500 + (i * 6.7) % 498 - 249]);
+        }
+
+        samples.forEach(([x, z]) => {
+            const workerHeight = getWorkerHeightAtPosition(x, z, workerHeightmap, CHUNK_SIZE, SUBDIVISIONS);
+            expect(getManagerHeight(x, z)).toBeCloseTo(workerHeight, 6);
+        });
+    });
+
+    it('stays close to the analytic noise height on grid points', () => {
+        const { terrainGenerator, getManagerHeight } = createTerrainContext([[0, 0]]);
+        const gridSpacing = CHUNK_SIZE / SUBDIVISIONS;
+
+        for (let i = -SUBDIVISIONS / 2; i < SUBDIVISIONS / 2; i++) {
+            const x = i * gridSpacing;
+            const z = (i % 7) * gridSpacing;
+            expect(getManagerHeight(x, z)).toBeCloseTo(terrainGenerator.calculateHeightFromNoise(x, z), 3);
+        }
+    });
+
+    it('reads the mesh heights of the chunk under the point in every quadrant', () => {
+        const { heightmapCache, getManagerHeight } = createTerrainContext([[1, -1]]);
+        // Raised off the noise, as a crater or flattened mesh would be, so a fallback to the noise can't pass
+        const heights = heightmapCache.get('1_-1')!.map(height => height + 5);
+        heightmapCache.set('1_-1', heights);
+        const quadrants: Array<[number, number]> = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+        quadrants.forEach(([signX, signZ]) => {
+            for (let step = 1; step < SUBDIVISIONS / 2; step += 5) {
+                const column = SUBDIVISIONS / 2 + signX * step;
+                const row = SUBDIVISIONS / 2 + signZ * ((step * 3) % (SUBDIVISIONS / 2));
+                const x = CHUNK_SIZE + (column / SUBDIVISIONS - 0.5) * CHUNK_SIZE;
+                const z = -CHUNK_SIZE + (row / SUBDIVISIONS - 0.5) * CHUNK_SIZE;
+                expect(getManagerHeight(x, z)).toBeCloseTo(heights[row * (SUBDIVISIONS + 1) + column], 4);
+            }
+        });
+    });
+
+    it('puts points in the same chunk for meshes, heightmaps and edge distances', () => {
+        const { manager, terrainChunks } = createTerrainContext([[1, -1]]);
+        const chunk = { mesh: null!, buildings: [], x: 1, z: -1 };
+        terrainChunks.set('1_-1', chunk);
+
+        // Just inside the chunk centred on (500, -500), which spans 250-750 and -750 to -250
+        [[260, -260], [740, -740], [500, -500]].forEach(([x, z]) => {
+            expect(manager.getTerrainChunkAtPosition(new Vector3(x, 0, z))).toBe(chunk);
+            expect(manager.isChunkLoadedAt(x, z)).toBe(true);
+        });
+        expect(manager.getTerrainChunkAtPosition(new Vector3(240, 0, -500))).toBeUndefined();
+        expect(manager['getDistanceToNearestChunkEdge'](new Vector3(500, 0, -500))).toBe(CHUNK_SIZE / 2);
+        expect(manager['getDistanceToNearestChunkEdge'](new Vector3(260, 0, -500))).toBeCloseTo(10);
+    });
+
+    it('falls back to noise where the worker has no chunk', () => {
+        const { terrainGenerator, workerHeightmap, getManagerHeight } = createTerrainContext([]);
+
+        expect(getWorkerHeightAtPosition(100, 100, workerHeightmap, CHUNK_SIZE, SUBDIVISIONS)).toBe(0);
+        expect(getManagerHeight(100, 100)).toBe(terrainGenerator.calculateHeightFromNoise(100, 100));
+    });
+
+    it('gives adjacent world seeds clearly different terrain', () => {
+        const first = new TerrainGenerator(1, CHUNK_SIZE, SUBDIVISIONS);
+        const second = new TerrainGenerator(2, CHUNK_SIZE, SUBDIVISIONS);
+
+        let largestDifference = 0;
+        for (let x = 0; x < 1000; x += 50) {
+            for (let z = 0; z < 1000; z += 50) {
+                largestDifference = Math.max(largestDifference,
+                    Math.abs(first.calculateHeightFromNoise(x, z) - second.calculateHeightFromNoise(x, z)));
+            }
+        }
+        expect(largestDifference).toBeGreaterThan(10);
+    });
+
+    it('keeps heights within the generator bounds', () => {
+        const { getManagerHeight } = createTerrainContext([[0, 0]]);
+        for (let x = -250; x < 250; x += 10) {
+            for (let z = -250; z < 250; z += 10) {
+                const height = getManagerHeight(x, z);
+                expect(height).toBeGreaterThanOrEqual(0);
+                expect(height).toBeLessThanOrEqual(60);
+            }
+        }
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+    THREAT_DIRECTOR_PROFILE,
+    ThreatContext,
+    ThreatDirector,
+    chooseLaunchSites,
+    getSalvoInterval,
+    getSalvoSize,
+    getThreatPressure
+} from '../../src/utils/ThreatDirector';
+
+const CALM: ThreatContext = { destroyedTargets: 0, healthFraction: 1, nearbyDefenses: 0 };
+const SITE = { x: 500, y: 5, z: 0 };
+const noJitter = () => 0;
+
+// Steps the director like the game does and returns the times it launched at
+function run(director: ThreatDirector, from: number, to: number, context: (time: number) => ThreatContext = () => CALM) {
+    const launches: number[] = [];
+    for (let tick = Math.round(from * 60); tick <= Math.round(to * 60); tick++) {
+        const time = tick / 60;
+        director.update(time, context(time), count => Array(count).fill(SITE), noJitter).forEach(() => launches.push(time));
+    }
+    return launches;
+}
+
+describe('getThreatPressure', () => {
+    it('rises with targets destroyed, sortie time, health and nearby defenses', () => {
+        const base = getThreatPressure(0, { ...CALM, healthFraction: 0 });
+        expect(base).toBeCloseTo(THREAT_DIRECTOR_PROFILE.basePressure);
+
+        expect(getThreatPressure(0, { ...CALM, destroyedTargets: 2 })).toBeGreaterThan(getThreatPressure(0, CALM));
+        expect(getThreatPressure(300, CALM)).toBeGreaterThan(getThreatPressure(0, CALM));
+        expect(getThreatPressure(0, { ...CALM, healthFraction: 0.2 })).toBeLessThan(getThreatPressure(0, CALM));
+        expect(getThreatPressure(0, { ...CALM, nearbyDefenses: 3 })).toBeGreaterThan(getThreatPressure(0, CALM));
+    });
+
+    it('caps every term and the total', () => {
+        const capped = getThreatPressure(0, { ...CALM, destroyedTargets: 100 });
+        expect(capped).toBeCloseTo(getThreatPressure(0, CALM) + THREAT_DIRECTOR_PROFILE.maxTargetPressure);
+        expect(getThreatPressure(36000, { destroyedTargets: 100, healthFraction: 1, nearbyDefenses: 100 })).toBe(1);
+    });
+});
+
+describe('salvo pacing', () => {
+    it('fires bigger salvos more often under more pressure', () => {
+        expect(getSalvoSize(0)).toBe(THREAT_DIRECTOR_PROFILE.minSalvo);
+        expect(getSalvoSize(1)).toBe(THREAT_DIRECTOR_PROFILE.maxSalvo);
+        expect(getSalvoInterval(0, noJitter)).toBe(THREAT_DIRECTOR_PROFILE.maxInterval);
+        expect(getSalvoInterval(1, noJitter)).toBe(THREAT_DIRECTOR_PROFILE.minInterval);
+        expect(getSalvoInterval(1, () => 1)).toBeCloseTo(THREAT_DIRECTOR_PROFILE.minInterval * (1 + THREAT_DIRECTOR_PROFILE.intervalJitter));
+    });
+});
+
+describe('chooseLaunchSites', () => {
+    it('picks the farthest sites in range that can see the bomber, cycling through them', () => {
+        const far = { x: 900, y: 5, z: 0 };
+        const mid = { x: 600, y: 5, z: 0 };
+        const sites = chooseLaunchSites([
+            { position: mid, distance: 600, hasLineOfSight: true },
+            { position: { x: 950, y: 5, z: 0 }, distance: 950, hasLineOfSight: false }, // Behind a hill
+            { position: { x: 100, y: 5, z: 0 }, distance: 100, hasLineOfSight: true }, // Too close
+            { position: far, distance: 900, hasLineOfSight: true }
+        ], 3);
+
+        expect(sites).toEqual([far, mid, far]);
+        expect(chooseLaunchSites([{ position: far, distance: 900, hasLineOfSight: false }], 2)).toEqual([]);
+    });
+});
+
+describe('ThreatDirector', () => {
+    it('holds fire at the start of a sortie, then spaces out the missiles of a salvo', () => {
+        const director = new ThreatDirector();
+        const launches = run(director, 0, THREAT_DIRECTOR_PROFILE.firstSalvoDelay + 5);
+        const size = getSalvoSize(getThreatPressure(THREAT_DIRECTOR_PROFILE.firstSalvoDelay, CALM));
+
+        expect(launches).toHaveLength(size);
+        expect(launches[0]).toBeCloseTo(THREAT_DIRECTOR_PROFILE.firstSalvoDelay, 1);
+        if (size > 1) {
+            expect(launches[1] - launches[0]).toBeCloseTo(THREAT_DIRECTOR_PROFILE.salvoSpacing, 1);
+        }
+    });
+
+    it('looks again shortly when no site can see the bomber', () => {
+        const director = new ThreatDirector();
+        let asked = 0;
+        for (let tick = 0; tick <= (THREAT_DIRECTOR_PROFILE.firstSalvoDelay + THREAT_DIRECTOR_PROFILE.retryDelay) * 60; tick++) {
+            director.update(tick / 60, CALM, () => { asked++; return []; }, noJitter);
+        }
+        expect(asked).toBe(2);
+    });
+
+    it('calls off the salvo and backs off after a big hit', () => {
+        const director = new ThreatDirector({ ...THREAT_DIRECTOR_PROFILE, minSalvo: 3, maxSalvo: 3 });
+        const hitTime = THREAT_DIRECTOR_PROFILE.firstSalvoDelay + 0.1;
+        const hurt = (time: number) => ({ ...CALM, healthFraction: time >= hitTime ? 0.5 : 1 });
+
+        const launches = run(director, 0, hitTime + THREAT_DIRECTOR_PROFILE.reliefTime - 0.5, hurt);
+
+        expect(launches).toHaveLength(1); // The rest of the salvo was called off
+        expect(director.isInRelief(hitTime + 1)).toBe(true);
+    });
+
+    it('pushes the next salvo past the relief time', () => {
+        const director = new ThreatDirector();
+        const hitTime = THREAT_DIRECTOR_PROFILE.firstSalvoDelay / 2;
+        const launches = run(director, 0, hitTime + THREAT_DIRECTOR_PROFILE.reliefTime + 1,
+            time => ({ ...CALM, healthFraction: time >= hitTime ? 0.6 : 1 }));
+
+        expect(launches[0]).toBeCloseTo(hitTime + THREAT_DIRECTOR_PROFILE.reliefTime, 1);
+    });
+
+    it('shrugs off small hits', () => {
+        const director = new ThreatDirector();
+        director.update(0, CALM, () => [], noJitter);
+        director.update(1, { ...CALM, healthFraction: 0.9 }, () => [], noJitter);
+        expect(director.isInRelief(1)).toBe(false);
+    });
+});
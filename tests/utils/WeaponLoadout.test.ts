@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { FlightRecorder } from '../../src/utils/FlightRecorder';
+import { GameClock } from '../../src/utils/GameClock';
+import { DEFAULT_TUNING, getWeaponSpecs } from '../../src/utils/GameTuning';
+import { BOMBER_STATIONS, DEFAULT_LOADOUT, WEAPON_SPECS, WeaponLoadout } from '../../src/utils/WeaponLoadout';
+
+function stepSeconds(gameClock: GameClock, seconds: number): void {
+    const steps = Math.round(seconds / gameClock.getFixedTimeStep());
+    for (let i = 0; i < steps; i++) {
+        gameClock.step();
+    }
+}
+
+describe('weapon loadout', () => {
+    it('fills every station with its weapon', () => {
+        const loadout = new WeaponLoadout(DEFAULT_LOADOUT, new GameClock());
+
+        expect(loadout.getRounds('bomb')).toBe(2 * WEAPON_SPECS.bomb.roundsPerStation);
+        expect(loadout.getRounds('tomahawk')).toBe(WEAPON_SPECS.tomahawk.roundsPerStation);
+        expect(loadout.getRounds('flare')).toBe(WEAPON_SPECS.flare.roundsPerStation);
+        expect(loadout.getRounds('chaff')).toBe(WEAPON_SPECS.chaff.roundsPerStation);
+        expect(loadout.getCapacity('bomb')).toBe(loadout.getRounds('bomb'));
+    });
+
+    it('draws rounds until the stations are empty', () => {
+        const loadout = new WeaponLoadout({ ...DEFAULT_LOADOUT, 'bay-forward': 'tomahawk', 'bay-center': 'tomahawk' }, new GameClock());
+
+        expect(loadout.getRounds('bomb')).toBe(0);
+        expect(loadout.canFire('bomb')).toBe(false);
+        expect(loadout.consume('bomb')).toBe(false);
+
+        for (let i = 0; i < 6; i++) {
+            expect(loadout.consume('tomahawk')).toBe(true);
+        }
+        expect(loadout.consume('tomahawk')).toBe(false);
+        expect(loadout.canFire('tomahawk')).toBe(false);
+    });
+
+    it('holds a weapon for its reload time after firing', () => {
+        const gameClock = new GameClock();
+        const loadout = new WeaponLoadout(DEFAULT_LOADOUT, gameClock);
+
+        loadout.startReload('tomahawk');
+        expect(loadout.canFire('tomahawk')).toBe(false);
+        expect(loadout.canFire('bomb')).toBe(true);
+
+        stepSeconds(gameClock, WEAPON_SPECS.tomahawk.reloadTime / 2);
+        expect(loadout.getReloadStatus('tomahawk')).toBeCloseTo(0.5, 5);
+
+        stepSeconds(gameClock, WEAPON_SPECS.tomahawk.reloadTime / 2);
+        expect(loadout.canFire('tomahawk')).toBe(true);
+    });
+
+    it('reloads on the tuned weapon table', () => {
+        const gameClock = new GameClock();
+        const specs = getWeaponSpecs({ ...DEFAULT_TUNING.weapons, tomahawkReloadTime: 4 });
+        const loadout = new WeaponLoadout(DEFAULT_LOADOUT, gameClock, specs);
+
+        expect(specs.tomahawk.roundsPerStation).toBe(WEAPON_SPECS.tomahawk.roundsPerStation);
+        loadout.startReload('tomahawk');
+        stepSeconds(gameClock, 2);
+        expect(loadout.getReloadStatus('tomahawk')).toBeCloseTo(0.5, 5);
+        stepSeconds(gameClock, 2);
+        expect(loadout.canFire('tomahawk')).toBe(true);
+    });
+
+    it('restocks flares in flight but never bombs', () => {
+        const gameClock = new GameClock();
+        const loadout = new WeaponLoadout(DEFAULT_LOADOUT, gameClock);
+        const rearmInterval = WEAPON_SPECS.flare.rearmInterval!;
+
+        loadout.consume('flare');
+        loadout.consume('flare');
+        loadout.consume('bomb');
+        const tick = (seconds: number) => {
+            for (let i = 0; i < Math.round(seconds / gameClock.getFixedTimeStep()); i++) {
+                gameClock.step();
+                loadout.update();
+            }
+        };
+
+        tick(rearmInterval - 1);
+        expect(loadout.getRounds('flare')).toBe(WEAPON_SPECS.flare.roundsPerStation - 2);
+
+        tick(2);
+        expect(loadout.getRounds('flare')).toBe(WEAPON_SPECS.flare.roundsPerStation - 1);
+
+        tick(rearmInterval * 3);
+        expect(loadout.getRounds('flare')).toBe(WEAPON_SPECS.flare.roundsPerStation);
+        expect(loadout.getRounds('bomb')).toBe(loadout.getCapacity('bomb') - 1);
+    });
+
+    it('rejects selections with missing stations or weapons a station cannot mount', () => {
+        expect(WeaponLoadout.isValidSelection(DEFAULT_LOADOUT)).toBe(true);
+        expect(WeaponLoadout.isValidSelection({ ...DEFAULT_LOADOUT, dispensers: 'bomb' })).toBe(false);
+        expect(WeaponLoadout.isValidSelection({ 'bay-forward': 'bomb' })).toBe(false);
+        expect(WeaponLoadout.isValidSelection({ ...DEFAULT_LOADOUT, 'bay-extra': 'bomb' })).toBe(false);
+        expect(WeaponLoadout.isValidSelection(null)).toBe(false);
+        expect(() => new WeaponLoadout({ ...DEFAULT_LOADOUT, 'bay-aft': 'flare' }, new GameClock())).toThrow('Invalid weapon loadout');
+        expect(BOMBER_STATIONS.every(station => station.allowedWeapons.includes(DEFAULT_LOADOUT[station.id]))).toBe(true);
+    });
+
+    it('mounts chaff on recordings made before the chaff dispensers', () => {
+        const { 'chaff-dispensers': _chaff, ...legacyLoadout } = DEFAULT_LOADOUT;
+        const json = JSON.stringify({ version: 6, worldSeed: 1, fixedTimeStep: 1 / 60, tickCount: 0, inputs: [], events: [], loadout: legacyLoadout });
+
+        expect(FlightRecorder.parse(json).loadout).toEqual(DEFAULT_LOADOUT);
+        expect(() => FlightRecorder.parse(json.replace('"flare"', '"bomb"'))).toThrow('Malformed loadout');
+        expect(() => FlightRecorder.parse(json.replace('"version":6', '"version":7'))).toThrow('Malformed loadout');
+    });
+});
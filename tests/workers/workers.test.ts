@@ -0,0 +1,306 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ECM_PROFILE } from '../../src/utils/EcmJammer';
+import { TerrainGenerator } from '../../src/utils/TerrainGenerator';
+import { handleTerrainMessage } from '../../src/workers/terrain.handler';
+import { handleCollisionDetectionMessage } from '../../src/workers/collision-detection.handler';
+import { handleMissilePhysicsMessage } from '../../src/workers/missile-physics.handler';
+import { handleParticlePhysicsMessage } from '../../src/workers/particle-physics.handler';
+import { InProcessWorker, createInProcessWorker } from '../../src/workers/in-process-worker';
+import { WORKER_PROTOCOL_VERSION } from '../../src/workers/worker-protocol';
+
+// Collects everything a handler replies with
+function createReply() {
+    const replies: Array<{ message: any; transfer?: Transferable[] }> = [];
+    const reply = (message: any, transfer?: Transferable[]) => replies.push({ message, transfer });
+    return { replies, reply };
+}
+
+// Wraps a payload in the protocol envelope WorkerManager sends
+function request(type: string, data: unknown, messageId: string = 'msg_1') {
+    return { type, data, protocolVersion: WORKER_PROTOCOL_VERSION, messageId };
+}
+
+function createIskanderState(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'iskander_0',
+        missileType: 'iskander',
+        position: { x: 0, y: 100, z: 0 },
+        velocity: { x: 0, y: 0, z: 50 },
+        rotation: { x: 0, y: 0, z: 0 },
+        targetPosition: { x: 0, y: 100, z: 1000 },
+        speed: 100,
+        turnRate: 1.5,
+        isTargetingFlare: false,
+        flareDetectionRange: 80,
+        isLockedOn: false,
+        lockOnTime: 0,
+        lockOnDuration: 1,
+        lastTargetUpdateTime: 0,
+        targetUpdateInterval: 0.1,
+        bomberVisible: true,
+        bomberSignature: 1,
+        bomberJamming: false,
+        ...overrides
+    };
+}
+
+function createGuidanceBatch(missiles: unknown[]) {
+    return { tick: 1, deltaTime: 1 / 60, currentTime: 0, bomberPosition: { x: 0, y: 100, z: 1000 }, flares: [], chaff: [], ecm: ECM_PROFILE, missiles };
+}
+
+describe('terrain worker', () => {
+    it('replies with the generator heightmap, buildings and the request id', () => {
+        const { replies, reply } = createReply();
+        handleTerrainMessage(request('GENERATE_TERRAIN_CHUNK', { chunkX: 2, chunkZ: -1, chunkSize: 500, subdivisions: 64, seed: 99 }, 'terrain_7'), reply);
+
+        expect(replies).toHaveLength(1);
+        const { message, transfer } = replies[0];
+        const generator = new TerrainGenerator(99, 500, 64);
+        const expectedHeightmap = generator.generateHeightmap(2, -1);
+
+        expect(message.type).toBe('TERRAIN_CHUNK_READY');
+        expect(message.messageId).toBe('terrain_7');
+        expect(message.protocolVersion).toBe(WORKER_PROTOCOL_VERSION);
+        expect(message.data.chunkX).toBe(2);
+        expect(message.data.chunkZ).toBe(-1);
+        expect(Array.from(message.data.heightmap)).toEqual(Array.from(expectedHeightmap));
+        expect(message.data.buildingConfigs).toEqual(generator.generateBuildings(2, -1, expectedHeightmap));
+        expect(transfer).toEqual([message.data.heightmap.buffer]);
+    });
+
+    it('traces line of sight queries against the heightmaps and buildings sent with them', () => {
+        const { replies, reply } = createReply();
+        const heights = new Float32Array(65 * 65);
+        const building = { min: { x: 150, y: 0, z: 40 }, max: { x: 160, y: 50, z: 60 } };
+        handleTerrainMessage(request('TRACE_LINE_OF_SIGHT', {
+            chunkSize: 500,
+            subdivisions: 64,
+            seed: 99,
+            heightmaps: [{ chunkX: 0, chunkZ: 0, heights }],
+            buildings: [building],
+            queries: [
+                { from: { x: 50, y: 10, z: 50 }, to: { x: 200, y: 10, z: 50 } },
+                { from: { x: 50, y: 10, z: 10 }, to: { x: 200, y: 10, z: 10 } }
+            ]
+        }, 'los_1'), reply);
+
+        const { message, transfer } = replies[0];
+        expect(message.type).toBe('LINE_OF_SIGHT_RESULT');
+        expect(message.messageId).toBe('los_1');
+        expect(message.data.results).toEqual([
+            { visible: false, occludingPoint: { x: 150, y: 10, z: 50 }, occluder: 'building' },
+            { visible: true, occludingPoint: null, occluder: null }
+        ]);
+        expect(transfer).toBeUndefined(); // The terrain cache keeps its heightmaps
+    });
+});
+
+describe('collision detection worker', () => {
+    it('detects sphere-box collisions between bombs and buildings', () => {
+        const { replies, reply } = createReply();
+        handleCollisionDetectionMessage(request('DETECT_COLLISIONS', {
+            objects: [
+                { id: 'bomb_1', position: { x: 0, y: 5, z: 0 }, radius: 1, type: 'bomb', bounds: { min: { x: -1, y: 4, z: -1 }, max: { x: 1, y: 6, z: 1 } } },
+                { id: 'building_1', position: { x: 0, y: 0, z: 0 }, type: 'building', bounds: { min: { x: -5, y: 0, z: -5 }, max: { x: 5, y: 10, z: 5 } } },
+                { id: 'building_2', position: { x: 60, y: 0, z: 0 }, type: 'building', bounds: { min: { x: 55, y: 0, z: -5 }, max: { x: 65, y: 10, z: 5 } } }
+            ]
+        }), reply);
+
+        const { message } = replies[0];
+        expect(message.type).toBe('COLLISION_RESULTS');
+        const bombResult = message.data.results.find((result: any) => result.objectId === 'bomb_1');
+        expect(bombResult.collidedWith).toEqual(['building_1']);
+        expect(message.data.results.find((result: any) => result.objectId === 'building_2')).toBeUndefined();
+    });
+
+    it('checks a specific pair of spheres', () => {
+        const { replies, reply } = createReply();
+        const sphere = (id: string, x: number) => ({ id, position: { x, y: 0, z: 0 }, radius: 2, type: 'missile', bounds: { min: { x, y: 0, z: 0 }, max: { x, y: 0, z: 0 } } });
+
+        handleCollisionDetectionMessage(request('CHECK_SPECIFIC_COLLISION', { object1: sphere('a', 0), object2: sphere('b', 3) }), reply);
+        handleCollisionDetectionMessage(request('CHECK_SPECIFIC_COLLISION', { object1: sphere('a', 0), object2: sphere('b', 5) }), reply);
+
+        expect(replies[0].message.type).toBe('SPECIFIC_COLLISION_RESULT');
+        expect(replies[0].message.data.collision.penetrationDepth).toBeCloseTo(1);
+        expect(replies[1].message.data.collision).toBeNull();
+    });
+
+    it('returns only live defense launchers within the radius', () => {
+        const { replies, reply } = createReply();
+        const building = (id: string, x: number, isDefenseLauncher: boolean, isDestroyed: boolean) =>
+            ({ id, position: { x, y: 0, z: 0 }, width: 10, height: 10, depth: 10, isTarget: false, isDefenseLauncher, isDestroyed });
+
+        handleCollisionDetectionMessage(request('GET_BUILDINGS_IN_RADIUS', {
+            bomberPosition: { x: 0, y: 0, z: 0 },
+            radius: 100,
+            buildings: [
+                building('launcher', 50, true, false),
+                building('destroyed', 40, true, true),
+                building('house', 20, false, false),
+                building('distant', 150, true, false)
+            ]
+        }), reply);
+
+        expect(replies[0].message.type).toBe('BUILDINGS_IN_RADIUS_RESULT');
+        expect(replies[0].message.data.buildingsInRadius).toEqual([{ buildingId: 'launcher', distance: 50 }]);
+    });
+
+    it('replies to unknown message types with an error', () => {
+        const { replies, reply } = createReply();
+        handleCollisionDetectionMessage(request('UNKNOWN', {}, 'msg_9'), reply);
+
+        expect(replies).toHaveLength(1);
+        expect(replies[0].message).toEqual({
+            type: 'WORKER_ERROR',
+            protocolVersion: WORKER_PROTOCOL_VERSION,
+            messageId: 'msg_9',
+            data: { code: 'UNSUPPORTED_REQUEST', message: 'Unsupported request type: UNKNOWN', requestType: 'UNKNOWN' }
+        });
+    });
+});
+
+describe('missile physics worker', () => {
+    it('steps every missile in a batch in request order', () => {
+        const { replies, reply } = createReply();
+        const missiles = [createIskanderState(), createIskanderState({ id: 'iskander_1', position: { x: 0, y: 100, z: 500 } })];
+        handleMissilePhysicsMessage(request('BATCH_UPDATE_MISSILES', createGuidanceBatch(missiles)), reply);
+
+        expect(replies[0].message.type).toBe('BATCH_MISSILE_PHYSICS_RESULT');
+        const { tick, results } = replies[0].message.data;
+        expect(tick).toBe(1);
+        expect(results.map((result: any) => result.state.id)).toEqual(['iskander_0', 'iskander_1']);
+        expect(results[0].state.position.z).toBeGreaterThan(0);
+        expect(results[1].state.position.z).toBeGreaterThan(500);
+        expect(results[0].state.lockOnTime).toBeGreaterThan(0);
+    });
+
+    it('flags missiles that reach their target', () => {
+        const { replies, reply } = createReply();
+        handleMissilePhysicsMessage(request('BATCH_UPDATE_MISSILES', createGuidanceBatch([createIskanderState({ targetPosition: { x: 0, y: 100, z: 2 } })])), reply);
+
+        expect(replies[0].message.data.results[0].shouldExplode).toBe(true);
+    });
+});
+
+describe('particle physics worker', () => {
+    it('creates the requested number of particles at the emitter', () => {
+        const { replies, reply } = createReply();
+        handleParticlePhysicsMessage(request('CREATE_PARTICLES', { emitterPosition: { x: 1, y: 2, z: 3 }, emitterVelocity: { x: 0, y: 1, z: 0 }, particleType: 'spark', count: 12, spread: 0.5, speed: 10 }), reply);
+
+        expect(replies[0].message.type).toBe('PARTICLES_CREATED');
+        const particles = replies[0].message.data.particles;
+        expect(particles).toHaveLength(12);
+        particles.forEach((particle: any) => {
+            expect(particle.position).toEqual({ x: 1, y: 2, z: 3 });
+            expect(particle.type).toBe('spark');
+            expect(particle.life).toBe(0);
+        });
+    });
+
+    it('expires particles past their lifetime', () => {
+        const { replies, reply } = createReply();
+        const particle = (id: string, life: number) => ({
+            id, position: { x: 0, y: 0, z: 0 }, velocity: { x: 0, y: 1, z: 0 },
+            color: { r: 1, g: 1, b: 1, a: 1 }, size: 1, life, maxLife: 1, type: 'smoke'
+        });
+
+        handleParticlePhysicsMessage(request('UPDATE_PARTICLE_PHYSICS', { particles: [particle('young', 0), particle('old', 0.99)], gravity: { x: 0, y: -9.8, z: 0 }, wind: { x: 0, y: 0, z: 0 }, turbulence: 0, deltaTime: 0.1, maxParticles: 100 }), reply);
+
+        const result = replies[0].message.data;
+        expect(replies[0].message.type).toBe('PARTICLE_PHYSICS_RESULT');
+        expect(result.expiredParticles).toEqual(['old']);
+        expect(result.particles.map((p: any) => p.id)).toEqual(['young']);
+    });
+});
+
+describe('worker protocol', () => {
+    const handlers = [handleTerrainMessage, handleCollisionDetectionMessage, handleMissilePhysicsMessage, handleParticlePhysicsMessage];
+
+    it('rejects requests from another protocol version', () => {
+        handlers.forEach(handler => {
+            const { replies, reply } = createReply();
+            handler({ ...request('DETECT_COLLISIONS', { objects: [] }, 'msg_3'), protocolVersion: WORKER_PROTOCOL_VERSION + 1 }, reply);
+
+            expect(replies).toHaveLength(1);
+            expect(replies[0].message.type).toBe('WORKER_ERROR');
+            expect(replies[0].message.messageId).toBe('msg_3');
+            expect(replies[0].message.data.code).toBe('PROTOCOL_VERSION_MISMATCH');
+        });
+    });
+
+    it('reports handler failures instead of staying silent', () => {
+        const { replies, reply } = createReply();
+        handleMissilePhysicsMessage(request('BATCH_UPDATE_MISSILES', {}, 'msg_4'), reply); // missiles array missing
+
+        expect(replies[0].message.type).toBe('WORKER_ERROR');
+        expect(replies[0].message.messageId).toBe('msg_4');
+        expect(replies[0].message.data.code).toBe('HANDLER_FAILED');
+        expect(replies[0].message.data.requestType).toBe('BATCH_UPDATE_MISSILES');
+    });
+
+    it('only serves requests meant for each worker', () => {
+        const { replies, reply } = createReply();
+        handleTerrainMessage(request('DETECT_COLLISIONS', { objects: [] }), reply);
+        expect(replies[0].message.data.code).toBe('UNSUPPORTED_REQUEST');
+    });
+});
+
+describe('worker entry points', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.resetModules();
+    });
+
+    const entryPoints = [
+        { file: '../../src/workers/terrain.worker', message: request('GENERATE_TERRAIN_CHUNK', { chunkX: 0, chunkZ: 0, chunkSize: 500, subdivisions: 8, seed: 1 }), replyType: 'TERRAIN_CHUNK_READY' },
+        { file: '../../src/workers/collision-detection.worker', message: request('DETECT_COLLISIONS', { objects: [] }), replyType: 'COLLISION_RESULTS' },
+        { file: '../../src/workers/missile-physics.worker', message: request('BATCH_UPDATE_MISSILES', createGuidanceBatch([])), replyType: 'BATCH_MISSILE_PHYSICS_RESULT' },
+        { file: '../../src/workers/particle-physics.worker', message: request('CREATE_PARTICLES', { emitterPosition: { x: 0, y: 0, z: 0 }, emitterVelocity: { x: 0, y: 1, z: 0 }, particleType: 'fire', count: 1, spread: 0, speed: 1 }), replyType: 'PARTICLES_CREATED' }
+    ];
+
+    entryPoints.forEach(({ file, message, replyType }) => {
+        it(`${file.split('/').pop()} routes self.onmessage to its handler`, async () => {
+            const workerScope: { onmessage: ((event: any) => void) | null; postMessage: ReturnType<typeof vi.fn> } = { onmessage: null, postMessage: vi.fn() };
+            vi.stubGlobal('self', workerScope);
+
+            await import(file);
+            expect(workerScope.onmessage).toBeTypeOf('function');
+
+            workerScope.onmessage!({ data: message });
+            expect(workerScope.postMessage).toHaveBeenCalledTimes(1);
+            expect(workerScope.postMessage.mock.calls[0][0].type).toBe(replyType);
+            expect(workerScope.postMessage.mock.calls[0][0].messageId).toBe('msg_1');
+        });
+    });
+});
+
+describe('in-process worker', () => {
+    it('delivers replies asynchronously through onmessage', async () => {
+        const worker = createInProcessWorker('collisionDetection');
+        const received: any[] = [];
+        worker.onmessage = (event: MessageEvent) => received.push(event.data);
+
+        worker.postMessage(request('DETECT_COLLISIONS', { objects: [] }));
+        expect(received).toHaveLength(0);
+
+        await Promise.resolve();
+        await Promise.resolve();
+        expect(received).toEqual([{ type: 'COLLISION_RESULTS', data: { results: [] }, protocolVersion: WORKER_PROTOCOL_VERSION, messageId: 'msg_1' }]);
+    });
+
+    it('reports handler exceptions through onerror and drops messages after terminate', async () => {
+        const worker = new InProcessWorker(() => { throw new Error('boom'); });
+        const errors: ErrorEvent[] = [];
+        worker.onerror = (event: ErrorEvent) => errors.push(event);
+
+        worker.postMessage({});
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(errors).toHaveLength(1);
+        expect(errors[0].message).toContain('boom');
+
+        worker.terminate();
+        worker.postMessage({});
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(errors).toHaveLength(1);
+    });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Simulation, terrain and worker tests run under Node; Babylon types load without a GPU or canvas
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+  },
+});
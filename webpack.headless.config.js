@@ -0,0 +1,24 @@
+const path = require('path');
+
+// Node bundle for headless simulation (NullEngine + in-process workers)
+module.exports = {
+  target: 'node',
+  entry: './src/headless/simulate.ts',
+  output: {
+    filename: 'simulate.js',
+    path: path.resolve(__dirname, 'dist-headless'),
+    clean: true,
+  },
+  resolve: {
+    extensions: ['.ts', '.js'],
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        use: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+};